@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "DocumentProcessingStatus" AS ENUM ('QUEUED', 'EXTRACTING', 'EMBEDDING', 'ANALYZING', 'ANALYZED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN "processingStatus" "DocumentProcessingStatus" NOT NULL DEFAULT 'QUEUED',
+ADD COLUMN "processingError" TEXT;
+
+-- Documents uploaded before the pipeline existed were processed inline
+UPDATE "documents" SET "processingStatus" = 'ANALYZED' WHERE "content" IS NOT NULL;
+
+-- The rest never got text out and no job exists for them; a re-run of the
+-- extract stage picks them up
+UPDATE "documents" SET "processingStatus" = 'FAILED', "processingError" = 'Uploaded before background processing; re-run the extract stage' WHERE "content" IS NULL;
+
+-- CreateIndex
+CREATE INDEX "documents_processingStatus_idx" ON "documents"("processingStatus");
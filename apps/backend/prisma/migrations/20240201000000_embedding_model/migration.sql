@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "document_embeddings" ADD COLUMN "model" TEXT NOT NULL DEFAULT 'unknown',
+ADD COLUMN "dimension" INTEGER NOT NULL DEFAULT 0;
+
+-- Existing rows recorded the model in metadata; the dimension comes from the stored vector
+UPDATE "document_embeddings"
+SET "model" = COALESCE("metadata"->>'model', 'unknown'),
+    "dimension" = COALESCE(array_length(string_to_array(trim(both '[]' from "embedding"), ','), 1), 0);
+
+-- CreateIndex
+CREATE INDEX "document_embeddings_model_dimension_idx" ON "document_embeddings"("model", "dimension");
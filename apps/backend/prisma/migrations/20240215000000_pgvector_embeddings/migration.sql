@@ -0,0 +1,17 @@
+-- AlterTable
+-- Convert the text column into a pgvector column. The size is left open so local
+-- and OpenAI embeddings can share the table; rows with an empty vector become NULL.
+ALTER TABLE "document_embeddings" ALTER COLUMN "embedding" DROP NOT NULL;
+
+ALTER TABLE "document_embeddings"
+ALTER COLUMN "embedding" TYPE vector
+USING CASE WHEN "dimension" > 0 THEN "embedding"::vector ELSE NULL END;
+
+-- CreateIndex
+-- Partial HNSW indexes for the default local (512) and OpenAI (1536) sizes. Other
+-- sizes are indexed at startup, see VectorService.checkVectorSupport.
+CREATE INDEX "document_embeddings_embedding_512_idx" ON "document_embeddings"
+USING hnsw (("embedding"::vector(512)) vector_cosine_ops) WHERE "dimension" = 512;
+
+CREATE INDEX "document_embeddings_embedding_1536_idx" ON "document_embeddings"
+USING hnsw (("embedding"::vector(1536)) vector_cosine_ops) WHERE "dimension" = 1536;
@@ -0,0 +1,4 @@
+-- CreateIndex
+-- Full-text index used by hybrid retrieval alongside the vector indexes
+CREATE INDEX "document_embeddings_content_fts_idx" ON "document_embeddings"
+USING gin (to_tsvector('english', "content"));
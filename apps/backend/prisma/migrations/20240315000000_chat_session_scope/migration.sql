@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "ChatSessionScope" AS ENUM ('DOCUMENT', 'DOCUMENTS', 'SELECTION', 'WORKSPACE');
+
+-- AlterTable
+ALTER TABLE "chat_sessions" ADD COLUMN "workspaceId" TEXT,
+ADD COLUMN "scope" "ChatSessionScope" NOT NULL DEFAULT 'DOCUMENT',
+ADD COLUMN "documentIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "selection" JSONB,
+ALTER COLUMN "documentId" DROP NOT NULL;
+
+-- Existing sessions cover a single document in that document's workspace
+UPDATE "chat_sessions" AS s
+SET "workspaceId" = d."workspaceId", "documentIds" = ARRAY[d."id"]
+FROM "documents" AS d
+WHERE d."id" = s."documentId";
+
+ALTER TABLE "chat_sessions" ALTER COLUMN "workspaceId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "chat_sessions_workspaceId_idx" ON "chat_sessions"("workspaceId");
+
+-- AddForeignKey
+ALTER TABLE "chat_sessions" ADD CONSTRAINT "chat_sessions_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
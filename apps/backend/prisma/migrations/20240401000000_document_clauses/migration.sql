@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "ClauseType" AS ENUM ('GOVERNING_LAW', 'DISPUTE_RESOLUTION', 'INDEMNIFICATION', 'LIMITATION_OF_LIABILITY', 'TERMINATION', 'CONFIDENTIALITY', 'ASSIGNMENT', 'AUTO_RENEWAL', 'PAYMENT_TERMS', 'INTELLECTUAL_PROPERTY', 'WARRANTY', 'FORCE_MAJEURE', 'NON_COMPETE', 'NON_SOLICITATION', 'NOTICES', 'DATA_PROTECTION', 'INSURANCE');
+
+-- CreateTable
+CREATE TABLE "document_clauses" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "type" "ClauseType" NOT NULL,
+    "title" TEXT,
+    "section" TEXT,
+    "text" TEXT NOT NULL,
+    "startOffset" INTEGER NOT NULL,
+    "endOffset" INTEGER NOT NULL,
+    "pageNumber" INTEGER,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "extractor" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "document_clauses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "document_clauses_documentId_idx" ON "document_clauses"("documentId");
+
+-- CreateIndex
+CREATE INDEX "document_clauses_type_idx" ON "document_clauses"("type");
+
+-- AddForeignKey
+ALTER TABLE "document_clauses" ADD CONSTRAINT "document_clauses_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
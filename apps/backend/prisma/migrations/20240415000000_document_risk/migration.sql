@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "RiskLevel" AS ENUM ('LOW', 'MEDIUM', 'HIGH');
+
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN "riskScore" DOUBLE PRECISION,
+ADD COLUMN "riskLevel" "RiskLevel";
+
+-- CreateIndex
+CREATE INDEX "documents_riskLevel_idx" ON "documents"("riskLevel");
@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "ObligationKind" AS ENUM ('PAYMENT', 'NOTICE', 'RENEWAL', 'TERMINATION', 'DELIVERY', 'REPORTING', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "ObligationStatus" AS ENUM ('OPEN', 'COMPLETED', 'WAIVED');
+
+-- CreateTable
+CREATE TABLE "obligations" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "kind" "ObligationKind" NOT NULL,
+    "status" "ObligationStatus" NOT NULL DEFAULT 'OPEN',
+    "party" TEXT,
+    "action" TEXT NOT NULL,
+    "dueDate" TIMESTAMP(3),
+    "trigger" TEXT,
+    "text" TEXT NOT NULL,
+    "startOffset" INTEGER NOT NULL,
+    "endOffset" INTEGER NOT NULL,
+    "pageNumber" INTEGER,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "extractor" TEXT NOT NULL,
+    "notifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "obligations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notifications" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "workspaceId" TEXT,
+    "type" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "entityType" TEXT,
+    "entityId" TEXT,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "obligations_documentId_idx" ON "obligations"("documentId");
+
+-- CreateIndex
+CREATE INDEX "obligations_workspaceId_dueDate_idx" ON "obligations"("workspaceId", "dueDate");
+
+-- CreateIndex
+CREATE INDEX "obligations_status_dueDate_idx" ON "obligations"("status", "dueDate");
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_readAt_idx" ON "notifications"("userId", "readAt");
+
+-- AddForeignKey
+ALTER TABLE "obligations" ADD CONSTRAINT "obligations_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "obligations" ADD CONSTRAINT "obligations_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
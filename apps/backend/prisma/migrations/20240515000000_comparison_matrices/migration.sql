@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "comparison_matrices" (
+    "id" TEXT NOT NULL,
+    "title" TEXT,
+    "results" JSONB NOT NULL,
+    "performedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "comparison_matrices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "comparison_matrix_documents" (
+    "matrixId" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "comparison_matrix_documents_pkey" PRIMARY KEY ("matrixId","documentId")
+);
+
+-- CreateIndex
+CREATE INDEX "comparison_matrices_performedById_idx" ON "comparison_matrices"("performedById");
+
+-- CreateIndex
+CREATE INDEX "comparison_matrix_documents_documentId_idx" ON "comparison_matrix_documents"("documentId");
+
+-- AddForeignKey
+ALTER TABLE "comparison_matrices" ADD CONSTRAINT "comparison_matrices_performedById_fkey" FOREIGN KEY ("performedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comparison_matrix_documents" ADD CONSTRAINT "comparison_matrix_documents_matrixId_fkey" FOREIGN KEY ("matrixId") REFERENCES "comparison_matrices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comparison_matrix_documents" ADD CONSTRAINT "comparison_matrix_documents_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN     "versionGroupId" TEXT,
+ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "isCurrentVersion" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "documents_versionGroupId_version_key" ON "documents"("versionGroupId", "version");
@@ -0,0 +1,23 @@
+-- DropIndex
+DROP INDEX IF EXISTS "documents_hash_key";
+
+-- CreateTable
+CREATE TABLE "stored_files" (
+    "hash" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "refCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stored_files_pkey" PRIMARY KEY ("hash")
+);
+
+-- CreateIndex
+CREATE INDEX "documents_workspaceId_hash_idx" ON "documents"("workspaceId", "hash");
+
+-- Existing uploads keep their files, with one reference per document
+INSERT INTO "stored_files" ("hash", "filename", "size", "refCount")
+SELECT "hash", MIN("metadata"->>'filename'), COALESCE(MAX(("metadata"->>'size')::INTEGER), 0), COUNT(*)
+FROM "documents"
+WHERE "metadata"->>'filename' IS NOT NULL
+GROUP BY "hash";
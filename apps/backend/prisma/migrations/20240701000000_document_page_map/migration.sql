@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN     "pageMap" JSONB;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN     "parentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "documents_parentId_idx" ON "documents"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "documents" ADD CONSTRAINT "documents_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -17,6 +17,10 @@ import documentRoutes from '@/routes/documentRoutes'
 import chatRoutes from '@/routes/chatRoutes'
 import comparisonRoutes from '@/routes/comparisonRoutes'
 import analyticsRoutes from '@/routes/analyticsRoutes'
+import notificationRoutes from '@/routes/notificationRoutes'
+import { documentPipeline } from '@/services/DocumentPipelineService'
+import { deadlineReminder } from '@/services/obligations/DeadlineReminder'
+import { VectorService, getVectorStatus } from '@/services/VectorService'
 import { logger } from '@/utils/logger'
 
 // Load environment variables from root .env file
@@ -87,6 +91,7 @@ app.get('/health', (req, res) => {
     status: 'healthy',
     timestamp: new Date().toISOString(),
     version: process.env.npm_package_version || '1.0.0',
+    vectorSearch: getVectorStatus(),
   })
 })
 
@@ -97,6 +102,7 @@ app.use('/api/documents', authMiddleware, documentRoutes)
 app.use('/api/chat', authMiddleware, chatRoutes)
 app.use('/api/comparisons', authMiddleware, comparisonRoutes)
 app.use('/api/analytics', authMiddleware, analyticsRoutes)
+app.use('/api/notifications', authMiddleware, notificationRoutes)
 
 // Root route handler
 app.get('/', (req, res) => {
@@ -149,6 +155,19 @@ async function startServer() {
     await prisma.$connect()
     logger.info('Connected to database')
 
+    // Report whether semantic search runs on pgvector or falls back to text search
+    await new VectorService().checkVectorSupport()
+
+    // Start background document processing
+    if (process.env.DOCUMENT_WORKER_ENABLED !== 'false') {
+      await documentPipeline.start()
+    }
+
+    // Notify workspaces of obligations falling due
+    if (process.env.DEADLINE_REMINDERS_ENABLED !== 'false') {
+      deadlineReminder.start()
+    }
+
     // Start server
     app.listen(PORT, () => {
       logger.info(`Server running on port ${PORT}`)
@@ -165,6 +184,8 @@ process.on('SIGINT', async () => {
   logger.info('Shutting down gracefully...')
   
   try {
+    await documentPipeline.stop()
+    deadlineReminder.stop()
     await redis.disconnect()
     await prisma.$disconnect()
     logger.info('Cleanup completed')
@@ -179,6 +200,8 @@ process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully...')
   
   try {
+    await documentPipeline.stop()
+    deadlineReminder.stop()
     await redis.disconnect()
     await prisma.$disconnect()
     logger.info('Cleanup completed')
@@ -1,15 +1,16 @@
-import { Router } from 'express'
+import { Router, Request, Response, NextFunction } from 'express'
 import { body, query, validationResult } from 'express-validator'
 import { ChatService } from '@/services/ChatService'
 import { authMiddleware, AuthenticatedRequest } from '@/middleware/authMiddleware'
 import { AppError } from '@/middleware/errorHandler'
-import { CreateChatSessionSchema, CreateChatMessageSchema } from '@shared'
+import { CreateChatSessionSchema, CreateChatMessageSchema, ChatSessionScope, ChatStreamEvent } from '@shared'
 
 const router = Router()
 const chatService = new ChatService()
 
 // Get chat sessions
 router.get('/sessions', [
+  query('workspaceId').optional().isString(),
   query('documentId').optional().isString(),
   query('page').optional().isInt({ min: 1 }),
   query('limit').optional().isInt({ min: 1, max: 100 }),
@@ -21,6 +22,7 @@ router.get('/sessions', [
     }
 
     const {
+      workspaceId,
       documentId,
       page = 1,
       limit = 20,
@@ -29,6 +31,7 @@ router.get('/sessions', [
     const result = await chatService.getChatSessions({
       userId: req.user!.id,
       userRole: req.user!.role,
+      workspaceId: workspaceId as string,
       documentId: documentId as string,
       page: parseInt(page as string),
       limit: parseInt(limit as string),
@@ -49,9 +52,14 @@ router.get('/sessions', [
   }
 })
 
-// Create chat session
+// Create chat session over one document, a document set, a tag/category
+// selection or a whole workspace
 router.post('/sessions', [
-  body('documentId').isString().notEmpty(),
+  body('scope').optional().isIn(Object.values(ChatSessionScope)),
+  body('workspaceId').optional().isString().notEmpty(),
+  body('documentId').optional().isString().notEmpty(),
+  body('documentIds').optional().isArray({ min: 1, max: 100 }),
+  body('selection').optional().isObject(),
   body('title').optional().isString().trim(),
 ], async (req: AuthenticatedRequest, res, next) => {
   try {
@@ -165,6 +173,91 @@ router.post('/messages', [
   }
 })
 
+// Stream a chat reply as server-sent events (see ChatStreamEvent). Closing the
+// connection cancels generation; the partial answer is still stored.
+router.post('/messages/stream', [
+  body('sessionId').isString().notEmpty(),
+  body('content').isString().trim().isLength({ min: 1 }),
+], async (req: Request, res: Response, next: NextFunction) => {
+  const authReq = req as AuthenticatedRequest
+  const controller = new AbortController()
+  let heartbeat: NodeJS.Timeout | undefined
+
+  // Headers go out with the first event so earlier failures still get a JSON error
+  const send = (event: ChatStreamEvent) => {
+    if (res.destroyed) {
+      return
+    }
+    if (!res.headersSent) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        // no-transform keeps the compression middleware from buffering events
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      })
+      heartbeat = setInterval(() => res.write(': ping\n\n'), 15000)
+    }
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`)
+  }
+
+  res.on('close', () => {
+    clearInterval(heartbeat)
+    if (!res.writableEnded) {
+      controller.abort()
+    }
+  })
+
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, 'VALIDATION_ERROR', errors.array())
+    }
+
+    const messageData = CreateChatMessageSchema.parse(req.body)
+
+    await chatService.streamMessage({
+      ...messageData,
+      userId: authReq.user!.id,
+      userRole: authReq.user!.role,
+    }, send, controller.signal)
+
+    res.end()
+  } catch (error) {
+    if (!res.headersSent) {
+      return next(error)
+    }
+
+    send({
+      type: 'error',
+      data: {
+        code: error instanceof AppError ? error.code : 'MESSAGE_SEND_ERROR',
+        message: error instanceof AppError ? error.message : 'Failed to send message',
+      },
+    })
+    res.end()
+  }
+})
+
+// Cancel the reply being streamed in a chat session
+router.post('/sessions/:id/cancel', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest
+    const cancelled = await chatService.cancelGeneration(
+      req.params.id,
+      authReq.user!.id,
+      authReq.user!.role
+    )
+
+    res.status(200).json({
+      success: true,
+      data: { cancelled },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
 // Delete chat session
 router.delete('/sessions/:id', async (req: AuthenticatedRequest, res, next) => {
   try {
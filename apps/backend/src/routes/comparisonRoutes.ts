@@ -1,12 +1,15 @@
-import { Router } from 'express'
+import { NextFunction, Request, Response, Router } from 'express'
 import { body, query, validationResult } from 'express-validator'
 import { ComparisonService } from '@/services/ComparisonService'
+import { ComparisonMatrixService } from '@/services/ComparisonMatrixService'
 import { authMiddleware, AuthenticatedRequest } from '@/middleware/authMiddleware'
 import { AppError } from '@/middleware/errorHandler'
-import { CreateComparisonSchema } from '@shared'
+import { RedlineFormat } from '@/services/redline/Redline'
+import { CreateComparisonMatrixSchema, CreateComparisonSchema } from '@shared'
 
 const router = Router()
 const comparisonService = new ComparisonService()
+const matrixService = new ComparisonMatrixService()
 
 // Get comparisons
 router.get('/', [
@@ -77,6 +80,133 @@ router.post('/', [
   }
 })
 
+// Get multi-document comparisons
+router.get('/matrix', [
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  query('documentId').optional().isString(),
+], async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, 'VALIDATION_ERROR', errors.array())
+    }
+
+    const { page = 1, limit = 20, documentId } = req.query
+
+    const result = await matrixService.getMatrices({
+      userId: authReq.user!.id,
+      userRole: authReq.user!.role,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+      documentId: documentId as string | undefined,
+    })
+
+    res.status(200).json({
+      success: true,
+      data: result.matrices,
+      pagination: {
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+        total: result.total,
+        pages: Math.ceil(result.total / parseInt(limit as string)),
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Compare three or more documents as a clause-by-document matrix
+router.post('/matrix', [
+  body('documentIds').isArray({ min: 3, max: 10 }),
+  body('documentIds.*').isString().notEmpty(),
+  body('title').optional().isString(),
+], async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, 'VALIDATION_ERROR', errors.array())
+    }
+
+    const matrixData = CreateComparisonMatrixSchema.parse(req.body)
+
+    const matrix = await matrixService.createMatrix({
+      ...matrixData,
+      userId: authReq.user!.id,
+      userRole: authReq.user!.role,
+    })
+
+    res.status(201).json({
+      success: true,
+      data: matrix,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Get multi-document comparison by ID
+router.get('/matrix/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest
+    const matrix = await matrixService.getMatrixById(req.params.id, authReq.user!.id, authReq.user!.role)
+
+    res.status(200).json({
+      success: true,
+      data: matrix,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Delete multi-document comparison
+router.delete('/matrix/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest
+    await matrixService.deleteMatrix(req.params.id, authReq.user!.id, authReq.user!.role)
+
+    res.status(200).json({
+      success: true,
+      data: {
+        message: 'Comparison deleted successfully',
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Export the matrix as a table document
+router.get('/matrix/:id/export', [
+  query('format').optional().isIn(['docx', 'pdf', 'html']),
+], async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, 'VALIDATION_ERROR', errors.array())
+    }
+
+    const { format = 'docx' } = req.query
+    const exported = await matrixService.exportMatrix(
+      req.params.id,
+      authReq.user!.id,
+      authReq.user!.role,
+      format as RedlineFormat
+    )
+
+    res.setHeader('Content-Type', exported.contentType)
+    res.setHeader('Content-Disposition', `attachment; filename="${exported.filename}"`)
+    res.send(exported.content)
+  } catch (error) {
+    next(error)
+  }
+})
+
 // Get comparison by ID
 router.get('/:id', async (req: AuthenticatedRequest, res, next) => {
   try {
@@ -137,6 +267,33 @@ router.get('/:id/analysis', async (req: AuthenticatedRequest, res, next) => {
   }
 })
 
+// Redline export: insertions underlined, deletions struck through, after a summary cover page
+router.get('/:id/export', [
+  query('format').optional().isIn(['docx', 'pdf', 'html']),
+], async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, 'VALIDATION_ERROR', errors.array())
+    }
+
+    const { format = 'docx' } = req.query
+    const redline = await comparisonService.exportComparison(
+      req.params.id,
+      authReq.user!.id,
+      authReq.user!.role,
+      format as RedlineFormat
+    )
+
+    res.setHeader('Content-Type', redline.contentType)
+    res.setHeader('Content-Disposition', `attachment; filename="${redline.filename}"`)
+    res.send(redline.content)
+  } catch (error) {
+    next(error)
+  }
+})
+
 // Regenerate comparison analysis
 router.post('/:id/reanalyze', async (req: AuthenticatedRequest, res, next) => {
   try {
@@ -1,15 +1,31 @@
 import { Router, Request, Response, NextFunction } from 'express'
 import multer from 'multer'
-import { body, query, validationResult } from 'express-validator'
+import { body, param, query, validationResult } from 'express-validator'
 import { DocumentService } from '@/services/DocumentService'
 import { StorageService } from '@/services/StorageService'
+import { ClauseService } from '@/services/ClauseService'
+import { RiskService } from '@/services/RiskService'
+import { ObligationService } from '@/services/ObligationService'
 import { authMiddleware, AuthenticatedRequest, requireWorkspaceAccess } from '@/middleware/authMiddleware'
 import { AppError } from '@/middleware/errorHandler'
-import { CreateDocumentSchema, UpdateDocumentSchema, DocumentCategory } from '@shared'
+import {
+  CreateDocumentSchema,
+  CreateDocumentVersionSchema,
+  UpdateDocumentSchema,
+  ClauseType,
+  DocumentCategory,
+  DocumentPipelineStage,
+  DuplicateAction,
+  ObligationStatus,
+  RiskLevel,
+} from '@shared'
 
 const router = Router()
 const documentService = new DocumentService()
 const storageService = new StorageService()
+const clauseService = new ClauseService()
+const riskService = new RiskService()
+const obligationService = new ObligationService()
 
 // Configure multer for file uploads
 const upload = multer({
@@ -18,7 +34,7 @@ const upload = multer({
     fileSize: parseInt(process.env.MAX_FILE_SIZE || '52428800'), // 50MB default
   },
   fileFilter: (req, file, cb) => {
-    const allowedTypes = (process.env.ALLOWED_FILE_TYPES || 'pdf,doc,docx,txt').split(',')
+    const allowedTypes = (process.env.ALLOWED_FILE_TYPES || 'pdf,doc,docx,odt,rtf,html,htm,md,markdown,txt,eml,msg,png,jpg,jpeg,tif,tiff').split(',')
     const fileExtension = file.originalname.split('.').pop()?.toLowerCase()
     
     if (fileExtension && allowedTypes.includes(fileExtension)) {
@@ -36,7 +52,10 @@ router.get('/', [
   query('search').optional().isString(),
   query('category').optional().isIn(Object.values(DocumentCategory)),
   query('workspaceId').optional().isString(),
-  query('sortBy').optional().isIn(['createdAt', 'updatedAt', 'title', 'category']),
+  query('riskLevel').optional().isIn(Object.values(RiskLevel)),
+  query('minRiskScore').optional().isFloat({ min: 0, max: 100 }),
+  query('maxRiskScore').optional().isFloat({ min: 0, max: 100 }),
+  query('sortBy').optional().isIn(['createdAt', 'updatedAt', 'title', 'category', 'riskScore']),
   query('sortOrder').optional().isIn(['asc', 'desc']),
 ], authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
   const authReq = req as AuthenticatedRequest
@@ -52,6 +71,9 @@ router.get('/', [
       search,
       category,
       workspaceId,
+      riskLevel,
+      minRiskScore,
+      maxRiskScore,
       sortBy = 'createdAt',
       sortOrder = 'desc',
     } = req.query
@@ -64,6 +86,9 @@ router.get('/', [
       search: search as string,
       category: category as DocumentCategory,
       workspaceId: workspaceId as string,
+      riskLevel: riskLevel as RiskLevel,
+      minRiskScore: minRiskScore !== undefined ? parseFloat(minRiskScore as string) : undefined,
+      maxRiskScore: maxRiskScore !== undefined ? parseFloat(maxRiskScore as string) : undefined,
       sortBy: sortBy as string,
       sortOrder: sortOrder as 'asc' | 'desc',
     })
@@ -89,6 +114,7 @@ router.post('/', upload.single('file'), [
   body('title').optional().isString().trim(),
   body('category').optional().isIn(Object.values(DocumentCategory)),
   body('tags').optional().isArray(),
+  body('onDuplicate').optional().isIn(Object.values(DuplicateAction)),
 ], authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
   const authReq = req as AuthenticatedRequest
   try {
@@ -101,7 +127,7 @@ router.post('/', upload.single('file'), [
       throw new AppError('File is required', 400, 'FILE_REQUIRED')
     }
 
-    const { workspaceId, title, category, tags } = req.body
+    const { workspaceId, title, category, tags, onDuplicate } = req.body
     
     // Parse tags if provided as string
     const parsedTags = typeof tags === 'string' ? JSON.parse(tags) : tags
@@ -111,17 +137,35 @@ router.post('/', upload.single('file'), [
       title: title || req.file.originalname,
       category: category || undefined,
       tags: parsedTags || undefined,
+      onDuplicate: onDuplicate || undefined,
     })
 
     const result = await documentService.uploadDocument({
       file: req.file,
       documentData,
       userId: authReq.user!.id,
+      userRole: authReq.user!.role,
     })
 
-    res.status(201).json({
+    // The file is already in the workspace; the client retries with an onDuplicate choice
+    if ('duplicates' in result) {
+      res.status(409).json({
+        success: false,
+        error: {
+          message: `File already exists in this workspace as "${result.duplicates[0].title}"`,
+          code: 'DUPLICATE_DOCUMENT',
+          details: {
+            duplicates: result.duplicates,
+            actions: Object.values(DuplicateAction),
+          },
+        },
+      })
+      return
+    }
+
+    res.status(result.created ? 201 : 200).json({
       success: true,
-      data: result,
+      data: result.document,
     })
   } catch (error) {
     next(error)
@@ -233,4 +277,259 @@ router.get('/:id/analysis', async (req: AuthenticatedRequest, res, next) => {
   }
 })
 
-export default router
\ No newline at end of file
+// Get classified clauses
+router.get('/:id/clauses', [
+  query('type').optional().isIn(Object.values(ClauseType)),
+], async (req: Request, res: Response, next: NextFunction) => {
+  const authReq = req as AuthenticatedRequest
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, 'VALIDATION_ERROR', errors.array())
+    }
+
+    const clauses = await clauseService.getDocumentClauses(
+      req.params.id,
+      authReq.user!.id,
+      authReq.user!.role,
+      req.query.type as ClauseType | undefined
+    )
+
+    res.status(200).json({
+      success: true,
+      data: clauses,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Get the playbook risk score and its findings
+router.get('/:id/risk', async (req: Request, res: Response, next: NextFunction) => {
+  const authReq = req as AuthenticatedRequest
+  try {
+    const risk = await riskService.getDocumentRisk(req.params.id, authReq.user!.id, authReq.user!.role)
+
+    res.status(200).json({
+      success: true,
+      data: risk,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Re-score the document against the current playbook
+router.post('/:id/risk', async (req: Request, res: Response, next: NextFunction) => {
+  const authReq = req as AuthenticatedRequest
+  try {
+    // Checks access before scoring
+    await riskService.getDocumentRisk(req.params.id, authReq.user!.id, authReq.user!.role)
+    const assessment = await riskService.assessDocument(req.params.id)
+
+    res.status(200).json({
+      success: true,
+      data: assessment,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Get obligations and deadlines found in the document
+router.get('/:id/obligations', async (req: Request, res: Response, next: NextFunction) => {
+  const authReq = req as AuthenticatedRequest
+  try {
+    const obligations = await obligationService.getDocumentObligations(req.params.id, authReq.user!.id, authReq.user!.role)
+
+    res.status(200).json({
+      success: true,
+      data: obligations,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Mark an obligation completed, waived or open again
+router.patch('/:id/obligations/:obligationId', [
+  body('status').isIn(Object.values(ObligationStatus)),
+], async (req: Request, res: Response, next: NextFunction) => {
+  const authReq = req as AuthenticatedRequest
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, 'VALIDATION_ERROR', errors.array())
+    }
+
+    const obligation = await obligationService.updateStatus(
+      req.params.obligationId,
+      req.params.id,
+      req.body.status as ObligationStatus,
+      authReq.user!.id,
+      authReq.user!.role
+    )
+
+    res.status(200).json({
+      success: true,
+      data: obligation,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Upload a revised draft as the document's next version
+router.post('/:id/versions', upload.single('file'), [
+  body('note').optional().isString().trim().isLength({ max: 1000 }),
+], async (req: Request, res: Response, next: NextFunction) => {
+  const authReq = req as AuthenticatedRequest
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, 'VALIDATION_ERROR', errors.array())
+    }
+
+    if (!req.file) {
+      throw new AppError('File is required', 400, 'FILE_REQUIRED')
+    }
+
+    const { note } = CreateDocumentVersionSchema.parse({ note: req.body.note || undefined })
+
+    const version = await documentService.uploadVersion({
+      documentId: req.params.id,
+      file: req.file,
+      note,
+      userId: authReq.user!.id,
+      userRole: authReq.user!.role,
+    })
+
+    res.status(201).json({
+      success: true,
+      data: version,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Get the document's version history
+router.get('/:id/versions', async (req: Request, res: Response, next: NextFunction) => {
+  const authReq = req as AuthenticatedRequest
+  try {
+    const versions = await documentService.getVersions(req.params.id, authReq.user!.id, authReq.user!.role)
+
+    res.status(200).json({
+      success: true,
+      data: versions,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Make an earlier version the current one again
+router.post('/:id/versions/:versionId/restore', async (req: Request, res: Response, next: NextFunction) => {
+  const authReq = req as AuthenticatedRequest
+  try {
+    const document = await documentService.restoreVersion(
+      req.params.id,
+      req.params.versionId,
+      authReq.user!.id,
+      authReq.user!.role
+    )
+
+    res.status(200).json({
+      success: true,
+      data: document,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Get the page map: where each page, paragraph, heading and table sits in the content
+router.get('/:id/pages', async (req: Request, res: Response, next: NextFunction) => {
+  const authReq = req as AuthenticatedRequest
+  try {
+    const pages = await documentService.getPages(req.params.id, authReq.user!.id, authReq.user!.role)
+
+    res.status(200).json({
+      success: true,
+      data: pages,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Get one page's text with its numbered paragraphs
+router.get('/:id/pages/:page', [
+  param('page').isInt({ min: 1 }).toInt(),
+], async (req: Request, res: Response, next: NextFunction) => {
+  const authReq = req as AuthenticatedRequest
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, 'VALIDATION_ERROR', errors.array())
+    }
+
+    const page = await documentService.getPage(
+      req.params.id,
+      Number(req.params.page),
+      authReq.user!.id,
+      authReq.user!.role
+    )
+
+    res.status(200).json({
+      success: true,
+      data: page,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Get background processing status
+router.get('/:id/processing', async (req: Request, res: Response, next: NextFunction) => {
+  const authReq = req as AuthenticatedRequest
+  try {
+    const state = await documentService.getProcessingState(req.params.id, authReq.user!.id, authReq.user!.role)
+
+    res.status(200).json({
+      success: true,
+      data: state,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Re-run a processing stage (and the stages after it)
+router.post('/:id/processing/:stage', [
+  param('stage').isIn(['extract', 'embed', 'analyze']),
+], async (req: Request, res: Response, next: NextFunction) => {
+  const authReq = req as AuthenticatedRequest
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, 'VALIDATION_ERROR', errors.array())
+    }
+
+    const state = await documentService.reprocessDocument(
+      req.params.id,
+      req.params.stage as DocumentPipelineStage,
+      authReq.user!.id,
+      authReq.user!.role
+    )
+
+    res.status(202).json({
+      success: true,
+      data: state,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+export default router
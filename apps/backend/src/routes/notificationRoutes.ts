@@ -0,0 +1,77 @@
+import { Router, Request, Response, NextFunction } from 'express'
+import { query, validationResult } from 'express-validator'
+import { NotificationService } from '@/services/NotificationService'
+import { AuthenticatedRequest } from '@/middleware/authMiddleware'
+import { AppError } from '@/middleware/errorHandler'
+
+const router = Router()
+const notificationService = new NotificationService()
+
+// Get the current user's notifications
+router.get('/', [
+  query('unread').optional().isBoolean(),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+], async (req: Request, res: Response, next: NextFunction) => {
+  const authReq = req as AuthenticatedRequest
+  try {
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, 'VALIDATION_ERROR', errors.array())
+    }
+
+    const { unread, page = 1, limit = 20 } = req.query
+
+    const result = await notificationService.getNotifications(authReq.user!.id, {
+      unreadOnly: unread === 'true',
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    })
+
+    res.status(200).json({
+      success: true,
+      data: result.notifications,
+      unread: result.unread,
+      pagination: {
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+        total: result.total,
+        pages: Math.ceil(result.total / parseInt(limit as string)),
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Mark every notification as read
+router.post('/read-all', async (req: Request, res: Response, next: NextFunction) => {
+  const authReq = req as AuthenticatedRequest
+  try {
+    const count = await notificationService.markAllRead(authReq.user!.id)
+
+    res.status(200).json({
+      success: true,
+      data: { count },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Mark a notification as read
+router.post('/:id/read', async (req: Request, res: Response, next: NextFunction) => {
+  const authReq = req as AuthenticatedRequest
+  try {
+    const notification = await notificationService.markRead(req.params.id, authReq.user!.id)
+
+    res.status(200).json({
+      success: true,
+      data: notification,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+export default router
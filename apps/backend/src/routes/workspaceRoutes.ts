@@ -3,9 +3,30 @@ import { body, query, validationResult } from 'express-validator'
 import { prisma } from '@/index'
 import { authMiddleware, AuthenticatedRequest } from '@/middleware/authMiddleware'
 import { AppError } from '@/middleware/errorHandler'
-import { CreateWorkspaceSchema, UpdateWorkspaceSchema, UserRole, WorkspaceMemberRole } from '@shared'
+import { providerRegistry } from '@/services/llm/ProviderRegistry'
+import { ClauseService } from '@/services/ClauseService'
+import { RiskService } from '@/services/RiskService'
+import { documentPipeline } from '@/services/DocumentPipelineService'
+import { ObligationService } from '@/services/ObligationService'
+import { TemplateService } from '@/services/TemplateService'
+import { StorageService } from '@/services/StorageService'
+import { jsonObject } from '@/utils/json'
+import {
+  ClauseType,
+  CreateWorkspaceSchema,
+  ObligationKind,
+  ObligationStatus,
+  UpdateWorkspaceSchema,
+  UserRole,
+  WorkspaceMemberRole,
+} from '@shared'
 
 const router = Router()
+const clauseService = new ClauseService()
+const riskService = new RiskService()
+const obligationService = new ObligationService()
+const templateService = new TemplateService()
+const storageService = new StorageService()
 
 // Get user's workspaces
 router.get('/', [
@@ -150,6 +171,18 @@ router.post('/', [
   }
 })
 
+// List AI providers that can be selected in workspace settings
+router.get('/ai-providers', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.status(200).json({
+      success: true,
+      data: providerRegistry.list(),
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
 // Get workspace by ID
 router.get('/:id', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -209,10 +242,266 @@ router.get('/:id', authMiddleware, async (req: Request, res: Response, next: Nex
   }
 })
 
+// Search classified clauses across the workspace's documents
+router.get('/:id/clauses', [
+  query('type').optional().isIn(Object.values(ClauseType)),
+  query('q').optional().isString().trim(),
+  query('minConfidence').optional().isFloat({ min: 0, max: 1 }),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+], authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, 'VALIDATION_ERROR', errors.array())
+    }
+
+    const { type, q, minConfidence, page = 1, limit = 20 } = req.query
+
+    const result = await clauseService.searchClauses({
+      userId: authReq.user!.id,
+      userRole: authReq.user!.role,
+      workspaceId: req.params.id,
+      type: type as ClauseType | undefined,
+      search: (q as string) || undefined,
+      minConfidence: minConfidence !== undefined ? parseFloat(minConfidence as string) : undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    })
+
+    res.status(200).json({
+      success: true,
+      data: result.clauses,
+      pagination: {
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+        total: result.total,
+        pages: Math.ceil(result.total / parseInt(limit as string)),
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Deadline calendar: obligations by due date, or an iCalendar feed with format=ics
+router.get('/:id/obligations', [
+  query('from').optional().isISO8601(),
+  query('to').optional().isISO8601(),
+  query('kind').optional().isIn(Object.values(ObligationKind)),
+  query('status').optional().isIn(Object.values(ObligationStatus)),
+  query('documentId').optional().isString(),
+  query('undated').optional().isBoolean(),
+  query('format').optional().isIn(['json', 'ics']),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 200 }),
+], authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, 'VALIDATION_ERROR', errors.array())
+    }
+
+    const { from, to, kind, status, documentId, undated, format = 'json', page = 1, limit = 50 } = req.query
+    const filters = {
+      userId: authReq.user!.id,
+      userRole: authReq.user!.role,
+      workspaceId: req.params.id,
+      from: from ? new Date(from as string) : undefined,
+      to: to ? new Date(to as string) : undefined,
+      kind: kind as ObligationKind | undefined,
+      status: status as ObligationStatus | undefined,
+      documentId: documentId as string | undefined,
+      includeUndated: undated === 'true',
+    }
+
+    if (format === 'ics') {
+      const calendar = await obligationService.exportCalendar(filters)
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8')
+      res.setHeader('Content-Disposition', 'attachment; filename="obligations.ics"')
+      res.send(calendar)
+      return
+    }
+
+    const result = await obligationService.getObligations({
+      ...filters,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
+    })
+
+    res.status(200).json({
+      success: true,
+      data: result.obligations,
+      pagination: {
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+        total: result.total,
+        pages: Math.ceil(result.total / parseInt(limit as string)),
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Get the risk playbook (the default playbook until one is saved)
+router.get('/:id/playbook', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest
+    const playbook = await riskService.getPlaybook(req.params.id, authReq.user!.id, authReq.user!.role)
+
+    res.status(200).json({
+      success: true,
+      data: playbook,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Replace the risk playbook; the workspace's analyzed documents are re-scored
+// in the background
+router.put('/:id/playbook', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest
+    const playbook = await riskService.updatePlaybook(req.params.id, req.body, authReq.user!.id, authReq.user!.role)
+    const rescoring = await documentPipeline.rescoreWorkspace(req.params.id)
+
+    res.status(200).json({
+      success: true,
+      data: playbook,
+      message: `Playbook saved; re-scoring ${rescoring} documents`,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// List the workspace's standard-form templates
+router.get('/:id/templates', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest
+    const templates = await templateService.getTemplates(req.params.id, authReq.user!.id, authReq.user!.role)
+
+    res.status(200).json({
+      success: true,
+      data: templates,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Create template
+router.post('/:id/templates', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest
+    const template = await templateService.createTemplate(req.params.id, req.body, authReq.user!.id, authReq.user!.role)
+
+    res.status(201).json({
+      success: true,
+      data: template,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Get template by ID
+router.get('/:id/templates/:templateId', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest
+    const template = await templateService.getTemplate(
+      req.params.id,
+      req.params.templateId,
+      authReq.user!.id,
+      authReq.user!.role
+    )
+
+    res.status(200).json({
+      success: true,
+      data: template,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Update template
+router.put('/:id/templates/:templateId', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest
+    const template = await templateService.updateTemplate(
+      req.params.id,
+      req.params.templateId,
+      req.body,
+      authReq.user!.id,
+      authReq.user!.role
+    )
+
+    res.status(200).json({
+      success: true,
+      data: template,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Delete template
+router.delete('/:id/templates/:templateId', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest
+    await templateService.deleteTemplate(req.params.id, req.params.templateId, authReq.user!.id, authReq.user!.role)
+
+    res.status(200).json({
+      success: true,
+      data: {
+        message: 'Template deleted successfully',
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Compare a document with the template: missing clauses and non-standard language
+router.post('/:id/templates/:templateId/compare', [
+  body('documentId').isString().notEmpty(),
+], authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authReq = req as AuthenticatedRequest
+    const errors = validationResult(req)
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, 'VALIDATION_ERROR', errors.array())
+    }
+
+    const comparison = await templateService.compareToTemplate(
+      req.params.id,
+      req.params.templateId,
+      req.body.documentId,
+      authReq.user!.id,
+      authReq.user!.role
+    )
+
+    res.status(200).json({
+      success: true,
+      data: comparison,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
 // Update workspace
 router.put('/:id', [
   body('name').optional().isString().trim().isLength({ min: 1, max: 100 }),
   body('settings').optional().isObject(),
+  body('settings.ai.provider').optional().isIn(providerRegistry.list().map(provider => provider.name)),
+  body('settings.ai.model').optional().isString(),
 ], authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const authReq = req as AuthenticatedRequest
@@ -246,9 +535,26 @@ router.put('/:id', [
       throw new AppError('Access denied', 403, 'ACCESS_DENIED')
     }
 
+    // Settings are merged so keys the request leaves out, such as the
+    // playbook documents are scored against, are kept
+    let settings = workspace?.settings
+    if (updateData.settings && !workspace) {
+      const existing = await prisma.workspace.findUnique({
+        where: { id: workspaceId },
+        select: { settings: true },
+      })
+      if (!existing) {
+        throw new AppError('Workspace not found', 404, 'WORKSPACE_NOT_FOUND')
+      }
+      settings = existing.settings
+    }
+
     const updatedWorkspace = await prisma.workspace.update({
       where: { id: workspaceId },
-      data: updateData,
+      data: {
+        ...updateData,
+        ...(updateData.settings ? { settings: { ...jsonObject(settings), ...updateData.settings } } : {}),
+      },
       include: {
         owner: {
           select: {
@@ -302,10 +608,20 @@ router.delete('/:id', authMiddleware, async (req: Request, res: Response, next:
       throw new AppError('Access denied', 403, 'ACCESS_DENIED')
     }
 
+    // Documents go with the workspace; their files only if no other workspace uses them
+    const documents = await prisma.document.findMany({
+      where: { workspaceId },
+      select: { hash: true },
+    })
+
     await prisma.workspace.delete({
       where: { id: workspaceId },
     })
 
+    for (const { hash } of documents) {
+      await storageService.releaseFile(hash)
+    }
+
     res.status(200).json({
       success: true,
       data: {
@@ -1,23 +1,38 @@
-import { GoogleGenerativeAI } from '@google/generative-ai'
-import OpenAI from 'openai'
+import { prisma } from '@/index'
 import { AppError } from '@/middleware/errorHandler'
 import { logger } from '@/utils/logger'
+import { providerRegistry, ProviderRegistry, ProviderSelection } from '@/services/llm/ProviderRegistry'
+import { ConversationContext, ConversationTurn, LLMRequest, LLMResponse, LLMTokenHandler } from '@/services/llm/types'
+import { getEmbeddingProvider } from '@/services/embeddings/EmbeddingRegistry'
+import { EntityExtractor } from '@/services/entities/EntityExtractor'
+import { EntityType, LegalEntity } from '@shared'
+
+// Bump whenever the analysis prompt changes so stored results can be traced to it
+export const ANALYSIS_PROMPT_VERSION = 'analysis-v2'
 
 export interface AIAnalysisResult {
   summary: string
   keyPoints: string[]
-  entities: Array<{
-    text: string
-    type: string
-    confidence: number
-  }>
+  entities: LegalEntity[]
   confidence: number
   processingTime: number
+  model: string
+  provider: string
+  promptVersion: string
+}
+
+export interface AIRequestOptions {
+  // Workspace whose settings.ai preference selects the provider
+  workspaceId?: string
+  // Cancels an in-flight generation
+  signal?: AbortSignal
 }
 
 export interface EmbeddingResult {
   embedding: number[]
   model: string
+  provider: string
+  dimension: number
   usage: {
     promptTokens: number
     totalTokens: number
@@ -25,168 +40,96 @@ export interface EmbeddingResult {
 }
 
 export class AIService {
-  private gemini: GoogleGenerativeAI | null = null
-  private openai: OpenAI | null = null
-
-  constructor() {
-    // Initialize Gemini
-    if (process.env.GEMINI_API_KEY) {
-      this.gemini = new GoogleGenerativeAI(process.env.GEMINI_API_KEY)
-    }
+  private registry: ProviderRegistry
+  private entityExtractor: EntityExtractor
 
-    // Initialize OpenAI as fallback
-    if (process.env.OPENAI_API_KEY) {
-      this.openai = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY,
-      })
-    }
-
-    if (!this.gemini && !this.openai) {
-      logger.warn('No AI service API keys configured')
-    }
+  constructor(registry: ProviderRegistry = providerRegistry) {
+    this.registry = registry
+    this.entityExtractor = new EntityExtractor()
   }
 
-  async analyzeDocument(content: string, filename: string): Promise<AIAnalysisResult> {
+  async analyzeDocument(content: string, filename: string, options: AIRequestOptions = {}): Promise<AIAnalysisResult> {
     const startTime = Date.now()
     
     try {
-      // Try Gemini first, fallback to OpenAI
-      if (this.gemini) {
-        return await this.analyzeWithGemini(content, filename, startTime)
-      } else if (this.openai) {
-        return await this.analyzeWithOpenAI(content, filename, startTime)
-      } else {
-        throw new AppError('No AI service available', 503, 'AI_SERVICE_UNAVAILABLE')
-      }
-    } catch (error) {
-      logger.error('AI analysis failed:', error)
-      
-      if (error instanceof AppError) {
-        throw error
-      }
-      
-      throw new AppError('Failed to analyze document', 500, 'AI_ANALYSIS_ERROR')
-    }
-  }
-
-  private async analyzeWithGemini(content: string, filename: string, startTime: number): Promise<AIAnalysisResult> {
-    try {
-      const model = this.gemini!.getGenerativeModel({ model: 'gemini-pro' })
-      
-      const prompt = `
-        Analyze the following legal document and provide:
-        1. A concise summary (2-3 sentences)
-        2. Key points (5-7 main points)
-        3. Named entities (people, organizations, dates, amounts)
-        
-        Document: ${filename}
-        Content: ${content.substring(0, 8000)} ${content.length > 8000 ? '...' : ''}
-        
-        Respond in JSON format:
-        {
-          "summary": "...",
-          "keyPoints": ["...", "..."],
-          "entities": [{"text": "...", "type": "...", "confidence": 0.95}]
-        }
-      `
-
-      const result = await model.generateContent(prompt)
-      const response = await result.response
-      const text = response.text()
-      
-      try {
-        const analysis = JSON.parse(text)
-        
-        return {
-          summary: analysis.summary || 'Summary not available',
-          keyPoints: analysis.keyPoints || [],
-          entities: analysis.entities || [],
-          confidence: 0.85,
-          processingTime: Date.now() - startTime,
-        }
-      } catch (parseError) {
-        // Fallback if JSON parsing fails
-        return {
-          summary: text.substring(0, 500),
-          keyPoints: [],
-          entities: [],
-          confidence: 0.6,
-          processingTime: Date.now() - startTime,
-        }
-      }
-    } catch (error) {
-      logger.error('Gemini analysis error:', error)
-      throw new AppError('Gemini analysis failed', 500, 'GEMINI_ERROR')
-    }
-  }
-
-  private async analyzeWithOpenAI(content: string, filename: string, startTime: number): Promise<AIAnalysisResult> {
-    try {
-      const response = await this.openai!.chat.completions.create({
-        model: 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a legal document analysis assistant. Analyze documents and provide structured summaries.',
-          },
+      const response = await this.complete(options, {
+        task: 'analyze',
+        system: 'You are a legal document analysis assistant. Analyze documents and provide structured summaries.',
+        prompt: `
+          Analyze the following legal document and provide:
+          1. A concise summary (2-3 sentences)
+          2. Key points (5-7 main points)
+          3. Named entities, each typed as one of: ${Object.values(EntityType).join(', ')}
+          
+          Document: ${filename}
+          Content: ${content.substring(0, 8000)} ${content.length > 8000 ? '...' : ''}
+          
+          Respond in JSON format:
           {
-            role: 'user',
-            content: `
-              Analyze this legal document and provide:
-              1. A concise summary (2-3 sentences)
-              2. Key points (5-7 main points)
-              3. Named entities (people, organizations, dates, amounts)
-              
-              Document: ${filename}
-              Content: ${content.substring(0, 6000)} ${content.length > 6000 ? '...' : ''}
-              
-              Respond in JSON format:
-              {
-                "summary": "...",
-                "keyPoints": ["...", "..."],
-                "entities": [{"text": "...", "type": "...", "confidence": 0.95}]
-              }
-            `,
-          },
-        ],
-        max_tokens: 1500,
+            "summary": "...",
+            "keyPoints": ["...", "..."],
+            "entities": [{"text": "exact text from the document", "type": "PARTY", "confidence": 0.95}]
+          }
+        `,
+        input: { content, filename },
+        maxTokens: 1500,
         temperature: 0.3,
+        json: true,
       })
 
-      const text = response.choices[0]?.message?.content || ''
-      
-      try {
-        const analysis = JSON.parse(text)
-        
-        return {
-          summary: analysis.summary || 'Summary not available',
-          keyPoints: analysis.keyPoints || [],
-          entities: analysis.entities || [],
-          confidence: 0.8,
-          processingTime: Date.now() - startTime,
-        }
-      } catch (parseError) {
+      const analysis = this.parseJSON(response.text)
+      const provider = this.registry.get(response.provider)
+      const base = {
+        processingTime: Date.now() - startTime,
+        model: response.model,
+        provider: response.provider,
+        promptVersion: ANALYSIS_PROMPT_VERSION,
+      }
+
+      if (!analysis) {
         // Fallback if JSON parsing fails
         return {
-          summary: text.substring(0, 500),
+          summary: response.text.substring(0, 500),
           keyPoints: [],
-          entities: [],
+          entities: this.entityExtractor.extract(content),
           confidence: 0.6,
-          processingTime: Date.now() - startTime,
+          ...base,
         }
       }
+
+      return {
+        summary: analysis.summary || 'Summary not available',
+        keyPoints: analysis.keyPoints || [],
+        // The model's entities are normalised and merged with the rule-based ones
+        entities: this.entityExtractor.extract(content, Array.isArray(analysis.entities) ? analysis.entities : []),
+        confidence: provider?.confidence ?? 0.6,
+        ...base,
+      }
     } catch (error) {
-      logger.error('OpenAI analysis error:', error)
-      throw new AppError('OpenAI analysis failed', 500, 'OPENAI_ERROR')
+      logger.error('AI analysis failed:', error)
+      
+      if (error instanceof AppError) {
+        throw error
+      }
+      
+      throw new AppError('Failed to analyze document', 500, 'AI_ANALYSIS_ERROR')
     }
   }
 
   async generateEmbedding(text: string): Promise<EmbeddingResult> {
     try {
-      if (this.openai) {
-        return await this.generateOpenAIEmbedding(text)
-      } else {
-        throw new AppError('No embedding service available', 503, 'EMBEDDING_SERVICE_UNAVAILABLE')
+      const provider = getEmbeddingProvider()
+      const result = await provider.embed(text)
+
+      return {
+        embedding: result.embedding,
+        model: provider.model,
+        provider: provider.name,
+        dimension: result.embedding.length,
+        usage: {
+          promptTokens: result.promptTokens,
+          totalTokens: result.promptTokens,
+        },
       }
     } catch (error) {
       logger.error('Embedding generation failed:', error)
@@ -199,42 +142,42 @@ export class AIService {
     }
   }
 
-  private async generateOpenAIEmbedding(text: string): Promise<EmbeddingResult> {
+  async generateEmbeddings(texts: string[]): Promise<EmbeddingResult[]> {
     try {
-      const response = await this.openai!.embeddings.create({
-        model: 'text-embedding-ada-002',
-        input: text.substring(0, 8000), // Limit input size
-      })
+      const provider = getEmbeddingProvider()
+      const results = await provider.embedMany(texts)
 
-      const embedding = response.data[0]?.embedding
-      
-      if (!embedding) {
-        throw new Error('No embedding returned')
-      }
-
-      return {
-        embedding,
-        model: 'text-embedding-ada-002',
+      return results.map(result => ({
+        embedding: result.embedding,
+        model: provider.model,
+        provider: provider.name,
+        dimension: result.embedding.length,
         usage: {
-          promptTokens: response.usage?.prompt_tokens || 0,
-          totalTokens: response.usage?.total_tokens || 0,
+          promptTokens: result.promptTokens,
+          totalTokens: result.promptTokens,
         },
-      }
+      }))
     } catch (error) {
-      logger.error('OpenAI embedding error:', error)
-      throw new AppError('OpenAI embedding failed', 500, 'OPENAI_EMBEDDING_ERROR')
+      logger.error('Embedding generation failed:', error)
+
+      if (error instanceof AppError) {
+        throw error
+      }
+
+      throw new AppError('Failed to generate embeddings', 500, 'EMBEDDING_ERROR')
     }
   }
 
-  async answerQuestion(question: string, context: string): Promise<string> {
+  async answerQuestion(
+    question: string,
+    context: string,
+    options: AIRequestOptions = {},
+    conversation?: ConversationContext
+  ): Promise<string> {
     try {
-      if (this.gemini) {
-        return await this.answerWithGemini(question, context)
-      } else if (this.openai) {
-        return await this.answerWithOpenAI(question, context)
-      } else {
-        throw new AppError('No AI service available', 503, 'AI_SERVICE_UNAVAILABLE')
-      }
+      const response = await this.complete(options, this.answerRequest(question, context, conversation))
+
+      return response.text || 'I could not generate an answer to your question.'
     } catch (error) {
       logger.error('Question answering failed:', error)
       
@@ -246,67 +189,145 @@ export class AIService {
     }
   }
 
-  private async answerWithGemini(question: string, context: string): Promise<string> {
+  // Streams the answer through onToken. When options.signal aborts, resolves
+  // with the partial answer generated so far.
+  async streamAnswer(
+    question: string,
+    context: string,
+    onToken: LLMTokenHandler,
+    options: AIRequestOptions = {},
+    conversation?: ConversationContext
+  ): Promise<string> {
     try {
-      const model = this.gemini!.getGenerativeModel({ model: 'gemini-pro' })
-      
-      const prompt = `
-        Based on the following document context, answer the user's question. 
-        If the answer cannot be found in the context, say so clearly.
-        
-        Context: ${context}
-        
-        Question: ${question}
-        
-        Answer:
-      `
+      const { provider, model } = await this.resolveProvider(options)
+      const response = await provider.stream(
+        { ...this.answerRequest(question, context, conversation), signal: options.signal },
+        onToken,
+        model
+      )
 
-      const result = await model.generateContent(prompt)
-      const response = await result.response
-      return response.text()
+      return response.text
     } catch (error) {
-      logger.error('Gemini question answering error:', error)
-      throw new AppError('Gemini question answering failed', 500, 'GEMINI_QA_ERROR')
+      logger.error('Question answering stream failed:', error)
+
+      if (error instanceof AppError) {
+        throw error
+      }
+
+      throw new AppError('Failed to answer question', 500, 'QUESTION_ANSWERING_ERROR')
     }
   }
 
-  private async answerWithOpenAI(question: string, context: string): Promise<string> {
+  // Turns a follow-up such as "what about termination?" into a question that
+  // can be searched on its own. Falls back to the original question.
+  async rewriteQuestion(question: string, conversation: ConversationContext, options: AIRequestOptions = {}): Promise<string> {
+    if (conversation.turns.length === 0 && !conversation.summary) {
+      return question
+    }
+
     try {
-      const response = await this.openai!.chat.completions.create({
-        model: 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a helpful assistant that answers questions based on provided document context. If the answer cannot be found in the context, clearly state that.',
-          },
-          {
-            role: 'user',
-            content: `
-              Context: ${context}
-              
-              Question: ${question}
-            `,
-          },
-        ],
-        max_tokens: 500,
-        temperature: 0.3,
+      const response = await this.complete(options, {
+        task: 'rewrite',
+        system: 'You rewrite follow-up questions about legal documents into standalone questions.',
+        prompt: `
+          Rewrite the follow-up question so it can be understood without the conversation.
+          Keep the user's wording where possible and name the subject being discussed.
+          If the question already stands on its own, return it unchanged.
+          Respond with the question only.
+          
+          ${this.formatConversation(conversation)}
+          
+          Follow-up question: ${question}
+          
+          Standalone question:
+        `,
+        input: { question, turns: conversation.turns, summary: conversation.summary },
+        maxTokens: 150,
+        temperature: 0,
       })
 
-      return response.choices[0]?.message?.content || 'I could not generate an answer to your question.'
+      // A long reply means the model answered instead of rewriting
+      const rewritten = response.text.trim().replace(/^["']|["']$/g, '')
+      return rewritten && rewritten.length <= 500 ? rewritten : question
     } catch (error) {
-      logger.error('OpenAI question answering error:', error)
-      throw new AppError('OpenAI question answering failed', 500, 'OPENAI_QA_ERROR')
+      logger.warn('Question rewriting failed, using the original question:', error)
+      return question
     }
   }
 
-  async compareDocuments(doc1Content: string, doc2Content: string): Promise<any> {
+  // Folds older turns into the running conversation summary
+  async summarizeConversation(
+    previousSummary: string | null,
+    turns: ConversationTurn[],
+    options: AIRequestOptions = {}
+  ): Promise<string> {
     try {
-      if (this.gemini) {
-        return await this.compareWithGemini(doc1Content, doc2Content)
-      } else if (this.openai) {
-        return await this.compareWithOpenAI(doc1Content, doc2Content)
-      } else {
-        throw new AppError('No AI service available', 503, 'AI_SERVICE_UNAVAILABLE')
+      const response = await this.complete(options, {
+        task: 'summarize',
+        system: 'You summarise conversations about legal documents for later reference.',
+        prompt: `
+          Update the summary of this conversation with the new turns. Keep the facts
+          established, the documents and clauses discussed and any open questions.
+          Use at most 150 words.
+          
+          Current summary: ${previousSummary || 'None'}
+          
+          New turns:
+          ${this.formatTurns(turns)}
+          
+          Updated summary:
+        `,
+        input: { summary: previousSummary, turns },
+        maxTokens: 300,
+        temperature: 0.2,
+      })
+
+      return response.text.trim()
+    } catch (error) {
+      logger.error('Conversation summary failed:', error)
+
+      if (error instanceof AppError) {
+        throw error
+      }
+
+      throw new AppError('Failed to summarize conversation', 500, 'CONVERSATION_SUMMARY_ERROR')
+    }
+  }
+
+  async compareDocuments(doc1Content: string, doc2Content: string, options: AIRequestOptions = {}): Promise<any> {
+    try {
+      const response = await this.complete(options, {
+        task: 'compare',
+        system: 'You are a legal document comparison assistant. Compare documents and provide structured analysis.',
+        prompt: `
+          Compare these two legal documents and provide:
+          1. Overall similarity score (0-1)
+          2. Key differences
+          3. Common clauses
+          4. Notable changes
+          
+          Document 1: ${doc1Content.substring(0, 4000)}
+          Document 2: ${doc2Content.substring(0, 4000)}
+          
+          Respond in JSON format:
+          {
+            "similarityScore": 0.85,
+            "differences": ["...", "..."],
+            "commonClauses": ["...", "..."],
+            "changes": ["...", "..."]
+          }
+        `,
+        input: { doc1: doc1Content, doc2: doc2Content },
+        maxTokens: 1000,
+        temperature: 0.3,
+        json: true,
+      })
+
+      return this.parseJSON(response.text) || {
+        similarityScore: 0.5,
+        differences: ['Analysis could not be completed'],
+        commonClauses: [],
+        changes: [],
       }
     } catch (error) {
       logger.error('Document comparison failed:', error)
@@ -319,101 +340,80 @@ export class AIService {
     }
   }
 
-  private async compareWithGemini(doc1Content: string, doc2Content: string): Promise<any> {
-    try {
-      const model = this.gemini!.getGenerativeModel({ model: 'gemini-pro' })
-      
-      const prompt = `
-        Compare these two legal documents and provide:
-        1. Overall similarity score (0-1)
-        2. Key differences
-        3. Common clauses
-        4. Notable changes
+  async resolveProvider(options: AIRequestOptions = {}): Promise<ProviderSelection> {
+    let preference = {}
+
+    if (options.workspaceId) {
+      const workspace = await prisma.workspace.findUnique({
+        where: { id: options.workspaceId },
+        select: { settings: true },
+      })
+      preference = (workspace?.settings as any)?.ai || {}
+    }
+
+    return this.registry.resolve(preference)
+  }
+
+  private async complete(options: AIRequestOptions, request: LLMRequest): Promise<LLMResponse> {
+    const { provider, model } = await this.resolveProvider(options)
+    return provider.complete({ ...request, signal: options.signal }, model)
+  }
+
+  private answerRequest(question: string, context: string, conversation?: ConversationContext): LLMRequest {
+    const history = conversation ? this.formatConversation(conversation) : ''
+
+    return {
+      task: 'answer',
+      system: 'You are a helpful assistant that answers questions based on provided document context. If the answer cannot be found in the context, clearly state that.',
+      prompt: `
+        Based on the following document context, answer the user's question. 
+        If the answer cannot be found in the context, say so clearly.
+        The context is split into numbered passages. After each statement, cite the
+        passage it comes from with its number in brackets, e.g. [2]. When you quote,
+        copy the passage text exactly.
+        ${history ? `Use the conversation so far to understand what the question refers to.\n\n        ${history}` : ''}
         
-        Document 1: ${doc1Content.substring(0, 4000)}
-        Document 2: ${doc2Content.substring(0, 4000)}
+        Context: ${context}
         
-        Respond in JSON format:
-        {
-          "similarityScore": 0.85,
-          "differences": ["...", "..."],
-          "commonClauses": ["...", "..."],
-          "changes": ["...", "..."]
-        }
-      `
+        Question: ${question}
+        
+        Answer:
+      `,
+      input: { question, context, standaloneQuestion: conversation?.standaloneQuestion },
+      maxTokens: 500,
+      temperature: 0.3,
+    }
+  }
 
-      const result = await model.generateContent(prompt)
-      const response = await result.response
-      const text = response.text()
-      
-      try {
-        return JSON.parse(text)
-      } catch (parseError) {
-        return {
-          similarityScore: 0.5,
-          differences: ['Analysis could not be completed'],
-          commonClauses: [],
-          changes: [],
-        }
-      }
-    } catch (error) {
-      logger.error('Gemini comparison error:', error)
-      throw new AppError('Gemini comparison failed', 500, 'GEMINI_COMPARISON_ERROR')
+  private formatConversation(conversation: ConversationContext): string {
+    const parts = ['Conversation so far:']
+
+    if (conversation.summary) {
+      parts.push(`Summary of earlier turns: ${conversation.summary}`)
+    }
+    if (conversation.turns.length > 0) {
+      parts.push(this.formatTurns(conversation.turns))
     }
+
+    return parts.length > 1 ? parts.join('\n') : ''
   }
 
-  private async compareWithOpenAI(doc1Content: string, doc2Content: string): Promise<any> {
-    try {
-      const response = await this.openai!.chat.completions.create({
-        model: 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a legal document comparison assistant. Compare documents and provide structured analysis.',
-          },
-          {
-            role: 'user',
-            content: `
-              Compare these two legal documents and provide:
-              1. Overall similarity score (0-1)
-              2. Key differences
-              3. Common clauses
-              4. Notable changes
-              
-              Document 1: ${doc1Content.substring(0, 3000)}
-              Document 2: ${doc2Content.substring(0, 3000)}
-              
-              Respond in JSON format:
-              {
-                "similarityScore": 0.85,
-                "differences": ["...", "..."],
-                "commonClauses": ["...", "..."],
-                "changes": ["...", "..."]
-              }
-            `,
-          },
-        ],
-        max_tokens: 1000,
-        temperature: 0.3,
-      })
+  private formatTurns(turns: ConversationTurn[]): string {
+    return turns
+      .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+      .join('\n')
+  }
 
-      const text = response.choices[0]?.message?.content || ''
-      
-      try {
-        return JSON.parse(text)
-      } catch (parseError) {
-        return {
-          similarityScore: 0.5,
-          differences: ['Analysis could not be completed'],
-          commonClauses: [],
-          changes: [],
-        }
-      }
-    } catch (error) {
-      logger.error('OpenAI comparison error:', error)
-      throw new AppError('OpenAI comparison failed', 500, 'OPENAI_COMPARISON_ERROR')
+  private parseJSON(text: string): any | null {
+    // Models often wrap JSON in a markdown code fence
+    const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '')
+
+    try {
+      return JSON.parse(cleaned)
+    } catch (parseError) {
+      return null
     }
   }
 }
 
-export default AIService
\ No newline at end of file
+export default AIService
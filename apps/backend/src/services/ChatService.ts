@@ -1,14 +1,22 @@
+import { Prisma } from '@prisma/client'
 import { prisma } from '@/index'
 import { AIService } from '@/services/AIService'
-import { VectorService } from '@/services/VectorService'
+import { RetrievalService } from '@/services/RetrievalService'
+import { buildCitations, CitedDocument } from '@/services/retrieval/CitationBuilder'
+import { ConversationMemory } from '@/services/chat/ConversationMemory'
 import { AppError } from '@/middleware/errorHandler'
 import { logger } from '@/utils/logger'
 import {
   ChatSession,
   ChatMessage,
+  ChatCitation,
+  ChatResponse,
+  ChatStreamEvent,
   CreateChatSession,
   CreateChatMessage,
   ChatMessageType,
+  ChatSessionScope,
+  ChatSessionSelection,
   UserRole,
   UserActivityType,
 } from '@shared'
@@ -16,6 +24,7 @@ import {
 export interface ChatSessionFilters {
   userId: string
   userRole: UserRole
+  workspaceId?: string
   documentId?: string
   page: number
   limit: number
@@ -46,30 +55,88 @@ export interface ChatMessageResult {
   total: number
 }
 
-export interface ChatResponse {
-  userMessage: ChatMessage
-  assistantMessage: ChatMessage
+export interface ChatStreamOptions {
+  signal: AbortSignal
+  onCitations: (citations: ChatCitation[]) => void
+  onToken: (token: string) => void
 }
 
+// Where a new session's questions are answered from, checked against the user's access
+interface SessionTarget {
+  scope: ChatSessionScope
+  workspaceId: string
+  documentId: string | null
+  documentIds: string[]
+  selection?: ChatSessionSelection
+  label: string
+}
+
+const SESSION_INCLUDE = {
+  document: {
+    select: {
+      id: true,
+      title: true,
+      workspaceId: true,
+    },
+  },
+  workspace: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  user: {
+    select: {
+      id: true,
+      email: true,
+    },
+  },
+  _count: {
+    select: {
+      messages: true,
+    },
+  },
+} satisfies Prisma.ChatSessionInclude
+
+// A chat session as stored, with its document, workspace, user and message count
+export type LoadedChatSession = Prisma.ChatSessionGetPayload<{ include: typeof SESSION_INCLUDE }>
+
+interface AIResponse {
+  content: string
+  metadata: any
+  citations: any[]
+  confidence: number
+}
+
+// In-flight streamed generations by session, so a separate request can cancel them
+const activeGenerations = new Map<string, AbortController>()
+
 export class ChatService {
   private aiService: AIService
-  private vectorService: VectorService
+  private retrievalService: RetrievalService
+  private memory: ConversationMemory
 
   constructor() {
     this.aiService = new AIService()
-    this.vectorService = new VectorService()
+    this.retrievalService = new RetrievalService()
+    this.memory = new ConversationMemory(this.aiService)
   }
 
   async getChatSessions(filters: ChatSessionFilters): Promise<ChatSessionResult> {
     try {
-      const { userId, userRole, documentId, page, limit } = filters
+      const { userId, userRole, workspaceId, documentId, page, limit } = filters
       const skip = (page - 1) * limit
 
       // Build where clause
       const whereClause: any = {}
 
+      if (workspaceId) {
+        whereClause.workspaceId = workspaceId
+      }
+
+      // Sessions over a document set match any of their documents
       if (documentId) {
-        whereClause.documentId = documentId
+        whereClause.documentIds = { has: documentId }
       }
 
       // User can only see their own chat sessions (unless admin)
@@ -77,14 +144,12 @@ export class ChatService {
         whereClause.userId = userId
       }
 
-      // Ensure user has access to the document
+      // Ensure user has access to the workspace
       if (userRole !== UserRole.ADMIN) {
-        whereClause.document = {
-          workspace: {
-            members: {
-              some: {
-                userId: userId,
-              },
+        whereClause.workspace = {
+          members: {
+            some: {
+              userId: userId,
             },
           },
         }
@@ -104,6 +169,12 @@ export class ChatService {
                 workspaceId: true,
               },
             },
+            workspace: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
             user: {
               select: {
                 id: true,
@@ -132,38 +203,20 @@ export class ChatService {
 
   async createChatSession(data: CreateChatSession & { userId: string }): Promise<ChatSession> {
     try {
-      const { documentId, title, userId } = data
-
-      // Verify user has access to the document
-      const document = await prisma.document.findFirst({
-        where: {
-          id: documentId,
-          workspace: {
-            members: {
-              some: {
-                userId: userId,
-              },
-            },
-          },
-        },
-        select: {
-          id: true,
-          title: true,
-          workspaceId: true,
-        },
-      })
-
-      if (!document) {
-        throw new AppError('Document not found or access denied', 404, 'DOCUMENT_NOT_FOUND')
-      }
+      const { title, userId } = data
+      const target = await this.resolveSessionTarget(data, userId)
 
       const session = await prisma.chatSession.create({
         data: {
-          documentId,
+          workspaceId: target.workspaceId,
+          documentId: target.documentId,
           userId,
-          title: title || `Chat about ${document.title}`,
+          scope: target.scope,
+          documentIds: target.documentIds,
+          selection: target.selection,
+          title: title || `Chat about ${target.label}`,
           context: {
-            documentTitle: document.title,
+            ...(target.scope === ChatSessionScope.DOCUMENT ? { documentTitle: target.label } : { scopeLabel: target.label }),
             createdAt: new Date().toISOString(),
           },
         },
@@ -175,6 +228,12 @@ export class ChatService {
               workspaceId: true,
             },
           },
+          workspace: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
           user: {
             select: {
               id: true,
@@ -193,13 +252,15 @@ export class ChatService {
       await prisma.userActivity.create({
         data: {
           userId,
-          workspaceId: document.workspaceId,
+          workspaceId: target.workspaceId,
           type: UserActivityType.CHAT_SESSION,
           entityType: 'chat_session',
           entityId: session.id,
           metadata: {
-            documentId,
-            documentTitle: document.title,
+            scope: target.scope,
+            documentId: target.documentId,
+            documentIds: target.documentIds,
+            scopeLabel: target.label,
             sessionTitle: session.title,
           },
         },
@@ -218,7 +279,114 @@ export class ChatService {
     }
   }
 
-  async getChatSessionById(sessionId: string, userId: string, userRole: UserRole): Promise<ChatSession | null> {
+  private async resolveSessionTarget(data: CreateChatSession, userId: string): Promise<SessionTarget> {
+    const scope = data.scope
+      ?? (data.documentIds ? ChatSessionScope.DOCUMENTS
+        : data.selection ? ChatSessionScope.SELECTION
+          : data.documentId ? ChatSessionScope.DOCUMENT
+            : ChatSessionScope.WORKSPACE)
+
+    const memberOf = {
+      members: {
+        some: {
+          userId: userId,
+        },
+      },
+    }
+
+    if (scope === ChatSessionScope.DOCUMENT || scope === ChatSessionScope.DOCUMENTS) {
+      const documentIds = Array.from(new Set(
+        scope === ChatSessionScope.DOCUMENT
+          ? (data.documentId ? [data.documentId] : [])
+          : data.documentIds || (data.documentId ? [data.documentId] : [])
+      ))
+
+      if (documentIds.length === 0) {
+        throw new AppError('No documents selected for the chat session', 400, 'VALIDATION_ERROR')
+      }
+
+      // Verify user has access to the documents
+      const documents = await prisma.document.findMany({
+        where: {
+          id: { in: documentIds },
+          workspace: memberOf,
+        },
+        select: {
+          id: true,
+          title: true,
+          workspaceId: true,
+        },
+      })
+
+      if (documents.length !== documentIds.length) {
+        throw new AppError('Document not found or access denied', 404, 'DOCUMENT_NOT_FOUND')
+      }
+
+      const workspaceIds = new Set(documents.map(document => document.workspaceId))
+      if (workspaceIds.size > 1 || (data.workspaceId && !workspaceIds.has(data.workspaceId))) {
+        throw new AppError('Chat documents must belong to the same workspace', 400, 'DOCUMENT_WORKSPACE_MISMATCH')
+      }
+
+      return {
+        scope,
+        workspaceId: documents[0].workspaceId,
+        documentId: scope === ChatSessionScope.DOCUMENT ? documents[0].id : null,
+        documentIds,
+        label: documents.length === 1 ? documents[0].title : `${documents.length} documents`,
+      }
+    }
+
+    if (!data.workspaceId) {
+      throw new AppError('A workspace is required for this chat session', 400, 'VALIDATION_ERROR')
+    }
+
+    const selection = data.selection
+    if (scope === ChatSessionScope.SELECTION && !selection?.tags?.length && !selection?.category) {
+      throw new AppError('Select documents by tag or category', 400, 'VALIDATION_ERROR')
+    }
+
+    // Verify user has access to the workspace
+    const workspace = await prisma.workspace.findFirst({
+      where: {
+        id: data.workspaceId,
+        ...memberOf,
+      },
+      select: {
+        id: true,
+        name: true,
+      },
+    })
+
+    if (!workspace) {
+      throw new AppError('Workspace not found or access denied', 404, 'WORKSPACE_NOT_FOUND')
+    }
+
+    if (scope === ChatSessionScope.SELECTION) {
+      const parts = [
+        selection?.tags?.length ? `tagged ${selection.tags.join(', ')}` : null,
+        selection?.category ? `in ${selection.category.toLowerCase().replace(/_/g, ' ')}` : null,
+      ]
+
+      return {
+        scope,
+        workspaceId: workspace.id,
+        documentId: null,
+        documentIds: [],
+        selection,
+        label: `documents ${parts.filter(Boolean).join(' ')}`,
+      }
+    }
+
+    return {
+      scope,
+      workspaceId: workspace.id,
+      documentId: null,
+      documentIds: [],
+      label: workspace.name,
+    }
+  }
+
+  async getChatSessionById(sessionId: string, userId: string, userRole: UserRole): Promise<LoadedChatSession | null> {
     try {
       const whereClause: any = { id: sessionId }
 
@@ -227,32 +395,10 @@ export class ChatService {
         whereClause.userId = userId
       }
 
-      const session = await prisma.chatSession.findFirst({
+      return await prisma.chatSession.findFirst({
         where: whereClause,
-        include: {
-          document: {
-            select: {
-              id: true,
-              title: true,
-              workspaceId: true,
-              content: true,
-            },
-          },
-          user: {
-            select: {
-              id: true,
-              email: true,
-            },
-          },
-          _count: {
-            select: {
-              messages: true,
-            },
-          },
-        },
+        include: SESSION_INCLUDE,
       })
-
-      return session as any
     } catch (error) {
       logger.error('Error fetching chat session:', error)
       throw new AppError('Failed to fetch chat session', 500, 'CHAT_SESSION_FETCH_ERROR')
@@ -305,44 +451,17 @@ export class ChatService {
         throw new AppError('Chat session not found', 404, 'SESSION_NOT_FOUND')
       }
 
-      // Create user message
-      const userMessage = await prisma.chatMessage.create({
-        data: {
-          sessionId,
-          type: ChatMessageType.USER,
-          content,
-          metadata: {
-            timestamp: new Date().toISOString(),
-          },
-        },
-      })
+      const userMessage = await this.createUserMessage(sessionId, content)
 
       // Generate AI response
-      const assistantResponse = await this.generateAIResponse(session, content)
-
-      // Create assistant message
-      const assistantMessage = await prisma.chatMessage.create({
-        data: {
-          sessionId,
-          type: ChatMessageType.ASSISTANT,
-          content: assistantResponse.content,
-          metadata: assistantResponse.metadata,
-          citations: assistantResponse.citations,
-          confidenceScore: assistantResponse.confidence,
-        },
-      })
-
-      // Update session timestamp
-      await prisma.chatSession.update({
-        where: { id: sessionId },
-        data: { updatedAt: new Date() },
-      })
+      const assistantResponse = await this.generateAIResponse(session, userMessage)
+      const assistantMessage = await this.saveAssistantMessage(sessionId, assistantResponse)
 
       logger.info(`Chat message sent in session ${sessionId}`)
 
       return {
-        userMessage: userMessage as any,
-        assistantMessage: assistantMessage as any,
+        userMessage,
+        assistantMessage,
       }
     } catch (error) {
       logger.error('Error sending chat message:', error)
@@ -355,51 +474,193 @@ export class ChatService {
     }
   }
 
-  private async generateAIResponse(session: any, userQuestion: string): Promise<{
-    content: string
-    metadata: any
-    citations: any[]
-    confidence: number
-  }> {
+  // Same exchange as sendMessage, but reports progress through emit as the
+  // answer is generated. Aborting signal (or cancelGeneration) stops the model
+  // and stores whatever part of the answer was produced. If generation fails,
+  // the error is thrown and nothing from the turn is stored.
+  async streamMessage(
+    data: SendMessageData,
+    emit: (event: ChatStreamEvent) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const { sessionId, content, userId, userRole } = data
+
+    const session = await this.getChatSessionById(sessionId, userId, userRole)
+    if (!session) {
+      throw new AppError('Chat session not found', 404, 'SESSION_NOT_FOUND')
+    }
+
+    if (activeGenerations.has(sessionId)) {
+      throw new AppError('A response is already being generated for this session', 409, 'GENERATION_IN_PROGRESS')
+    }
+
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    signal?.addEventListener('abort', abort)
+    activeGenerations.set(sessionId, controller)
+    let userMessage: ChatMessage | undefined
+
     try {
-      // Search for relevant content using vector similarity
-      const relevantChunks = await this.vectorService.searchSimilarContent(
-        userQuestion,
-        [session.document.id],
-        5,
-        0.7
-      )
-
-      // Prepare context from relevant chunks
-      const context = relevantChunks.length > 0
-        ? relevantChunks.map(chunk => chunk.content).join('\n\n')
-        : session.document.content || 'No document content available'
+      userMessage = await this.createUserMessage(sessionId, content)
+      emit({ type: 'message', data: userMessage })
 
-      // Generate AI response
-      const aiResponse = await this.aiService.answerQuestion(userQuestion, context)
+      const assistantResponse = await this.generateAIResponse(session, userMessage, {
+        signal: controller.signal,
+        onCitations: citations => emit({ type: 'citations', data: citations }),
+        onToken: token => emit({ type: 'token', data: token }),
+      })
 
-      // Prepare citations
-      const citations = relevantChunks.map((chunk, index) => ({
-        chunkIndex: chunk.chunkIndex,
-        text: chunk.content.substring(0, 200) + '...',
-        confidence: chunk.similarity,
-        source: `Chunk ${chunk.chunkIndex + 1}`,
-      }))
+      if (controller.signal.aborted) {
+        const assistantMessage = assistantResponse.content
+          ? await this.saveAssistantMessage(sessionId, assistantResponse)
+          : null
+
+        logger.info(`Chat generation cancelled in session ${sessionId}`)
+        emit({ type: 'cancelled', data: { assistantMessage } })
+        return
+      }
+
+      const assistantMessage = await this.saveAssistantMessage(sessionId, assistantResponse)
+
+      logger.info(`Chat message streamed in session ${sessionId}`)
+      emit({ type: 'done', data: { userMessage, assistantMessage } })
+    } catch (error) {
+      logger.error('Error streaming chat message:', error)
+
+      // Leave no unanswered question behind in the session history
+      if (userMessage) {
+        await prisma.chatMessage.deleteMany({ where: { id: userMessage.id } })
+      }
+
+      if (error instanceof AppError) {
+        throw error
+      }
+
+      throw new AppError('Failed to send message', 500, 'MESSAGE_SEND_ERROR')
+    } finally {
+      signal?.removeEventListener('abort', abort)
+      activeGenerations.delete(sessionId)
+    }
+  }
+
+  // Returns false when nothing was being generated for the session
+  async cancelGeneration(sessionId: string, userId: string, userRole: UserRole): Promise<boolean> {
+    const session = await this.getChatSessionById(sessionId, userId, userRole)
+    if (!session) {
+      throw new AppError('Chat session not found', 404, 'SESSION_NOT_FOUND')
+    }
+
+    const controller = activeGenerations.get(sessionId)
+    if (!controller) {
+      return false
+    }
+
+    controller.abort()
+    return true
+  }
+
+  private async createUserMessage(sessionId: string, content: string): Promise<ChatMessage> {
+    const userMessage = await prisma.chatMessage.create({
+      data: {
+        sessionId,
+        type: ChatMessageType.USER,
+        content,
+        metadata: {
+          timestamp: new Date().toISOString(),
+        },
+      },
+    })
+
+    return userMessage as any
+  }
+
+  private async saveAssistantMessage(sessionId: string, response: AIResponse): Promise<ChatMessage> {
+    const assistantMessage = await prisma.chatMessage.create({
+      data: {
+        sessionId,
+        type: ChatMessageType.ASSISTANT,
+        content: response.content,
+        metadata: response.metadata,
+        citations: response.citations,
+        confidenceScore: response.confidence,
+      },
+    })
+
+    // Update session timestamp
+    await prisma.chatSession.update({
+      where: { id: sessionId },
+      data: { updatedAt: new Date() },
+    })
+
+    return assistantMessage as any
+  }
+
+  private async generateAIResponse(session: LoadedChatSession, userMessage: ChatMessage, stream?: ChatStreamOptions): Promise<AIResponse> {
+    try {
+      const userQuestion = userMessage.content
+      const aiOptions = { workspaceId: session.workspaceId }
+      const scopeDocuments = await this.getScopeDocuments(session)
+      const titles = new Map(scopeDocuments.map(document => [document.id, document.title]))
+      // Name the source document whenever the session spans more than one
+      const multiDocument = session.scope !== ChatSessionScope.DOCUMENT
+
+      // Earlier turns, and the question rewritten so it can be searched on its own
+      const history = await this.memory.load(session, userMessage.id)
+      const standaloneQuestion = await this.aiService.rewriteQuestion(userQuestion, history, aiOptions)
+      const conversation = { ...history, standaloneQuestion }
+
+      // Retrieve the most relevant passages within the prompt budget
+      const retrieval = await this.retrievalService.retrieve(standaloneQuestion, {
+        documentIds: scopeDocuments.map(document => document.id),
+        documentTitles: multiDocument ? titles : undefined,
+      })
+
+      const context = retrieval.context || 'No document content available'
+      const documents = await this.getCitedDocuments(retrieval.passages.map(passage => passage.documentId))
+      const citationOptions = { labelDocuments: multiDocument }
+
+      let aiResponse: string
+      if (stream) {
+        // Let the client show sources while the answer is still being written
+        stream.onCitations(buildCitations('', retrieval.passages, documents, citationOptions).citations)
+        aiResponse = await this.aiService.streamAnswer(userQuestion, context, stream.onToken, {
+          ...aiOptions,
+          signal: stream.signal,
+        }, conversation)
+      } else {
+        aiResponse = await this.aiService.answerQuestion(userQuestion, context, aiOptions, conversation)
+      }
+
+      // Tie the answer's [n] markers to verified spans of the documents
+      const { content, citations } = buildCitations(aiResponse, retrieval.passages, documents, citationOptions)
 
       return {
-        content: aiResponse,
+        content: content || aiResponse,
         metadata: {
           timestamp: new Date().toISOString(),
           model: 'ai-assistant',
-          chunksUsed: relevantChunks.length,
+          scope: session.scope,
+          documentsSearched: scopeDocuments.length,
+          ...(standaloneQuestion !== userQuestion ? { standaloneQuestion } : {}),
+          historyTurns: history.turns.length,
+          summarizedHistory: Boolean(history.summary),
+          chunksUsed: retrieval.passages.length,
+          retrieval: retrieval.strategy,
+          contextTokens: retrieval.tokens,
           processingTime: Date.now(),
+          ...(stream?.signal.aborted ? { cancelled: true } : {}),
         },
         citations,
-        confidence: relevantChunks.length > 0 ? 0.8 : 0.5,
+        confidence: retrieval.strategy === 'hybrid' ? 0.8 : 0.5,
       }
     } catch (error) {
       logger.error('Error generating AI response:', error)
 
+      // A streamed reply reports the failure to the client instead
+      if (stream) {
+        throw error
+      }
+
       // Fallback response
       return {
         content: 'I apologize, but I encountered an error while processing your question. Please try again or rephrase your question.',
@@ -413,6 +674,58 @@ export class ChatService {
     }
   }
 
+  // Documents a session answers from. Resolved on every message so selection
+  // and workspace sessions include documents added after the session started.
+  // They leave out superseded versions; documents picked by id are kept as picked.
+  private async getScopeDocuments(session: LoadedChatSession): Promise<Array<{ id: string; title: string }>> {
+    const whereClause: Prisma.DocumentWhereInput = { workspaceId: session.workspaceId }
+
+    switch (session.scope) {
+      case ChatSessionScope.SELECTION: {
+        // Stored from the validated request that created the session
+        const selection = (session.selection || {}) as ChatSessionSelection
+        if (selection.tags?.length) {
+          whereClause.OR = selection.tags.map(tag => ({ tags: { array_contains: [tag] } }))
+        }
+        if (selection.category) {
+          whereClause.category = selection.category
+        }
+        whereClause.isCurrentVersion = true
+        break
+      }
+      case ChatSessionScope.WORKSPACE:
+        whereClause.isCurrentVersion = true
+        break
+      default:
+        // Sessions from before documentIds only have documentId
+        whereClause.id = {
+          in: session.documentIds.length > 0 ? session.documentIds : [session.documentId].filter(id => id !== null),
+        }
+    }
+
+    return prisma.document.findMany({
+      where: whereClause,
+      select: {
+        id: true,
+        title: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    })
+  }
+
+  private async getCitedDocuments(documentIds: string[]): Promise<Map<string, CitedDocument>> {
+    const documents = await prisma.document.findMany({
+      where: { id: { in: Array.from(new Set(documentIds)) } },
+      select: {
+        id: true,
+        title: true,
+        content: true,
+      },
+    })
+
+    return new Map(documents.map(document => [document.id, { title: document.title, content: document.content || '' }]))
+  }
+
   async updateChatSession(
     sessionId: string,
     updateData: { title?: string; context?: any },
@@ -437,6 +750,12 @@ export class ChatService {
               workspaceId: true,
             },
           },
+          workspace: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
           user: {
             select: {
               id: true,
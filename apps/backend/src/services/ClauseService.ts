@@ -0,0 +1,172 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/index'
+import { ClauseExtractor, CLAUSE_EXTRACTOR_VERSION } from '@/services/clauses/ClauseExtractor'
+import { AppError } from '@/middleware/errorHandler'
+import { logger } from '@/utils/logger'
+import { ClauseSearchResult, ClauseType, DocumentClause, UserRole } from '@shared'
+
+export interface ClauseSearchFilters {
+  userId: string
+  userRole: UserRole
+  workspaceId: string
+  type?: ClauseType
+  // Text the clause must contain
+  search?: string
+  minConfidence?: number
+  page: number
+  limit: number
+}
+
+export interface ClauseSearchResultPage {
+  clauses: ClauseSearchResult[]
+  total: number
+}
+
+export class ClauseService {
+  private extractor: ClauseExtractor
+
+  constructor() {
+    this.extractor = new ClauseExtractor()
+  }
+
+  // Replaces the stored clauses of a document with a fresh extraction
+  async extractClauses(documentId: string, content: string, pageStarts?: number[]): Promise<number> {
+    const clauses = this.extractor.extract(content, { pageStarts })
+
+    await prisma.$transaction([
+      prisma.documentClause.deleteMany({ where: { documentId } }),
+      prisma.documentClause.createMany({
+        data: clauses.map(clause => ({
+          documentId,
+          ...clause,
+          extractor: CLAUSE_EXTRACTOR_VERSION,
+        })),
+      }),
+    ])
+
+    logger.info(`Extracted ${clauses.length} clauses from document ${documentId}`)
+    return clauses.length
+  }
+
+  async getDocumentClauses(
+    documentId: string,
+    userId: string,
+    userRole: UserRole,
+    type?: ClauseType
+  ): Promise<DocumentClause[]> {
+    try {
+      const whereClause: Prisma.DocumentWhereInput = { id: documentId }
+
+      // User can only access documents from workspaces they belong to (unless admin)
+      if (userRole !== UserRole.ADMIN) {
+        whereClause.workspace = {
+          members: {
+            some: {
+              userId: userId,
+            },
+          },
+        }
+      }
+
+      const document = await prisma.document.findFirst({
+        where: whereClause,
+        select: { id: true },
+      })
+
+      if (!document) {
+        throw new AppError('Document not found', 404, 'DOCUMENT_NOT_FOUND')
+      }
+
+      const clauses = await prisma.documentClause.findMany({
+        where: {
+          documentId,
+          ...(type ? { type } : {}),
+        },
+        orderBy: [{ startOffset: 'asc' }, { confidence: 'desc' }],
+      })
+
+      return clauses as DocumentClause[]
+    } catch (error) {
+      logger.error('Error fetching document clauses:', error)
+
+      if (error instanceof AppError) {
+        throw error
+      }
+
+      throw new AppError('Failed to fetch document clauses', 500, 'CLAUSE_FETCH_ERROR')
+    }
+  }
+
+  async searchClauses(filters: ClauseSearchFilters): Promise<ClauseSearchResultPage> {
+    try {
+      const { userId, userRole, workspaceId, type, search, minConfidence, page, limit } = filters
+
+      const workspaceWhere: Prisma.WorkspaceWhereInput = { id: workspaceId }
+      if (userRole !== UserRole.ADMIN) {
+        workspaceWhere.members = {
+          some: {
+            userId: userId,
+          },
+        }
+      }
+
+      const workspace = await prisma.workspace.findFirst({
+        where: workspaceWhere,
+        select: { id: true },
+      })
+
+      if (!workspace) {
+        throw new AppError('Workspace not found or access denied', 404, 'WORKSPACE_NOT_FOUND')
+      }
+
+      const whereClause: Prisma.DocumentClauseWhereInput = {
+        document: { workspaceId, isCurrentVersion: true },
+      }
+
+      if (type) {
+        whereClause.type = type
+      }
+
+      if (search) {
+        whereClause.text = { contains: search, mode: 'insensitive' }
+      }
+
+      if (minConfidence !== undefined) {
+        whereClause.confidence = { gte: minConfidence }
+      }
+
+      const [clauses, total] = await Promise.all([
+        prisma.documentClause.findMany({
+          where: whereClause,
+          include: {
+            document: {
+              select: {
+                id: true,
+                title: true,
+              },
+            },
+          },
+          orderBy: [{ confidence: 'desc' }, { createdAt: 'desc' }],
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.documentClause.count({ where: whereClause }),
+      ])
+
+      return {
+        clauses: clauses as ClauseSearchResult[],
+        total,
+      }
+    } catch (error) {
+      logger.error('Error searching clauses:', error)
+
+      if (error instanceof AppError) {
+        throw error
+      }
+
+      throw new AppError('Failed to search clauses', 500, 'CLAUSE_SEARCH_ERROR')
+    }
+  }
+}
+
+export default ClauseService
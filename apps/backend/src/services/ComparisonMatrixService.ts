@@ -0,0 +1,251 @@
+import { prisma } from '@/index'
+import { ComparisonService } from '@/services/ComparisonService'
+import { ClauseMatrixBuilder, MatrixResults } from '@/services/matrix/ClauseMatrix'
+import { renderMatrixDocx } from '@/services/matrix/DocxMatrix'
+import { renderMatrixHtml } from '@/services/matrix/HtmlMatrix'
+import { renderMatrixPdf } from '@/services/matrix/PdfMatrix'
+import { RedlineFormat } from '@/services/redline/Redline'
+import { RedlineExport } from '@/services/ComparisonService'
+import { AppError } from '@/middleware/errorHandler'
+import { logger } from '@/utils/logger'
+import { ComparisonMatrix, CreateComparisonMatrix, UserActivityType, UserRole } from '@shared'
+
+export interface CreateComparisonMatrixData extends CreateComparisonMatrix {
+  userId: string
+  userRole: UserRole
+}
+
+export interface ComparisonMatrixFilters {
+  userId: string
+  userRole: UserRole
+  page: number
+  limit: number
+  documentId?: string
+}
+
+const MATRIX_INCLUDE = {
+  documents: {
+    orderBy: { position: 'asc' as const },
+    include: {
+      document: {
+        select: {
+          id: true,
+          title: true,
+        },
+      },
+    },
+  },
+  performedBy: {
+    select: {
+      id: true,
+      email: true,
+    },
+  },
+}
+
+type MatrixRecord = {
+  id: string
+  title: string | null
+  results: unknown
+  performedById: string
+  createdAt: Date
+  documents: Array<{ document: { id: string; title: string } }>
+  performedBy: { id: string; email: string }
+}
+
+export class ComparisonMatrixService {
+  private comparisonService: ComparisonService
+  private builder: ClauseMatrixBuilder
+
+  constructor() {
+    this.comparisonService = new ComparisonService()
+    this.builder = new ClauseMatrixBuilder()
+  }
+
+  // Clause-by-document matrix for three or more documents, in the order given
+  async createMatrix(data: CreateComparisonMatrixData): Promise<ComparisonMatrix> {
+    const { documentIds, title, userId, userRole } = data
+
+    const documents = await prisma.document.findMany({
+      where: {
+        id: { in: documentIds },
+        ...(userRole === UserRole.ADMIN ? {} : {
+          workspace: {
+            members: {
+              some: {
+                userId,
+              },
+            },
+          },
+        }),
+      },
+      select: {
+        id: true,
+        title: true,
+        content: true,
+        workspaceId: true,
+      },
+    })
+
+    if (documents.length !== documentIds.length) {
+      throw new AppError('One or more documents not found or access denied', 404, 'DOCUMENTS_NOT_FOUND')
+    }
+
+    const ordered = documentIds.map(id => documents.find(document => document.id === id)!)
+    const clauses = await Promise.all(ordered.map(document => this.comparisonService.loadClauses(document)))
+    const results: MatrixResults = this.builder.build(ordered.map((document, index) => ({
+      content: document.content || '',
+      clauses: clauses[index],
+    })))
+
+    const matrix = await prisma.comparisonMatrix.create({
+      data: {
+        title,
+        results,
+        performedById: userId,
+        documents: {
+          create: ordered.map((document, position) => ({ documentId: document.id, position })),
+        },
+      },
+      include: MATRIX_INCLUDE,
+    })
+
+    await prisma.userActivity.create({
+      data: {
+        userId,
+        workspaceId: ordered[0].workspaceId,
+        type: UserActivityType.DOCUMENT_COMPARE,
+        entityType: 'comparison_matrix',
+        entityId: matrix.id,
+        metadata: {
+          documentIds,
+          documentTitles: ordered.map(document => document.title),
+        },
+      },
+    })
+
+    logger.info(`Comparison matrix created: ${matrix.id} over ${documentIds.length} documents by user ${userId}`)
+    return this.toMatrix(matrix)
+  }
+
+  async getMatrices(filters: ComparisonMatrixFilters): Promise<{ matrices: ComparisonMatrix[]; total: number }> {
+    const { userId, userRole, page, limit, documentId } = filters
+    const whereClause = {
+      AND: [
+        documentId ? { documents: { some: { documentId } } } : {},
+        this.accessFilter(userId, userRole),
+      ],
+    }
+
+    const [matrices, total] = await Promise.all([
+      prisma.comparisonMatrix.findMany({
+        where: whereClause,
+        include: MATRIX_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.comparisonMatrix.count({ where: whereClause }),
+    ])
+
+    return {
+      matrices: matrices.map(matrix => this.toMatrix(matrix)),
+      total,
+    }
+  }
+
+  async getMatrixById(matrixId: string, userId: string, userRole: UserRole): Promise<ComparisonMatrix> {
+    return this.toMatrix(await this.findMatrix(matrixId, userId, userRole))
+  }
+
+  async deleteMatrix(matrixId: string, userId: string, userRole: UserRole): Promise<void> {
+    const matrix = await this.findMatrix(matrixId, userId, userRole)
+
+    if (matrix.performedById !== userId && userRole !== UserRole.ADMIN) {
+      throw new AppError('Insufficient permissions to delete comparison', 403, 'INSUFFICIENT_PERMISSIONS')
+    }
+
+    await prisma.comparisonMatrix.delete({
+      where: { id: matrixId },
+    })
+
+    logger.info(`Comparison matrix deleted: ${matrixId} by user ${userId}`)
+  }
+
+  async exportMatrix(matrixId: string, userId: string, userRole: UserRole, format: RedlineFormat): Promise<RedlineExport> {
+    const record = await this.findMatrix(matrixId, userId, userRole)
+    const matrix = this.toMatrix(record)
+    const author = record.performedBy.email
+    const filename = `comparison-matrix-${matrixId}.${format}`
+
+    switch (format) {
+      case 'docx':
+        return {
+          content: await renderMatrixDocx(matrix, author),
+          contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+          filename,
+        }
+      case 'pdf':
+        return { content: await renderMatrixPdf(matrix, author), contentType: 'application/pdf', filename }
+      case 'html':
+        return { content: renderMatrixHtml(matrix, author), contentType: 'text/html; charset=utf-8', filename }
+    }
+  }
+
+  private async findMatrix(matrixId: string, userId: string, userRole: UserRole): Promise<MatrixRecord> {
+    const matrix = await prisma.comparisonMatrix.findFirst({
+      where: {
+        id: matrixId,
+        ...this.accessFilter(userId, userRole),
+      },
+      include: MATRIX_INCLUDE,
+    })
+
+    if (!matrix) {
+      throw new AppError('Comparison not found', 404, 'COMPARISON_NOT_FOUND')
+    }
+
+    return matrix
+  }
+
+  // Matrices the user performed, or over documents in workspaces they belong to (unless admin)
+  private accessFilter(userId: string, userRole: UserRole) {
+    if (userRole === UserRole.ADMIN) {
+      return {}
+    }
+
+    return {
+      OR: [
+        { performedById: userId },
+        {
+          documents: {
+            some: {
+              document: {
+                workspace: {
+                  members: {
+                    some: {
+                      userId,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      ],
+    }
+  }
+
+  private toMatrix(record: MatrixRecord): ComparisonMatrix {
+    return {
+      id: record.id,
+      title: record.title,
+      performedById: record.performedById,
+      createdAt: record.createdAt,
+      documents: record.documents.map(({ document }) => document),
+      results: record.results as MatrixResults,
+    }
+  }
+}
+
+export default ComparisonMatrixService
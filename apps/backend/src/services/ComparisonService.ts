@@ -1,8 +1,19 @@
+import { Prisma } from '@prisma/client'
 import { prisma } from '@/index'
 import { AIService } from '@/services/AIService'
+import { CommonSpan, DiffChange, DiffEngine, DiffStatistics } from '@/services/diff/DiffEngine'
+import { ClauseAligner, ClauseSimilarity, ComparableClause, lexicalSimilarity } from '@/services/clauses/ClauseAligner'
+import { clauseLabel } from '@/services/clauses/ClauseChanges'
+import { ClauseExtractor } from '@/services/clauses/ClauseExtractor'
+import { pageStarts } from '@/services/layout/PageLayout'
+import { buildRedline, RedlineFormat } from '@/services/redline/Redline'
+import { renderDocx } from '@/services/redline/DocxRedline'
+import { renderHtml } from '@/services/redline/HtmlRedline'
+import { renderPdf } from '@/services/redline/PdfRedline'
 import { AppError } from '@/middleware/errorHandler'
 import { logger } from '@/utils/logger'
 import {
+  ClauseComparison,
   DocumentComparison,
   CreateComparison,
   UserRole,
@@ -29,28 +40,13 @@ export interface ComparisonResult {
 
 export interface ComparisonAnalysisResult {
   similarityScore: number
-  differences: Array<{
-    type: 'added' | 'removed' | 'modified'
-    text: string
-    position: {
-      start: number
-      end: number
-    }
-    similarity?: number
-  }>
-  commonClauses: Array<{
-    text: string
-    similarity: number
-    doc1Position: {
-      start: number
-      end: number
-    }
-    doc2Position: {
-      start: number
-      end: number
-    }
-  }>
-  statistics: {
+  differences: DiffChange[]
+  commonClauses: CommonSpan[]
+  // Clause-by-clause alignment, independent of section order and numbering
+  clauses: ClauseComparison[]
+  // Changes the model considered notable, when a model was available
+  notableChanges?: string[]
+  statistics: DiffStatistics & {
     totalWords: {
       doc1: number
       doc2: number
@@ -64,11 +60,32 @@ export interface ComparisonAnalysisResult {
   }
 }
 
+export interface RedlineExport {
+  content: Buffer | string
+  contentType: string
+  filename: string
+}
+
+// What a comparison reads of each document. A template's standard form has
+// no id, so its clauses are extracted from the content.
+export interface ComparedDocument {
+  id?: string
+  workspaceId?: string
+  content: string | null
+  pageMap?: unknown
+}
+
 export class ComparisonService {
   private aiService: AIService
+  private diffEngine: DiffEngine
+  private clauseAligner: ClauseAligner
+  private clauseExtractor: ClauseExtractor
 
   constructor() {
     this.aiService = new AIService()
+    this.diffEngine = new DiffEngine()
+    this.clauseAligner = new ClauseAligner()
+    this.clauseExtractor = new ClauseExtractor()
   }
 
   async getComparisons(filters: ComparisonFilters): Promise<ComparisonResult> {
@@ -223,7 +240,7 @@ export class ComparisonService {
         data: {
           doc1Id,
           doc2Id,
-          results: analysisResult,
+          results: this.toJson(analysisResult),
           similarityScore: analysisResult.similarityScore,
           performedById: userId,
         },
@@ -282,39 +299,110 @@ export class ComparisonService {
     }
   }
 
-  private async performComparison(doc1: any, doc2: any): Promise<ComparisonAnalysisResult> {
+  // Diff of a document version against the version before it, run by the
+  // pipeline once the new version is analyzed. Reprocessing refreshes it.
+  async compareWithPreviousVersion(documentId: string): Promise<string | null> {
+    const select = {
+      id: true,
+      title: true,
+      content: true,
+      workspaceId: true,
+      uploadedById: true,
+      versionGroupId: true,
+      version: true,
+    }
+
+    const document = await prisma.document.findUnique({ where: { id: documentId }, select })
+    if (!document?.versionGroupId || document.version === 1) {
+      return null
+    }
+
+    const previous = await prisma.document.findFirst({
+      where: { versionGroupId: document.versionGroupId, version: { lt: document.version } },
+      orderBy: { version: 'desc' },
+      select,
+    })
+    if (!previous) {
+      return null
+    }
+
+    const analysisResult = await this.performComparison(previous, document)
+    const existing = await prisma.documentComparison.findFirst({
+      where: { doc1Id: previous.id, doc2Id: document.id },
+      select: { id: true },
+    })
+
+    const comparison = existing
+      ? await prisma.documentComparison.update({
+          where: { id: existing.id },
+          data: {
+            results: this.toJson(analysisResult),
+            similarityScore: analysisResult.similarityScore,
+          },
+        })
+      : await prisma.documentComparison.create({
+          data: {
+            results: this.toJson(analysisResult),
+            similarityScore: analysisResult.similarityScore,
+            doc1Id: previous.id,
+            doc2Id: document.id,
+            performedById: document.uploadedById,
+          },
+        })
+
+    logger.info(`Version ${document.version} of document ${document.versionGroupId} compared to version ${previous.version}: ${comparison.id}`)
+    return comparison.id
+  }
+
+  // Diff, clause alignment and model narrative for two texts; documents
+  // without an id (a template's standard form) have their clauses extracted
+  async performComparison(doc1: ComparedDocument, doc2: ComparedDocument): Promise<ComparisonAnalysisResult> {
     try {
       const startTime = Date.now()
 
-      // Get AI-powered comparison if available
+      // The model only adds a narrative of notable changes; spans and the score come from the diff
       let aiComparison: any = null
       try {
         if (doc1.content && doc2.content) {
-          aiComparison = await this.aiService.compareDocuments(doc1.content, doc2.content)
+          aiComparison = await this.aiService.compareDocuments(doc1.content, doc2.content, {
+            workspaceId: doc1.workspaceId,
+          })
         }
       } catch (aiError) {
-        logger.warn('AI comparison failed, using fallback analysis:', aiError)
+        logger.warn('AI comparison failed, continuing with the text diff only:', aiError)
       }
 
-      // Perform basic text comparison as fallback or supplement
-      const basicComparison = this.performBasicComparison(doc1.content || '', doc2.content || '')
+      const diff = this.diffEngine.diff(doc1.content || '', doc2.content || '')
+      const [clauses1, clauses2] = await Promise.all([this.loadClauses(doc1), this.loadClauses(doc2)])
+      const clauses = this.clauseAligner.align(clauses1, clauses2, await this.clauseSimilarity(clauses1, clauses2))
+
+      // Matched clauses are what reviewers read as common ground; identical
+      // paragraphs stand in when neither document has recognisable clauses
+      const matchedClauses = clauses
+        .filter(clause => clause.doc1Clause && clause.doc2Clause)
+        .map(clause => ({
+          text: clause.doc1Clause!.title || clauseLabel(clause.clauseType),
+          similarity: clause.similarity,
+          doc1Position: { start: clause.doc1Clause!.startOffset, end: clause.doc1Clause!.endOffset },
+          doc2Position: { start: clause.doc2Clause!.startOffset, end: clause.doc2Clause!.endOffset },
+        }))
+      const notableChanges = [
+        ...(Array.isArray(aiComparison?.changes) ? aiComparison.changes : []),
+        ...(Array.isArray(aiComparison?.differences) ? aiComparison.differences : []),
+      ]
+        .map((change: any) => (typeof change === 'string' ? change : change?.text))
+        .filter((change: any): change is string => typeof change === 'string' && change.length > 0)
 
-      // Combine AI and basic analysis results
       const result: ComparisonAnalysisResult = {
-        similarityScore: aiComparison?.similarityScore || basicComparison.similarityScore,
-        differences: aiComparison?.differences?.map((diff: any) => ({
-          type: diff.type || 'modified',
-          text: diff.text || diff,
-          position: diff.position || { start: 0, end: 0 },
-          similarity: diff.similarity,
-        })) || basicComparison.differences,
-        commonClauses: aiComparison?.commonClauses?.map((clause: any) => ({
-          text: clause.text || clause,
-          similarity: clause.similarity || 0.8,
-          doc1Position: clause.doc1Position || { start: 0, end: 0 },
-          doc2Position: clause.doc2Position || { start: 0, end: 0 },
-        })) || basicComparison.commonClauses,
-        statistics: basicComparison.statistics,
+        similarityScore: diff.similarityScore,
+        differences: diff.differences,
+        commonClauses: matchedClauses.length > 0 ? matchedClauses : diff.commonClauses,
+        clauses,
+        ...(aiComparison ? { notableChanges } : {}),
+        statistics: {
+          ...this.vocabularyStatistics(doc1.content || '', doc2.content || ''),
+          ...diff.statistics,
+        },
       }
 
       const processingTime = Date.now() - startTime
@@ -327,58 +415,90 @@ export class ComparisonService {
     }
   }
 
-  private performBasicComparison(content1: string, content2: string): ComparisonAnalysisResult {
-    // Simple word-based comparison
+  // Stored clauses, or a fresh extraction for documents not analyzed yet
+  async loadClauses(document: ComparedDocument): Promise<ComparableClause[]> {
+    const clauses = document.id
+      ? await prisma.documentClause.findMany({
+        where: { documentId: document.id },
+        orderBy: { startOffset: 'asc' },
+      })
+      : []
+
+    if (clauses.length > 0 || !document.content) {
+      return clauses as ComparableClause[]
+    }
+
+    return this.clauseExtractor.extract(document.content, { pageStarts: pageStarts(document.pageMap) })
+  }
+
+  // Word overlap, blended with embedding similarity for clause types that
+  // occur more than once and so need telling apart
+  private async clauseSimilarity(clauses1: ComparableClause[], clauses2: ComparableClause[]): Promise<ClauseSimilarity> {
+    const count = (clauses: ComparableClause[], type: string) => clauses.filter(clause => clause.type === type).length
+    const ambiguous = [...clauses1, ...clauses2].filter(clause =>
+      count(clauses1, clause.type) > 0 && count(clauses2, clause.type) > 0 &&
+      (count(clauses1, clause.type) > 1 || count(clauses2, clause.type) > 1)
+    )
+
+    if (ambiguous.length === 0) {
+      return lexicalSimilarity
+    }
+
+    const vectors = new Map<ComparableClause, number[]>()
+    try {
+      const results = await this.aiService.generateEmbeddings(ambiguous.map(clause => clause.text.substring(0, 4000)))
+      ambiguous.forEach((clause, i) => vectors.set(clause, results[i].embedding))
+    } catch (error) {
+      logger.warn('Clause embeddings unavailable, aligning clauses by wording only:', error)
+      return lexicalSimilarity
+    }
+
+    return (clause1, clause2) => {
+      const lexical = lexicalSimilarity(clause1, clause2)
+      const vector1 = vectors.get(clause1)
+      const vector2 = vectors.get(clause2)
+      return vector1 && vector2 ? (lexical + cosineSimilarity(vector1, vector2)) / 2 : lexical
+    }
+  }
+
+  private vocabularyStatistics(content1: string, content2: string) {
     const words1 = content1.toLowerCase().split(/\s+/).filter(w => w.length > 0)
     const words2 = content2.toLowerCase().split(/\s+/).filter(w => w.length > 0)
 
     const set1 = new Set(words1)
     const set2 = new Set(words2)
+    const commonWords = [...set1].filter(word => set2.has(word)).length
 
-    const commonWords = new Set([...set1].filter(word => set2.has(word)))
-    const uniqueWords1 = new Set([...set1].filter(word => !set2.has(word)))
-    const uniqueWords2 = new Set([...set2].filter(word => !set1.has(word)))
-
-    const similarityScore = commonWords.size / Math.max(set1.size, set2.size, 1)
+    return {
+      totalWords: {
+        doc1: words1.length,
+        doc2: words2.length,
+      },
+      uniqueWords: {
+        doc1: set1.size - commonWords,
+        doc2: set2.size - commonWords,
+      },
+      commonWords,
+      lengthDifference: Math.abs(words1.length - words2.length),
+    }
+  }
 
-    // Generate basic differences
-    const differences = [
-      ...Array.from(uniqueWords1).slice(0, 10).map(word => ({
-        type: 'removed' as const,
-        text: word,
-        position: { start: 0, end: 0 },
+  // Plain copies type-check as JSON; the diff interfaces do not
+  private toJson(result: ComparisonAnalysisResult): Prisma.InputJsonObject {
+    return {
+      ...result,
+      differences: result.differences.map(change => ({
+        ...change,
+        position: { ...change.position },
+        doc1Position: { ...change.doc1Position },
+        doc2Position: { ...change.doc2Position },
       })),
-      ...Array.from(uniqueWords2).slice(0, 10).map(word => ({
-        type: 'added' as const,
-        text: word,
-        position: { start: 0, end: 0 },
+      commonClauses: result.commonClauses.map(span => ({
+        ...span,
+        doc1Position: { ...span.doc1Position },
+        doc2Position: { ...span.doc2Position },
       })),
-    ]
-
-    // Generate basic common clauses
-    const commonPhrases = Array.from(commonWords).slice(0, 10).map(word => ({
-      text: word,
-      similarity: 1.0,
-      doc1Position: { start: 0, end: 0 },
-      doc2Position: { start: 0, end: 0 },
-    }))
-
-    return {
-      similarityScore,
-      differences,
-      commonClauses: commonPhrases,
-      statistics: {
-        totalWords: {
-          doc1: words1.length,
-          doc2: words2.length,
-        },
-        uniqueWords: {
-          doc1: uniqueWords1.size,
-          doc2: uniqueWords2.size,
-        },
-        commonWords: commonWords.size,
-        lengthDifference: Math.abs(words1.length - words2.length),
-      },
+      statistics: { ...result.statistics },
     }
   }
 
@@ -505,6 +625,61 @@ export class ComparisonService {
     }
   }
 
+  // Track-changes export of a comparison with a summary cover page
+  async exportComparison(
+    comparisonId: string,
+    userId: string,
+    userRole: UserRole,
+    format: RedlineFormat
+  ): Promise<RedlineExport> {
+    try {
+      const comparison = await this.getComparisonById(comparisonId, userId, userRole)
+      if (!comparison) {
+        throw new AppError('Comparison not found', 404, 'COMPARISON_NOT_FOUND')
+      }
+
+      // Full text of both documents, which the access check does not load
+      const { document1, document2, performedBy } = await prisma.documentComparison.findUniqueOrThrow({
+        where: { id: comparisonId },
+        select: {
+          document1: { select: { title: true, content: true } },
+          document2: { select: { title: true, content: true } },
+          performedBy: { select: { email: true } },
+        },
+      })
+
+      const redline = buildRedline({
+        original: { title: document1.title, content: document1.content || '' },
+        revised: { title: document2.title, content: document2.content || '' },
+        author: performedBy.email,
+        createdAt: new Date(comparison.createdAt),
+        results: comparison.results,
+      })
+
+      const filename = `redline-${comparisonId}.${format}`
+      switch (format) {
+        case 'docx':
+          return {
+            content: await renderDocx(redline),
+            contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+            filename,
+          }
+        case 'pdf':
+          return { content: await renderPdf(redline), contentType: 'application/pdf', filename }
+        case 'html':
+          return { content: renderHtml(redline), contentType: 'text/html; charset=utf-8', filename }
+      }
+    } catch (error) {
+      logger.error('Error exporting comparison:', error)
+
+      if (error instanceof AppError) {
+        throw error
+      }
+
+      throw new AppError('Failed to export comparison', 500, 'COMPARISON_EXPORT_ERROR')
+    }
+  }
+
   async reanalyzeComparison(comparisonId: string, userId: string, userRole: UserRole): Promise<DocumentComparison> {
     try {
       const comparison = await this.getComparisonById(comparisonId, userId, userRole)
@@ -535,7 +710,7 @@ export class ComparisonService {
       const updatedComparison = await prisma.documentComparison.update({
         where: { id: comparisonId },
         data: {
-          results: analysisResult,
+          results: this.toJson(analysisResult),
           similarityScore: analysisResult.similarityScore,
         },
         include: {
@@ -576,4 +751,16 @@ export class ComparisonService {
   }
 }
 
-export default ComparisonService
\ No newline at end of file
+function cosineSimilarity(vector1: number[], vector2: number[]): number {
+  let dot = 0
+  let norm1 = 0
+  let norm2 = 0
+  for (let index = 0; index < Math.min(vector1.length, vector2.length); index++) {
+    dot += vector1[index] * vector2[index]
+    norm1 += vector1[index] * vector1[index]
+    norm2 += vector2[index] * vector2[index]
+  }
+  return norm1 === 0 || norm2 === 0 ? 0 : Math.max(dot / Math.sqrt(norm1 * norm2), 0)
+}
+
+export default ComparisonService
@@ -0,0 +1,440 @@
+import { prisma } from '@/index'
+import { JobQueue, Job } from '@/services/JobQueue'
+import { StorageService } from '@/services/StorageService'
+import { DocumentProcessor } from '@/services/DocumentProcessor'
+import { VectorService } from '@/services/VectorService'
+import { AIService } from '@/services/AIService'
+import { ClauseService } from '@/services/ClauseService'
+import { RiskService } from '@/services/RiskService'
+import { ObligationService } from '@/services/ObligationService'
+import { ComparisonService } from '@/services/ComparisonService'
+import { pageStarts } from '@/services/layout/PageLayout'
+import { detectFileType, SUPPORTED_MIME_TYPES } from '@/services/formats/FileType'
+import { EmailAttachment } from '@/services/formats/EmailMessage'
+import { ANALYSIS_HISTORY_LIMIT, analysisHistory, toAnalysisRun } from '@/services/analysis/AnalysisHistory'
+import { AppError } from '@/middleware/errorHandler'
+import { logger } from '@/utils/logger'
+import { jsonObject } from '@/utils/json'
+import {
+  DocumentAnalysisResult,
+  DocumentPipelineStage,
+  DocumentProcessingState,
+  DocumentProcessingStatus,
+} from '@shared'
+
+export interface DocumentJobData {
+  documentId: string
+  // Run only the queued stage instead of continuing through the rest
+  single?: boolean
+}
+
+// Each stage feeds the next, so a job always continues through the remaining
+// stages once it succeeds. Chunking happens as part of embedding.
+const STAGES: DocumentPipelineStage[] = ['extract', 'embed', 'analyze']
+
+const STAGE_STATUS: Record<Exclude<DocumentPipelineStage, 'score'>, DocumentProcessingStatus> = {
+  extract: DocumentProcessingStatus.EXTRACTING,
+  embed: DocumentProcessingStatus.EMBEDDING,
+  analyze: DocumentProcessingStatus.ANALYZING,
+}
+
+export class DocumentPipelineService {
+  private queue: JobQueue<DocumentJobData>
+  private storageService: StorageService
+  private documentProcessor: DocumentProcessor
+  private vectorService: VectorService
+  private aiService: AIService
+  private clauseService: ClauseService
+  private riskService: RiskService
+  private obligationService: ObligationService
+  private comparisonService: ComparisonService
+
+  constructor() {
+    this.queue = new JobQueue<DocumentJobData>('documents', {
+      backoffMs: parseInt(process.env.PIPELINE_RETRY_BACKOFF_MS || '5000'),
+    })
+    this.storageService = new StorageService()
+    this.documentProcessor = new DocumentProcessor()
+    this.vectorService = new VectorService()
+    this.aiService = new AIService()
+    this.clauseService = new ClauseService()
+    this.riskService = new RiskService()
+    this.obligationService = new ObligationService()
+    this.comparisonService = new ComparisonService()
+
+    this.queue.process(
+      job => this.runStage(job),
+      job => this.markFailed(job)
+    )
+  }
+
+  async start(): Promise<void> {
+    await this.queue.start()
+    logger.info('Document processing worker started')
+
+    try {
+      await this.reembedStaleDocuments()
+    } catch (error) {
+      logger.error('Failed to schedule re-embedding:', error)
+    }
+  }
+
+  async stop(): Promise<void> {
+    await this.queue.stop()
+  }
+
+  async enqueue(documentId: string, stage: DocumentPipelineStage = 'extract'): Promise<void> {
+    await this.queue.enqueue(stage, { documentId }, {
+      maxAttempts: parseInt(process.env.PIPELINE_MAX_ATTEMPTS || '3'),
+    })
+
+    await prisma.document.update({
+      where: { id: documentId },
+      data: {
+        processingStatus: DocumentProcessingStatus.QUEUED,
+        processingError: null,
+      },
+    })
+
+    logger.info(`Queued ${stage} stage for document ${documentId}`)
+  }
+
+  // Re-embed documents whose chunks were produced by a different embedding
+  // model, e.g. after switching between OpenAI and the local provider
+  async reembedStaleDocuments(): Promise<number> {
+    const stale = await this.vectorService.findStaleDocuments()
+
+    // Jobs survive restarts, so skip documents that already have an embed job queued
+    const pending = await this.queue.getJobs(job => job.name === 'embed')
+    const queued = new Set(pending.map(job => job.data.documentId))
+    const documentIds = stale.filter(documentId => !queued.has(documentId))
+
+    for (const documentId of documentIds) {
+      await this.queue.enqueue('embed', { documentId, single: true }, {
+        maxAttempts: parseInt(process.env.PIPELINE_MAX_ATTEMPTS || '3'),
+      })
+    }
+
+    if (documentIds.length > 0) {
+      logger.info(`Queued re-embedding for ${documentIds.length} documents with mismatched embedding models`)
+    }
+
+    return documentIds.length
+  }
+
+  // Re-scores a workspace's analyzed documents, e.g. after its playbook
+  // changed. Documents still in the pipeline are scored when they reach the
+  // analyze stage; scoring them now would count every clause as missing.
+  async rescoreWorkspace(workspaceId: string): Promise<number> {
+    const documents = await prisma.document.findMany({
+      where: { workspaceId, processingStatus: DocumentProcessingStatus.ANALYZED },
+      select: { id: true },
+    })
+
+    for (const document of documents) {
+      await this.queue.enqueue('score', { documentId: document.id, single: true }, {
+        maxAttempts: parseInt(process.env.PIPELINE_MAX_ATTEMPTS || '3'),
+      })
+    }
+
+    logger.info(`Queued re-scoring of ${documents.length} documents in workspace ${workspaceId}`)
+    return documents.length
+  }
+
+  async getState(documentId: string): Promise<DocumentProcessingState> {
+    const document = await prisma.document.findUnique({
+      where: { id: documentId },
+      select: {
+        processingStatus: true,
+        processingError: true,
+      },
+    })
+
+    if (!document) {
+      throw new AppError('Document not found', 404, 'DOCUMENT_NOT_FOUND')
+    }
+
+    const jobs = await this.queue.getJobs(job => job.data.documentId === documentId)
+
+    return {
+      documentId,
+      status: document.processingStatus as DocumentProcessingStatus,
+      error: document.processingError,
+      jobs: jobs.map(job => ({
+        id: job.id,
+        stage: job.name as DocumentPipelineStage,
+        state: job.state,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        enqueuedAt: job.enqueuedAt,
+        lastError: job.lastError,
+      })),
+    }
+  }
+
+  private async runStage(job: Job<DocumentJobData>): Promise<void> {
+    const { documentId } = job.data
+    const stage = job.name as DocumentPipelineStage
+
+    const exists = await prisma.document.findUnique({
+      where: { id: documentId },
+      select: { id: true },
+    })
+
+    // The document was deleted while the job was waiting; nothing to do
+    if (!exists) {
+      logger.info(`Skipping ${stage} for deleted document ${documentId}`)
+      return
+    }
+
+    // Re-scoring leaves the processing status and the other stages alone
+    if (stage === 'score') {
+      await this.riskService.assessDocument(documentId)
+      return
+    }
+
+    if (!STAGES.includes(stage)) {
+      throw new AppError(`Unknown pipeline stage: ${stage}`, 400, 'INVALID_PIPELINE_STAGE')
+    }
+
+    // Single-stage maintenance jobs leave the processing status untouched
+    if (!job.data.single) {
+      await this.setStatus(documentId, STAGE_STATUS[stage])
+    }
+
+    switch (stage) {
+      case 'extract':
+        await this.extract(documentId)
+        break
+      case 'embed':
+        await this.embed(documentId)
+        break
+      case 'analyze':
+        await this.analyze(documentId)
+        break
+    }
+
+    if (job.data.single) {
+      return
+    }
+
+    const next = STAGES[STAGES.indexOf(stage) + 1]
+    if (next) {
+      await this.queue.enqueue(next, { documentId }, { maxAttempts: job.maxAttempts })
+    } else {
+      await prisma.document.update({
+        where: { id: documentId },
+        data: { processingStatus: DocumentProcessingStatus.ANALYZED },
+      })
+      await this.compareWithPreviousVersion(documentId)
+    }
+  }
+
+  // The version diff is a convenience; failing it leaves the document analyzed
+  private async compareWithPreviousVersion(documentId: string): Promise<void> {
+    try {
+      await this.comparisonService.compareWithPreviousVersion(documentId)
+    } catch (error) {
+      logger.warn(`Failed to compare document ${documentId} with its previous version:`, error)
+    }
+  }
+
+  async extract(documentId: string): Promise<void> {
+    const document = await this.getDocument(documentId)
+    const metadata = jsonObject(document.metadata)
+
+    if (typeof metadata.filename !== 'string') {
+      throw new AppError('Stored file not found for document', 404, 'FILE_NOT_AVAILABLE')
+    }
+
+    const file = await this.storageService.getFile(metadata.filename)
+    const startTime = Date.now()
+    const extractedContent = await this.documentProcessor.extractText(
+      file.buffer,
+      document.mimeType,
+      document.originalName
+    )
+    const processingTime = Date.now() - startTime
+
+    await prisma.document.update({
+      where: { id: documentId },
+      data: {
+        content: extractedContent.text,
+        confidenceScore: extractedContent.confidence,
+        // Left as is for formats without pages
+        pageMap: extractedContent.pages,
+        processingTime,
+        metadata: {
+          ...metadata,
+          processingTime,
+          textMetadata: extractedContent.metadata,
+        },
+      },
+    })
+
+    logger.info(`Extracted ${extractedContent.metadata.charCount} characters from document ${documentId}`)
+
+    if (extractedContent.attachments?.length) {
+      await this.addAttachments(document, extractedContent.attachments)
+    }
+  }
+
+  // Files attached to an email become documents of their own that go through
+  // the pipeline separately. A re-run of the extract stage skips attachments
+  // that were already added.
+  private async addAttachments(
+    email: Awaited<ReturnType<DocumentPipelineService['getDocument']>>,
+    attachments: EmailAttachment[]
+  ): Promise<void> {
+    for (const attachment of attachments) {
+      const mimeType = await detectFileType(attachment.content, attachment.filename)
+      if (!SUPPORTED_MIME_TYPES.includes(mimeType)) {
+        logger.info(`Skipping attachment ${attachment.filename} of document ${email.id}: unsupported file type`)
+        continue
+      }
+
+      const hash = this.storageService.generateHash(attachment.content)
+      const existing = await prisma.document.findFirst({
+        where: { parentId: email.id, hash },
+        select: { id: true },
+      })
+      if (existing) {
+        continue
+      }
+
+      const storageResult = await this.storageService.saveFile(attachment.content, attachment.filename, mimeType)
+      const child = await prisma.document.create({
+        data: {
+          workspaceId: email.workspaceId,
+          uploadedById: email.uploadedById,
+          title: attachment.filename,
+          originalName: attachment.filename,
+          mimeType,
+          category: email.category,
+          tags: email.tags ?? [],
+          metadata: {
+            filename: storageResult.filename,
+            size: storageResult.size,
+            hash: storageResult.hash,
+            uploadedAt: new Date().toISOString(),
+          },
+          hash: storageResult.hash,
+          parentId: email.id,
+          processingStatus: DocumentProcessingStatus.QUEUED,
+        },
+      }).catch(async error => {
+        await this.storageService.releaseFile(storageResult.hash)
+        throw error
+      })
+
+      await this.enqueue(child.id)
+      logger.info(`Attachment ${attachment.filename} of document ${email.id} added as document ${child.id}`)
+    }
+  }
+
+  async embed(documentId: string): Promise<void> {
+    const document = await this.getDocument(documentId)
+
+    if (!document.content) {
+      throw new AppError('Document has no extracted text to embed', 422, 'DOCUMENT_CONTENT_UNAVAILABLE')
+    }
+
+    await this.vectorService.createEmbeddings(documentId, document.content, pageStarts(document.pageMap))
+  }
+
+  async analyze(documentId: string): Promise<DocumentAnalysisResult> {
+    const document = await this.getDocument(documentId)
+
+    if (!document.content || document.content.trim().length === 0) {
+      throw new AppError('Document has no extracted text to analyze', 422, 'DOCUMENT_CONTENT_UNAVAILABLE')
+    }
+
+    // Clauses, risk and obligations are rule-based, so they do not wait on the model
+    const starts = pageStarts(document.pageMap)
+    await this.clauseService.extractClauses(documentId, document.content, starts)
+    await this.riskService.assessDocument(documentId)
+    await this.obligationService.extractObligations(documentId, document.workspaceId, document.content, starts)
+
+    const result = await this.aiService.analyzeDocument(document.content, document.originalName, {
+      workspaceId: document.workspaceId,
+    })
+    const analyzedAt = new Date().toISOString()
+    const analysis: DocumentAnalysisResult = { ...result, analyzedAt }
+
+    // Keep a summary of the run being replaced so earlier results stay traceable.
+    // Metadata is read again so the risk assessment saved above is kept.
+    const metadata = jsonObject((await this.getDocument(documentId)).metadata)
+    const history = analysisHistory(metadata)
+
+    if (metadata.analysis) {
+      history.unshift(toAnalysisRun(jsonObject(metadata.analysis), metadata.lastAnalyzed))
+    }
+
+    await prisma.document.update({
+      where: { id: documentId },
+      data: {
+        // Plain copies type-check as JSON; the shared interfaces do not
+        metadata: {
+          ...metadata,
+          analysis: {
+            ...analysis,
+            entities: analysis.entities.map(entity => ({
+              ...entity,
+              mentions: entity.mentions.map(mention => ({ ...mention })),
+            })),
+          },
+          lastAnalyzed: analyzedAt,
+          analysisHistory: history.slice(0, ANALYSIS_HISTORY_LIMIT).map(run => ({ ...run })),
+        },
+      },
+    })
+
+    logger.info(`Document analyzed: ${documentId} with ${analysis.provider}/${analysis.model}`)
+    return analysis
+  }
+
+  private async getDocument(documentId: string) {
+    const document = await prisma.document.findUnique({
+      where: { id: documentId },
+    })
+
+    if (!document) {
+      throw new AppError('Document not found', 404, 'DOCUMENT_NOT_FOUND')
+    }
+
+    return document
+  }
+
+  private async setStatus(documentId: string, status: DocumentProcessingStatus) {
+    await prisma.document.update({
+      where: { id: documentId },
+      data: {
+        processingStatus: status,
+        processingError: null,
+      },
+    })
+  }
+
+  private async markFailed(job: Job<DocumentJobData>): Promise<void> {
+    const stage = job.name as DocumentPipelineStage
+
+    // Maintenance jobs run on documents that already finished processing, so
+    // their failure is logged rather than marking the document failed
+    if (job.data.single || !STAGES.includes(stage)) {
+      logger.error(`${job.name} failed for document ${job.data.documentId}: ${job.lastError || 'unknown error'}`)
+      return
+    }
+
+    await prisma.document.updateMany({
+      where: { id: job.data.documentId },
+      data: {
+        processingStatus: DocumentProcessingStatus.FAILED,
+        processingError: `${job.name} failed: ${job.lastError || 'unknown error'}`,
+      },
+    })
+  }
+}
+
+export const documentPipeline = new DocumentPipelineService()
+
+export default DocumentPipelineService
@@ -1,19 +1,46 @@
 import pdfParse from 'pdf-parse'
 import mammoth from 'mammoth'
+import WordExtractor from 'word-extractor'
 import { AppError } from '@/middleware/errorHandler'
 import { logger } from '@/utils/logger'
+import { LegalChunker, DocumentChunk, ChunkOptions } from '@/services/LegalChunker'
+import { OcrEngine, OcrPage, TesseractOcr } from '@/services/ocr/TesseractOcr'
+import { layoutPages } from '@/services/layout/PageLayout'
+import { EmailAttachment, EmailMessage, parseEml, parseMsg } from '@/services/formats/EmailMessage'
+import { htmlToText, markdownToText } from '@/services/formats/MarkupText'
+import { odtToText } from '@/services/formats/OdtText'
+import { rtfToText } from '@/services/formats/RtfText'
+import { DocumentPage } from '@shared'
 
 export interface ExtractedContent {
   text: string
+  // Extraction quality, 0-1: the mean over pages of 1 for a text layer and
+  // the OCR confidence for scanned pages
+  confidence: number
+  // Where each page, paragraph, heading and table sits in text; only for
+  // paginated formats
+  pages?: DocumentPage[]
+  // Files attached to an email, to be stored as documents of their own
+  attachments?: EmailAttachment[]
   metadata: {
     pages?: number
     wordCount: number
     charCount: number
     language?: string
+    // Pages read by OCR, with their confidence
+    ocrPages?: Array<Pick<OcrPage, 'page' | 'confidence' | 'words'>>
+    // Running header, footer and page number lines left out of the text
+    strippedLines?: number
   }
 }
 
 export class DocumentProcessor {
+  private ocr: OcrEngine
+
+  constructor(ocr: OcrEngine = new TesseractOcr()) {
+    this.ocr = ocr
+  }
+
   async extractText(buffer: Buffer, mimeType: string, filename: string): Promise<ExtractedContent> {
     try {
       switch (mimeType) {
@@ -21,11 +48,37 @@ export class DocumentProcessor {
           return this.extractFromPDF(buffer)
         
         case 'application/msword':
+          return this.extractFromDoc(buffer)
+
         case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
           return this.extractFromWord(buffer)
-        
+
+        case 'application/vnd.oasis.opendocument.text':
+          return this.extractFromFormat('OpenDocument', 'ODT_PARSE_ERROR', () => odtToText(buffer))
+
+        case 'application/rtf':
+        case 'text/rtf':
+          return this.extractFromFormat('RTF', 'RTF_PARSE_ERROR', async () => rtfToText(buffer.toString('latin1')))
+
+        case 'text/html':
+          return this.extractFromFormat('HTML', 'HTML_PARSE_ERROR', async () => htmlToText(buffer.toString('utf-8')))
+
+        case 'text/markdown':
+          return this.extractFromFormat('Markdown', 'MARKDOWN_PARSE_ERROR', async () => markdownToText(buffer.toString('utf-8')))
+
         case 'text/plain':
           return this.extractFromText(buffer)
+
+        case 'message/rfc822':
+          return this.extractFromEmail(() => parseEml(buffer))
+
+        case 'application/vnd.ms-outlook':
+          return this.extractFromEmail(async () => parseMsg(buffer))
+
+        case 'image/png':
+        case 'image/jpeg':
+        case 'image/tiff':
+          return this.extractFromImage(buffer)
         
         default:
           throw new AppError(`Unsupported file type: ${mimeType}`, 400, 'UNSUPPORTED_FILE_TYPE')
@@ -41,21 +94,103 @@ export class DocumentProcessor {
     }
   }
 
+  // Pages without a text layer, i.e. scanned pages, are read by OCR
   private async extractFromPDF(buffer: Buffer): Promise<ExtractedContent> {
+    const pageTexts: string[] = []
+    let data: pdfParse.Result
+
     try {
-      const data = await pdfParse(buffer)
-      
+      // pdf-parse's pdf.js ignores byteOffset when reading object streams, and
+      // copies Buffers back into Node's shared pool, where small uploads start
+      // mid-ArrayBuffer. A plain Uint8Array copy always starts at offset 0
+      data = await pdfParse(new Uint8Array(buffer) as Buffer, {
+        pagerender: async (pageData: PdfPage) => {
+          const text = await renderPage(pageData)
+          pageTexts[pageData.pageIndex] = text
+          return text
+        },
+      })
+    } catch (error) {
+      logger.error('PDF parsing error:', error)
+      throw new AppError('Failed to parse PDF document', 500, 'PDF_PARSE_ERROR')
+    }
+
+    const minChars = parseInt(process.env.OCR_MIN_PAGE_CHARS || '25')
+    const scanned = pageTexts
+      .map((text, index) => ({ page: index + 1, chars: (text || '').replace(/\s/g, '').length }))
+      .filter(({ chars }) => chars < minChars)
+      .map(({ page }) => page)
+
+    if (scanned.length === 0 || process.env.OCR_ENABLED === 'false') {
+      const { text, pages, strippedLines } = layoutPages(Array.from(pageTexts, text => text || ''))
+
       return {
-        text: data.text,
+        text,
+        confidence: pageTexts.length > 0 ? (pageTexts.length - scanned.length) / pageTexts.length : 0,
+        pages,
         metadata: {
           pages: data.numpages,
-          wordCount: this.countWords(data.text),
-          charCount: data.text.length,
+          wordCount: this.countWords(text),
+          charCount: text.length,
+          strippedLines,
         },
       }
+    }
+
+    let ocrPages: OcrPage[] = []
+    try {
+      ocrPages = await this.ocr.recognizePdfPages(buffer, scanned)
     } catch (error) {
-      logger.error('PDF parsing error:', error)
-      throw new AppError('Failed to parse PDF document', 500, 'PDF_PARSE_ERROR')
+      // Keep what the text layer has; without one there is nothing to keep
+      if (scanned.length === pageTexts.length) {
+        throw error
+      }
+      logger.warn(`OCR failed for ${scanned.length} scanned pages, keeping the text layer only:`, error)
+    }
+
+    const recognized = new Map(ocrPages.map(page => [page.page, page]))
+    const pages = pageTexts.map((text, index) => {
+      const ocrPage = recognized.get(index + 1)
+      if (ocrPage) {
+        return { text: ocrPage.text, confidence: ocrPage.confidence }
+      }
+      return { text: text || '', confidence: scanned.includes(index + 1) ? 0 : 1 }
+    })
+
+    const { text, pages: layout, strippedLines } = layoutPages(pages.map(page => page.text))
+
+    logger.info(`OCR read ${ocrPages.length} of ${pageTexts.length} PDF pages`)
+
+    return {
+      text,
+      confidence: meanConfidence(pages),
+      pages: layout,
+      metadata: {
+        pages: data.numpages,
+        wordCount: this.countWords(text),
+        charCount: text.length,
+        ocrPages: ocrPages.map(({ page, confidence, words }) => ({ page, confidence, words })),
+        strippedLines,
+      },
+    }
+  }
+
+  // PNG, JPEG and (multi-page) TIFF scans
+  private async extractFromImage(buffer: Buffer): Promise<ExtractedContent> {
+    const ocrPages = await this.ocr.recognizeImage(buffer)
+    const { text, pages, strippedLines } = layoutPages(ocrPages.map(page => page.text))
+
+    return {
+      text,
+      confidence: meanConfidence(ocrPages),
+      pages,
+      metadata: {
+        pages: ocrPages.length,
+        wordCount: this.countWords(text),
+        charCount: text.length,
+        ocrPages: ocrPages.map(({ page, confidence, words }) => ({ page, confidence, words })),
+        strippedLines,
+      },
     }
   }
 
@@ -70,6 +205,7 @@ export class DocumentProcessor {
       
       return {
         text,
+        confidence: text.trim().length > 0 ? 1 : 0,
         metadata: {
           wordCount: this.countWords(text),
           charCount: text.length,
@@ -81,11 +217,57 @@ export class DocumentProcessor {
     }
   }
 
+  // Word 97-2003 binary documents; .docx files uploaded as application/msword
+  // are zip archives and go to mammoth
+  private async extractFromDoc(buffer: Buffer): Promise<ExtractedContent> {
+    if (buffer.subarray(0, 2).toString('latin1') === 'PK') {
+      return this.extractFromWord(buffer)
+    }
+
+    return this.extractFromFormat('Word 97-2003', 'WORD_PARSE_ERROR', async () => {
+      const document = await new WordExtractor().extract(buffer)
+      return document.getBody()
+    })
+  }
+
+  // Email body under its header block; attachments are returned for the
+  // pipeline to store as child documents
+  private async extractFromEmail(parse: () => Promise<EmailMessage>): Promise<ExtractedContent> {
+    let message: EmailMessage
+    try {
+      message = await parse()
+    } catch (error) {
+      logger.error('Email parsing error:', error)
+      throw new AppError('Failed to parse email message', 500, 'EMAIL_PARSE_ERROR')
+    }
+
+    return {
+      ...this.fromText(message.text),
+      attachments: message.attachments,
+    }
+  }
+
+  private async extractFromFormat(
+    format: string,
+    errorCode: string,
+    extract: () => Promise<string>
+  ): Promise<ExtractedContent> {
+    try {
+      return this.fromText(await extract())
+    } catch (error) {
+      logger.error(`${format} document parsing error:`, error)
+      throw new AppError(`Failed to parse ${format} document`, 500, errorCode)
+    }
+  }
+
   private async extractFromText(buffer: Buffer): Promise<ExtractedContent> {
-    const text = buffer.toString('utf-8')
-    
+    return this.fromText(buffer.toString('utf-8'))
+  }
+
+  private fromText(text: string): ExtractedContent {
     return {
       text,
+      confidence: text.trim().length > 0 ? 1 : 0,
       metadata: {
         wordCount: this.countWords(text),
         charCount: text.length,
@@ -98,36 +280,12 @@ export class DocumentProcessor {
   }
 
   chunkDocument(text: string, chunkSize: number = 1000, overlapSize: number = 200): string[] {
-    const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0)
-    const chunks: string[] = []
-    let currentChunk = ''
-    
-    for (const sentence of sentences) {
-      const trimmedSentence = sentence.trim()
-      
-      if (currentChunk.length + trimmedSentence.length <= chunkSize) {
-        currentChunk += (currentChunk ? '. ' : '') + trimmedSentence
-      } else {
-        if (currentChunk) {
-          chunks.push(currentChunk + '.')
-        }
-        
-        // Handle overlap
-        if (chunks.length > 0 && overlapSize > 0) {
-          const lastChunk = chunks[chunks.length - 1]
-          const overlapWords = lastChunk.split(' ').slice(-Math.floor(overlapSize / 10))
-          currentChunk = overlapWords.join(' ') + ' ' + trimmedSentence
-        } else {
-          currentChunk = trimmedSentence
-        }
-      }
-    }
-    
-    if (currentChunk) {
-      chunks.push(currentChunk + '.')
-    }
-    
-    return chunks.filter(chunk => chunk.trim().length > 0)
+    return this.chunkStructured(text, { chunkSize, overlapSize }).map(chunk => chunk.content)
+  }
+
+  // Chunks with heading path, page and offsets for storage and citations
+  chunkStructured(text: string, options: ChunkOptions = {}): DocumentChunk[] {
+    return new LegalChunker().chunk(text, options)
   }
 
   extractKeywords(text: string, limit: number = 20): string[] {
@@ -177,4 +335,57 @@ export class DocumentProcessor {
   }
 }
 
+// The parts of a pdf.js page and its text items that renderPage reads
+interface PdfTextItem {
+  str: string
+  // [scaleX, skewX, skewY, scaleY, x, y]
+  transform: number[]
+  width: number
+  height: number
+}
+
+interface PdfPage {
+  pageIndex: number
+  getTextContent(options: { normalizeWhitespace: boolean; disableCombineTextItems: boolean }): Promise<{ items: PdfTextItem[] }>
+}
+
+// Gaps, in multiples of the font size, that separate table columns on a line
+// and paragraphs between lines; regular line spacing is about 1.2
+const COLUMN_GAP = 2
+const PARAGRAPH_GAP = 1.6
+
+// pdf-parse's own page renderer (text items joined, with a line break wherever
+// the baseline moves), plus a tab for wide gaps within a line and a blank line
+// for wide gaps between lines
+async function renderPage(pageData: PdfPage): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  })
+
+  let last: { end: number; y: number } | undefined
+  let text = ''
+  for (const item of textContent.items) {
+    const [, , , scale, x, y] = item.transform
+    const size = Math.abs(scale) || item.height || 12
+
+    if (!last) {
+      text += item.str
+    } else if (last.y === y) {
+      text += (x - last.end > COLUMN_GAP * size ? '\t' : '') + item.str
+    } else {
+      text += (Math.abs(last.y - y) > PARAGRAPH_GAP * size ? '\n\n' : '\n') + item.str
+    }
+    last = { end: x + item.width, y }
+  }
+  return text
+}
+
+function meanConfidence(pages: Array<{ confidence: number }>): number {
+  if (pages.length === 0) {
+    return 0
+  }
+  return Math.round((pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length) * 1000) / 1000
+}
+
 export default DocumentProcessor
\ No newline at end of file
@@ -1,13 +1,30 @@
+import { Prisma } from '@prisma/client'
 import { prisma } from '@/index'
 import { StorageService } from '@/services/StorageService'
-import { DocumentProcessor } from '@/services/DocumentProcessor'
+import { documentPipeline, DocumentPipelineService } from '@/services/DocumentPipelineService'
+import { versionHistory } from '@/services/versions/VersionHistory'
+import { pageContent } from '@/services/layout/PageLayout'
+import { detectFileType, SUPPORTED_MIME_TYPES } from '@/services/formats/FileType'
+import { analysisHistory } from '@/services/analysis/AnalysisHistory'
 import { AppError } from '@/middleware/errorHandler'
 import { logger } from '@/utils/logger'
+import { jsonObject } from '@/utils/json'
 import {
   Document,
   CreateDocument,
   UpdateDocument,
   DocumentCategory,
+  DocumentDuplicate,
+  DocumentPage,
+  DocumentPageContent,
+  DocumentAnalysisResult,
+  DocumentAnalysisStatus,
+  DocumentPipelineStage,
+  DocumentProcessingState,
+  DocumentProcessingStatus,
+  DocumentVersion,
+  DuplicateAction,
+  RiskLevel,
   UserRole,
   UserActivityType,
 } from '@shared'
@@ -20,6 +37,9 @@ export interface DocumentFilters {
   search?: string
   category?: DocumentCategory
   workspaceId?: string
+  riskLevel?: RiskLevel
+  minRiskScore?: number
+  maxRiskScore?: number
   sortBy: string
   sortOrder: 'asc' | 'desc'
 }
@@ -28,6 +48,39 @@ export interface DocumentUploadData {
   file: Express.Multer.File
   documentData: CreateDocument
   userId: string
+  userRole: UserRole
+}
+
+const UPLOAD_INCLUDE = {
+  workspace: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  uploadedBy: {
+    select: {
+      id: true,
+      email: true,
+    },
+  },
+} satisfies Prisma.DocumentInclude
+
+// A newly uploaded document or version as stored, with its workspace and uploader
+export type UploadedDocument = Prisma.DocumentGetPayload<{ include: typeof UPLOAD_INCLUDE }>
+
+// The new or linked document, or the workspace documents with the same file
+// when the uploader still has to choose what to do
+export type DocumentUploadResult =
+  | { document: Document | UploadedDocument; created: boolean }
+  | { duplicates: DocumentDuplicate[] }
+
+export interface DocumentVersionUploadData {
+  documentId: string
+  file: Express.Multer.File
+  note?: string
+  userId: string
+  userRole: UserRole
 }
 
 export interface DocumentListResult {
@@ -37,11 +90,11 @@ export interface DocumentListResult {
 
 export class DocumentService {
   private storageService: StorageService
-  private documentProcessor: DocumentProcessor
+  private pipeline: DocumentPipelineService
 
   constructor() {
     this.storageService = new StorageService()
-    this.documentProcessor = new DocumentProcessor()
+    this.pipeline = documentPipeline
   }
 
   async getDocuments(filters: DocumentFilters): Promise<DocumentListResult> {
@@ -54,14 +107,18 @@ export class DocumentService {
         search,
         category,
         workspaceId,
+        riskLevel,
+        minRiskScore,
+        maxRiskScore,
         sortBy,
         sortOrder,
       } = filters
 
       const skip = (page - 1) * limit
 
-      // Build where clause based on user permissions
-      const whereClause: any = {}
+      // Build where clause based on user permissions; earlier versions are
+      // reached through the version history
+      const whereClause: any = { isCurrentVersion: true }
 
       // Workspace access control
       if (workspaceId) {
@@ -92,6 +149,17 @@ export class DocumentService {
         whereClause.category = category
       }
 
+      if (riskLevel) {
+        whereClause.riskLevel = riskLevel
+      }
+
+      if (minRiskScore !== undefined || maxRiskScore !== undefined) {
+        whereClause.riskScore = {
+          ...(minRiskScore !== undefined ? { gte: minRiskScore } : {}),
+          ...(maxRiskScore !== undefined ? { lte: maxRiskScore } : {}),
+        }
+      }
+
       // Get total count
       const total = await prisma.document.count({ where: whereClause })
 
@@ -133,9 +201,9 @@ export class DocumentService {
     }
   }
 
-  async uploadDocument(data: DocumentUploadData): Promise<Document> {
+  async uploadDocument(data: DocumentUploadData): Promise<DocumentUploadResult> {
     try {
-      const { file, documentData, userId } = data
+      const { file, documentData, userId, userRole } = data
 
       // Verify workspace access
       const workspaceMember = await prisma.workspaceMember.findUnique({
@@ -151,66 +219,71 @@ export class DocumentService {
         throw new AppError('Access denied to workspace', 403, 'WORKSPACE_ACCESS_DENIED')
       }
 
+      const mimeType = await this.detectMimeType(file)
+
+      // The same file twice in a workspace is usually a mistake, so the
+      // uploader chooses to link, add a version or keep both
+      if (documentData.onDuplicate !== DuplicateAction.UPLOAD) {
+        const hash = this.storageService.generateHash(file.buffer)
+        const duplicates = await this.findDuplicates(documentData.workspaceId, hash)
+
+        if (duplicates.length > 0) {
+          switch (documentData.onDuplicate) {
+            case DuplicateAction.LINK:
+              logger.info(`Upload by user ${userId} linked to existing document ${duplicates[0].id}`)
+              return {
+                document: await this.getDocumentById(duplicates[0].id, userId, userRole) as Document,
+                created: false,
+              }
+            case DuplicateAction.VERSION:
+              // A file that already is the current version has nothing to add;
+              // an earlier version's file is uploaded again as the newest one
+              if (duplicates[0].isCurrentVersion) {
+                return {
+                  document: await this.getDocumentById(duplicates[0].id, userId, userRole) as Document,
+                  created: false,
+                }
+              }
+              return {
+                document: await this.uploadVersion({ documentId: duplicates[0].id, file, userId, userRole }),
+                created: true,
+              }
+            default:
+              return { duplicates }
+          }
+        }
+      }
+
       // Save file to storage
       const storageResult = await this.storageService.saveFile(
         file.buffer,
         file.originalname,
-        file.mimetype
+        mimeType
       )
 
-      // Extract text content
-      let extractedContent: any = null
-      let processingTime = 0
-      const startTime = Date.now()
-
-      try {
-        extractedContent = await this.documentProcessor.extractText(
-          file.buffer,
-          file.mimetype,
-          file.originalname
-        )
-        processingTime = Date.now() - startTime
-      } catch (error) {
-        logger.warn('Text extraction failed, continuing without content:', error)
-      }
-
-      // Create document record
+      // Create document record, giving the file reference back if that fails
       const document = await prisma.document.create({
         data: {
           workspaceId: documentData.workspaceId,
           uploadedById: userId,
           title: documentData.title || file.originalname,
           originalName: file.originalname,
-          mimeType: file.mimetype,
+          mimeType,
           category: documentData.category,
           tags: documentData.tags || [],
-          content: extractedContent?.text,
           metadata: {
             filename: storageResult.filename,
             size: storageResult.size,
             hash: storageResult.hash,
-            processingTime,
-            textMetadata: extractedContent?.metadata,
             uploadedAt: new Date().toISOString(),
           },
           hash: storageResult.hash,
-          confidenceScore: extractedContent ? 0.9 : 0.5,
-          processingTime,
-        },
-        include: {
-          workspace: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
-          uploadedBy: {
-            select: {
-              id: true,
-              email: true,
-            },
-          },
+          processingStatus: DocumentProcessingStatus.QUEUED,
         },
+        include: UPLOAD_INCLUDE,
+      }).catch(async error => {
+        await this.storageService.releaseFile(storageResult.hash)
+        throw error
       })
 
       // Log activity
@@ -224,13 +297,28 @@ export class DocumentService {
           metadata: {
             documentTitle: document.title,
             fileSize: storageResult.size,
-            mimeType: file.mimetype,
+            mimeType,
           },
         },
       })
 
+      // Extraction, embedding and analysis run in the background worker
+      try {
+        await this.pipeline.enqueue(document.id)
+      } catch (error) {
+        logger.error(`Failed to queue processing for document ${document.id}:`, error)
+        await prisma.document.update({
+          where: { id: document.id },
+          data: {
+            processingStatus: DocumentProcessingStatus.FAILED,
+            processingError: 'Processing could not be queued; re-run the extract stage',
+          },
+        })
+        document.processingStatus = DocumentProcessingStatus.FAILED
+      }
+
       logger.info(`Document uploaded: ${document.id} by user ${userId}`)
-      return document as any
+      return { document, created: true }
     } catch (error) {
       logger.error('Error uploading document:', error)
       
@@ -242,6 +330,247 @@ export class DocumentService {
     }
   }
 
+  // Uploads a revised draft as the document's next version. Every version
+  // keeps its own file, extracted text and embeddings; the pipeline compares
+  // it with the version before once it is analyzed.
+  async uploadVersion(data: DocumentVersionUploadData): Promise<UploadedDocument> {
+    try {
+      const { documentId, file, note, userId, userRole } = data
+
+      const document = await this.getDocumentById(documentId, userId, userRole)
+      if (!document) {
+        throw new AppError('Document not found', 404, 'DOCUMENT_NOT_FOUND')
+      }
+
+      const mimeType = await this.detectMimeType(file)
+      const groupId = document.versionGroupId || document.id
+      const unchanged = await prisma.document.findFirst({
+        where: {
+          OR: [{ id: groupId }, { versionGroupId: groupId }],
+          isCurrentVersion: true,
+          hash: this.storageService.generateHash(file.buffer),
+        },
+        select: { version: true },
+      })
+
+      if (unchanged) {
+        throw new AppError(`File is identical to the current version (${unchanged.version})`, 409, 'VERSION_UNCHANGED')
+      }
+
+      const storageResult = await this.storageService.saveFile(file.buffer, file.originalname, mimeType)
+
+      // The updates lock the group's rows, so concurrent uploads take the next
+      // number one at a time. Should two still pick the same number, the
+      // unique index rejects the later one and it is reported as a conflict.
+      const version = await prisma.$transaction(async tx => {
+        // The first version joins the group it starts
+        await tx.document.updateMany({
+          where: { id: groupId, versionGroupId: null },
+          data: { versionGroupId: groupId },
+        })
+        await tx.document.updateMany({
+          where: { versionGroupId: groupId },
+          data: { isCurrentVersion: false },
+        })
+
+        const latest = await tx.document.aggregate({
+          where: { versionGroupId: groupId },
+          _max: { version: true },
+        })
+
+        return tx.document.create({
+          data: {
+            workspaceId: document.workspaceId,
+            uploadedById: userId,
+            title: document.title,
+            originalName: file.originalname,
+            mimeType,
+            category: document.category,
+            tags: document.tags || [],
+            metadata: {
+              filename: storageResult.filename,
+              size: storageResult.size,
+              hash: storageResult.hash,
+              uploadedAt: new Date().toISOString(),
+              ...(note ? { versionNote: note } : {}),
+            },
+            hash: storageResult.hash,
+            versionGroupId: groupId,
+            version: (latest._max.version || 1) + 1,
+            isCurrentVersion: true,
+            processingStatus: DocumentProcessingStatus.QUEUED,
+          },
+          include: UPLOAD_INCLUDE,
+        })
+      }).catch(async error => {
+        await this.storageService.releaseFile(storageResult.hash)
+
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          throw new AppError('Another version of this document was uploaded at the same time', 409, 'VERSION_CONFLICT')
+        }
+        throw error
+      })
+
+      await prisma.userActivity.create({
+        data: {
+          userId,
+          workspaceId: version.workspaceId,
+          type: UserActivityType.DOCUMENT_UPLOAD,
+          entityType: 'document',
+          entityId: version.id,
+          metadata: {
+            documentTitle: version.title,
+            fileSize: storageResult.size,
+            mimeType,
+            version: version.version,
+            previousVersionId: documentId,
+          },
+        },
+      })
+
+      try {
+        await this.pipeline.enqueue(version.id)
+      } catch (error) {
+        logger.error(`Failed to queue processing for document ${version.id}:`, error)
+        await prisma.document.update({
+          where: { id: version.id },
+          data: {
+            processingStatus: DocumentProcessingStatus.FAILED,
+            processingError: 'Processing could not be queued; re-run the extract stage',
+          },
+        })
+        version.processingStatus = DocumentProcessingStatus.FAILED
+      }
+
+      logger.info(`Version ${version.version} of document ${groupId} uploaded: ${version.id} by user ${userId}`)
+      return version
+    } catch (error) {
+      logger.error('Error uploading document version:', error)
+
+      if (error instanceof AppError) {
+        throw error
+      }
+
+      throw new AppError('Failed to upload document version', 500, 'DOCUMENT_VERSION_UPLOAD_ERROR')
+    }
+  }
+
+  // Version history, newest first, with each version's comparison against the one before
+  async getVersions(documentId: string, userId: string, userRole: UserRole): Promise<DocumentVersion[]> {
+    try {
+      const document = await this.getDocumentById(documentId, userId, userRole)
+      if (!document) {
+        throw new AppError('Document not found', 404, 'DOCUMENT_NOT_FOUND')
+      }
+
+      const versions = await prisma.document.findMany({
+        where: document.versionGroupId ? { versionGroupId: document.versionGroupId } : { id: document.id },
+        select: {
+          id: true,
+          version: true,
+          isCurrentVersion: true,
+          title: true,
+          originalName: true,
+          processingStatus: true,
+          metadata: true,
+          createdAt: true,
+          uploadedBy: {
+            select: {
+              id: true,
+              email: true,
+            },
+          },
+        },
+      })
+
+      const ids = versions.map(version => version.id)
+      const comparisons = await prisma.documentComparison.findMany({
+        where: { doc1Id: { in: ids }, doc2Id: { in: ids } },
+        select: { id: true, doc1Id: true, doc2Id: true, similarityScore: true },
+      })
+
+      return versionHistory(versions, comparisons)
+    } catch (error) {
+      logger.error('Error fetching document versions:', error)
+
+      if (error instanceof AppError) {
+        throw error
+      }
+
+      throw new AppError('Failed to fetch document versions', 500, 'DOCUMENT_VERSIONS_FETCH_ERROR')
+    }
+  }
+
+  // Page map of a paginated document; empty for formats without pages
+  async getPages(documentId: string, userId: string, userRole: UserRole): Promise<DocumentPage[]> {
+    const document = await this.getDocumentById(documentId, userId, userRole)
+    if (!document) {
+      throw new AppError('Document not found', 404, 'DOCUMENT_NOT_FOUND')
+    }
+
+    return (document.pageMap as DocumentPage[] | null | undefined) || []
+  }
+
+  // One page's text with its paragraphs numbered from 1, so a citation such as
+  // "page 7, paragraph 3" resolves to offsets in the document content
+  async getPage(documentId: string, page: number, userId: string, userRole: UserRole): Promise<DocumentPageContent> {
+    const document = await this.getDocumentById(documentId, userId, userRole)
+    if (!document) {
+      throw new AppError('Document not found', 404, 'DOCUMENT_NOT_FOUND')
+    }
+
+    const layout = ((document.pageMap as DocumentPage[] | null | undefined) || []).find(candidate => candidate.page === page)
+    if (!layout) {
+      throw new AppError('Page not found for this document', 404, 'PAGE_NOT_FOUND')
+    }
+
+    return pageContent(document.content || '', layout)
+  }
+
+  // Makes an earlier version current again. Later versions are kept, so
+  // restoring is itself undone by restoring the later version.
+  async restoreVersion(documentId: string, versionId: string, userId: string, userRole: UserRole): Promise<Document> {
+    try {
+      const document = await this.getDocumentById(documentId, userId, userRole)
+      if (!document) {
+        throw new AppError('Document not found', 404, 'DOCUMENT_NOT_FOUND')
+      }
+
+      const version = document.versionGroupId
+        ? await prisma.document.findFirst({
+            where: { id: versionId, versionGroupId: document.versionGroupId },
+            select: { id: true, version: true },
+          })
+        : null
+
+      if (!version) {
+        throw new AppError('Version not found for this document', 404, 'VERSION_NOT_FOUND')
+      }
+
+      await prisma.$transaction([
+        prisma.document.updateMany({
+          where: { versionGroupId: document.versionGroupId },
+          data: { isCurrentVersion: false },
+        }),
+        prisma.document.update({
+          where: { id: version.id },
+          data: { isCurrentVersion: true },
+        }),
+      ])
+
+      logger.info(`Version ${version.version} of document ${document.versionGroupId} restored by user ${userId}`)
+      return await this.getDocumentById(version.id, userId, userRole) as Document
+    } catch (error) {
+      logger.error('Error restoring document version:', error)
+
+      if (error instanceof AppError) {
+        throw error
+      }
+
+      throw new AppError('Failed to restore document version', 500, 'DOCUMENT_VERSION_RESTORE_ERROR')
+    }
+  }
+
   async getDocumentById(documentId: string, userId: string, userRole: UserRole): Promise<Document | null> {
     try {
       const whereClause: any = { id: documentId }
@@ -371,17 +700,34 @@ export class DocumentService {
         throw new AppError('Insufficient permissions to delete document', 403, 'INSUFFICIENT_PERMISSIONS')
       }
 
-      // Delete file from storage
-      const filename = (document.metadata as any)?.filename
-      if (filename) {
-        await this.storageService.deleteFile(filename)
-      }
+      // Attachments extracted from an email are deleted with it
+      const attachmentHashes = await this.attachmentHashes(documentId)
 
       // Delete document record (cascading deletes will handle related records)
       await prisma.document.delete({
         where: { id: documentId },
       })
 
+      // The file itself goes with the last document using it
+      for (const hash of [document.hash, ...attachmentHashes]) {
+        await this.storageService.releaseFile(hash)
+      }
+
+      // Deleting the current version makes the latest remaining one current
+      if (document.versionGroupId && document.isCurrentVersion) {
+        const latest = await prisma.document.findFirst({
+          where: { versionGroupId: document.versionGroupId },
+          orderBy: { version: 'desc' },
+          select: { id: true },
+        })
+        if (latest) {
+          await prisma.document.update({
+            where: { id: latest.id },
+            data: { isCurrentVersion: true },
+          })
+        }
+      }
+
       logger.info(`Document deleted: ${documentId} by user ${userId}`)
     } catch (error) {
       logger.error('Error deleting document:', error)
@@ -425,7 +771,7 @@ export class DocumentService {
     }
   }
 
-  async analyzeDocument(documentId: string, userId: string, userRole: UserRole) {
+  async analyzeDocument(documentId: string, userId: string, userRole: UserRole): Promise<DocumentAnalysisResult> {
     try {
       const document = await this.getDocumentById(documentId, userId, userRole)
       
@@ -433,16 +779,12 @@ export class DocumentService {
         throw new AppError('Document not found', 404, 'DOCUMENT_NOT_FOUND')
       }
 
-      // This would integrate with AI service
-      // For now, return mock analysis
-      const analysis = {
-        summary: 'Document analysis will be implemented with AI service integration.',
-        keyPoints: ['Key point 1', 'Key point 2', 'Key point 3'],
-        entities: [],
-        confidence: 0.85,
-        processingTime: 1500,
+      if (!document.content || document.content.trim().length === 0) {
+        throw new AppError('Document has no extracted text to analyze', 422, 'DOCUMENT_CONTENT_UNAVAILABLE')
       }
 
+      const analysis = await this.pipeline.analyze(document.id)
+
       // Log analysis activity
       await prisma.userActivity.create({
         data: {
@@ -454,6 +796,10 @@ export class DocumentService {
           metadata: {
             documentTitle: document.title,
             analysisType: 'ai_analysis',
+            model: analysis.model,
+            provider: analysis.provider,
+            promptVersion: analysis.promptVersion,
+            processingTime: analysis.processingTime,
           },
         },
       })
@@ -470,7 +816,7 @@ export class DocumentService {
     }
   }
 
-  async getDocumentAnalysis(documentId: string, userId: string, userRole: UserRole) {
+  async getDocumentAnalysis(documentId: string, userId: string, userRole: UserRole): Promise<DocumentAnalysisStatus> {
     try {
       const document = await this.getDocumentById(documentId, userId, userRole)
       
@@ -478,20 +824,119 @@ export class DocumentService {
         throw new AppError('Document not found', 404, 'DOCUMENT_NOT_FOUND')
       }
 
-      // Return existing analysis from metadata or indicate none available
-      const analysis = (document.metadata as any)?.analysis || null
+      // Return existing analysis from metadata, as the analyze stage stored
+      // it, or indicate none available
+      const metadata = jsonObject(document.metadata)
+      const analysis = (metadata.analysis || null) as DocumentAnalysisResult | null
       
       return {
         hasAnalysis: !!analysis,
         analysis,
-        lastAnalyzed: analysis ? (document.metadata as any)?.lastAnalyzed : null,
+        lastAnalyzed: analysis && typeof metadata.lastAnalyzed === 'string' ? metadata.lastAnalyzed : null,
+        history: analysisHistory(metadata),
       }
     } catch (error) {
       logger.error('Error fetching document analysis:', error)
+
+      if (error instanceof AppError) {
+        throw error
+      }
+
       throw new AppError('Failed to fetch document analysis', 500, 'ANALYSIS_FETCH_ERROR')
     }
   }
 
+  async getProcessingState(documentId: string, userId: string, userRole: UserRole): Promise<DocumentProcessingState> {
+    try {
+      const document = await this.getDocumentById(documentId, userId, userRole)
+
+      if (!document) {
+        throw new AppError('Document not found', 404, 'DOCUMENT_NOT_FOUND')
+      }
+
+      return await this.pipeline.getState(documentId)
+    } catch (error) {
+      logger.error('Error fetching document processing state:', error)
+
+      if (error instanceof AppError) {
+        throw error
+      }
+
+      throw new AppError('Failed to fetch processing state', 500, 'PROCESSING_STATE_FETCH_ERROR')
+    }
+  }
+
+  async reprocessDocument(
+    documentId: string,
+    stage: DocumentPipelineStage,
+    userId: string,
+    userRole: UserRole
+  ): Promise<DocumentProcessingState> {
+    try {
+      const document = await this.getDocumentById(documentId, userId, userRole)
+
+      if (!document) {
+        throw new AppError('Document not found', 404, 'DOCUMENT_NOT_FOUND')
+      }
+
+      await this.pipeline.enqueue(documentId, stage)
+
+      logger.info(`Document ${documentId} re-queued from ${stage} stage by user ${userId}`)
+      return await this.pipeline.getState(documentId)
+    } catch (error) {
+      logger.error('Error re-queuing document processing:', error)
+
+      if (error instanceof AppError) {
+        throw error
+      }
+
+      throw new AppError('Failed to queue document processing', 500, 'PROCESSING_QUEUE_ERROR')
+    }
+  }
+
+  // The stored type comes from the file's content rather than the MIME type
+  // the client sent
+  private async detectMimeType(file: Express.Multer.File): Promise<string> {
+    const mimeType = await detectFileType(file.buffer, file.originalname)
+    if (!SUPPORTED_MIME_TYPES.includes(mimeType)) {
+      throw new AppError(`File type of ${file.originalname} is not supported`, 400, 'UNSUPPORTED_FILE_TYPE')
+    }
+    return mimeType
+  }
+
+  // Files of a document's attachments, including those of emails attached to it
+  private async attachmentHashes(documentId: string): Promise<string[]> {
+    const hashes: string[] = []
+    let parentIds = [documentId]
+
+    while (parentIds.length > 0) {
+      const attachments = await prisma.document.findMany({
+        where: { parentId: { in: parentIds } },
+        select: { id: true, hash: true },
+      })
+      hashes.push(...attachments.map(attachment => attachment.hash))
+      parentIds = attachments.map(attachment => attachment.id)
+    }
+
+    return hashes
+  }
+
+  // Current versions first, then the most recently uploaded
+  private async findDuplicates(workspaceId: string, hash: string): Promise<DocumentDuplicate[]> {
+    return prisma.document.findMany({
+      where: { workspaceId, hash },
+      select: {
+        id: true,
+        title: true,
+        originalName: true,
+        version: true,
+        isCurrentVersion: true,
+        createdAt: true,
+      },
+      orderBy: [{ isCurrentVersion: 'desc' }, { createdAt: 'desc' }],
+    })
+  }
+
   private async isWorkspaceAdmin(userId: string, workspaceId: string): Promise<boolean> {
     const member = await prisma.workspaceMember.findUnique({
       where: {
@@ -0,0 +1,277 @@
+import crypto from 'crypto'
+import { redis } from '@/index'
+import { logger } from '@/utils/logger'
+
+export interface Job<T = any> {
+  id: string
+  name: string
+  data: T
+  attempts: number
+  maxAttempts: number
+  enqueuedAt: string
+  lastError?: string
+}
+
+export interface EnqueueOptions {
+  maxAttempts?: number
+  delayMs?: number
+}
+
+export type JobHandler<T = any> = (job: Job<T>) => Promise<void>
+
+export type JobFailureHandler<T = any> = (job: Job<T>, error: unknown) => Promise<void>
+
+export interface QueueCounts {
+  waiting: number
+  active: number
+  delayed: number
+}
+
+type RedisConnection = ReturnType<typeof redis.duplicate>
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Durable job queue on top of Redis lists. Each worker moves jobs atomically
+// from the waiting list to its own active list while they run and holds a
+// lease on them through a heartbeat key. When a worker stops renewing its
+// lease (crash, lost connection), another worker puts its jobs back; jobs
+// running on live workers are left alone. Failed jobs are retried with
+// exponential backoff through a delayed sorted set.
+export class JobQueue<T = any> {
+  private readonly keyPrefix: string
+  private readonly waitingKey: string
+  private readonly delayedKey: string
+  private readonly workersKey: string
+  private readonly workerId = crypto.randomUUID()
+  private readonly backoffMs: number
+  private readonly leaseMs: number
+  private handler: JobHandler<T> | null = null
+  private failureHandler: JobFailureHandler<T> | null = null
+  private blockingClient: RedisConnection | null = null
+  private timers: NodeJS.Timeout[] = []
+  private running = false
+  private loop: Promise<void> | null = null
+
+  constructor(name: string, options: { backoffMs?: number; leaseMs?: number } = {}) {
+    this.keyPrefix = `jurisight:queue:${name}`
+    this.waitingKey = `${this.keyPrefix}:waiting`
+    this.delayedKey = `${this.keyPrefix}:delayed`
+    this.workersKey = `${this.keyPrefix}:workers`
+    this.backoffMs = options.backoffMs ?? 5000
+    this.leaseMs = options.leaseMs ?? 30000
+  }
+
+  process(handler: JobHandler<T>, onFailed?: JobFailureHandler<T>): void {
+    this.handler = handler
+    this.failureHandler = onFailed || null
+  }
+
+  async enqueue(name: string, data: T, options: EnqueueOptions = {}): Promise<Job<T>> {
+    const job: Job<T> = {
+      id: crypto.randomUUID(),
+      name,
+      data,
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? 3,
+      enqueuedAt: new Date().toISOString(),
+    }
+
+    if (options.delayMs && options.delayMs > 0) {
+      await redis.zAdd(this.delayedKey, { score: Date.now() + options.delayMs, value: JSON.stringify(job) })
+    } else {
+      await redis.lPush(this.waitingKey, JSON.stringify(job))
+    }
+
+    return job
+  }
+
+  async getJobs(filter?: (job: Job<T>) => boolean): Promise<Array<Job<T> & { state: keyof QueueCounts }>> {
+    const workers = await redis.sMembers(this.workersKey)
+    const [waiting, delayed, ...leased] = await Promise.all([
+      redis.lRange(this.waitingKey, 0, -1),
+      redis.zRange(this.delayedKey, 0, -1),
+      ...workers.map(workerId => redis.lRange(this.activeKey(workerId), 0, -1)),
+    ])
+    const active = leased.flat()
+
+    const tag = (raw: string[], state: keyof QueueCounts) =>
+      raw.map(item => ({ ...(JSON.parse(item) as Job<T>), state }))
+
+    const jobs = [...tag(active, 'active'), ...tag(waiting, 'waiting'), ...tag(delayed, 'delayed')]
+    return filter ? jobs.filter(filter) : jobs
+  }
+
+  async getCounts(): Promise<QueueCounts> {
+    const workers = await redis.sMembers(this.workersKey)
+    const [waiting, delayed, ...leased] = await Promise.all([
+      redis.lLen(this.waitingKey),
+      redis.zCard(this.delayedKey),
+      ...workers.map(workerId => redis.lLen(this.activeKey(workerId))),
+    ])
+
+    return { waiting, active: leased.reduce((sum, count) => sum + count, 0), delayed }
+  }
+
+  async start(): Promise<void> {
+    if (this.running) {
+      return
+    }
+
+    if (!this.handler) {
+      throw new Error('JobQueue.start() called before a handler was registered')
+    }
+
+    this.blockingClient = redis.duplicate()
+    await this.blockingClient.connect()
+
+    await this.renewLease()
+    await this.recoverExpiredLeases()
+
+    this.running = true
+    this.timers = [
+      setInterval(() => {
+        this.promoteDelayedJobs().catch(error => logger.error('Failed to promote delayed jobs:', error))
+      }, 1000),
+      setInterval(() => {
+        this.renewLease().catch(error => logger.error('Failed to renew job queue lease:', error))
+      }, this.leaseMs / 3),
+      setInterval(() => {
+        this.recoverExpiredLeases().catch(error => logger.error('Failed to recover interrupted jobs:', error))
+      }, this.leaseMs),
+    ]
+    this.loop = this.runLoop().catch(error => {
+      logger.error('Job queue loop stopped:', error)
+    })
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) {
+      return
+    }
+
+    this.running = false
+
+    // The blocking pop times out every second, so the loop exits on its own
+    await this.loop
+
+    this.timers.forEach(timer => clearInterval(timer))
+    this.timers = []
+
+    // The lease ends with the last job, so nothing is left to recover
+    await redis.multi()
+      .del(this.heartbeatKey(this.workerId))
+      .sRem(this.workersKey, this.workerId)
+      .exec()
+    await this.blockingClient?.disconnect()
+    this.blockingClient = null
+  }
+
+  private activeKey(workerId: string): string {
+    return `${this.keyPrefix}:active:${workerId}`
+  }
+
+  private heartbeatKey(workerId: string): string {
+    return `${this.keyPrefix}:worker:${workerId}`
+  }
+
+  private async renewLease(): Promise<void> {
+    await redis.multi()
+      .set(this.heartbeatKey(this.workerId), new Date().toISOString(), { PX: this.leaseMs })
+      .sAdd(this.workersKey, this.workerId)
+      .exec()
+  }
+
+  // Puts back the jobs of workers whose lease expired, i.e. that died mid-run
+  private async recoverExpiredLeases(): Promise<void> {
+    const workers = await redis.sMembers(this.workersKey)
+
+    for (const workerId of workers) {
+      if (workerId === this.workerId || await redis.exists(this.heartbeatKey(workerId))) {
+        continue
+      }
+
+      // Each job is moved by exactly one of the workers recovering it
+      let recovered = 0
+      while (await redis.lMove(this.activeKey(workerId), this.waitingKey, 'RIGHT', 'RIGHT')) {
+        recovered++
+      }
+      await redis.sRem(this.workersKey, workerId)
+
+      if (recovered > 0) {
+        logger.warn(`Recovered ${recovered} interrupted job(s) from worker ${workerId} of ${this.keyPrefix}`)
+      }
+    }
+  }
+
+  // A Redis error or a bad job is logged and the worker keeps polling
+  private async runLoop(): Promise<void> {
+    while (this.running) {
+      try {
+        const raw = await this.blockingClient!.blMove(this.waitingKey, this.activeKey(this.workerId), 'RIGHT', 'LEFT', 1)
+        if (raw) {
+          await this.runJob(raw)
+        }
+      } catch (error) {
+        logger.error('Job queue iteration failed:', error)
+        await sleep(1000)
+      }
+    }
+  }
+
+  private async runJob(raw: string): Promise<void> {
+    const activeKey = this.activeKey(this.workerId)
+
+    let job: Job<T>
+    try {
+      job = JSON.parse(raw) as Job<T>
+    } catch {
+      logger.error(`Dropping malformed job from ${this.keyPrefix}: ${raw.slice(0, 200)}`)
+      await redis.lRem(activeKey, 1, raw)
+      return
+    }
+    job.attempts++
+
+    try {
+      await this.handler!(job)
+      await redis.lRem(activeKey, 1, raw)
+    } catch (error) {
+      job.lastError = error instanceof Error ? error.message : String(error)
+
+      if (job.attempts < job.maxAttempts) {
+        const delay = this.backoffMs * Math.pow(2, job.attempts - 1)
+        logger.warn(`Job ${job.name} (${job.id}) failed, retrying in ${delay}ms: ${job.lastError}`)
+
+        await redis.multi()
+          .lRem(activeKey, 1, raw)
+          .zAdd(this.delayedKey, { score: Date.now() + delay, value: JSON.stringify(job) })
+          .exec()
+        return
+      }
+
+      logger.error(`Job ${job.name} (${job.id}) failed after ${job.attempts} attempts: ${job.lastError}`)
+      await redis.lRem(activeKey, 1, raw)
+
+      if (this.failureHandler) {
+        try {
+          await this.failureHandler(job, error)
+        } catch (handlerError) {
+          logger.error('Job failure handler threw:', handlerError)
+        }
+      }
+    }
+  }
+
+  private async promoteDelayedJobs(): Promise<void> {
+    const due = await redis.zRangeByScore(this.delayedKey, 0, Date.now())
+
+    for (const raw of due) {
+      // Only the caller that actually removes the entry re-queues it
+      const removed = await redis.zRem(this.delayedKey, raw)
+      if (removed > 0) {
+        await redis.lPush(this.waitingKey, raw)
+      }
+    }
+  }
+}
+
+export default JobQueue
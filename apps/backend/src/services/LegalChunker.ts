@@ -0,0 +1,451 @@
+import { isAbbreviation } from '@/utils/text'
+
+export type ChunkKind = 'clause' | 'definition' | 'recital' | 'schedule' | 'signature' | 'text'
+
+// Stored as DocumentEmbedding.metadata so citations can point to a section and page
+export interface ChunkMetadata {
+  // Outermost heading first, e.g. ["Article VII Termination", "Section 7.3 Notice"]
+  headingPath: string[]
+  // Deepest numbered reference such as "Section 7.3" or "Schedule A"
+  section: string | null
+  kind: ChunkKind
+  page: number | null
+  pageEnd: number | null
+  // Character offsets of the chunk within Document.content
+  startOffset: number
+  endOffset: number
+}
+
+export interface DocumentChunk {
+  content: string
+  metadata: ChunkMetadata
+}
+
+export interface ChunkOptions {
+  chunkSize?: number
+  overlapSize?: number
+  // Offset at which each page starts. Form feeds in the text are used otherwise.
+  pageStarts?: number[]
+}
+
+interface Heading {
+  level: number
+  label: string
+  title: string
+  kind?: ChunkKind
+}
+
+interface Segment {
+  start: number
+  end: number
+  path: Heading[]
+}
+
+export interface Span {
+  start: number
+  end: number
+}
+
+const SCHEDULE_HEADING = /^(SCHEDULE|Schedule|EXHIBIT|Exhibit|ANNEX|Annex|APPENDIX|Appendix)\s+([A-Z]{1,3}|\d{1,3})\b\.?\s*[-–—:]?\s*(.*)$/
+const SIGNATURE_HEADING = /^(IN WITNESS WHEREOF|SIGNED\b|Signed by\b|EXECUTED\b|Executed by\b|By:\s*_{3,})/
+const RECITAL_HEADING = /^(WHEREAS\b|RECITALS\b|Recitals\b|BACKGROUND\b)/
+const ARTICLE_HEADING = /^(ARTICLE|Article)\s+([IVXLC]+|\d{1,3})\b\.?\s*[-–—:]?\s*(.*)$/
+const SECTION_HEADING = /^(?:SECTION|Section|Sec\.|§)\s*(\d{1,3}(?:\.\d{1,3})*)\.?\s*[-–—:]?\s*(.*)$/
+// "7.3 Termination" or "7. Termination"; a bare "30 days" at a line start is not a heading
+const NUMBERED_HEADING = /^(\d{1,3}(?:\.\d{1,3})+|\d{1,3}[.)])\.?\s+(?=[A-Z"“(])(.*)$/
+const CAPS_HEADING = /^[A-Z][A-Z0-9 ,&'’()\-–]{2,79}$/
+const DEFINITION_START = /^[^\n]{0,20}["“][^"”\n]{1,60}["”]\s+(?:shall\s+)?means?\b/
+const DEFINITION_TITLE = /definition|interpretation/i
+
+// Splits contracts along their own structure: each article, section, numbered
+// clause, schedule and signature block starts a new segment, and segments
+// longer than the chunk size are split on sentence boundaries that survive
+// "Sec. 4.2", "U.S.C." and decimals. Chunk text is always an exact slice of the
+// source, so offsets can be used to highlight the passage.
+export class LegalChunker {
+  chunk(text: string, options: ChunkOptions = {}): DocumentChunk[] {
+    const chunkSize = options.chunkSize ?? 1000
+    const overlapSize = Math.min(options.overlapSize ?? 200, Math.floor(chunkSize / 2))
+    const pageStarts = options.pageStarts ?? this.formFeedPages(text)
+
+    if (text.trim().length === 0) {
+      return []
+    }
+
+    const segments = this.mergeSmallSegments(this.segment(text), Math.min(200, Math.floor(chunkSize / 4)))
+    const chunks: DocumentChunk[] = []
+
+    for (const segment of segments) {
+      for (const range of this.splitSegment(text, segment, chunkSize, overlapSize)) {
+        const trimmed = this.trimRange(text, range)
+        if (trimmed.end <= trimmed.start) {
+          continue
+        }
+
+        chunks.push(this.toChunk(text, segment, trimmed, pageStarts))
+      }
+    }
+
+    return chunks
+  }
+
+  // Whole structural segments (one per clause, schedule or signature block)
+  // without splitting to a chunk size
+  sections(text: string, options: Pick<ChunkOptions, 'pageStarts'> = {}): DocumentChunk[] {
+    const pageStarts = options.pageStarts ?? this.formFeedPages(text)
+
+    if (text.trim().length === 0) {
+      return []
+    }
+
+    return this.mergeSmallSegments(this.segment(text), 200)
+      .map(segment => ({ segment, range: this.trimRange(text, segment) }))
+      .filter(({ range }) => range.end > range.start)
+      .map(({ segment, range }) => this.toChunk(text, segment, range, pageStarts))
+  }
+
+  // Sentence ranges within the text, trimmed of surrounding whitespace
+  sentences(text: string): Span[] {
+    return this.sentenceSpans(text, 0, text.length)
+      .map(span => this.trimRange(text, span))
+      .filter(span => span.end > span.start)
+  }
+
+  // Length of the heading lines opening a section, such as "ARTICLE 7
+  // TERMINATION". Numbered clauses that run on into their text are kept.
+  headingLength(text: string): number {
+    const linePattern = /[^\n]*(?:\n|$)/g
+    let end = 0
+    let match: RegExpExecArray | null
+
+    while ((match = linePattern.exec(text)) !== null && match[0].length > 0) {
+      const line = match[0].trim()
+      if (line.length > 0) {
+        const heading = this.matchHeading(line, [])
+        const captioned = heading && !heading.kind && heading.title !== heading.label
+        // A wrapped sentence ends in punctuation or continues in lower case
+        const next = text.slice(match.index + match[0].length).trimStart()
+        if (!captioned || /[.;:,]$/.test(line) || /^[a-z]/.test(next)) {
+          break
+        }
+      }
+      end = match.index + match[0].length
+    }
+
+    return end
+  }
+
+  // Standalone heading lines such as "ARTICLE 7 TERMINATION" or "7.3 Notice",
+  // with their nesting level. Numbered clauses that run on into their text are
+  // left out, since they are paragraphs rather than headings.
+  headings(text: string): Array<Span & { level: number }> {
+    const headings: Array<Span & { level: number }> = []
+    let path: Heading[] = []
+    const linePattern = /[^\n]*(?:\n|$)/g
+    let match: RegExpExecArray | null
+
+    while ((match = linePattern.exec(text)) !== null && match[0].length > 0) {
+      const line = match[0].trim()
+      const heading = this.matchHeading(line, path)
+      if (!heading) {
+        continue
+      }
+      path = [...path.filter(parent => parent.level < heading.level), heading]
+
+      const next = text.slice(match.index + match[0].length).trimStart()
+      if (line.length > 100 || /[.;:,]$/.test(line) || /^[a-z]/.test(next)) {
+        continue
+      }
+
+      const start = match.index + match[0].indexOf(line)
+      headings.push({ start, end: start + line.length, level: heading.level })
+    }
+
+    return headings
+  }
+
+  private segment(text: string): Segment[] {
+    const segments: Segment[] = []
+    let path: Heading[] = []
+    let segmentStart = 0
+    const linePattern = /[^\n]*(?:\n|$)/g
+    let match: RegExpExecArray | null
+
+    while ((match = linePattern.exec(text)) !== null && match[0].length > 0) {
+      const heading = this.matchHeading(match[0].trim(), path)
+
+      if (heading) {
+        if (match.index > segmentStart) {
+          segments.push({ start: segmentStart, end: match.index, path })
+        }
+
+        path = [...path.filter(parent => parent.level < heading.level), heading]
+        segmentStart = match.index
+      }
+    }
+
+    if (segmentStart < text.length) {
+      segments.push({ start: segmentStart, end: text.length, path })
+    }
+
+    return segments
+  }
+
+  private matchHeading(line: string, path: Heading[]): Heading | null {
+    if (line.length === 0) {
+      return null
+    }
+
+    let match: RegExpMatchArray | null
+
+    if (line.length <= 100 && (match = line.match(SCHEDULE_HEADING))) {
+      const label = `${capitalize(match[1])} ${match[2]}`
+      return { level: 0, label, title: joinTitle(label, match[3]), kind: 'schedule' }
+    }
+
+    if (SIGNATURE_HEADING.test(line) && path[0]?.kind !== 'signature') {
+      return { level: 0, label: '', title: 'Signatures', kind: 'signature' }
+    }
+
+    if (RECITAL_HEADING.test(line)) {
+      return { level: 1, label: '', title: 'Recitals', kind: 'recital' }
+    }
+
+    if ((match = line.match(ARTICLE_HEADING))) {
+      const label = `Article ${match[2]}`
+      return { level: 1, label, title: joinTitle(label, match[3]) }
+    }
+
+    if ((match = line.match(SECTION_HEADING))) {
+      const label = `Section ${match[1]}`
+      return { level: 1 + match[1].split('.').length, label, title: joinTitle(label, match[2]) }
+    }
+
+    if ((match = line.match(NUMBERED_HEADING))) {
+      const number = match[1].replace(/[.)]$/, '')
+      const label = `Section ${number}`
+      return { level: 1 + number.split('.').length, label, title: joinTitle(label, match[2]) }
+    }
+
+    if (CAPS_HEADING.test(line) && /[A-Z]{3,}/.test(line)) {
+      const underArticle = path.some(heading => heading.level === 1 && heading.label.startsWith('Article'))
+      return { level: underArticle ? 2 : 1, label: '', title: line }
+    }
+
+    return null
+  }
+
+  // Heading-only segments such as "ARTICLE 7 TERMINATION" are folded into the
+  // first clause beneath them, which carries the full heading path anyway
+  private mergeSmallSegments(segments: Segment[], minSize: number): Segment[] {
+    const merged: Segment[] = []
+    let pendingStart: number | null = null
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i]
+      const start: number = pendingStart ?? segment.start
+
+      const next = segments[i + 1]
+      if (segment.end - start < minSize && next && this.isParent(segment.path, next.path)) {
+        pendingStart = start
+        continue
+      }
+
+      merged.push({ ...segment, start })
+      pendingStart = null
+    }
+
+    return merged
+  }
+
+  private isParent(parent: Heading[], child: Heading[]): boolean {
+    return parent.length < child.length && parent.every((heading, index) => heading === child[index])
+  }
+
+  private splitSegment(text: string, segment: Segment, chunkSize: number, overlapSize: number): Span[] {
+    if (segment.end - segment.start <= chunkSize) {
+      return [{ start: segment.start, end: segment.end }]
+    }
+
+    const spans = this.sentenceSpans(text, segment.start, segment.end)
+    const ranges: Span[] = []
+    let i = 0
+
+    while (i < spans.length) {
+      let j = i
+      while (j + 1 < spans.length && spans[j + 1].end - spans[i].start <= chunkSize) {
+        j++
+      }
+
+      // A single sentence longer than a chunk is split on whitespace
+      if (spans[j].end - spans[i].start > chunkSize) {
+        ranges.push(...this.hardSplit(text, spans[i], chunkSize))
+        i = j + 1
+        continue
+      }
+
+      ranges.push({ start: spans[i].start, end: spans[j].end })
+
+      if (j + 1 >= spans.length) {
+        break
+      }
+
+      // Repeat trailing sentences that fit in the overlap window
+      let next = j + 1
+      for (let k = j; k > i && spans[k].start >= spans[j].end - overlapSize; k--) {
+        next = k
+      }
+      i = next
+    }
+
+    return ranges
+  }
+
+  private toChunk(text: string, segment: Segment, range: Span, pageStarts?: number[]): DocumentChunk {
+    const numbered = segment.path.filter(heading => heading.label)
+
+    return {
+      content: text.slice(range.start, range.end),
+      metadata: {
+        headingPath: segment.path.map(heading => heading.title),
+        section: numbered.length > 0 ? numbered[numbered.length - 1].label : null,
+        kind: this.kindOf(segment.path, text.slice(segment.start, segment.end)),
+        page: this.pageAt(pageStarts, range.start),
+        pageEnd: this.pageAt(pageStarts, range.end - 1),
+        startOffset: range.start,
+        endOffset: range.end,
+      },
+    }
+  }
+
+  private sentenceSpans(text: string, start: number, end: number): Span[] {
+    const slice = text.slice(start, end)
+    const boundaries = new Set<number>([0])
+    const sentenceEnd = /[.!?;]+["”’')\]]*(?=\s)/g
+    let match: RegExpExecArray | null
+
+    while ((match = sentenceEnd.exec(slice)) !== null) {
+      const after = match.index + match[0].length
+      const nextChar = slice.slice(after).search(/\S/)
+      if (nextChar === -1) {
+        break
+      }
+
+      const next = slice[after + nextChar]
+      if (!/[A-Z0-9"“'(]/.test(next)) {
+        continue
+      }
+
+      if (match[0].startsWith('.') && this.endsWithAbbreviation(slice, match.index)) {
+        continue
+      }
+
+      boundaries.add(after + nextChar)
+    }
+
+    const paragraph = /\n[ \t]*\n\s*/g
+    while ((match = paragraph.exec(slice)) !== null) {
+      boundaries.add(match.index + match[0].length)
+    }
+
+    const starts = Array.from(boundaries).filter(offset => offset < slice.length).sort((a, b) => a - b)
+    return starts.map((offset, index) => ({
+      start: start + offset,
+      end: index + 1 < starts.length ? start + starts[index + 1] : end,
+    }))
+  }
+
+  private endsWithAbbreviation(text: string, periodIndex: number): boolean {
+    const before = text.slice(Math.max(0, periodIndex - 20), periodIndex)
+    return isAbbreviation((before.match(/[^\s("“]+$/) || [''])[0])
+  }
+
+  private hardSplit(text: string, span: Span, chunkSize: number): Span[] {
+    const ranges: Span[] = []
+    let start = span.start
+
+    while (span.end - start > chunkSize) {
+      const window = text.slice(start, start + chunkSize)
+      const lastSpace = window.search(/\s\S*$/)
+      const end = lastSpace > chunkSize / 2 ? start + lastSpace : start + chunkSize
+      ranges.push({ start, end })
+      start = end
+    }
+
+    ranges.push({ start, end: span.end })
+    return ranges
+  }
+
+  private trimRange(text: string, range: Span): Span {
+    let { start, end } = range
+    while (start < end && /\s/.test(text[start])) start++
+    while (end > start && /\s/.test(text[end - 1])) end--
+    return { start, end }
+  }
+
+  private kindOf(path: Heading[], content: string): ChunkKind {
+    const root = path.find(heading => heading.kind)
+    if (root?.kind) {
+      return root.kind
+    }
+
+    if (path.some(heading => DEFINITION_TITLE.test(heading.title))) {
+      return 'definition'
+    }
+
+    const body = content.replace(NUMBERED_HEADING, '$2').trimStart()
+    if (DEFINITION_START.test(body)) {
+      return 'definition'
+    }
+
+    return path.length > 0 ? 'clause' : 'text'
+  }
+
+  private formFeedPages(text: string): number[] | undefined {
+    if (!text.includes('\f')) {
+      return undefined
+    }
+
+    const starts = [0]
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\f') {
+        starts.push(i + 1)
+      }
+    }
+    return starts
+  }
+
+  private pageAt(pageStarts: number[] | undefined, offset: number): number | null {
+    if (!pageStarts || pageStarts.length === 0) {
+      return null
+    }
+
+    let low = 0
+    let high = pageStarts.length - 1
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2)
+      if (pageStarts[mid] <= offset) {
+        low = mid
+      } else {
+        high = mid - 1
+      }
+    }
+    return low + 1
+  }
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+}
+
+// Heading title with its caption, e.g. "Section 7.3 Termination". Clauses that
+// open with running text instead of a caption keep just the label.
+function joinTitle(label: string, rest: string): string {
+  const caption = rest.split(/(?<=\.)\s|[:;]/)[0].replace(/\.$/, '').trim()
+  if (!caption || caption.length > 60 || /\b(means|shall|will|may|must|is|are)\b/.test(caption)) {
+    return label
+  }
+  return `${label} ${caption}`
+}
+
+export default LegalChunker
@@ -0,0 +1,101 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/index'
+import { AppError } from '@/middleware/errorHandler'
+import { logger } from '@/utils/logger'
+import { UserNotification } from '@shared'
+
+export interface NotificationInput {
+  type: string
+  title: string
+  message: string
+  entityType?: string
+  entityId?: string
+}
+
+export interface NotificationListResult {
+  notifications: UserNotification[]
+  total: number
+  unread: number
+}
+
+export class NotificationService {
+  // One notification for each member of the workspace
+  async notifyWorkspace(workspaceId: string, input: NotificationInput): Promise<number> {
+    const members = await prisma.workspaceMember.findMany({
+      where: { workspaceId },
+      select: { userId: true },
+    })
+
+    if (members.length === 0) {
+      return 0
+    }
+
+    const result = await prisma.notification.createMany({
+      data: members.map(member => ({
+        userId: member.userId,
+        workspaceId,
+        ...input,
+      })),
+    })
+
+    return result.count
+  }
+
+  async getNotifications(
+    userId: string,
+    options: { unreadOnly?: boolean; page: number; limit: number }
+  ): Promise<NotificationListResult> {
+    try {
+      const whereClause: Prisma.NotificationWhereInput = { userId }
+      if (options.unreadOnly) {
+        whereClause.readAt = null
+      }
+
+      const [notifications, total, unread] = await Promise.all([
+        prisma.notification.findMany({
+          where: whereClause,
+          orderBy: { createdAt: 'desc' },
+          skip: (options.page - 1) * options.limit,
+          take: options.limit,
+        }),
+        prisma.notification.count({ where: whereClause }),
+        prisma.notification.count({ where: { userId, readAt: null } }),
+      ])
+
+      return { notifications, total, unread }
+    } catch (error) {
+      logger.error('Error fetching notifications:', error)
+      throw new AppError('Failed to fetch notifications', 500, 'NOTIFICATION_FETCH_ERROR')
+    }
+  }
+
+  async markRead(notificationId: string, userId: string): Promise<UserNotification> {
+    const notification = await prisma.notification.findFirst({
+      where: { id: notificationId, userId },
+    })
+
+    if (!notification) {
+      throw new AppError('Notification not found', 404, 'NOTIFICATION_NOT_FOUND')
+    }
+
+    if (notification.readAt) {
+      return notification
+    }
+
+    return prisma.notification.update({
+      where: { id: notificationId },
+      data: { readAt: new Date() },
+    })
+  }
+
+  async markAllRead(userId: string): Promise<number> {
+    const result = await prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    })
+
+    return result.count
+  }
+}
+
+export default NotificationService
@@ -0,0 +1,253 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/index'
+import { ObligationExtractor, OBLIGATION_EXTRACTOR_VERSION } from '@/services/obligations/ObligationExtractor'
+import { buildCalendar } from '@/services/obligations/ICalendar'
+import { AppError } from '@/middleware/errorHandler'
+import { logger } from '@/utils/logger'
+import { Obligation, ObligationKind, ObligationStatus, UserRole } from '@shared'
+
+export interface ObligationFilters {
+  userId: string
+  userRole: UserRole
+  workspaceId: string
+  from?: Date
+  to?: Date
+  kind?: ObligationKind
+  status?: ObligationStatus
+  documentId?: string
+  // Include obligations that only have a relative trigger
+  includeUndated?: boolean
+  page: number
+  limit: number
+}
+
+export interface ObligationListResult {
+  obligations: Obligation[]
+  total: number
+}
+
+const DOCUMENT_SELECT = {
+  document: {
+    select: {
+      id: true,
+      title: true,
+    },
+  },
+}
+
+export class ObligationService {
+  private extractor: ObligationExtractor
+
+  constructor() {
+    this.extractor = new ObligationExtractor()
+  }
+
+  // Replaces the document's obligations with a fresh extraction. Status and
+  // notification state carry over to obligations with the same wording.
+  async extractObligations(
+    documentId: string,
+    workspaceId: string,
+    content: string,
+    pageStarts?: number[]
+  ): Promise<number> {
+    const obligations = this.extractor.extract(content, { pageStarts })
+    const previous = await prisma.obligation.findMany({
+      where: { documentId },
+      select: { text: true, status: true, notifiedAt: true },
+    })
+    const previousByText = new Map(previous.map(obligation => [obligation.text, obligation]))
+
+    await prisma.$transaction([
+      prisma.obligation.deleteMany({ where: { documentId } }),
+      prisma.obligation.createMany({
+        data: obligations.map(obligation => ({
+          documentId,
+          workspaceId,
+          ...obligation,
+          status: previousByText.get(obligation.text)?.status ?? ObligationStatus.OPEN,
+          notifiedAt: previousByText.get(obligation.text)?.notifiedAt ?? null,
+          extractor: OBLIGATION_EXTRACTOR_VERSION,
+        })),
+      }),
+    ])
+
+    logger.info(`Extracted ${obligations.length} obligations from document ${documentId}`)
+    return obligations.length
+  }
+
+  async getDocumentObligations(documentId: string, userId: string, userRole: UserRole): Promise<Obligation[]> {
+    await this.checkDocumentAccess(documentId, userId, userRole)
+
+    const obligations = await prisma.obligation.findMany({
+      where: { documentId },
+      orderBy: [{ dueDate: { sort: 'asc', nulls: 'last' } }, { startOffset: 'asc' }],
+    })
+
+    return obligations as Obligation[]
+  }
+
+  async getObligations(filters: ObligationFilters): Promise<ObligationListResult> {
+    try {
+      await this.checkWorkspaceAccess(filters.workspaceId, filters.userId, filters.userRole)
+
+      const whereClause = this.buildWhere(filters)
+      const [obligations, total] = await Promise.all([
+        prisma.obligation.findMany({
+          where: whereClause,
+          include: DOCUMENT_SELECT,
+          orderBy: [{ dueDate: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+          skip: (filters.page - 1) * filters.limit,
+          take: filters.limit,
+        }),
+        prisma.obligation.count({ where: whereClause }),
+      ])
+
+      return {
+        obligations: obligations as Obligation[],
+        total,
+      }
+    } catch (error) {
+      logger.error('Error fetching obligations:', error)
+
+      if (error instanceof AppError) {
+        throw error
+      }
+
+      throw new AppError('Failed to fetch obligations', 500, 'OBLIGATION_FETCH_ERROR')
+    }
+  }
+
+  // iCalendar feed of the dated obligations matching the filters
+  async exportCalendar(filters: Omit<ObligationFilters, 'page' | 'limit'>): Promise<string> {
+    const workspace = await this.checkWorkspaceAccess(filters.workspaceId, filters.userId, filters.userRole)
+
+    const obligations = await prisma.obligation.findMany({
+      where: this.buildWhere({ ...filters, includeUndated: false }),
+      include: DOCUMENT_SELECT,
+      orderBy: { dueDate: 'asc' },
+    })
+
+    const reminderDays = parseInt(process.env.OBLIGATION_REMINDER_DAYS || '14')
+
+    return buildCalendar(`${workspace.name} deadlines`, obligations.map(obligation => ({
+      uid: `${obligation.id}@jurisight`,
+      date: obligation.dueDate!,
+      summary: obligation.party ? `${obligation.party}: ${obligation.action}` : obligation.action,
+      description: `${obligation.document.title}\n\n${obligation.text}`,
+      alarmDays: reminderDays,
+      cancelled: obligation.status === ObligationStatus.WAIVED,
+    })))
+  }
+
+  async updateStatus(
+    obligationId: string,
+    documentId: string,
+    status: ObligationStatus,
+    userId: string,
+    userRole: UserRole
+  ): Promise<Obligation> {
+    await this.checkDocumentAccess(documentId, userId, userRole)
+
+    const obligation = await prisma.obligation.findFirst({
+      where: { id: obligationId, documentId },
+      select: { id: true },
+    })
+
+    if (!obligation) {
+      throw new AppError('Obligation not found', 404, 'OBLIGATION_NOT_FOUND')
+    }
+
+    const updated = await prisma.obligation.update({
+      where: { id: obligationId },
+      data: { status },
+    })
+
+    return updated as Obligation
+  }
+
+  private buildWhere(filters: Omit<ObligationFilters, 'page' | 'limit'>): Prisma.ObligationWhereInput {
+    const whereClause: Prisma.ObligationWhereInput = { workspaceId: filters.workspaceId }
+
+    if (filters.kind) {
+      whereClause.kind = filters.kind
+    }
+
+    if (filters.status) {
+      whereClause.status = filters.status
+    }
+
+    // Superseded versions' deadlines only show when asked for by document
+    if (filters.documentId) {
+      whereClause.documentId = filters.documentId
+    } else {
+      whereClause.document = { isCurrentVersion: true }
+    }
+
+    const dueDate: Prisma.DateTimeFilter = {}
+    if (filters.from) {
+      dueDate.gte = filters.from
+    }
+    if (filters.to) {
+      dueDate.lte = filters.to
+    }
+
+    if (filters.includeUndated) {
+      if (Object.keys(dueDate).length > 0) {
+        whereClause.OR = [{ dueDate }, { dueDate: null }]
+      }
+    } else {
+      whereClause.dueDate = { not: null, ...dueDate }
+    }
+
+    return whereClause
+  }
+
+  private async checkDocumentAccess(documentId: string, userId: string, userRole: UserRole): Promise<void> {
+    const whereClause: Prisma.DocumentWhereInput = { id: documentId }
+
+    // User can only access documents from workspaces they belong to (unless admin)
+    if (userRole !== UserRole.ADMIN) {
+      whereClause.workspace = {
+        members: {
+          some: {
+            userId: userId,
+          },
+        },
+      }
+    }
+
+    const document = await prisma.document.findFirst({
+      where: whereClause,
+      select: { id: true },
+    })
+
+    if (!document) {
+      throw new AppError('Document not found', 404, 'DOCUMENT_NOT_FOUND')
+    }
+  }
+
+  private async checkWorkspaceAccess(workspaceId: string, userId: string, userRole: UserRole) {
+    const whereClause: Prisma.WorkspaceWhereInput = { id: workspaceId }
+
+    if (userRole !== UserRole.ADMIN) {
+      whereClause.members = {
+        some: {
+          userId: userId,
+        },
+      }
+    }
+
+    const workspace = await prisma.workspace.findFirst({
+      where: whereClause,
+      select: { id: true, name: true },
+    })
+
+    if (!workspace) {
+      throw new AppError('Workspace not found or access denied', 404, 'WORKSPACE_NOT_FOUND')
+    }
+
+    return workspace
+  }
+}
+
+export default ObligationService
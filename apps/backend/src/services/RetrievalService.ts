@@ -0,0 +1,138 @@
+import { prisma } from '@/index'
+import { VectorService, VectorSearchResult } from '@/services/VectorService'
+import { DocumentProcessor } from '@/services/DocumentProcessor'
+import { pageStarts } from '@/services/layout/PageLayout'
+import { LocalReranker } from '@/services/retrieval/LocalReranker'
+import { buildContext, BuiltContext, ContextPassage } from '@/services/retrieval/ContextBuilder'
+import { logger } from '@/utils/logger'
+
+export interface RetrievalOptions {
+  documentIds: string[]
+  // Maximum prompt tokens spent on retrieved passages
+  tokenBudget?: number
+  // Candidates taken from each retriever before fusion
+  candidates?: number
+  rerank?: boolean
+  // Labels passages with their document title in the context
+  documentTitles?: Map<string, string>
+}
+
+export type RetrievalStrategy = 'hybrid' | 'document'
+
+export interface RetrievalResult extends BuiltContext {
+  strategy: RetrievalStrategy
+}
+
+// Standard reciprocal rank fusion constant; dampens the weight of top ranks
+const RRF_K = 60
+
+// Documents chunked on the fly when nothing is indexed, so a workspace-wide
+// question does not re-chunk every document
+const FALLBACK_DOCUMENT_LIMIT = 20
+
+export class RetrievalService {
+  private vectorService: VectorService
+  private documentProcessor: DocumentProcessor
+  private reranker: LocalReranker
+
+  constructor() {
+    this.vectorService = new VectorService()
+    this.documentProcessor = new DocumentProcessor()
+    this.reranker = new LocalReranker()
+  }
+
+  // Combines vector similarity and full-text ranking with reciprocal rank
+  // fusion, optionally reranks, and packs the best passages into the budget.
+  // Documents that have not been chunked yet are ranked on the fly.
+  async retrieve(query: string, options: RetrievalOptions): Promise<RetrievalResult> {
+    const tokenBudget = options.tokenBudget ?? parseInt(process.env.RETRIEVAL_CONTEXT_TOKENS || '3000')
+    const candidates = options.candidates ?? 20
+    const rerank = options.rerank ?? process.env.RETRIEVAL_RERANKER !== 'none'
+
+    // The searches treat an empty list as "all documents"
+    if (options.documentIds.length === 0) {
+      return { context: '', passages: [], tokens: 0, strategy: 'document' }
+    }
+
+    const [vectorResults, textResults] = await Promise.all([
+      this.vectorService.searchSimilarContent(query, options.documentIds, candidates).catch(error => {
+        logger.warn('Vector retrieval failed:', error)
+        return [] as VectorSearchResult[]
+      }),
+      this.vectorService.searchFullText(query, options.documentIds, candidates).catch(error => {
+        logger.warn('Full-text retrieval failed:', error)
+        return [] as VectorSearchResult[]
+      }),
+    ])
+
+    let passages = this.fuse([vectorResults, textResults])
+    let strategy: RetrievalStrategy = 'hybrid'
+
+    if (passages.length === 0) {
+      passages = await this.chunkDocuments(options.documentIds)
+      strategy = 'document'
+    }
+
+    // Without an index the lexical reranker is the only relevance signal
+    if (rerank || strategy === 'document') {
+      passages = this.reranker.rerank(query, passages)
+    }
+
+    return {
+      ...buildContext(passages, tokenBudget, options.documentTitles),
+      strategy,
+    }
+  }
+
+  // Scores are scaled to 0-1, where 1 means every retriever ranked the
+  // passage first
+  private fuse(rankings: VectorSearchResult[][]): ContextPassage[] {
+    const fused = new Map<string, ContextPassage>()
+    const maxScore = rankings.length / (RRF_K + 1)
+
+    for (const ranking of rankings) {
+      ranking.forEach((result, rank) => {
+        const key = `${result.documentId}:${result.chunkIndex}`
+        const existing = fused.get(key)
+        const score = 1 / (RRF_K + rank + 1) / maxScore
+
+        if (existing) {
+          existing.score += score
+        } else {
+          fused.set(key, {
+            documentId: result.documentId,
+            chunkIndex: result.chunkIndex,
+            content: result.content,
+            score,
+            metadata: result.metadata,
+          })
+        }
+      })
+    }
+
+    return Array.from(fused.values()).sort((a, b) => b.score - a.score)
+  }
+
+  private async chunkDocuments(documentIds: string[]): Promise<ContextPassage[]> {
+    const documents = await prisma.document.findMany({
+      where: { id: { in: documentIds } },
+      select: { id: true, content: true, pageMap: true },
+      orderBy: { updatedAt: 'desc' },
+      take: FALLBACK_DOCUMENT_LIMIT,
+    })
+
+    return documents.flatMap(document =>
+      this.documentProcessor
+        .chunkStructured(document.content || '', { pageStarts: pageStarts(document.pageMap) })
+        .map((chunk, chunkIndex) => ({
+          documentId: document.id,
+          chunkIndex,
+          content: chunk.content,
+          score: 0,
+          metadata: chunk.metadata,
+        }))
+    )
+  }
+}
+
+export default RetrievalService
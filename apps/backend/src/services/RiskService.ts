@@ -0,0 +1,193 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/index'
+import { DEFAULT_PLAYBOOK, RiskEngine } from '@/services/risk/RiskEngine'
+import { AppError } from '@/middleware/errorHandler'
+import { jsonObject } from '@/utils/json'
+import { logger } from '@/utils/logger'
+import { ClauseType, Playbook, PlaybookSchema, RiskAssessment, UserRole, WorkspaceMemberRole } from '@shared'
+
+export interface DocumentRisk {
+  riskScore: number | null
+  riskLevel: string | null
+  assessment: RiskAssessment | null
+}
+
+export class RiskService {
+  private engine: RiskEngine
+
+  constructor() {
+    this.engine = new RiskEngine()
+  }
+
+  // Scores the document's stored clauses against its workspace playbook
+  async assessDocument(documentId: string): Promise<RiskAssessment> {
+    const document = await prisma.document.findUnique({
+      where: { id: documentId },
+      select: {
+        id: true,
+        metadata: true,
+        workspace: {
+          select: {
+            settings: true,
+          },
+        },
+      },
+    })
+
+    if (!document) {
+      throw new AppError('Document not found', 404, 'DOCUMENT_NOT_FOUND')
+    }
+
+    const clauses = await prisma.documentClause.findMany({
+      where: { documentId },
+      orderBy: { startOffset: 'asc' },
+    })
+
+    const playbook = this.playbookFrom(document.workspace.settings)
+    const result = this.engine.assess(
+      clauses.map(clause => ({ ...clause, type: clause.type as ClauseType })),
+      playbook
+    )
+    const assessment: RiskAssessment = {
+      ...result,
+      playbook: playbook.name,
+      assessedAt: new Date().toISOString(),
+    }
+
+    await prisma.document.update({
+      where: { id: documentId },
+      data: {
+        riskScore: assessment.score,
+        riskLevel: assessment.level,
+        metadata: {
+          ...jsonObject(document.metadata),
+          // Plain copies type-check as JSON; the shared interfaces do not
+          riskAssessment: { ...assessment, findings: assessment.findings.map(finding => ({ ...finding })) },
+        },
+      },
+    })
+
+    logger.info(`Document ${documentId} scored ${assessment.score} (${assessment.level}) against "${playbook.name}"`)
+    return assessment
+  }
+
+  async getDocumentRisk(documentId: string, userId: string, userRole: UserRole): Promise<DocumentRisk> {
+    const whereClause: Prisma.DocumentWhereInput = { id: documentId }
+
+    // User can only access documents from workspaces they belong to (unless admin)
+    if (userRole !== UserRole.ADMIN) {
+      whereClause.workspace = {
+        members: {
+          some: {
+            userId: userId,
+          },
+        },
+      }
+    }
+
+    const document = await prisma.document.findFirst({
+      where: whereClause,
+      select: {
+        riskScore: true,
+        riskLevel: true,
+        metadata: true,
+      },
+    })
+
+    if (!document) {
+      throw new AppError('Document not found', 404, 'DOCUMENT_NOT_FOUND')
+    }
+
+    return {
+      riskScore: document.riskScore,
+      riskLevel: document.riskLevel,
+      assessment: (jsonObject(document.metadata).riskAssessment as RiskAssessment | undefined) ?? null,
+    }
+  }
+
+  // The workspace's own playbook, or the default one
+  async getPlaybook(workspaceId: string, userId: string, userRole: UserRole): Promise<Playbook> {
+    const whereClause: Prisma.WorkspaceWhereInput = { id: workspaceId }
+
+    if (userRole !== UserRole.ADMIN) {
+      whereClause.members = {
+        some: {
+          userId: userId,
+        },
+      }
+    }
+
+    const workspace = await prisma.workspace.findFirst({
+      where: whereClause,
+      select: { settings: true },
+    })
+
+    if (!workspace) {
+      throw new AppError('Workspace not found or access denied', 404, 'WORKSPACE_NOT_FOUND')
+    }
+
+    return this.playbookFrom(workspace.settings)
+  }
+
+  // Saves the playbook; documents are re-scored by the pipeline worker
+  async updatePlaybook(workspaceId: string, data: unknown, userId: string, userRole: UserRole): Promise<Playbook> {
+    const parsed = PlaybookSchema.safeParse(data)
+    if (!parsed.success) {
+      throw new AppError('Invalid playbook', 400, 'VALIDATION_ERROR', parsed.error.issues)
+    }
+
+    const workspace = await prisma.workspace.findFirst({
+      where: {
+        id: workspaceId,
+        ...(userRole === UserRole.ADMIN ? {} : {
+          OR: [
+            { ownerId: userId },
+            {
+              members: {
+                some: {
+                  userId,
+                  role: { in: [WorkspaceMemberRole.OWNER, WorkspaceMemberRole.ADMIN] },
+                },
+              },
+            },
+          ],
+        }),
+      },
+      select: { settings: true },
+    })
+
+    if (!workspace) {
+      throw new AppError('Access denied', 403, 'ACCESS_DENIED')
+    }
+
+    await prisma.workspace.update({
+      where: { id: workspaceId },
+      data: {
+        settings: {
+          ...jsonObject(workspace.settings),
+          playbook: parsed.data,
+        },
+      },
+    })
+
+    return parsed.data
+  }
+
+  // A stored playbook that no longer validates falls back to the default
+  private playbookFrom(settings: Prisma.JsonValue): Playbook {
+    const stored = jsonObject(settings).playbook
+    if (!stored) {
+      return DEFAULT_PLAYBOOK
+    }
+
+    const parsed = PlaybookSchema.safeParse(stored)
+    if (!parsed.success) {
+      logger.warn('Stored playbook is invalid, using the default playbook')
+      return DEFAULT_PLAYBOOK
+    }
+
+    return parsed.data
+  }
+}
+
+export default RiskService
@@ -1,6 +1,7 @@
 import fs from 'fs/promises'
 import path from 'path'
 import crypto from 'crypto'
+import { prisma } from '@/index'
 import { AppError } from '@/middleware/errorHandler'
 import { logger } from '@/utils/logger'
 
@@ -34,43 +35,44 @@ export class StorageService {
     }
   }
 
-  private generateHash(buffer: Buffer): string {
+  generateHash(buffer: Buffer): string {
     return crypto.createHash('sha256').update(buffer).digest('hex')
   }
 
+  // Named by the full content hash, so identical uploads share one file
   private generateFilename(originalName: string, hash: string): string {
-    const ext = path.extname(originalName)
-    const timestamp = Date.now()
-    return `${hash.substring(0, 16)}_${timestamp}${ext}`
+    return `${hash}${path.extname(originalName).toLowerCase()}`
   }
 
+  // Stores the file once per distinct content and takes a reference to it
+  // for the uploading document; release it when the document is deleted.
+  // The reference comes first so a concurrent release cannot delete the file
+  // between writing it and counting it.
   async saveFile(buffer: Buffer, originalName: string, mimeType: string): Promise<StorageResult> {
     try {
       const hash = this.generateHash(buffer)
-      const filename = this.generateFilename(originalName, hash)
-      const filePath = path.join(this.uploadPath, filename)
+      const reference = await prisma.storedFile.upsert({
+        where: { hash },
+        create: { hash, filename: this.generateFilename(originalName, hash), size: buffer.length, refCount: 1 },
+        update: { refCount: { increment: 1 } },
+      })
+      const filePath = path.join(this.uploadPath, reference.filename)
 
-      // Check if file with same hash already exists
-      const existingFiles = await fs.readdir(this.uploadPath)
-      const existingFile = existingFiles.find(file => file.startsWith(hash.substring(0, 16)))
-      
-      if (existingFile) {
-        logger.info(`File already exists with hash: ${hash}`)
-        return {
-          filename: existingFile,
-          path: path.join(this.uploadPath, existingFile),
-          hash,
-          size: buffer.length,
+      // Written again if missing, e.g. after restoring the database without the uploads
+      const exists = await fs.access(filePath).then(() => true, () => false)
+      if (!exists) {
+        try {
+          await fs.writeFile(filePath, buffer)
+        } catch (error) {
+          await this.releaseFile(hash)
+          throw error
         }
+        logger.info(`File saved: ${reference.filename}`)
       }
 
-      await fs.writeFile(filePath, buffer)
-      
-      logger.info(`File saved: ${filename}`)
-      
       return {
-        filename,
-        path: filePath,
+        filename: reference.filename,
+        path: path.join(this.uploadPath, reference.filename),
         hash,
         size: buffer.length,
       }
@@ -80,6 +82,31 @@ export class StorageService {
     }
   }
 
+  // Drops one document's reference; the last reference deletes the file
+  async releaseFile(hash: string): Promise<void> {
+    const stored = await prisma.storedFile.findUnique({ where: { hash } })
+    if (!stored) {
+      logger.warn(`No stored file to release for hash: ${hash}`)
+      return
+    }
+
+    const { refCount } = await prisma.storedFile.update({
+      where: { hash },
+      data: { refCount: { decrement: 1 } },
+    })
+
+    if (refCount > 0) {
+      return
+    }
+
+    // Only delete the file if no upload took a new reference meanwhile,
+    // including one that created the row again after it was removed
+    const removed = await prisma.storedFile.deleteMany({ where: { hash, refCount: { lte: 0 } } })
+    if (removed.count > 0 && !(await prisma.storedFile.findUnique({ where: { hash } }))) {
+      await this.deleteFile(stored.filename)
+    }
+  }
+
   async getFile(filename: string): Promise<DownloadResult> {
     try {
       const filePath = path.join(this.uploadPath, filename)
@@ -97,6 +124,18 @@ export class StorageService {
         '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
         '.txt': 'text/plain',
         '.rtf': 'application/rtf',
+        '.odt': 'application/vnd.oasis.opendocument.text',
+        '.html': 'text/html',
+        '.htm': 'text/html',
+        '.md': 'text/markdown',
+        '.markdown': 'text/markdown',
+        '.eml': 'message/rfc822',
+        '.msg': 'application/vnd.ms-outlook',
+        '.png': 'image/png',
+        '.jpg': 'image/jpeg',
+        '.jpeg': 'image/jpeg',
+        '.tif': 'image/tiff',
+        '.tiff': 'image/tiff',
       }
       
       const mimeType = mimeTypes[ext] || 'application/octet-stream'
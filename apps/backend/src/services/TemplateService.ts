@@ -0,0 +1,240 @@
+import { prisma } from '@/index'
+import { ComparisonService } from '@/services/ComparisonService'
+import { assessConformance, standardFormText } from '@/services/templates/TemplateConformance'
+import { AppError } from '@/middleware/errorHandler'
+import { logger } from '@/utils/logger'
+import {
+  CreateTemplateSchema,
+  DocumentTemplate,
+  TemplateComparison,
+  TemplateDataSchema,
+  UpdateTemplateSchema,
+  UserActivityType,
+  UserRole,
+  WorkspaceMemberRole,
+} from '@shared'
+
+export class TemplateService {
+  private comparisonService: ComparisonService
+
+  constructor() {
+    this.comparisonService = new ComparisonService()
+  }
+
+  async getTemplates(workspaceId: string, userId: string, userRole: UserRole): Promise<DocumentTemplate[]> {
+    await this.assertMember(workspaceId, userId, userRole)
+
+    const templates = await prisma.documentTemplate.findMany({
+      where: { workspaceId },
+      orderBy: { name: 'asc' },
+    })
+
+    return templates.map(template => this.toTemplate(template))
+  }
+
+  async getTemplate(workspaceId: string, templateId: string, userId: string, userRole: UserRole): Promise<DocumentTemplate> {
+    await this.assertMember(workspaceId, userId, userRole)
+    return this.toTemplate(await this.findTemplate(workspaceId, templateId))
+  }
+
+  async createTemplate(workspaceId: string, data: unknown, userId: string, userRole: UserRole): Promise<DocumentTemplate> {
+    const parsed = CreateTemplateSchema.safeParse(data)
+    if (!parsed.success) {
+      throw new AppError('Invalid template', 400, 'VALIDATION_ERROR', parsed.error.issues)
+    }
+    this.assertComparable(parsed.data.data)
+    await this.assertManager(workspaceId, userId, userRole)
+
+    const template = await prisma.documentTemplate.create({
+      data: {
+        workspaceId,
+        name: parsed.data.name,
+        description: parsed.data.description,
+        data: parsed.data.data,
+      },
+    })
+
+    logger.info(`Template created: ${template.id} in workspace ${workspaceId} by user ${userId}`)
+    return this.toTemplate(template)
+  }
+
+  async updateTemplate(
+    workspaceId: string,
+    templateId: string,
+    data: unknown,
+    userId: string,
+    userRole: UserRole
+  ): Promise<DocumentTemplate> {
+    const parsed = UpdateTemplateSchema.safeParse(data)
+    if (!parsed.success) {
+      throw new AppError('Invalid template', 400, 'VALIDATION_ERROR', parsed.error.issues)
+    }
+    if (parsed.data.data) {
+      this.assertComparable(parsed.data.data)
+    }
+    await this.assertManager(workspaceId, userId, userRole)
+    await this.findTemplate(workspaceId, templateId)
+
+    const template = await prisma.documentTemplate.update({
+      where: { id: templateId },
+      data: parsed.data,
+    })
+
+    logger.info(`Template updated: ${templateId} by user ${userId}`)
+    return this.toTemplate(template)
+  }
+
+  async deleteTemplate(workspaceId: string, templateId: string, userId: string, userRole: UserRole): Promise<void> {
+    await this.assertManager(workspaceId, userId, userRole)
+    await this.findTemplate(workspaceId, templateId)
+
+    await prisma.documentTemplate.delete({
+      where: { id: templateId },
+    })
+
+    logger.info(`Template deleted: ${templateId} by user ${userId}`)
+  }
+
+  // Compares a workspace document against the template's standard form,
+  // flagging missing clauses and non-standard language
+  async compareToTemplate(
+    workspaceId: string,
+    templateId: string,
+    documentId: string,
+    userId: string,
+    userRole: UserRole
+  ): Promise<TemplateComparison> {
+    await this.assertMember(workspaceId, userId, userRole)
+    const template = this.toTemplate(await this.findTemplate(workspaceId, templateId))
+
+    const document = await prisma.document.findFirst({
+      where: { id: documentId, workspaceId },
+      select: {
+        id: true,
+        title: true,
+        content: true,
+        workspaceId: true,
+      },
+    })
+
+    if (!document) {
+      throw new AppError('Document not found in this workspace', 404, 'DOCUMENT_NOT_FOUND')
+    }
+    if (!document.content) {
+      throw new AppError('Document has no extracted text yet', 409, 'DOCUMENT_NOT_PROCESSED')
+    }
+
+    const standardForm = { title: template.name, content: standardFormText(template.data), workspaceId }
+    const comparison = await this.comparisonService.performComparison(standardForm, document)
+    const findings = assessConformance(template.data, document.content, comparison.clauses)
+
+    await prisma.userActivity.create({
+      data: {
+        userId,
+        workspaceId,
+        type: UserActivityType.DOCUMENT_COMPARE,
+        entityType: 'template',
+        entityId: template.id,
+        metadata: {
+          documentId: document.id,
+          documentTitle: document.title,
+          templateName: template.name,
+          conformanceScore: findings.conformanceScore,
+        },
+      },
+    })
+
+    logger.info(`Document ${document.id} compared to template ${template.id}: conformance ${findings.conformanceScore}`)
+
+    return {
+      template: { id: template.id, name: template.name },
+      document: { id: document.id, title: document.title },
+      ...findings,
+      comparison: comparison as TemplateComparison['comparison'],
+    }
+  }
+
+  private async findTemplate(workspaceId: string, templateId: string) {
+    const template = await prisma.documentTemplate.findFirst({
+      where: { id: templateId, workspaceId },
+    })
+
+    if (!template) {
+      throw new AppError('Template not found', 404, 'TEMPLATE_NOT_FOUND')
+    }
+
+    return template
+  }
+
+  // Templates written before the data format was fixed are read leniently
+  private toTemplate(template: {
+    id: string
+    workspaceId: string
+    name: string
+    description: string | null
+    data: unknown
+    createdAt: Date
+    updatedAt: Date
+  }): DocumentTemplate {
+    const parsed = TemplateDataSchema.safeParse(template.data)
+    return {
+      ...template,
+      data: parsed.success ? parsed.data : { sections: [], requiredFields: [], standardClauses: {} },
+    }
+  }
+
+  private assertComparable(data: DocumentTemplate['data']): void {
+    if (!data.content?.trim() && Object.keys(data.standardClauses).length === 0) {
+      throw new AppError('Template needs content or standard clauses to compare against', 400, 'VALIDATION_ERROR')
+    }
+  }
+
+  private async assertMember(workspaceId: string, userId: string, userRole: UserRole): Promise<void> {
+    const workspace = await prisma.workspace.findFirst({
+      where: {
+        id: workspaceId,
+        ...(userRole === UserRole.ADMIN ? {} : {
+          members: {
+            some: {
+              userId,
+            },
+          },
+        }),
+      },
+      select: { id: true },
+    })
+
+    if (!workspace) {
+      throw new AppError('Workspace not found or access denied', 404, 'WORKSPACE_NOT_FOUND')
+    }
+  }
+
+  // Templates are the workspace's standard forms, so only its owners and admins change them
+  private async assertManager(workspaceId: string, userId: string, userRole: UserRole): Promise<void> {
+    const workspace = await prisma.workspace.findFirst({
+      where: {
+        id: workspaceId,
+        ...(userRole === UserRole.ADMIN ? {} : {
+          OR: [
+            { ownerId: userId },
+            {
+              members: {
+                some: {
+                  userId,
+                  role: { in: [WorkspaceMemberRole.OWNER, WorkspaceMemberRole.ADMIN] },
+                },
+              },
+            },
+          ],
+        }),
+      },
+      select: { id: true },
+    })
+
+    if (!workspace) {
+      throw new AppError('Access denied', 403, 'ACCESS_DENIED')
+    }
+  }
+}
+
+export default TemplateService
@@ -1,8 +1,11 @@
+import { Prisma } from '@prisma/client'
 import { prisma } from '@/index'
 import { AIService } from '@/services/AIService'
 import { DocumentProcessor } from '@/services/DocumentProcessor'
+import { getEmbeddingProvider } from '@/services/embeddings/EmbeddingRegistry'
 import { AppError } from '@/middleware/errorHandler'
 import { logger } from '@/utils/logger'
+import { tokenize } from '@/utils/text'
 
 export interface VectorSearchResult {
   documentId: string
@@ -12,6 +15,49 @@ export interface VectorSearchResult {
   metadata?: any
 }
 
+export interface VectorSupportStatus {
+  active: boolean
+  extensionVersion: string | null
+  columnType: string | null
+  indexed: boolean
+  indexType: string | null
+  model: string
+  dimension: number
+  checkedAt: string
+  reason?: string
+}
+
+// A chunk as returned by the raw search queries. Scores may come back as
+// text, so they are parsed.
+interface ChunkRow {
+  document_id: string
+  chunk_index: number
+  content: string
+  metadata: Prisma.JsonValue
+}
+
+interface SimilarityRow extends ChunkRow {
+  similarity: number | string
+}
+
+interface RankedRow extends ChunkRow {
+  rank: number | string
+}
+
+// pgvector cannot build HNSW or IVFFlat indexes above this size
+const MAX_INDEXED_DIMENSION = 2000
+
+// Result of the last startup check, reported by the health endpoint
+let vectorStatus: VectorSupportStatus | null = null
+
+export function getVectorStatus(): VectorSupportStatus | null {
+  return vectorStatus
+}
+
+function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`
+}
+
 export class VectorService {
   private aiService: AIService
   private documentProcessor: DocumentProcessor
@@ -21,51 +67,74 @@ export class VectorService {
     this.documentProcessor = new DocumentProcessor()
   }
 
-  async createEmbeddings(documentId: string, content: string): Promise<void> {
+  async createEmbeddings(documentId: string, content: string, pageStarts?: number[]): Promise<void> {
     try {
-      // Delete existing embeddings for this document
-      await prisma.documentEmbedding.deleteMany({
-        where: { documentId },
-      })
-
       // Chunk the document content
-      const chunks = this.documentProcessor.chunkDocument(content, 1000, 200)
+      const chunks = this.documentProcessor.chunkStructured(content, { chunkSize: 1000, overlapSize: 200, pageStarts })
       
       // Generate embeddings for each chunk
       const embeddings = []
+      const vectors: string[] = []
       for (let i = 0; i < chunks.length; i++) {
         const chunk = chunks[i]
         
         try {
-          const embeddingResult = await this.aiService.generateEmbedding(chunk)
+          const embeddingResult = await this.aiService.generateEmbedding(chunk.content)
           
           embeddings.push({
             documentId,
             chunkIndex: i,
-            content: chunk,
-            embedding: `[${embeddingResult.embedding.join(',')}]`, // Convert to string for storage
+            content: chunk.content,
+            model: embeddingResult.model,
+            dimension: embeddingResult.dimension,
             metadata: {
-              model: embeddingResult.model,
+              ...chunk.metadata,
+              provider: embeddingResult.provider,
               usage: embeddingResult.usage,
-              chunkLength: chunk.length,
-            },
+              chunkLength: chunk.content.length,
+            } as any,
           })
+          vectors.push(toVectorLiteral(embeddingResult.embedding))
         } catch (error) {
           logger.warn(`Failed to generate embedding for chunk ${i} of document ${documentId}:`, error)
           continue
         }
       }
 
-      // Save embeddings to database
-      if (embeddings.length > 0) {
-        await prisma.documentEmbedding.createMany({
-          data: embeddings,
-        })
-        
-        logger.info(`Created ${embeddings.length} embeddings for document ${documentId}`)
+      // Keep the current vectors rather than replacing them with nothing; the
+      // job fails and is retried
+      if (chunks.length > 0 && embeddings.length === 0) {
+        throw new AppError(`No chunk of document ${documentId} could be embedded`, 503, 'EMBEDDING_SERVICE_UNAVAILABLE')
       }
+
+      // Prisma cannot write vector columns, so rows are created first and the
+      // vectors filled in with a single raw update in the same transaction
+      await prisma.$transaction([
+        prisma.documentEmbedding.deleteMany({
+          where: { documentId },
+        }),
+        prisma.documentEmbedding.createMany({
+          data: embeddings,
+        }),
+        prisma.$executeRawUnsafe(
+          `UPDATE "document_embeddings" AS e
+          SET "embedding" = v.embedding::vector
+          FROM unnest($2::int[], $3::text[]) AS v(chunk_index, embedding)
+          WHERE e."documentId" = $1 AND e."chunkIndex" = v.chunk_index`,
+          documentId,
+          embeddings.map(embedding => embedding.chunkIndex),
+          vectors
+        ),
+      ])
+
+      logger.info(`Created ${embeddings.length} embeddings for document ${documentId}`)
     } catch (error) {
       logger.error('Error creating embeddings:', error)
+
+      if (error instanceof AppError) {
+        throw error
+      }
+
       throw new AppError('Failed to create embeddings', 500, 'EMBEDDING_CREATION_ERROR')
     }
   }
@@ -74,90 +143,206 @@ export class VectorService {
     query: string,
     documentIds?: string[],
     limit: number = 10,
-    threshold: number = 0.7
+    threshold?: number
   ): Promise<VectorSearchResult[]> {
     try {
       // Generate embedding for the query
       const queryEmbedding = await this.aiService.generateEmbedding(query)
-      const queryVector = `[${queryEmbedding.embedding.join(',')}]`
+      const queryVector = toVectorLiteral(queryEmbedding.embedding)
+      const minSimilarity = threshold ?? getEmbeddingProvider().similarityThreshold
+      const dimension = queryEmbedding.dimension
 
-      // Build SQL query for vector similarity search
+      if (!Number.isInteger(dimension) || dimension <= 0) {
+        throw new AppError('Invalid embedding dimension', 500, 'EMBEDDING_ERROR')
+      }
+
+      // Only compare against chunks embedded with the same model and size
       let whereClause = ''
-      const params: any[] = [queryVector, threshold, limit]
+      const params: unknown[] = [queryVector, minSimilarity, limit, queryEmbedding.model]
       
       if (documentIds && documentIds.length > 0) {
-        whereClause = `AND document_id = ANY($4)`
+        whereClause = `AND "documentId" = ANY($5)`
         params.push(documentIds)
       }
 
-      // Perform vector similarity search using raw SQL
-      // Note: This is a simplified approach. In production, you'd use proper pgvector operators
+      // The dimension is inlined so the planner can match the partial HNSW index
+      // for this size. The inner query orders by cosine distance so the index
+      // serves the nearest neighbours; the threshold is applied afterwards.
+      const distance = `"embedding"::vector(${dimension}) <=> $1::vector(${dimension})`
       const rawQuery = `
-        SELECT 
-          document_id,
-          chunk_index,
-          content,
-          1 - (embedding <-> $1::vector) as similarity,
-          metadata
-        FROM document_embeddings
-        WHERE 1 - (embedding <-> $1::vector) > $2
-        ${whereClause}
+        SELECT * FROM (
+          SELECT 
+            "documentId" AS document_id,
+            "chunkIndex" AS chunk_index,
+            content,
+            1 - (${distance}) AS similarity,
+            metadata
+          FROM document_embeddings
+          WHERE dimension = ${dimension}
+          AND model = $4
+          AND embedding IS NOT NULL
+          ${whereClause}
+          ORDER BY ${distance}
+          LIMIT $3
+        ) AS nearest
+        WHERE similarity > $2
         ORDER BY similarity DESC
-        LIMIT $3
       `
 
-      try {
-        const results = await prisma.$queryRawUnsafe(rawQuery, ...params) as any[]
-        
-        return results.map(row => ({
-          documentId: row.document_id,
-          chunkIndex: row.chunk_index,
-          content: row.content,
-          similarity: parseFloat(row.similarity),
-          metadata: row.metadata,
-        }))
-      } catch (sqlError) {
-        // Fallback to basic text search if vector search fails
-        logger.warn('Vector search failed, falling back to text search:', sqlError)
-        return await this.fallbackTextSearch(query, documentIds, limit)
-      }
+      // No text-search fallback here: retrieval already fuses searchFullText,
+      // which ranks by ts_rank, with these results
+      const results = await prisma.$queryRawUnsafe<SimilarityRow[]>(rawQuery, ...params)
+      
+      return results.map(row => ({
+        documentId: row.document_id,
+        chunkIndex: row.chunk_index,
+        content: row.content,
+        similarity: Number(row.similarity),
+        metadata: row.metadata,
+      }))
     } catch (error) {
       logger.error('Error searching similar content:', error)
       throw new AppError('Failed to search similar content', 500, 'SIMILARITY_SEARCH_ERROR')
     }
   }
 
-  private async fallbackTextSearch(
+  // Postgres full-text ranking over chunk content. Question words are OR-ed so a
+  // chunk does not need to contain every term to be ranked.
+  async searchFullText(
     query: string,
     documentIds?: string[],
     limit: number = 10
   ): Promise<VectorSearchResult[]> {
-    const whereClause: any = {
-      content: {
-        contains: query,
-        mode: 'insensitive',
-      },
+    const terms = Array.from(new Set(tokenize(query)))
+
+    if (terms.length === 0) {
+      return []
+    }
+
+    try {
+      let whereClause = ''
+      const params: unknown[] = [terms.join(' | '), limit]
+
+      if (documentIds && documentIds.length > 0) {
+        whereClause = `AND "documentId" = ANY($3)`
+        params.push(documentIds)
+      }
+
+      const results = await prisma.$queryRawUnsafe<RankedRow[]>(`
+        SELECT
+          "documentId" AS document_id,
+          "chunkIndex" AS chunk_index,
+          content,
+          ts_rank_cd(to_tsvector('english', content), query) AS rank,
+          metadata
+        FROM document_embeddings, to_tsquery('english', $1) AS query
+        WHERE to_tsvector('english', content) @@ query
+        ${whereClause}
+        ORDER BY rank DESC
+        LIMIT $2
+      `, ...params)
+
+      return results.map(row => ({
+        documentId: row.document_id,
+        chunkIndex: row.chunk_index,
+        content: row.content,
+        similarity: Number(row.rank),
+        metadata: row.metadata,
+      }))
+    } catch (error) {
+      logger.error('Error in full-text search:', error)
+      throw new AppError('Failed to search document text', 500, 'TEXT_SEARCH_ERROR')
+    }
+  }
+
+  // Verifies the pgvector path end to end: extension, column type and an ANN
+  // index for the active embedding size, creating the index when it is missing
+  async checkVectorSupport(): Promise<VectorSupportStatus> {
+    const provider = getEmbeddingProvider()
+    const status: VectorSupportStatus = {
+      active: false,
+      extensionVersion: null,
+      columnType: null,
+      indexed: false,
+      indexType: null,
+      model: provider.model,
+      dimension: provider.dimension,
+      checkedAt: new Date().toISOString(),
     }
 
-    if (documentIds && documentIds.length > 0) {
-      whereClause.documentId = {
-        in: documentIds,
+    try {
+      const [extension] = await prisma.$queryRaw<Array<{ extversion: string }>>`
+        SELECT extversion FROM pg_extension WHERE extname = 'vector'
+      `
+      status.extensionVersion = extension?.extversion || null
+
+      const [column] = await prisma.$queryRaw<Array<{ udt_name: string }>>`
+        SELECT udt_name FROM information_schema.columns
+        WHERE table_name = 'document_embeddings' AND column_name = 'embedding'
+      `
+      status.columnType = column?.udt_name || null
+
+      if (!status.extensionVersion || status.columnType !== 'vector') {
+        status.reason = 'pgvector extension or vector column is missing; run the database migrations'
+      } else if (provider.dimension > MAX_INDEXED_DIMENSION) {
+        // HNSW and IVFFlat cap indexed vectors at 2000 dimensions; search still
+        // works through a sequential scan
+        status.active = true
+        status.reason = `Embeddings with ${provider.dimension} dimensions cannot be indexed; using exact search`
+      } else {
+        status.active = true
+
+        try {
+          status.indexType = await this.ensureVectorIndex(provider.dimension)
+          status.indexed = true
+        } catch (error) {
+          // e.g. pgvector older than 0.5 has no HNSW; queries still run unindexed
+          status.reason = `Vector index unavailable: ${error instanceof Error ? error.message : String(error)}`
+        }
       }
+    } catch (error) {
+      status.reason = error instanceof Error ? error.message : String(error)
     }
 
-    const results = await prisma.documentEmbedding.findMany({
-      where: whereClause,
-      take: limit,
-      orderBy: { chunkIndex: 'asc' },
-    })
-
-    return results.map(result => ({
-      documentId: result.documentId,
-      chunkIndex: result.chunkIndex,
-      content: result.content,
-      similarity: 0.5, // Default similarity for text search
-      metadata: result.metadata,
-    }))
+    vectorStatus = status
+
+    if (status.active) {
+      logger.info(`Vector search active (pgvector ${status.extensionVersion}, ${status.indexType || 'no'} index for ${status.dimension} dimensions)`)
+    } else {
+      logger.warn(`Vector search inactive, chat will use text search: ${status.reason}`)
+    }
+
+    return status
+  }
+
+  private async ensureVectorIndex(dimension: number): Promise<string> {
+    const indexName = `document_embeddings_embedding_${dimension}_idx`
+
+    const [existing] = await prisma.$queryRaw<Array<{ indexdef: string }>>`
+      SELECT indexdef FROM pg_indexes
+      WHERE tablename = 'document_embeddings' AND indexname = ${indexName}
+    `
+
+    if (existing) {
+      return existing.indexdef.includes('ivfflat') ? 'ivfflat' : 'hnsw'
+    }
+
+    // VECTOR_INDEX_TYPE=ivfflat trades recall for faster builds on large tables
+    const indexType = process.env.VECTOR_INDEX_TYPE === 'ivfflat' ? 'ivfflat' : 'hnsw'
+    const options = indexType === 'ivfflat'
+      ? ` WITH (lists = ${parseInt(process.env.VECTOR_IVFFLAT_LISTS || '100')})`
+      : ''
+
+    logger.info(`Creating ${indexType} index for ${dimension}-dimension embeddings`)
+
+    // CONCURRENTLY keeps the table writable while the index builds
+    await prisma.$executeRawUnsafe(
+      `CREATE INDEX CONCURRENTLY IF NOT EXISTS "${indexName}" ON "document_embeddings"
+      USING ${indexType} (("embedding"::vector(${dimension})) vector_cosine_ops)${options}
+      WHERE "dimension" = ${dimension}`
+    )
+
+    return indexType
   }
 
   async getDocumentChunks(documentId: string): Promise<VectorSearchResult[]> {
@@ -180,6 +365,33 @@ export class VectorService {
     }
   }
 
+  // Documents with chunks embedded by a model other than the active one. Their
+  // chunks are invisible to vector search until they are re-embedded.
+  async findStaleDocuments(): Promise<string[]> {
+    try {
+      const provider = getEmbeddingProvider()
+
+      const stale = await prisma.documentEmbedding.findMany({
+        where: {
+          NOT: {
+            model: provider.model,
+            dimension: provider.dimension,
+          },
+        },
+        select: { documentId: true },
+        distinct: ['documentId'],
+      })
+
+      return stale.map(row => row.documentId)
+    } catch (error) {
+      logger.error('Error finding stale embeddings:', error)
+      if (error instanceof AppError) {
+        throw error
+      }
+      throw new AppError('Failed to check embedding models', 500, 'EMBEDDING_STATS_ERROR')
+    }
+  }
+
   async deleteEmbeddings(documentId: string): Promise<void> {
     try {
       await prisma.documentEmbedding.deleteMany({
@@ -215,8 +427,22 @@ export class VectorService {
         },
       })
 
+      const models = await prisma.documentEmbedding.groupBy({
+        by: ['model', 'dimension'],
+        where: whereClause,
+        _count: {
+          id: true,
+        },
+      })
+
       return {
         totalChunks: stats._count.id,
+        models: models.map(model => ({
+          model: model.model,
+          dimension: model.dimension,
+          chunkCount: model._count.id,
+        })),
+        mixedModels: models.length > 1,
         averageChunkIndex: stats._avg.chunkIndex,
         documentsWithEmbeddings: documents.length,
         chunksPerDocument: documents.map(doc => ({
@@ -0,0 +1,29 @@
+import { Prisma } from '@prisma/client'
+import { DocumentAnalysisRun } from '@shared'
+import { jsonObject } from '@/utils/json'
+
+// Number of superseded analysis runs kept in document metadata
+export const ANALYSIS_HISTORY_LIMIT = 10
+
+const text = (value: Prisma.JsonValue | undefined) => (typeof value === 'string' && value) || undefined
+const number = (value: Prisma.JsonValue | undefined) => (typeof value === 'number' ? value : 0)
+
+// Summary of a stored analysis. Runs from before model tracking have no
+// model details and only the document's lastAnalyzed date.
+export function toAnalysisRun(analysis: Prisma.JsonObject, lastAnalyzed?: Prisma.JsonValue): DocumentAnalysisRun {
+  return {
+    model: text(analysis.model) || 'unknown',
+    provider: text(analysis.provider) || 'unknown',
+    promptVersion: text(analysis.promptVersion) || 'unknown',
+    analyzedAt: text(analysis.analyzedAt) || text(lastAnalyzed) || new Date(0).toISOString(),
+    confidence: number(analysis.confidence),
+    processingTime: number(analysis.processingTime),
+    summary: text(analysis.summary) || '',
+  }
+}
+
+// Superseded runs kept in a document's metadata, newest first
+export function analysisHistory(metadata: Prisma.JsonObject): DocumentAnalysisRun[] {
+  const history = Array.isArray(metadata.analysisHistory) ? metadata.analysisHistory : []
+  return history.map(run => toAnalysisRun(jsonObject(run)))
+}
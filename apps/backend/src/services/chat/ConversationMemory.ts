@@ -0,0 +1,156 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/index'
+import { AIService } from '@/services/AIService'
+import { ConversationContext, ConversationTurn } from '@/services/llm/types'
+import { jsonObject } from '@/utils/json'
+import { logger } from '@/utils/logger'
+import { estimateTokens } from '@/utils/text'
+import { ChatMessageType } from '@shared'
+
+// Stored under ChatSession.context.memory
+export interface ConversationMemoryState {
+  summary: string
+  // createdAt of the newest message folded into the summary
+  summarizedUntil: string
+  summarizedMessages: number
+}
+
+// The fields of a chat session that memory reads and updates
+export interface MemorySession {
+  id: string
+  workspaceId: string
+  context: Prisma.JsonValue
+}
+
+interface HistoryMessage {
+  type: string
+  content: string
+  createdAt: Date
+}
+
+// Turns kept verbatim even when they would fit the token budget
+const MAX_RECENT_TURNS = 10
+
+const MARKER = /\s?\[\d{1,3}\]/g
+
+// Splits history (oldest first) into the most recent turns that fit the token
+// budget and the older turns that have to be summarised. The latest turn is
+// always kept, shortened if needed.
+export function splitHistory<T extends { content: string }>(
+  messages: T[],
+  tokenBudget: number
+): { older: T[]; recent: T[] } {
+  const recent: T[] = []
+  let tokens = 0
+
+  for (let i = messages.length - 1; i >= 0 && recent.length < MAX_RECENT_TURNS; i--) {
+    const cost = estimateTokens(messages[i].content)
+
+    if (recent.length === 0 && cost > tokenBudget) {
+      recent.unshift({ ...messages[i], content: messages[i].content.substring(0, tokenBudget * 4) })
+      tokens = tokenBudget
+      continue
+    }
+    if (tokens + cost > tokenBudget) {
+      break
+    }
+
+    recent.unshift(messages[i])
+    tokens += cost
+  }
+
+  return {
+    older: messages.slice(0, messages.length - recent.length),
+    recent,
+  }
+}
+
+// Keeps the recent turns of a chat session verbatim and folds older turns into
+// a running summary stored in ChatSession.context, so prompts stay within
+// budget however long the conversation runs.
+export class ConversationMemory {
+  private aiService: AIService
+
+  constructor(aiService: AIService = new AIService()) {
+    this.aiService = aiService
+  }
+
+  // History before the message being answered
+  async load(session: MemorySession, currentMessageId: string): Promise<ConversationContext> {
+    const tokenBudget = parseInt(process.env.CHAT_HISTORY_TOKENS || '1500')
+    const memory = jsonObject(session.context).memory as ConversationMemoryState | undefined
+
+    // Messages already in the summary are not loaded again
+    const messages = await prisma.chatMessage.findMany({
+      where: {
+        sessionId: session.id,
+        id: { not: currentMessageId },
+        type: { in: [ChatMessageType.USER, ChatMessageType.ASSISTANT] },
+        ...(memory ? { createdAt: { gt: new Date(memory.summarizedUntil) } } : {}),
+      },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        type: true,
+        content: true,
+        metadata: true,
+        createdAt: true,
+      },
+    })
+
+    // Fallback apologies carry no information worth remembering
+    const history = messages.filter(message => !jsonObject(message.metadata).error)
+    const { older, recent } = splitHistory(history, tokenBudget)
+
+    let summary = memory?.summary || null
+    if (older.length > 0) {
+      summary = await this.summarize(session, summary, older, memory)
+    }
+
+    return {
+      summary,
+      turns: recent.map(toTurn),
+    }
+  }
+
+  private async summarize(
+    session: MemorySession,
+    previous: string | null,
+    older: HistoryMessage[],
+    memory?: ConversationMemoryState
+  ): Promise<string | null> {
+    try {
+      const summary = await this.aiService.summarizeConversation(previous, older.map(toTurn), {
+        workspaceId: session.workspaceId,
+      })
+
+      const state: ConversationMemoryState = {
+        summary,
+        summarizedUntil: older[older.length - 1].createdAt.toISOString(),
+        summarizedMessages: (memory?.summarizedMessages || 0) + older.length,
+      }
+
+      await prisma.chatSession.update({
+        where: { id: session.id },
+        data: {
+          context: { ...jsonObject(session.context), memory: { ...state } },
+        },
+      })
+
+      return summary
+    } catch (error) {
+      // The turns are summarised again with the next message
+      logger.warn(`Conversation summary failed for session ${session.id}:`, error)
+      return previous
+    }
+  }
+}
+
+// Citation markers refer to the passages of an earlier prompt, so they are dropped
+function toTurn(message: HistoryMessage): ConversationTurn {
+  return {
+    role: message.type === ChatMessageType.USER ? 'user' : 'assistant',
+    content: message.content.replace(MARKER, ''),
+  }
+}
+
+export default ConversationMemory
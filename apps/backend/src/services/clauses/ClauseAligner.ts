@@ -0,0 +1,150 @@
+import { ClauseComparison, ClauseType } from '@shared'
+import { clauseLabel, describeClauseChanges } from '@/services/clauses/ClauseChanges'
+import { tokenize } from '@/utils/text'
+
+export interface ComparableClause {
+  type: ClauseType
+  title: string | null
+  section: string | null
+  text: string
+  startOffset: number
+  endOffset: number
+}
+
+export type ClauseSimilarity = (clause1: ComparableClause, clause2: ComparableClause) => number
+
+// Clauses of one type paired across two documents; a clause without a
+// counterpart has the other side missing
+export interface ClausePair<T extends ComparableClause = ComparableClause> {
+  clause1?: T
+  clause2?: T
+  score: number
+}
+
+// Clauses of the same type are paired below this similarity only when each
+// document has exactly one clause of that type
+const MIN_SIMILARITY = 0.25
+
+// Section numbers opening a line, so renumbered clauses still compare equal.
+// Letters and roman numerals only count with a delimiter ("b)", "IV.") or
+// after a heading word, so words like "A" or "Civic" are kept
+const NUMBERING = /^[ \t]*(?:(?:section|article|clause)\s+(?:\d+(?:\.\d+)*|[ivxlc]+|[a-z])[.)]?|\d+(?:\.\d+)*[.)]?|\(?(?:[ivxlc]+|[a-z])[.)])[ \t]+/gim
+
+// Pairs the clauses of two contracts by type and similarity, wherever they
+// sit in each document, and summarises what changed in each pair
+export class ClauseAligner {
+  align(
+    clauses1: ComparableClause[],
+    clauses2: ComparableClause[],
+    similarity: ClauseSimilarity = lexicalSimilarity
+  ): ClauseComparison[] {
+    const comparisons = this.pair(clauses1, clauses2, similarity).map(({ clause1, clause2, score }): ClauseComparison => {
+      if (clause1 && clause2) {
+        return this.compare(clause1.type, clause1, clause2, score)
+      }
+
+      const type = (clause1 ?? clause2)!.type
+      return {
+        clauseType: type,
+        status: clause1 ? 'removed' : 'added',
+        similarity: 0,
+        doc1Clause: clause1 ? summary(clause1) : null,
+        doc2Clause: clause2 ? summary(clause2) : null,
+        changes: [`${clauseLabel(type)} clause ${clause1 ? 'removed' : 'added'}`],
+      }
+    })
+
+    // Reading order of the first document, with added clauses by their place in the second
+    return comparisons.sort((a, b) =>
+      (a.doc1Clause?.startOffset ?? Infinity) - (b.doc1Clause?.startOffset ?? Infinity) ||
+      (a.doc2Clause?.startOffset ?? Infinity) - (b.doc2Clause?.startOffset ?? Infinity)
+    )
+  }
+
+  // Greedy pairing by similarity within each clause type
+  pair<T extends ComparableClause>(clauses1: T[], clauses2: T[], similarity: ClauseSimilarity = lexicalSimilarity): ClausePair<T>[] {
+    const pairs: ClausePair<T>[] = []
+    const types = new Set([...clauses1, ...clauses2].map(clause => clause.type))
+
+    for (const type of types) {
+      const ofType1 = clauses1.filter(clause => clause.type === type)
+      const ofType2 = clauses2.filter(clause => clause.type === type)
+      const single = ofType1.length === 1 && ofType2.length === 1
+
+      const candidates = ofType1
+        .flatMap(clause1 => ofType2.map(clause2 => ({ clause1, clause2, score: similarity(clause1, clause2) })))
+        .filter(candidate => single || candidate.score >= MIN_SIMILARITY)
+        .sort((a, b) => b.score - a.score)
+
+      const paired1 = new Set<T>()
+      const paired2 = new Set<T>()
+
+      for (const candidate of candidates) {
+        if (paired1.has(candidate.clause1) || paired2.has(candidate.clause2)) {
+          continue
+        }
+        paired1.add(candidate.clause1)
+        paired2.add(candidate.clause2)
+        pairs.push(candidate)
+      }
+
+      pairs.push(...ofType1.filter(clause => !paired1.has(clause)).map(clause1 => ({ clause1, score: 0 })))
+      pairs.push(...ofType2.filter(clause => !paired2.has(clause)).map(clause2 => ({ clause2, score: 0 })))
+    }
+
+    return pairs
+  }
+
+  private compare(type: ClauseType, clause1: ComparableClause, clause2: ComparableClause, score: number): ClauseComparison {
+    const unchanged = normalizeWording(clause1.text) === normalizeWording(clause2.text)
+    const similarity = unchanged ? 1 : Math.round(Math.min(Math.max(score, 0), 1) * 1000) / 1000
+
+    return {
+      clauseType: type,
+      status: unchanged ? 'unchanged' : 'modified',
+      similarity,
+      doc1Clause: summary(clause1),
+      doc2Clause: summary(clause2),
+      changes: unchanged ? [] : describeClauseChanges(type, clause1.text, clause2.text, similarity),
+    }
+  }
+}
+
+// Dice coefficient over content words, ignoring section numbering
+export function lexicalSimilarity(clause1: ComparableClause, clause2: ComparableClause): number {
+  const words1 = tokenize(clause1.text.replace(NUMBERING, ''))
+  const words2 = tokenize(clause2.text.replace(NUMBERING, ''))
+  if (words1.length + words2.length === 0) {
+    return 1
+  }
+
+  const counts = new Map<string, number>()
+  words1.forEach(word => counts.set(word, (counts.get(word) || 0) + 1))
+
+  let shared = 0
+  for (const word of words2) {
+    const count = counts.get(word) || 0
+    if (count > 0) {
+      shared++
+      counts.set(word, count - 1)
+    }
+  }
+
+  return (2 * shared) / (words1.length + words2.length)
+}
+
+// Clause text with numbering, case and spacing evened out, for telling identical wording apart
+export function normalizeWording(text: string): string {
+  return text.replace(NUMBERING, '').replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+function summary(clause: ComparableClause) {
+  return {
+    title: clause.title,
+    section: clause.section,
+    startOffset: clause.startOffset,
+    endOffset: clause.endOffset,
+  }
+}
+
+export default ClauseAligner
@@ -0,0 +1,168 @@
+import { ClauseType, EntityType } from '@shared'
+import { EntityExtractor } from '@/services/entities/EntityExtractor'
+import { parseNumber } from '@/utils/dates'
+
+type TermKind = 'multiple' | 'percent' | 'money' | 'duration' | 'jurisdiction'
+
+// A commercial term stated in a clause, such as a cap of "2x fees" or a "30 days" notice period
+interface Term {
+  kind: TermKind
+  key: string
+  display: string
+  // What a multiple applies to, left out of the first value when both share it ("from 1x to 2x fees")
+  base?: string
+  // Comparable size; absent for terms that are not ordered (jurisdictions)
+  magnitude?: number
+}
+
+// What the terms of each clause type are about
+const SUBJECTS: Partial<Record<ClauseType, string>> = {
+  [ClauseType.LIMITATION_OF_LIABILITY]: 'liability cap',
+  [ClauseType.PAYMENT_TERMS]: 'payment',
+  [ClauseType.TERMINATION]: 'termination notice',
+  [ClauseType.AUTO_RENEWAL]: 'renewal',
+  [ClauseType.GOVERNING_LAW]: 'governing law',
+  [ClauseType.DISPUTE_RESOLUTION]: 'forum',
+  [ClauseType.INDEMNIFICATION]: 'indemnity',
+  [ClauseType.CONFIDENTIALITY]: 'confidentiality',
+  [ClauseType.NON_COMPETE]: 'non-compete',
+  [ClauseType.NON_SOLICITATION]: 'non-solicitation',
+  [ClauseType.WARRANTY]: 'warranty',
+  [ClauseType.INSURANCE]: 'insurance',
+}
+
+const MULTIPLE = /\b(\d+(?:\.\d+)?|one|two|three|four|five|ten)\s*(?:x|×|times)(?![\w])|\b(twice|double)\b/gi
+const MULTIPLE_BASE = /^[^.;]{0,60}?\b(fees|charges|amounts?\s+paid|contract\s+value|consideration)\b/i
+const PERCENT = /\b(\d+(?:\.\d+)?)\s*(?:%|percent\b|per\s+cent\b)/gi
+const DAYS_PER_UNIT: Record<string, number> = { D: 1, W: 7, M: 30, Y: 365 }
+const UNIT_NAMES: Record<string, string> = { D: 'day', W: 'week', M: 'month', Y: 'year' }
+
+const entityExtractor = new EntityExtractor()
+
+// "Limitation of liability" for ClauseType.LIMITATION_OF_LIABILITY
+export function clauseLabel(type: ClauseType): string {
+  const words = type.toLowerCase().replace(/_/g, ' ')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+// Reviewer-facing summary of how the terms of two versions of a clause differ,
+// e.g. "Liability cap raised from 1x to 2x fees". Falls back to a note that
+// only the wording changed.
+export function describeClauseChanges(type: ClauseType, text1: string, text2: string, similarity: number): string[] {
+  const subject = SUBJECTS[type] ?? clauseLabel(type).toLowerCase()
+  const terms1 = termsOf(text1)
+  const terms2 = termsOf(text2)
+  const changes: string[] = []
+
+  for (const kind of ['multiple', 'percent', 'money', 'duration', 'jurisdiction'] as TermKind[]) {
+    const before = terms1.filter(term => term.kind === kind)
+    const after = terms2.filter(term => term.kind === kind)
+    const removed = before.filter(term => !after.some(other => other.key === term.key))
+    const added = after.filter(term => !before.some(other => other.key === term.key))
+
+    if (removed.length === 1 && added.length === 1) {
+      const [from, to] = [removed[0], added[0]]
+      const fromDisplay = from.base && from.base === to.base ? from.display.slice(0, -from.base.length - 1) : from.display
+      changes.push(capitalize(`${subject}${noun(kind)} ${verb(kind, from, to)} from ${fromDisplay} to ${to.display}`))
+      continue
+    }
+
+    for (const term of removed) {
+      changes.push(capitalize(`${subject}${noun(kind)} of ${term.display} removed`))
+    }
+    for (const term of added) {
+      changes.push(capitalize(`${subject}${noun(kind)} of ${term.display} added`))
+    }
+  }
+
+  if (changes.length === 0) {
+    changes.push(`Wording changed (${Math.round(similarity * 100)}% similar)`)
+  }
+
+  return changes
+}
+
+// Commercial terms stated in a clause, e.g. ["2x fees", "30 days", "Delaware"]
+export function clauseTerms(text: string): string[] {
+  return termsOf(text).map(term => term.display)
+}
+
+function termsOf(text: string): Term[] {
+  const terms: Term[] = []
+  const add = (term: Term) => {
+    if (!terms.some(existing => existing.kind === term.kind && existing.key === term.key)) {
+      terms.push(term)
+    }
+  }
+
+  for (const match of text.matchAll(MULTIPLE)) {
+    const factor = match[2] ? 2 : parseFloat(match[1]) || parseNumber(match[1])
+    if (!factor) {
+      continue
+    }
+    const base = MULTIPLE_BASE.exec(text.slice(match.index! + match[0].length))?.[1].toLowerCase().replace(/\s+/g, ' ')
+    const display = base ? `${factor}x ${base}` : `${factor}x`
+    add({ kind: 'multiple', key: display, display, base, magnitude: factor })
+  }
+
+  for (const match of text.matchAll(PERCENT)) {
+    const value = parseFloat(match[1])
+    add({ kind: 'percent', key: String(value), display: `${value}%`, magnitude: value })
+  }
+
+  for (const entity of entityExtractor.extract(text)) {
+    switch (entity.type) {
+      case EntityType.MONETARY_AMOUNT: {
+        const amount = parseFloat(entity.value)
+        const display = `${entity.currency} ${amount.toLocaleString('en-US', { maximumFractionDigits: 2 })}`
+        add({ kind: 'money', key: `${entity.currency}:${entity.value}`, display, magnitude: amount })
+        break
+      }
+      case EntityType.DURATION: {
+        const count = parseInt(entity.value.slice(1, -1))
+        const unit = entity.value.slice(-1)
+        const name = `${entity.businessDays ? 'business ' : ''}${UNIT_NAMES[unit]}${count === 1 ? '' : 's'}`
+        add({
+          kind: 'duration',
+          key: `${entity.value}:${entity.businessDays ? 'business' : 'calendar'}`,
+          display: `${count} ${name}`,
+          // Business days run about 7/5 as long as calendar days
+          magnitude: count * DAYS_PER_UNIT[unit] * (entity.businessDays ? 1.4 : 1),
+        })
+        break
+      }
+      case EntityType.JURISDICTION:
+        add({ kind: 'jurisdiction', key: entity.value.toLowerCase(), display: entity.value })
+        break
+    }
+  }
+
+  return terms
+}
+
+function noun(kind: TermKind): string {
+  switch (kind) {
+    case 'percent':
+      return ' rate'
+    case 'money':
+      return ' amount'
+    case 'duration':
+      return ' period'
+    default:
+      return ''
+  }
+}
+
+function verb(kind: TermKind, before: Term, after: Term): string {
+  if (before.magnitude === undefined || after.magnitude === undefined || before.magnitude === after.magnitude) {
+    return 'changed'
+  }
+  if (kind === 'duration') {
+    return after.magnitude > before.magnitude ? 'extended' : 'shortened'
+  }
+  return after.magnitude > before.magnitude ? 'raised' : 'lowered'
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
@@ -0,0 +1,350 @@
+import { ClauseType } from '@shared'
+import { DocumentChunk, LegalChunker, Span } from '@/services/LegalChunker'
+
+// Stored with each clause; bump when the rules change so documents can be re-extracted
+export const CLAUSE_EXTRACTOR_VERSION = 'rules-v1'
+
+export interface ExtractedClause {
+  type: ClauseType
+  title: string | null
+  section: string | null
+  text: string
+  startOffset: number
+  endOffset: number
+  pageNumber: number | null
+  confidence: number
+}
+
+interface ClauseRule {
+  type: ClauseType
+  // Matched against section headings
+  heading: RegExp
+  // Matched against the sentences of any clause
+  phrases: RegExp[]
+}
+
+interface Candidate extends Omit<ExtractedClause, 'text'> {
+  // Heading the clause was classified by, so sibling sections under it are merged
+  anchor?: string
+}
+
+const RULES: ClauseRule[] = [
+  {
+    type: ClauseType.GOVERNING_LAW,
+    heading: /governing law|applicable law|choice of law/i,
+    phrases: [
+      /\bgoverned by\b.{0,80}\blaws?\b/i,
+      /\b(?:construed|interpreted) in accordance with\b.{0,60}\blaws?\b/i,
+    ],
+  },
+  {
+    type: ClauseType.DISPUTE_RESOLUTION,
+    heading: /dispute|arbitration|jurisdiction|venue/i,
+    phrases: [
+      /\barbitrat(?:ion|or|ors|ed)\b/i,
+      /\b(?:exclusive|non-exclusive) jurisdiction\b/i,
+      /\bsubmits? to the\b.{0,40}\bjurisdiction\b/i,
+      /\bdisputes? arising\b/i,
+      /\bmediation\b/i,
+    ],
+  },
+  {
+    type: ClauseType.INDEMNIFICATION,
+    heading: /indemnif|indemnit|hold harmless/i,
+    phrases: [
+      /\bindemnif(?:y|ies|ied|ication)\b/i,
+      /\bhold\b.{0,30}\bharmless\b/i,
+      /\bdefend\b.{0,40}\bagainst\b.{0,40}\bclaims?\b/i,
+    ],
+  },
+  {
+    type: ClauseType.LIMITATION_OF_LIABILITY,
+    heading: /limitation of liability|limitations? on liability|exclusion of (?:damages|liability)|^(?:section [\d.]+ )?liability$/i,
+    phrases: [
+      /\bin no event\b.{0,80}\bliable\b/i,
+      /\b(?:aggregate|total|maximum|cumulative) liability\b/i,
+      /\b(?:indirect|consequential|incidental|special|punitive)(?:,? (?:or )?[a-z]+)* damages\b/i,
+      /\bliability\b.{0,80}\bshall not exceed\b/i,
+    ],
+  },
+  {
+    type: ClauseType.TERMINATION,
+    heading: /terminat/i,
+    phrases: [
+      /\bmay terminate\b/i,
+      /\bterminate this (?:agreement|contract)\b/i,
+      /\bright to terminate\b/i,
+      /\bterminat\w* for (?:convenience|cause)\b/i,
+    ],
+  },
+  {
+    type: ClauseType.CONFIDENTIALITY,
+    heading: /confidential|non-?disclosure/i,
+    phrases: [
+      /\bconfidential information\b/i,
+      /\b(?:keep|hold|treat)\b.{0,40}\b(?:in )?(?:strict )?confidence\b/i,
+      /\b(?:keep|hold|treat)\b.{0,40}\bconfidential\b/i,
+      /\bshall not disclose\b/i,
+    ],
+  },
+  {
+    type: ClauseType.ASSIGNMENT,
+    heading: /assignment|transfer of (?:rights|this agreement)/i,
+    phrases: [
+      /\b(?:may|shall) not\b.{0,20}\bassign\b/i,
+      /\bassign\b.{0,80}\b(?:prior written consent|rights or obligations)\b/i,
+      /\bchange of control\b/i,
+    ],
+  },
+  {
+    type: ClauseType.AUTO_RENEWAL,
+    heading: /renewal|automatic(?:ally)? renew/i,
+    phrases: [
+      /\bautomatically (?:renew|extend)/i,
+      /\bauto-?renew/i,
+      /\bsuccessive (?:renewal )?(?:periods?|terms?)\b/i,
+      /\bnon-?renewal\b/i,
+      /\bnotice of (?:its )?intention not to renew\b/i,
+    ],
+  },
+  {
+    type: ClauseType.PAYMENT_TERMS,
+    heading: /payment|fees|invoic|compensation|pricing/i,
+    phrases: [
+      /\b(?:payable|due|paid) within\b.{0,20}\bdays\b/i,
+      /\binvoices? (?:shall|will) be (?:paid|payable|issued|submitted)\b/i,
+      /\blate payments?\b/i,
+      /\bshall pay\b.{0,60}\b(?:fees?|amounts?|sums?|price)\b/i,
+    ],
+  },
+  {
+    type: ClauseType.INTELLECTUAL_PROPERTY,
+    heading: /intellectual property|proprietary rights|ownership of (?:work|deliverables|materials)/i,
+    phrases: [
+      /\bintellectual property rights?\b/i,
+      /\bright, title and interest\b/i,
+      /\bgrants? to\b.{0,60}\blicen[cs]e\b/i,
+      /\bwork(?:s)? made for hire\b/i,
+    ],
+  },
+  {
+    type: ClauseType.WARRANTY,
+    heading: /warrant/i,
+    phrases: [
+      /\brepresents and warrants\b/i,
+      /\bwarrants that\b/i,
+      /\bdisclaims?\b.{0,60}\bwarrant/i,
+      /["“]as is["”]/i,
+    ],
+  },
+  {
+    type: ClauseType.FORCE_MAJEURE,
+    heading: /force majeure/i,
+    phrases: [
+      /\bforce majeure\b/i,
+      /\bacts? of god\b/i,
+      /\bbeyond (?:its|their|the) reasonable control\b/i,
+    ],
+  },
+  {
+    type: ClauseType.NON_COMPETE,
+    heading: /non-?compet|restrictive covenant/i,
+    phrases: [
+      /\bnon-?compet/i,
+      /\bnot\b.{0,40}\b(?:compete with|engage in any (?:competing )?business)\b/i,
+      /\bcompeting business\b/i,
+    ],
+  },
+  {
+    type: ClauseType.NON_SOLICITATION,
+    heading: /non-?solicit/i,
+    phrases: [
+      /\bnon-?solicit/i,
+      /\bnot\b.{0,40}\bsolicit\b.{0,60}\b(?:employees?|personnel|customers?|clients?)\b/i,
+    ],
+  },
+  {
+    type: ClauseType.NOTICES,
+    heading: /\bnotices\b/i,
+    phrases: [
+      /\bnotices?\b.{0,60}\bin writing\b/i,
+      /\bdeemed (?:to have been )?(?:given|received|delivered)\b/i,
+    ],
+  },
+  {
+    type: ClauseType.DATA_PROTECTION,
+    heading: /data protection|privacy|personal data/i,
+    phrases: [
+      /\bpersonal (?:data|information)\b/i,
+      /\bGDPR\b|\bGeneral Data Protection Regulation\b/i,
+      /\bdata protection (?:laws?|legislation)\b/i,
+    ],
+  },
+  {
+    type: ClauseType.INSURANCE,
+    heading: /insurance/i,
+    phrases: [
+      /\b(?:maintain|carry|obtain)\b.{0,60}\binsurance\b/i,
+      /\binsurance (?:coverage|policy|policies)\b/i,
+    ],
+  },
+]
+
+// A section whose own heading names the clause type
+const HEADING_CONFIDENCE = 0.9
+// A section under a heading that names the clause type
+const PARENT_HEADING_CONFIDENCE = 0.75
+// Sentences recognised by their wording alone, raised per extra phrase matched
+const PHRASE_CONFIDENCE = 0.55
+const PHRASE_CONFIDENCE_STEP = 0.1
+const PHRASE_CONFIDENCE_MAX = 0.8
+
+const chunker = new LegalChunker()
+
+// Rule-based clause classifier. Sections are classified by their headings
+// first; sentences anywhere else (such as a "Miscellaneous" article or an
+// unstructured letter) are classified by their wording, with neighbouring
+// sentences of the same type merged into one clause. Definitions, recitals
+// and signature blocks are not classified by wording.
+export class ClauseExtractor {
+  extract(text: string, options: { pageStarts?: number[] } = {}): ExtractedClause[] {
+    const candidates: Candidate[] = []
+
+    for (const section of chunker.sections(text, options)) {
+      const headingTypes = this.classifyHeadings(section)
+
+      for (const match of headingTypes) {
+        this.addCandidate(candidates, {
+          type: match.rule.type,
+          title: match.title,
+          section: section.metadata.section,
+          startOffset: section.metadata.startOffset,
+          endOffset: section.metadata.endOffset,
+          pageNumber: section.metadata.page,
+          confidence: match.confidence,
+          anchor: match.anchor,
+        })
+      }
+
+      if (['definition', 'recital', 'signature'].includes(section.metadata.kind)) {
+        continue
+      }
+
+      const skip = new Set(headingTypes.map(match => match.rule.type))
+      for (const candidate of this.classifySentences(text, section, skip)) {
+        this.addCandidate(candidates, candidate)
+      }
+    }
+
+    return candidates
+      .sort((a, b) => a.startOffset - b.startOffset || b.confidence - a.confidence)
+      .map(clause => ({
+        type: clause.type,
+        title: clause.title,
+        section: clause.section,
+        text: text.slice(clause.startOffset, clause.endOffset),
+        startOffset: clause.startOffset,
+        endOffset: clause.endOffset,
+        pageNumber: clause.pageNumber,
+        confidence: Math.round(clause.confidence * 100) / 100,
+      }))
+  }
+
+  // The deepest heading naming a clause type decides, so "Article 9 Term and
+  // Termination" still classifies its untitled subsections
+  private classifyHeadings(section: DocumentChunk): Array<{ rule: ClauseRule; confidence: number; title: string; anchor: string }> {
+    const path = section.metadata.headingPath
+
+    for (let depth = path.length - 1; depth >= 0; depth--) {
+      const rules = RULES.filter(rule => rule.heading.test(path[depth]))
+      if (rules.length > 0) {
+        const confidence = depth === path.length - 1 ? HEADING_CONFIDENCE : PARENT_HEADING_CONFIDENCE
+        const anchor = path.slice(0, depth + 1).join('\n')
+        return rules.map(rule => ({ rule, confidence, title: path[depth], anchor }))
+      }
+    }
+
+    return []
+  }
+
+  private classifySentences(text: string, section: DocumentChunk, skip: Set<ClauseType>): Candidate[] {
+    const { endOffset } = section.metadata
+    // Heading lines are not part of any sentence
+    const startOffset = section.metadata.startOffset + chunker.headingLength(section.content)
+    const candidates: Candidate[] = []
+    const open = new Map<ClauseType, { candidate: Candidate; phrases: Set<RegExp> }>()
+
+    for (const sentence of chunker.sentences(text.slice(startOffset, endOffset))) {
+      const span: Span = { start: startOffset + sentence.start, end: startOffset + sentence.end }
+      const content = text.slice(span.start, span.end)
+      const matched = new Set<ClauseType>()
+
+      for (const rule of RULES) {
+        if (skip.has(rule.type)) {
+          continue
+        }
+
+        const phrases = rule.phrases.filter(phrase => phrase.test(content))
+        if (phrases.length === 0) {
+          continue
+        }
+
+        matched.add(rule.type)
+        const current = open.get(rule.type)
+        if (current) {
+          // The previous sentence matched too, so the clause runs on
+          current.candidate.endOffset = span.end
+          phrases.forEach(phrase => current.phrases.add(phrase))
+          current.candidate.confidence = this.phraseConfidence(current.phrases.size)
+          continue
+        }
+
+        const candidate: Candidate = {
+          type: rule.type,
+          title: this.titleOf(section),
+          section: section.metadata.section,
+          startOffset: span.start,
+          endOffset: span.end,
+          pageNumber: section.metadata.page,
+          confidence: this.phraseConfidence(phrases.length),
+        }
+        candidates.push(candidate)
+        open.set(rule.type, { candidate, phrases: new Set(phrases) })
+      }
+
+      for (const type of Array.from(open.keys())) {
+        if (!matched.has(type)) {
+          open.delete(type)
+        }
+      }
+    }
+
+    return candidates
+  }
+
+  // Consecutive sections classified by the same parent heading form one clause
+  private addCandidate(candidates: Candidate[], candidate: Candidate): void {
+    const previous = candidate.anchor
+      ? candidates.find(existing => existing.type === candidate.type && existing.anchor === candidate.anchor)
+      : undefined
+
+    if (previous) {
+      previous.endOffset = Math.max(previous.endOffset, candidate.endOffset)
+      previous.confidence = Math.max(previous.confidence, candidate.confidence)
+      return
+    }
+
+    candidates.push(candidate)
+  }
+
+  private phraseConfidence(phraseCount: number): number {
+    return Math.min(PHRASE_CONFIDENCE_MAX, PHRASE_CONFIDENCE + PHRASE_CONFIDENCE_STEP * (phraseCount - 1))
+  }
+
+  private titleOf(section: DocumentChunk): string | null {
+    const path = section.metadata.headingPath
+    return path.length > 0 ? path[path.length - 1] : null
+  }
+}
+
+export default ClauseExtractor
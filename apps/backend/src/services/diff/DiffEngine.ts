@@ -0,0 +1,340 @@
+import { LegalChunker, Span } from '@/services/LegalChunker'
+import { diffSequences } from '@/services/diff/SequenceDiff'
+
+export type DiffGranularity = 'paragraph' | 'sentence' | 'word'
+
+export interface DiffChange {
+  type: 'added' | 'removed' | 'modified'
+  // New text, or the deleted text for removals
+  text: string
+  // Text replaced by a modification
+  previousText?: string
+  // Offsets in the second document, or in the first for removals
+  position: Span
+  // Offsets in each document; an insertion point is an empty span
+  doc1Position: Span
+  doc2Position: Span
+  granularity: DiffGranularity
+  similarity?: number
+}
+
+export interface CommonSpan {
+  text: string
+  similarity: number
+  doc1Position: Span
+  doc2Position: Span
+}
+
+export interface DiffStatistics {
+  wordsAdded: number
+  wordsRemoved: number
+  wordsUnchanged: number
+  added: number
+  removed: number
+  modified: number
+}
+
+export interface DiffResult {
+  similarityScore: number
+  differences: DiffChange[]
+  commonClauses: CommonSpan[]
+  statistics: DiffStatistics
+}
+
+interface Token extends Span {
+  key: string
+}
+
+// Paragraphs and sentences are paired for a finer diff when this many of their words match
+const PAIR_THRESHOLD = 0.5
+// Larger blocks of replaced paragraphs or sentences are not paired up
+const MAX_PAIRING_CELLS = 10000
+const COMMON_CLAUSE_LIMIT = 100
+const COMMON_TEXT_LENGTH = 200
+
+const WORD = /[\p{L}\p{N}]+(?:['’.,-][\p{L}\p{N}]+)*|[^\s\p{L}\p{N}]/gu
+const NEXT_LEVEL: Record<DiffGranularity, DiffGranularity | null> = {
+  paragraph: 'sentence',
+  sentence: 'word',
+  word: null,
+}
+
+const chunker = new LegalChunker()
+
+// Redline diff between two texts. Paragraphs are diffed first; replaced
+// paragraphs that still share most of their words are diffed again by
+// sentence, and replaced sentences by word, so a one-word edit shows as a
+// one-word change with exact offsets in both documents. The similarity score
+// is one minus the word-level edit distance over the combined length.
+export class DiffEngine {
+  diff(text1: string, text2: string): DiffResult {
+    const run = new DiffRun(text1, text2)
+    run.compare('paragraph', { start: 0, end: text1.length }, { start: 0, end: text2.length })
+    return run.result()
+  }
+}
+
+class DiffRun {
+  private differences: DiffChange[] = []
+  private commonClauses: CommonSpan[] = []
+  private statistics: DiffStatistics = {
+    wordsAdded: 0,
+    wordsRemoved: 0,
+    wordsUnchanged: 0,
+    added: 0,
+    removed: 0,
+    modified: 0,
+  }
+
+  constructor(private text1: string, private text2: string) {}
+
+  result(): DiffResult {
+    const { wordsAdded, wordsRemoved, wordsUnchanged } = this.statistics
+    const total = 2 * wordsUnchanged + wordsAdded + wordsRemoved
+
+    return {
+      similarityScore: total === 0 ? 1 : Math.round((2 * wordsUnchanged / total) * 1000) / 1000,
+      differences: this.differences,
+      commonClauses: this.commonClauses,
+      statistics: this.statistics,
+    }
+  }
+
+  compare(level: DiffGranularity, range1: Span, range2: Span): void {
+    const tokens1 = tokenize(this.text1, range1, level)
+    const tokens2 = tokenize(this.text2, range2, level)
+    const ops = diffSequences(tokens1.map(token => token.key), tokens2.map(token => token.key))
+
+    for (let index = 0; index < ops.length; index++) {
+      const op = ops[index]
+
+      if (op.type === 'equal') {
+        for (let offset = 0; offset < op.aEnd - op.aStart; offset++) {
+          this.keep(level, tokens1[op.aStart + offset], tokens2[op.bStart + offset])
+        }
+        continue
+      }
+
+      // Deletions and insertions between two equal runs form one replaced block
+      let last = op
+      while (ops[index + 1] && ops[index + 1].type !== 'equal') {
+        last = ops[++index]
+      }
+
+      const aStart = op.aStart
+      const aEnd = last.aEnd
+      const bStart = op.bStart
+      const bEnd = last.bEnd
+
+      this.replace(
+        level,
+        tokens1.slice(aStart, aEnd),
+        tokens2.slice(bStart, bEnd),
+        insertionPoint(tokens1, aStart, range1),
+        insertionPoint(tokens2, bStart, range2)
+      )
+    }
+  }
+
+  private keep(level: DiffGranularity, token1: Token, token2: Token): void {
+    this.statistics.wordsUnchanged += level === 'word' ? 1 : countWords(this.text1, token1)
+
+    if (level === 'paragraph' && this.commonClauses.length < COMMON_CLAUSE_LIMIT) {
+      const text = this.text1.slice(token1.start, token1.end)
+      this.commonClauses.push({
+        text: text.length > COMMON_TEXT_LENGTH ? `${text.substring(0, COMMON_TEXT_LENGTH - 1)}…` : text,
+        similarity: 1,
+        doc1Position: { start: token1.start, end: token1.end },
+        doc2Position: { start: token2.start, end: token2.end },
+      })
+    }
+  }
+
+  private replace(level: DiffGranularity, removed: Token[], added: Token[], point1: number, point2: number): void {
+    if (level === 'word') {
+      this.change(level, spanOf(removed, point1), spanOf(added, point2), removed.length, added.length)
+      return
+    }
+
+    const nextLevel = NEXT_LEVEL[level]!
+    for (const pair of this.pair(removed, added, point1, point2)) {
+      if (pair.token1 && pair.token2) {
+        this.compare(nextLevel, spanOf([pair.token1], pair.point1), spanOf([pair.token2], pair.point2))
+      } else {
+        const span1 = spanOf(pair.token1 ? [pair.token1] : [], pair.point1)
+        const span2 = spanOf(pair.token2 ? [pair.token2] : [], pair.point2)
+        this.change(level, span1, span2, countWords(this.text1, span1), countWords(this.text2, span2))
+      }
+    }
+  }
+
+  private change(level: DiffGranularity, span1: Span, span2: Span, words1: number, words2: number): void {
+    const text1 = this.text1.slice(span1.start, span1.end)
+    const text2 = this.text2.slice(span2.start, span2.end)
+    this.statistics.wordsRemoved += words1
+    this.statistics.wordsAdded += words2
+
+    if (text1.length > 0 && text2.length > 0) {
+      this.statistics.modified++
+      this.differences.push({
+        type: 'modified',
+        text: text2,
+        previousText: text1,
+        position: span2,
+        doc1Position: span1,
+        doc2Position: span2,
+        granularity: level,
+        similarity: Math.round(overlap(text1, text2) * 1000) / 1000,
+      })
+    } else if (text1.length > 0) {
+      this.statistics.removed++
+      this.differences.push({
+        type: 'removed',
+        text: text1,
+        position: span1,
+        doc1Position: span1,
+        doc2Position: span2,
+        granularity: level,
+      })
+    } else if (text2.length > 0) {
+      this.statistics.added++
+      this.differences.push({
+        type: 'added',
+        text: text2,
+        position: span2,
+        doc1Position: span1,
+        doc2Position: span2,
+        granularity: level,
+      })
+    }
+  }
+
+  // Pairs removed and added tokens in order, maximising the total word
+  // overlap of the pairs. Unpaired tokens come back alone, each with the
+  // insertion point in the other document.
+  private pair(removed: Token[], added: Token[], point1: number, point2: number) {
+    const pairs: Array<{ token1?: Token; token2?: Token; point1: number; point2: number }> = []
+    const m = removed.length
+    const n = added.length
+
+    if (m * n > MAX_PAIRING_CELLS) {
+      const addedAt = m > 0 ? removed[m - 1].end : point1
+      pairs.push(...removed.map(token1 => ({ token1, point1, point2 })))
+      pairs.push(...added.map(token2 => ({ token2, point1: addedAt, point2 })))
+      return pairs
+    }
+
+    const similarity: number[][] = []
+    const bags2 = added.map(token => wordBag(this.text2.slice(token.start, token.end)))
+    for (const token of removed) {
+      const bag1 = wordBag(this.text1.slice(token.start, token.end))
+      similarity.push(bags2.map(bag2 => bagOverlap(bag1, bag2)))
+    }
+
+    // score[i][j]: best total similarity pairing the first i removed with the first j added
+    const score: number[][] = Array.from({ length: m + 1 }, () => new Array(n + 1).fill(0))
+    for (let i = 1; i <= m; i++) {
+      for (let j = 1; j <= n; j++) {
+        const paired = similarity[i - 1][j - 1] >= PAIR_THRESHOLD
+          ? score[i - 1][j - 1] + similarity[i - 1][j - 1]
+          : -Infinity
+        score[i][j] = Math.max(score[i - 1][j], score[i][j - 1], paired)
+      }
+    }
+
+    let i = m
+    let j = n
+    const reversed: typeof pairs = []
+    while (i > 0 || j > 0) {
+      const candidate = i > 0 && j > 0 ? similarity[i - 1][j - 1] : 0
+      if (i > 0 && j > 0 && candidate >= PAIR_THRESHOLD && score[i][j] === score[i - 1][j - 1] + candidate) {
+        reversed.push({ token1: removed[i - 1], token2: added[j - 1], point1, point2 })
+        i--
+        j--
+      } else if (j > 0 && (i === 0 || score[i][j] === score[i][j - 1])) {
+        reversed.push({ token2: added[j - 1], point1: i > 0 ? removed[i - 1].end : point1, point2 })
+        j--
+      } else {
+        reversed.push({ token1: removed[i - 1], point1, point2: j > 0 ? added[j - 1].end : point2 })
+        i--
+      }
+    }
+
+    pairs.push(...reversed.reverse())
+    return pairs
+  }
+}
+
+function tokenize(text: string, range: Span, level: DiffGranularity): Token[] {
+  const slice = text.slice(range.start, range.end)
+  let spans: Span[]
+
+  switch (level) {
+    case 'paragraph':
+      spans = []
+      for (const match of slice.matchAll(/[^\n]*\S[^\n]*(?:\n(?![ \t]*\n)[^\n]*)*/g)) {
+        const start = match.index! + match[0].search(/\S/)
+        spans.push({ start, end: match.index! + match[0].trimEnd().length })
+      }
+      break
+    case 'sentence':
+      spans = chunker.sentences(slice)
+      break
+    case 'word':
+      spans = Array.from(slice.matchAll(WORD), match => ({ start: match.index!, end: match.index! + match[0].length }))
+      break
+  }
+
+  return spans.map(span => ({
+    start: range.start + span.start,
+    end: range.start + span.end,
+    // Reflowed whitespace is not a change
+    key: slice.slice(span.start, span.end).replace(/\s+/g, ' '),
+  }))
+}
+
+// Where a change sits in a document when it has no text there
+function insertionPoint(tokens: Token[], index: number, range: Span): number {
+  if (index > 0) {
+    return tokens[index - 1].end
+  }
+  return tokens[0]?.start ?? range.start
+}
+
+function spanOf(tokens: Token[], point: number): Span {
+  return tokens.length > 0
+    ? { start: tokens[0].start, end: tokens[tokens.length - 1].end }
+    : { start: point, end: point }
+}
+
+function countWords(text: string, span: Span): number {
+  return Array.from(text.slice(span.start, span.end).matchAll(WORD)).length
+}
+
+function wordBag(text: string): Map<string, number> {
+  const bag = new Map<string, number>()
+  for (const match of text.toLowerCase().matchAll(WORD)) {
+    bag.set(match[0], (bag.get(match[0]) || 0) + 1)
+  }
+  return bag
+}
+
+// Dice coefficient over word counts
+function bagOverlap(bag1: Map<string, number>, bag2: Map<string, number>): number {
+  let shared = 0
+  let total = 0
+  bag1.forEach((count, word) => {
+    shared += Math.min(count, bag2.get(word) || 0)
+    total += count
+  })
+  bag2.forEach(count => {
+    total += count
+  })
+  return total === 0 ? 1 : (2 * shared) / total
+}
+
+function overlap(text1: string, text2: string): number {
+  return bagOverlap(wordBag(text1), wordBag(text2))
+}
+
+export default DiffEngine
@@ -0,0 +1,218 @@
+// Sequence diff over token keys. Patience diff anchors on tokens that occur
+// exactly once on each side, which keeps moved boilerplate from producing
+// misleading matches; the gaps between anchors are diffed with Myers' O(ND)
+// algorithm.
+
+export interface DiffOp {
+  type: 'equal' | 'insert' | 'delete'
+  aStart: number
+  aEnd: number
+  bStart: number
+  bEnd: number
+}
+
+// Past this many edits in one gap, Myers gives up and replaces the gap wholesale
+const MAX_EDIT_DISTANCE = 2000
+
+export function diffSequences(a: string[], b: string[]): DiffOp[] {
+  const ops: DiffOp[] = []
+  diffRange(a, b, 0, a.length, 0, b.length, ops)
+  return coalesce(ops)
+}
+
+function diffRange(a: string[], b: string[], aLo: number, aHi: number, bLo: number, bHi: number, ops: DiffOp[]): void {
+  // Common prefix and suffix never need diffing
+  const prefixStart = aLo
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    aLo++
+    bLo++
+  }
+  if (aLo > prefixStart) {
+    ops.push({ type: 'equal', aStart: prefixStart, aEnd: aLo, bStart: bLo - (aLo - prefixStart), bEnd: bLo })
+  }
+
+  let suffix = 0
+  while (aHi - suffix > aLo && bHi - suffix > bLo && a[aHi - suffix - 1] === b[bHi - suffix - 1]) {
+    suffix++
+  }
+  aHi -= suffix
+  bHi -= suffix
+
+  if (aLo === aHi || bLo === bHi) {
+    pushChange(ops, aLo, aHi, bLo, bHi)
+  } else {
+    const anchors = patienceAnchors(a, b, aLo, aHi, bLo, bHi)
+
+    if (anchors.length === 0) {
+      myers(a, b, aLo, aHi, bLo, bHi, ops)
+    } else {
+      let aPos = aLo
+      let bPos = bLo
+      for (const [i, j] of anchors) {
+        diffRange(a, b, aPos, i, bPos, j, ops)
+        ops.push({ type: 'equal', aStart: i, aEnd: i + 1, bStart: j, bEnd: j + 1 })
+        aPos = i + 1
+        bPos = j + 1
+      }
+      diffRange(a, b, aPos, aHi, bPos, bHi, ops)
+    }
+  }
+
+  if (suffix > 0) {
+    ops.push({ type: 'equal', aStart: aHi, aEnd: aHi + suffix, bStart: bHi, bEnd: bHi + suffix })
+  }
+}
+
+// Tokens unique to both ranges, reduced to the longest run in the same order
+function patienceAnchors(
+  a: string[], b: string[], aLo: number, aHi: number, bLo: number, bHi: number
+): Array<[number, number]> {
+  const counts = new Map<string, { a: number; b: number; aIndex: number; bIndex: number }>()
+
+  for (let i = aLo; i < aHi; i++) {
+    const entry = counts.get(a[i]) ?? { a: 0, b: 0, aIndex: i, bIndex: -1 }
+    entry.a++
+    counts.set(a[i], entry)
+  }
+  for (let j = bLo; j < bHi; j++) {
+    const entry = counts.get(b[j])
+    if (entry) {
+      entry.b++
+      entry.bIndex = j
+    }
+  }
+
+  const unique = Array.from(counts.values())
+    .filter(entry => entry.a === 1 && entry.b === 1)
+    .sort((x, y) => x.aIndex - y.aIndex)
+
+  // Longest increasing subsequence of b positions (patience sorting)
+  const tails: number[] = []
+  const previous: number[] = new Array(unique.length)
+  for (let index = 0; index < unique.length; index++) {
+    let low = 0
+    let high = tails.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (unique[tails[mid]].bIndex < unique[index].bIndex) {
+        low = mid + 1
+      } else {
+        high = mid
+      }
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1
+    tails[low] = index
+  }
+
+  const anchors: Array<[number, number]> = []
+  for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index !== -1; index = previous[index]) {
+    anchors.push([unique[index].aIndex, unique[index].bIndex])
+  }
+
+  return anchors.reverse()
+}
+
+function myers(a: string[], b: string[], aLo: number, aHi: number, bLo: number, bHi: number, ops: DiffOp[]): void {
+  const n = aHi - aLo
+  const m = bHi - bLo
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE)
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  const trace: Int32Array[] = []
+  let found = -1
+
+  for (let d = 0; d <= max && found === -1; d++) {
+    // Furthest x on each diagonal after d - 1 edits, for diagonals -d..d
+    trace.push(v.slice(offset - d, offset + d + 1))
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1
+      let y = x - k
+
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++
+        y++
+      }
+
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        found = d
+        break
+      }
+    }
+  }
+
+  if (found === -1) {
+    pushChange(ops, aLo, aHi, bLo, bHi)
+    return
+  }
+
+  const reversed: DiffOp[] = []
+  let x = n
+  let y = m
+
+  for (let d = found; d > 0; d--) {
+    const before = trace[d]
+    const at = (k: number) => before[k + d]
+    const k = x - y
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+    const previousX = at(previousK)
+    const previousY = previousX - previousK
+
+    // Point reached by the edit, before the run of equal tokens that follows it
+    const editX = previousK === k + 1 ? previousX : previousX + 1
+    const snake = x - editX
+    if (snake > 0) {
+      reversed.push({ type: 'equal', aStart: aLo + x - snake, aEnd: aLo + x, bStart: bLo + y - snake, bEnd: bLo + y })
+      x -= snake
+      y -= snake
+    }
+
+    if (previousK === k + 1) {
+      reversed.push({ type: 'insert', aStart: aLo + x, aEnd: aLo + x, bStart: bLo + y - 1, bEnd: bLo + y })
+    } else {
+      reversed.push({ type: 'delete', aStart: aLo + x - 1, aEnd: aLo + x, bStart: bLo + y, bEnd: bLo + y })
+    }
+
+    x = previousX
+    y = previousY
+  }
+
+  if (x > 0) {
+    reversed.push({ type: 'equal', aStart: aLo, aEnd: aLo + x, bStart: bLo, bEnd: bLo + y })
+  }
+
+  ops.push(...reversed.reverse())
+}
+
+function pushChange(ops: DiffOp[], aLo: number, aHi: number, bLo: number, bHi: number): void {
+  if (aHi > aLo) {
+    ops.push({ type: 'delete', aStart: aLo, aEnd: aHi, bStart: bLo, bEnd: bLo })
+  }
+  if (bHi > bLo) {
+    ops.push({ type: 'insert', aStart: aHi, aEnd: aHi, bStart: bLo, bEnd: bHi })
+  }
+}
+
+// Merges neighbouring operations of the same type
+function coalesce(ops: DiffOp[]): DiffOp[] {
+  const merged: DiffOp[] = []
+
+  for (const op of ops) {
+    if (op.aEnd === op.aStart && op.bEnd === op.bStart) {
+      continue
+    }
+
+    const last = merged[merged.length - 1]
+    if (last && last.type === op.type && last.aEnd === op.aStart && last.bEnd === op.bStart) {
+      last.aEnd = op.aEnd
+      last.bEnd = op.bEnd
+    } else {
+      merged.push({ ...op })
+    }
+  }
+
+  return merged
+}
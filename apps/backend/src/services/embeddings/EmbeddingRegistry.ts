@@ -0,0 +1,61 @@
+import { AppError } from '@/middleware/errorHandler'
+import { logger } from '@/utils/logger'
+import { EmbeddingProvider } from '@/services/embeddings/types'
+import { OpenAIEmbeddingProvider } from '@/services/embeddings/OpenAIEmbeddingProvider'
+import { LocalEmbeddingProvider } from '@/services/embeddings/LocalEmbeddingProvider'
+
+// Unlike LLM providers, the embedding provider is chosen once per deployment:
+// query and chunk vectors are only comparable when they come from the same model.
+export class EmbeddingRegistry {
+  private providers = new Map<string, EmbeddingProvider>()
+  private fallbackOrder: string[]
+
+  constructor(fallbackOrder: string[]) {
+    this.fallbackOrder = fallbackOrder
+  }
+
+  register(provider: EmbeddingProvider): void {
+    this.providers.set(provider.name, provider)
+  }
+
+  get(name: string): EmbeddingProvider | undefined {
+    return this.providers.get(name)
+  }
+
+  resolve(preferred?: string): EmbeddingProvider {
+    if (preferred) {
+      const provider = this.providers.get(preferred)
+
+      if (provider?.isAvailable()) {
+        return provider
+      }
+
+      logger.warn(`Embedding provider "${preferred}" is unavailable, falling back`)
+    }
+
+    for (const name of this.fallbackOrder) {
+      const provider = this.providers.get(name)
+      if (provider?.isAvailable()) {
+        return provider
+      }
+    }
+
+    throw new AppError('No embedding service available', 503, 'EMBEDDING_SERVICE_UNAVAILABLE')
+  }
+}
+
+function createDefaultRegistry(): EmbeddingRegistry {
+  const registry = new EmbeddingRegistry(['openai', 'local'])
+  registry.register(new OpenAIEmbeddingProvider())
+  registry.register(new LocalEmbeddingProvider())
+  return registry
+}
+
+export const embeddingRegistry = createDefaultRegistry()
+
+// EMBEDDING_PROVIDER pins the provider; otherwise OpenAI is used when configured
+export function getEmbeddingProvider(): EmbeddingProvider {
+  return embeddingRegistry.resolve(process.env.EMBEDDING_PROVIDER)
+}
+
+export default EmbeddingRegistry
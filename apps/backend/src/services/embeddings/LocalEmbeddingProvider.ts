@@ -0,0 +1,90 @@
+import { EmbeddingProvider, EmbeddingVector } from '@/services/embeddings/types'
+import { estimateTokens, tokenize } from '@/utils/text'
+
+// Relative weight of each feature family in the hashed vector
+const UNIGRAM_WEIGHT = 1
+const BIGRAM_WEIGHT = 0.5
+const CHAR_GRAM_WEIGHT = 0.3
+const CHAR_GRAM_SIZE = 4
+
+// CPU-only embeddings using the hashing trick: word unigrams, word bigrams and
+// character n-grams are hashed into a fixed number of signed buckets, weighted
+// by sublinear term frequency and L2-normalised so cosine distance works as
+// with model embeddings. Character n-grams let inflections such as
+// "terminate" and "termination" land close together.
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local'
+  readonly model = 'hashed-ngram-v1'
+  readonly dimension: number
+  readonly similarityThreshold = 0.1
+
+  constructor(dimension: number = parseInt(process.env.LOCAL_EMBEDDING_DIMENSION || '512')) {
+    this.dimension = dimension
+  }
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  async embed(text: string): Promise<EmbeddingVector> {
+    return {
+      embedding: this.vectorize(text),
+      promptTokens: estimateTokens(text),
+    }
+  }
+
+  async embedMany(texts: string[]): Promise<EmbeddingVector[]> {
+    return Promise.all(texts.map(text => this.embed(text)))
+  }
+
+  vectorize(text: string): number[] {
+    const features = new Map<string, { weight: number; count: number }>()
+    const add = (feature: string, weight: number) => {
+      const existing = features.get(feature)
+      if (existing) {
+        existing.count++
+      } else {
+        features.set(feature, { weight, count: 1 })
+      }
+    }
+
+    const words = tokenize(text)
+    for (let i = 0; i < words.length; i++) {
+      const word = words[i]
+      add(`w:${word}`, UNIGRAM_WEIGHT)
+
+      if (i + 1 < words.length) {
+        add(`b:${word} ${words[i + 1]}`, BIGRAM_WEIGHT)
+      }
+
+      const padded = `^${word}$`
+      for (let j = 0; j + CHAR_GRAM_SIZE <= padded.length; j++) {
+        add(`c:${padded.substring(j, j + CHAR_GRAM_SIZE)}`, CHAR_GRAM_WEIGHT)
+      }
+    }
+
+    const vector = new Array<number>(this.dimension).fill(0)
+    features.forEach(({ weight, count }, feature) => {
+      const hash = fnv1a(feature)
+      const bucket = hash % this.dimension
+      // Use an independent bit for the sign so collisions tend to cancel out
+      const sign = (hash >>> 31) === 0 ? 1 : -1
+      vector[bucket] += sign * weight * (1 + Math.log(count))
+    })
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+    return norm > 0 ? vector.map(value => value / norm) : vector
+  }
+}
+
+// 32-bit FNV-1a, stable across processes so stored vectors stay comparable
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+export default LocalEmbeddingProvider
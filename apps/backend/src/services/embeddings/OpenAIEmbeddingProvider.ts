@@ -0,0 +1,89 @@
+import OpenAI from 'openai'
+import { AppError } from '@/middleware/errorHandler'
+import { logger } from '@/utils/logger'
+import { EmbeddingProvider, EmbeddingVector } from '@/services/embeddings/types'
+
+const MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-ada-002': 1536,
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai'
+  readonly model = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-ada-002'
+  readonly dimension = MODEL_DIMENSIONS[this.model] || 1536
+  readonly similarityThreshold = 0.7
+  private client: OpenAI | null = null
+
+  constructor() {
+    if (process.env.OPENAI_API_KEY) {
+      this.client = new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+      })
+    }
+  }
+
+  isAvailable(): boolean {
+    return this.client !== null
+  }
+
+  async embed(text: string): Promise<EmbeddingVector> {
+    if (!this.client) {
+      throw new AppError('OpenAI is not configured', 503, 'EMBEDDING_SERVICE_UNAVAILABLE')
+    }
+
+    try {
+      const response = await this.client.embeddings.create({
+        model: this.model,
+        input: text.substring(0, 8000), // Limit input size
+      })
+
+      const embedding = response.data[0]?.embedding
+
+      if (!embedding) {
+        throw new Error('No embedding returned')
+      }
+
+      return {
+        embedding,
+        promptTokens: response.usage?.prompt_tokens || 0,
+      }
+    } catch (error) {
+      logger.error('OpenAI embedding error:', error)
+      throw new AppError('OpenAI embedding failed', 500, 'OPENAI_EMBEDDING_ERROR')
+    }
+  }
+
+  async embedMany(texts: string[]): Promise<EmbeddingVector[]> {
+    if (!this.client) {
+      throw new AppError('OpenAI is not configured', 503, 'EMBEDDING_SERVICE_UNAVAILABLE')
+    }
+
+    if (texts.length === 0) {
+      return []
+    }
+
+    try {
+      const response = await this.client.embeddings.create({
+        model: this.model,
+        input: texts.map(text => text.substring(0, 8000)),
+      })
+
+      // Usage is reported for the whole batch only
+      const promptTokens = Math.round((response.usage?.prompt_tokens || 0) / texts.length)
+      const embeddings = [...response.data].sort((a, b) => a.index - b.index)
+
+      if (embeddings.length !== texts.length) {
+        throw new Error(`Expected ${texts.length} embeddings, got ${embeddings.length}`)
+      }
+
+      return embeddings.map(({ embedding }) => ({ embedding, promptTokens }))
+    } catch (error) {
+      logger.error('OpenAI embedding error:', error)
+      throw new AppError('OpenAI embedding failed', 500, 'OPENAI_EMBEDDING_ERROR')
+    }
+  }
+}
+
+export default OpenAIEmbeddingProvider
@@ -0,0 +1,17 @@
+export interface EmbeddingVector {
+  embedding: number[]
+  promptTokens: number
+}
+
+export interface EmbeddingProvider {
+  readonly name: string
+  readonly model: string
+  readonly dimension: number
+  // Cosine similarity below which chunks are not considered relevant. Sparse
+  // local vectors score much lower than dense model embeddings.
+  readonly similarityThreshold: number
+  isAvailable(): boolean
+  embed(text: string): Promise<EmbeddingVector>
+  // One vector per text, in order, from a single request where the API allows
+  embedMany(texts: string[]): Promise<EmbeddingVector[]>
+}
@@ -0,0 +1,414 @@
+import { EntityMention, EntitySource, EntityType, LegalEntity } from '@shared'
+import { findDates } from '@/utils/dates'
+import {
+  nameKey,
+  normalizeCitation,
+  normalizeDate,
+  normalizeDuration,
+  normalizeJurisdiction,
+  normalizeMoney,
+  normalizeName,
+} from '@/services/entities/normalizers'
+
+// Entity as reported by a model, before normalisation
+export interface RawEntity {
+  text: string
+  type: string
+  confidence?: number
+}
+
+// A single mention with its normalised value
+interface Candidate extends NormalizedValue {
+  type: EntityType
+  text: string
+  role?: string
+  confidence: number
+  source: EntitySource
+  start?: number
+  end?: number
+}
+
+interface NormalizedValue {
+  value: string
+  currency?: string
+  businessDays?: boolean
+}
+
+interface Match {
+  text: string
+  start: number
+  end: number
+}
+
+const ORGANIZATION = /\b((?:(?:[A-Z][\w&'-]*|[A-Z][a-z]{0,2}\.),?[ \t]+){1,5}(?:Inc\.|Incorporated|LLC|L\.L\.C\.|Ltd\.?|Limited|Corporation|Corp\.?|Company|Co\.|LLP|L\.P\.|LP|GmbH|PLC|plc|S\.A\.|N\.V\.|B\.V\.|AG))(?![\w.])/g
+const DEFINED_ROLE = /^[^.;()]{0,160}?\((?:hereinafter\s+)?(?:(?:referred\s+to\s+as|called)\s+)?(?:the\s+)?["“]([A-Z][\w ]{1,40})["”]/
+const MONEY = /(?:(?:US\$|USD|EUR|GBP|[$€£])\s?\d[\d,]*(?:\.\d+)?(?:\s?(?:thousand|million|billion|bn|mm|k|m)\b)?|\b\d[\d,]*(?:\.\d+)?(?:\s?(?:thousand|million|billion))?\s?(?:USD|EUR|GBP|U\.S\. dollars|dollars|euros|pounds sterling|pounds)\b)/g
+const DURATION = /\b(?:[a-z]+(?:-[a-z]+)?\s*\(\d+\)|\d+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|fourteen|fifteen|twenty|thirty|forty|forty-five|sixty|ninety)\s+(?:business\s+|calendar\s+)?(?:days?|weeks?|months?|years?)\b/gi
+const SIGNATURE_NAME = /^[ \t]*(?:By|Name|Signed|Signature)\s*:[ \t]*(?:\/s\/[ \t]*)?([A-Z][a-zA-Z.'-]+(?:[ \t]+[A-Z][a-zA-Z.'-]+){1,3})[ \t]*$/gm
+const SIGNATURE_TITLE = /^[ \t]*(?:Title|Its)\s*:[ \t]*([^\n]{2,60}?)[ \t]*$/m
+const JURISDICTION = [
+  /\b(?:governed by|construed in accordance with|subject to)(?:\s+and\s+(?:construed|interpreted)\s+in\s+accordance\s+with)?\s+the\s+laws?\s+of\s+((?:the\s+)?(?:(?:State|Commonwealth|Province|Republic|Kingdom)\s+of\s+(?:the\s+)?)?[A-Z][a-z]+(?:\s+(?:and\s+)?[A-Z][a-z]+){0,3})/g,
+  /\bcourts?\s+(?:located\s+|sitting\s+)?(?:in|of)\s+((?:the\s+)?(?:(?:State|Commonwealth|Province|Republic|Kingdom)\s+of\s+(?:the\s+)?)?[A-Z][a-z]+(?:\s+(?:and\s+)?[A-Z][a-z]+){0,3})/g,
+]
+const STATUTE = [
+  /\b\d+\s+U\.S\.C\.\s*§*\s*\d+(?:[\w()-]|\.(?=\w))*/g,
+  /\b\d+\s+C\.F\.R\.\s*(?:§|Part)?\s*\d+(?:[\w()-]|\.(?=\w))*/g,
+  /\b(?:Regulation|Directive)\s+\((?:EU|EC|EEC)\)\s+(?:No\.?\s+)?\d+\/\d+/g,
+  /\b((?:[A-Z][a-zA-Z]+\s+)(?:(?:[A-Z][a-zA-Z]+|and|of|the|on)\s+){0,7}Act)\b(?:,?\s+(?:of\s+)?\d{4})?/g,
+]
+// Citation signals that precede a case name
+const CITATION_SIGNAL = /^(?:See(?:\s+also)?|Cf\.|But|Compare|In)\s+/
+const CASE_CITATION = /\b[A-Z][\w.'&-]*(?:\s+[A-Z&][\w.'&-]*){0,4}\s+v\.?\s+[A-Z][\w.'&-]*(?:\s+[A-Z&][\w.'&-]*){0,4}(?:,?\s+(?:\d+\s+[A-Z][\w.]*(?:\s?\d?[a-z]{1,3})?\s+\d+(?:\s+\([^)\n]{0,30}\d{4}\))?|\[\d{4}\]\s+[A-Z]+(?:\s+[A-Za-z]+)?\s+\d+|\(\d{4}\)\s+\d+\s+[A-Z][\w.]*\s+\d+))?/g
+
+// Types a model may report, mapped to the entity model
+const TYPE_ALIASES: Record<string, EntityType> = {
+  party: EntityType.PARTY,
+  organization: EntityType.PARTY,
+  organisation: EntityType.PARTY,
+  company: EntityType.PARTY,
+  person: EntityType.PARTY,
+  people: EntityType.PARTY,
+  individual: EntityType.PARTY,
+  signatory: EntityType.SIGNATORY,
+  signer: EntityType.SIGNATORY,
+  amount: EntityType.MONETARY_AMOUNT,
+  money: EntityType.MONETARY_AMOUNT,
+  monetary_amount: EntityType.MONETARY_AMOUNT,
+  price: EntityType.MONETARY_AMOUNT,
+  fee: EntityType.MONETARY_AMOUNT,
+  date: EntityType.DATE,
+  duration: EntityType.DURATION,
+  period: EntityType.DURATION,
+  jurisdiction: EntityType.JURISDICTION,
+  governing_law: EntityType.JURISDICTION,
+  venue: EntityType.JURISDICTION,
+  statute: EntityType.STATUTE,
+  law: EntityType.STATUTE,
+  regulation: EntityType.STATUTE,
+  legislation: EntityType.STATUTE,
+  case: EntityType.CASE_CITATION,
+  case_citation: EntityType.CASE_CITATION,
+  citation: EntityType.CASE_CITATION,
+}
+
+const MENTION_LIMIT = 50
+const ENTITY_LIMIT = 200
+
+// Deterministic extractors for parties, signatories, amounts, dates,
+// durations, jurisdictions and citations, merged with whatever the model
+// reported. Mentions with the same type and normalised value become one
+// entity; an entity found by both the rules and the model scores higher.
+export class EntityExtractor {
+  extract(text: string, reported: RawEntity[] = []): LegalEntity[] {
+    const candidates = [
+      ...this.parties(text),
+      ...this.signatories(text),
+      ...this.amounts(text),
+      ...this.dates(text),
+      ...this.durations(text),
+      ...this.jurisdictions(text),
+      ...this.statutes(text),
+      ...this.cases(text),
+    ]
+
+    // A person the model reports who signed the document is a signatory
+    const signatories = new Set(
+      candidates.filter(candidate => candidate.type === EntityType.SIGNATORY).map(candidate => nameKey(candidate.value))
+    )
+
+    for (const entity of reported) {
+      for (const candidate of this.fromModel(text, entity)) {
+        if (candidate.type === EntityType.PARTY && signatories.has(nameKey(candidate.value))) {
+          candidate.type = EntityType.SIGNATORY
+        }
+        candidates.push(candidate)
+      }
+    }
+
+    return this.merge(candidates)
+  }
+
+  // Company names, with the defined term that follows them: Acme Corp. ("Supplier")
+  private parties(text: string): Candidate[] {
+    const matches = this.matches(text, ORGANIZATION)
+    const candidates: Candidate[] = []
+
+    matches.forEach((match, index) => {
+      const value = normalizeName(match.text)
+      // "the Company" on its own is a defined term, not a name
+      if (!value.includes(' ')) {
+        return
+      }
+
+      const windowEnd = Math.min(matches[index + 1]?.start ?? Infinity, match.end + 200)
+      const role = DEFINED_ROLE.exec(text.slice(match.end, windowEnd))
+      candidates.push({
+        type: EntityType.PARTY,
+        text: match.text,
+        value,
+        role: role ? role[1].trim() : undefined,
+        confidence: role ? 0.85 : 0.7,
+        source: 'rules',
+        start: match.start,
+        end: match.end,
+      })
+    })
+
+    return candidates
+  }
+
+  // "By: Jane Smith" or "Name: Jane Smith", with the "Title:" line that follows
+  private signatories(text: string): Candidate[] {
+    return this.matches(text, SIGNATURE_NAME, 1).map(match => {
+      const title = SIGNATURE_TITLE.exec(text.slice(match.end, match.end + 120).split('\n').slice(0, 3).join('\n'))
+      return {
+        type: EntityType.SIGNATORY,
+        text: match.text,
+        value: normalizeName(match.text),
+        role: title ? title[1].trim() : undefined,
+        confidence: 0.85,
+        source: 'rules',
+        start: match.start,
+        end: match.end,
+      }
+    })
+  }
+
+  private amounts(text: string): Candidate[] {
+    const candidates: Candidate[] = []
+
+    for (const match of this.matches(text, MONEY)) {
+      const money = normalizeMoney(match.text)
+      if (money) {
+        candidates.push({
+          type: EntityType.MONETARY_AMOUNT,
+          text: match.text,
+          value: money.amount,
+          currency: money.currency,
+          confidence: 0.9,
+          source: 'rules',
+          start: match.start,
+          end: match.end,
+        })
+      }
+    }
+
+    return candidates
+  }
+
+  private dates(text: string): Candidate[] {
+    return findDates(text).map(match => ({
+      type: EntityType.DATE,
+      text: text.slice(match.start, match.end),
+      value: match.date.toISOString().substring(0, 10),
+      confidence: 0.9,
+      source: 'rules',
+      start: match.start,
+      end: match.end,
+    }))
+  }
+
+  private durations(text: string): Candidate[] {
+    const candidates: Candidate[] = []
+
+    for (const match of this.matches(text, DURATION)) {
+      const duration = normalizeDuration(match.text)
+      if (duration) {
+        candidates.push({
+          type: EntityType.DURATION,
+          text: match.text,
+          value: duration.value,
+          businessDays: duration.businessDays,
+          confidence: 0.85,
+          source: 'rules',
+          start: match.start,
+          end: match.end,
+        })
+      }
+    }
+
+    return candidates
+  }
+
+  private jurisdictions(text: string): Candidate[] {
+    return JURISDICTION.flatMap(pattern => this.matches(text, pattern, 1)).map(match => ({
+      type: EntityType.JURISDICTION,
+      text: match.text,
+      value: normalizeJurisdiction(match.text),
+      confidence: 0.8,
+      source: 'rules',
+      start: match.start,
+      end: match.end,
+    }))
+  }
+
+  private statutes(text: string): Candidate[] {
+    return STATUTE.flatMap(pattern => this.matches(text, pattern))
+      .filter(match => !/^(?:this|such|the|that)\s+act$/i.test(match.text))
+      .map(match => ({
+        type: EntityType.STATUTE,
+        text: match.text,
+        value: normalizeCitation(match.text),
+        confidence: 0.75,
+        source: 'rules',
+        start: match.start,
+        end: match.end,
+      }))
+  }
+
+  private cases(text: string): Candidate[] {
+    return this.matches(text, CASE_CITATION).map(match => {
+      const signal = CITATION_SIGNAL.exec(match.text)?.[0].length ?? 0
+      const citation = match.text.slice(signal)
+      return {
+        type: EntityType.CASE_CITATION,
+        text: citation,
+        value: normalizeCitation(citation),
+        confidence: 0.75,
+        source: 'rules',
+        start: match.start + signal,
+        end: match.end,
+      }
+    })
+  }
+
+  // Normalises a model-reported entity and locates it in the text. Values
+  // that cannot be normalised for their type are dropped.
+  private fromModel(text: string, entity: RawEntity): Candidate[] {
+    if (!entity || typeof entity.text !== 'string' || entity.text.trim().length === 0) {
+      return []
+    }
+
+    const surface = entity.text.trim()
+    const type = TYPE_ALIASES[String(entity.type || '').toLowerCase().replace(/[\s-]+/g, '_')] ?? EntityType.OTHER
+    const confidence = Math.min(Math.max(Number(entity.confidence) || 0.5, 0), 1) * 0.9
+    let value: NormalizedValue | null
+
+    switch (type) {
+      case EntityType.MONETARY_AMOUNT: {
+        const money = normalizeMoney(surface)
+        value = money && { value: money.amount, currency: money.currency }
+        break
+      }
+      case EntityType.DATE: {
+        const date = normalizeDate(surface)
+        value = date ? { value: date } : null
+        break
+      }
+      case EntityType.DURATION: {
+        const duration = normalizeDuration(surface)
+        value = duration && { value: duration.value, businessDays: duration.businessDays }
+        break
+      }
+      case EntityType.JURISDICTION:
+        value = { value: normalizeJurisdiction(surface) }
+        break
+      case EntityType.STATUTE:
+      case EntityType.CASE_CITATION:
+        value = { value: normalizeCitation(surface) }
+        break
+      default:
+        value = { value: normalizeName(surface) }
+    }
+
+    if (!value) {
+      return []
+    }
+
+    const candidate: Candidate = { type, text: surface, confidence, source: 'llm', ...value }
+    const located: Candidate[] = []
+    let index = text.indexOf(surface)
+    while (index !== -1 && located.length < MENTION_LIMIT) {
+      located.push({ ...candidate, start: index, end: index + surface.length })
+      index = text.indexOf(surface, index + surface.length)
+    }
+
+    return located.length > 0 ? located : [candidate]
+  }
+
+  private merge(candidates: Candidate[]): LegalEntity[] {
+    const entities = new Map<string, LegalEntity & { ruleConfidence: number; modelConfidence: number }>()
+
+    for (const candidate of candidates) {
+      const key = this.keyOf(candidate)
+      let entity = entities.get(key)
+
+      if (!entity) {
+        entity = {
+          type: candidate.type,
+          text: candidate.text,
+          value: candidate.value,
+          confidence: 0,
+          sources: [],
+          mentions: [],
+          ruleConfidence: 0,
+          modelConfidence: 0,
+        }
+        entities.set(key, entity)
+      }
+
+      if (candidate.currency) entity.currency = candidate.currency
+      if (candidate.businessDays !== undefined) entity.businessDays = candidate.businessDays
+      if (candidate.role && !entity.role) entity.role = candidate.role
+      if (!entity.sources.includes(candidate.source)) entity.sources.push(candidate.source)
+
+      if (candidate.source === 'rules') {
+        entity.ruleConfidence = Math.max(entity.ruleConfidence, candidate.confidence)
+      } else {
+        entity.modelConfidence = Math.max(entity.modelConfidence, candidate.confidence)
+      }
+
+      if (
+        candidate.start !== undefined &&
+        entity.mentions.length < MENTION_LIMIT &&
+        !entity.mentions.some(mention => mention.startOffset < candidate.end! && candidate.start! < mention.endOffset)
+      ) {
+        const mention: EntityMention = { text: candidate.text, startOffset: candidate.start, endOffset: candidate.end! }
+        entity.mentions.push(mention)
+      }
+    }
+
+    return Array.from(entities.values())
+      .map(({ ruleConfidence, modelConfidence, ...entity }) => {
+        entity.mentions.sort((a, b) => a.startOffset - b.startOffset)
+        return {
+          ...entity,
+          text: entity.mentions[0]?.text ?? entity.text,
+          // Independent agreement between rules and model raises confidence
+          confidence: Math.round(Math.min(1 - (1 - ruleConfidence) * (1 - modelConfidence), 0.99) * 100) / 100,
+        }
+      })
+      .sort((a, b) => (a.mentions[0]?.startOffset ?? Infinity) - (b.mentions[0]?.startOffset ?? Infinity))
+      .slice(0, ENTITY_LIMIT)
+  }
+
+  private keyOf(candidate: Candidate): string {
+    switch (candidate.type) {
+      case EntityType.MONETARY_AMOUNT:
+        return `${candidate.type}:${candidate.currency}:${candidate.value}`
+      case EntityType.DURATION:
+        return `${candidate.type}:${candidate.value}:${candidate.businessDays ? 'business' : 'calendar'}`
+      case EntityType.DATE:
+        return `${candidate.type}:${candidate.value}`
+      default:
+        return `${candidate.type}:${nameKey(candidate.value)}`
+    }
+  }
+
+  private matches(text: string, pattern: RegExp, group = 0): Match[] {
+    const results: Match[] = []
+    pattern.lastIndex = 0
+    let match: RegExpExecArray | null
+
+    while ((match = pattern.exec(text)) !== null) {
+      const raw = match[group]
+      const offset = match.index + match[0].indexOf(raw)
+      const trimmed = raw.replace(/[\s,;:]+$/, '')
+      results.push({ text: trimmed, start: offset, end: offset + trimmed.length })
+    }
+
+    return results
+  }
+}
+
+export default EntityExtractor
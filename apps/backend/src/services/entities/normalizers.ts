@@ -0,0 +1,127 @@
+import { findDates, parseNumber, parseUnit } from '@/utils/dates'
+
+// Turns the surface forms of legal entities into comparable values
+
+export interface MoneyValue {
+  amount: string
+  currency: string
+}
+
+export interface DurationValue {
+  value: string
+  businessDays: boolean
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  'us$': 'USD',
+  '$': 'USD',
+  'usd': 'USD',
+  'dollar': 'USD',
+  'dollars': 'USD',
+  '€': 'EUR',
+  'eur': 'EUR',
+  'euro': 'EUR',
+  'euros': 'EUR',
+  '£': 'GBP',
+  'gbp': 'GBP',
+  'pound': 'GBP',
+  'pounds': 'GBP',
+  'pounds sterling': 'GBP',
+}
+
+const SCALES: Record<string, number> = {
+  thousand: 1e3,
+  k: 1e3,
+  million: 1e6,
+  m: 1e6,
+  mm: 1e6,
+  billion: 1e9,
+  bn: 1e9,
+}
+
+const CURRENCY = /(us\$|usd|eur|gbp|pounds sterling|dollars?|euros?|pounds?|[$€£])/i
+const AMOUNT = /(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(?:\s*(thousand|million|billion|bn|mm|k|m)\b)?/i
+const DURATION = /([a-z]+(?:-[a-z]+)?|\d+)(?:\s*\((\d+)\))?\s+(business\s+|calendar\s+)?(days?|weeks?|months?|years?)\b/i
+
+// "$1.5 million" -> { amount: '1500000.00', currency: 'USD' }
+export function normalizeMoney(text: string): MoneyValue | null {
+  const currency = CURRENCY.exec(text)
+  const amount = AMOUNT.exec(text)
+  if (!currency || !amount) {
+    return null
+  }
+
+  const scale = amount[3] ? SCALES[amount[3].toLowerCase()] : 1
+  const value = parseFloat(`${amount[1].replace(/,/g, '')}${amount[2] || ''}`) * scale
+  if (!isFinite(value)) {
+    return null
+  }
+
+  return {
+    amount: value.toFixed(2),
+    currency: CURRENCY_SYMBOLS[currency[1].toLowerCase()],
+  }
+}
+
+// "31 January 2025" -> '2025-01-31'
+export function normalizeDate(text: string): string | null {
+  const match = findDates(text)[0]
+  return match ? match.date.toISOString().substring(0, 10) : null
+}
+
+// "thirty (30) business days" -> { value: 'P30D', businessDays: true }
+export function normalizeDuration(text: string): DurationValue | null {
+  const match = DURATION.exec(text)
+  if (!match) {
+    return null
+  }
+
+  const amount = parseNumber(match[2] || match[1])
+  const unit = parseUnit(match[4])
+  if (amount === null || unit === null) {
+    return null
+  }
+
+  return {
+    value: `P${amount}${unit.charAt(0).toUpperCase()}`,
+    businessDays: Boolean(match[3]?.toLowerCase().startsWith('business')),
+  }
+}
+
+// Collapses whitespace and drops quotes, a leading "the" and trailing punctuation
+export function normalizeName(text: string): string {
+  return text
+    .replace(/["“”]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^the\s+/i, '')
+    .replace(/[,;:]+$/, '')
+}
+
+// "State of New York" -> "New York"
+export function normalizeJurisdiction(text: string): string {
+  return normalizeName(text).replace(/^(?:the\s+)?(?:State|Commonwealth|Province|Republic|Kingdom)\s+of\s+(?:the\s+)?/i, '')
+}
+
+// "15 U.S.C. §1681" -> "15 U.S.C. § 1681"; "Hadley v Baxendale" -> "Hadley v. Baxendale"
+export function normalizeCitation(text: string): string {
+  return normalizeName(text)
+    .replace(/\s*§\s*/g, ' § ')
+    .replace(/\s+vs?\.?\s+/g, ' v. ')
+    .trim()
+}
+
+// Case, punctuation and company-suffix insensitive key for names
+export function nameKey(text: string): string {
+  return normalizeName(text)
+    .toLowerCase()
+    .replace(/[.,'’]/g, '')
+    .replace(/\b(incorporated|corporation|company|limited)\b/g, match => ({
+      incorporated: 'inc',
+      corporation: 'corp',
+      company: 'co',
+      limited: 'ltd',
+    })[match]!)
+    .replace(/\s+/g, ' ')
+    .trim()
+}
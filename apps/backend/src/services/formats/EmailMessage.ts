@@ -0,0 +1,104 @@
+import { simpleParser, AddressObject } from 'mailparser'
+import MsgReader from '@kenjiuno/msgreader'
+import { htmlToText } from '@/services/formats/MarkupText'
+
+export interface EmailAttachment {
+  filename: string
+  content: Buffer
+}
+
+export interface EmailMessage {
+  // Header block (From, To, Cc, Date, Subject) followed by the body
+  text: string
+  attachments: EmailAttachment[]
+}
+
+interface EmailFields {
+  from?: string
+  to?: string
+  cc?: string
+  date?: string
+  subject?: string
+  body: string
+}
+
+// RFC 822 / MIME messages (.eml). Inline images referenced from the HTML
+// body are part of the message, not attachments.
+export async function parseEml(buffer: Buffer): Promise<EmailMessage> {
+  const mail = await simpleParser(buffer)
+
+  return {
+    text: formatEmail({
+      from: addressText(mail.from),
+      to: addressText(mail.to),
+      cc: addressText(mail.cc),
+      date: mail.date?.toISOString(),
+      subject: mail.subject,
+      body: mail.text?.trim() || (mail.html ? htmlToText(mail.html) : ''),
+    }),
+    attachments: mail.attachments
+      .filter(attachment => !attachment.related)
+      .map((attachment, index) => ({
+        filename: attachment.filename || `attachment-${index + 1}`,
+        content: attachment.content,
+      })),
+  }
+}
+
+// Outlook messages (.msg). Attached messages are kept as attachments in
+// .msg form so they are processed as emails of their own.
+export function parseMsg(buffer: Buffer): EmailMessage {
+  const reader = new MsgReader(new Uint8Array(buffer).buffer)
+  const message = reader.getFileData()
+  const recipients = (type: 'to' | 'cc') =>
+    (message.recipients || [])
+      .filter(recipient => (recipient.recipType || 'to') === type)
+      .map(recipient => mailbox(recipient.name, recipient.smtpAddress || recipient.email))
+      .join(', ')
+
+  return {
+    text: formatEmail({
+      from: mailbox(message.senderName, message.senderSmtpAddress || message.senderEmail),
+      to: recipients('to'),
+      cc: recipients('cc'),
+      date: message.clientSubmitTime || message.messageDeliveryTime,
+      subject: message.subject,
+      body: message.body?.trim() || (message.bodyHtml ? htmlToText(message.bodyHtml) : ''),
+    }),
+    attachments: (message.attachments || [])
+      .filter(attachment => !attachment.attachmentHidden)
+      .map((attachment, index) => {
+        const { fileName, content } = reader.getAttachment(attachment)
+        return {
+          filename: fileName || attachment.fileNameShort || `attachment-${index + 1}`,
+          content: Buffer.from(content),
+        }
+      }),
+  }
+}
+
+function formatEmail(fields: EmailFields): string {
+  const headers = [
+    ['From', fields.from],
+    ['To', fields.to],
+    ['Cc', fields.cc],
+    ['Date', fields.date],
+    ['Subject', fields.subject],
+  ]
+    .filter(([, value]) => value)
+    .map(([name, value]) => `${name}: ${value}`)
+
+  return [headers.join('\n'), fields.body].filter(Boolean).join('\n\n')
+}
+
+function addressText(address?: AddressObject | AddressObject[]): string | undefined {
+  return ([] as AddressObject[])
+    .concat(address || [])
+    .flatMap(item => item.value)
+    .map(({ name, address: email }) => mailbox(name, email))
+    .join(', ')
+}
+
+function mailbox(name?: string, email?: string): string {
+  return name && email && name !== email ? `${name} <${email}>` : name || email || ''
+}
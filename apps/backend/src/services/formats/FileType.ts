@@ -0,0 +1,109 @@
+import JSZip from 'jszip'
+
+// MIME types DocumentProcessor can extract text from
+export const SUPPORTED_MIME_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.oasis.opendocument.text',
+  'application/rtf',
+  'text/html',
+  'text/markdown',
+  'text/plain',
+  'message/rfc822',
+  'application/vnd.ms-outlook',
+  'image/png',
+  'image/jpeg',
+  'image/tiff',
+]
+
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+const ODT = 'application/vnd.oasis.opendocument.text'
+
+const SIGNATURES: Array<{ bytes: number[]; mimeType: string }> = [
+  { bytes: [0x25, 0x50, 0x44, 0x46, 0x2d], mimeType: 'application/pdf' }, // %PDF-
+  { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], mimeType: 'image/png' },
+  { bytes: [0xff, 0xd8, 0xff], mimeType: 'image/jpeg' },
+  { bytes: [0x49, 0x49, 0x2a, 0x00], mimeType: 'image/tiff' },
+  { bytes: [0x4d, 0x4d, 0x00, 0x2a], mimeType: 'image/tiff' },
+  { bytes: [0x7b, 0x5c, 0x72, 0x74, 0x66], mimeType: 'application/rtf' }, // {\rtf
+]
+
+const ZIP = [0x50, 0x4b, 0x03, 0x04]
+// OLE2 compound files hold both Word 97-2003 documents and Outlook messages
+const OLE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]
+
+const MARKDOWN_EXTENSIONS = new Set(['md', 'markdown'])
+const EMAIL_HEADER = /^(from|to|cc|subject|date|message-id|mime-version|received|return-path|reply-to):/i
+
+// Detects the type of an upload from its content; the filename only tells
+// Markdown from plain text. Returns application/octet-stream for anything else.
+export async function detectFileType(buffer: Buffer, filename: string): Promise<string> {
+  const signature = SIGNATURES.find(({ bytes }) => startsWith(buffer, bytes))
+  if (signature) {
+    return signature.mimeType
+  }
+
+  if (startsWith(buffer, ZIP)) {
+    return detectZip(buffer)
+  }
+
+  if (startsWith(buffer, OLE)) {
+    // Storage names are UTF-16 in the compound file's directory
+    if (buffer.includes(Buffer.from('WordDocument', 'utf16le'))) {
+      return 'application/msword'
+    }
+    if (buffer.includes(Buffer.from('__substg1.0_', 'utf16le'))) {
+      return 'application/vnd.ms-outlook'
+    }
+    return 'application/octet-stream'
+  }
+
+  const head = buffer.subarray(0, 8192)
+  if (head.includes(0)) {
+    return 'application/octet-stream'
+  }
+
+  const text = head.toString('utf-8').replace(/^\uFEFF/, '').trimStart()
+  if (/^(<!doctype html|<html[\s>])/i.test(text) || /<(head|body)[\s>]/i.test(text.slice(0, 1024))) {
+    return 'text/html'
+  }
+  if (isEmail(text)) {
+    return 'message/rfc822'
+  }
+
+  const extension = filename.split('.').pop()?.toLowerCase() || ''
+  return MARKDOWN_EXTENSIONS.has(extension) ? 'text/markdown' : 'text/plain'
+}
+
+async function detectZip(buffer: Buffer): Promise<string> {
+  try {
+    const zip = await JSZip.loadAsync(buffer)
+    const mimetype = await zip.file('mimetype')?.async('string')
+    if (mimetype?.trim() === ODT) {
+      return ODT
+    }
+    if (zip.file('word/document.xml')) {
+      return DOCX
+    }
+  } catch {
+    // Not a readable archive
+  }
+  return 'application/octet-stream'
+}
+
+// An RFC 822 header block: header lines (or folded continuations) up to the
+// first blank line, with a sender and at least one other message header
+function isEmail(text: string): boolean {
+  const headerBlock = text.split(/\r?\n\r?\n/)[0].split(/\r?\n/)
+  if (!headerBlock.every(line => /^[!-9;-~]+:/.test(line) || /^[ \t]/.test(line))) {
+    return false
+  }
+
+  const headers = headerBlock.filter(line => EMAIL_HEADER.test(line)).map(line => line.split(':')[0].toLowerCase())
+  return headers.includes('from') && headers.length >= 2
+}
+
+function startsWith(buffer: Buffer, bytes: number[]): boolean {
+  return buffer.length >= bytes.length && bytes.every((byte, index) => buffer[index] === byte)
+}
@@ -0,0 +1,52 @@
+import { convert } from 'html-to-text'
+
+// Plain text of an HTML document: block elements on their own lines, link
+// targets and images dropped, and table columns three or more spaces apart
+export function htmlToText(html: string): string {
+  return convert(html, {
+    wordwrap: false,
+    selectors: [
+      { selector: 'a', options: { ignoreHref: true } },
+      { selector: 'img', format: 'skip' },
+      { selector: 'table', format: 'dataTable', options: { colSpacing: 3, uppercaseHeaderCells: false } },
+      ...['h1', 'h2', 'h3', 'h4', 'h5', 'h6'].map(selector => ({ selector, options: { uppercase: false } })),
+    ],
+  }).trim()
+}
+
+// Markdown with its markup removed, so "## 7. Termination" reads as the
+// heading "7. Termination" and table rows become tab-separated cells
+export function markdownToText(markdown: string): string {
+  const lines: string[] = []
+
+  for (const line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    // Code fences and table header separators such as |---|:---:|
+    if (/^\s*(```|~~~)/.test(line) || /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line)) {
+      continue
+    }
+
+    if (/^\s*\|.*\|\s*$/.test(line)) {
+      lines.push(line.trim().slice(1, -1).split('|').map(cell => inlineText(cell.trim())).join('\t'))
+      continue
+    }
+
+    lines.push(inlineText(
+      line
+        .replace(/^\s{0,3}#{1,6}\s+/, '')
+        .replace(/\s+#+\s*$/, '')
+        .replace(/^\s*>\s?/, '')
+    ))
+  }
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim()
+}
+
+function inlineText(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+    .replace(/(^|[^\w*])([*_])(?=\S)(.+?)(?<=\S)\2(?![\w*])/g, '$1$3')
+    .replace(/^(\s*)[*+]\s+/, '$1- ')
+}
@@ -0,0 +1,97 @@
+import JSZip from 'jszip'
+import { DOMParser } from '@xmldom/xmldom'
+
+// Elements that hold no body text: tracked deletions, comments and the
+// reference marks of footnotes (the note bodies themselves are kept)
+const SKIPPED_ELEMENTS = new Set([
+  'text:tracked-changes',
+  'office:annotation',
+  'text:note-citation',
+  'text:sequence-decls',
+  'office:forms',
+])
+
+// Plain text of an OpenDocument text file's body (content.xml): one line per
+// paragraph, heading and list item, and one line per table row with the cells
+// separated by tabs
+export async function odtToText(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer)
+  const xml = await zip.file('content.xml')?.async('string')
+  if (!xml) {
+    throw new Error('content.xml is missing')
+  }
+
+  const document = new DOMParser().parseFromString(xml, 'text/xml')
+  const body = document.getElementsByTagName('office:text')[0]
+  if (!body) {
+    return ''
+  }
+
+  const lines: string[] = []
+  collectBlocks(body, lines)
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim()
+}
+
+function collectBlocks(node: Node, lines: string[]): void {
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType !== 1 || SKIPPED_ELEMENTS.has(child.nodeName)) {
+      continue
+    }
+
+    switch (child.nodeName) {
+      case 'text:p':
+      case 'text:h':
+        lines.push(inlineText(child))
+        break
+      case 'table:table-row':
+        lines.push(
+          Array.from(child.childNodes)
+            .filter(cell => cell.nodeName === 'table:table-cell')
+            .map(cell => {
+              const cellLines: string[] = []
+              collectBlocks(cell, cellLines)
+              return cellLines.join(' ').trim()
+            })
+            .join('\t')
+        )
+        break
+      default:
+        // Sections, lists, list items and tables nest the blocks above
+        collectBlocks(child, lines)
+    }
+  }
+}
+
+function inlineText(node: Node): string {
+  let text = ''
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === 3) {
+      text += child.nodeValue || ''
+      continue
+    }
+    if (child.nodeType !== 1 || SKIPPED_ELEMENTS.has(child.nodeName)) {
+      continue
+    }
+
+    switch (child.nodeName) {
+      case 'text:s':
+        text += ' '.repeat(Number((child as Element).getAttribute('text:c')) || 1)
+        break
+      case 'text:tab':
+        text += '\t'
+        break
+      case 'text:line-break':
+        text += '\n'
+        break
+      case 'text:note-body': {
+        const noteLines: string[] = []
+        collectBlocks(child, noteLines)
+        text += ` (${noteLines.join(' ').trim()})`
+        break
+      }
+      default:
+        text += inlineText(child)
+    }
+  }
+  return text
+}
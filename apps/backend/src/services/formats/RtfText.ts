@@ -0,0 +1,162 @@
+import { TextDecoder } from 'util'
+
+// Groups whose text is not part of the document body
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'listtable', 'listoverridetable', 'revtbl', 'rsidtbl', 'filetbl',
+  'info', 'generator', 'xmlnstbl', 'themedata', 'colorschememapping', 'latentstyles', 'datastore',
+  'pict', 'object', 'fldinst', 'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr',
+  'footerf', 'bkmkstart', 'bkmkend',
+])
+
+const SYMBOLS: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  sect: '\n',
+  page: '\n',
+  row: '\n',
+  tab: '\t',
+  cell: '\t',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+}
+
+const CONTROL_WORD = /^([a-zA-Z]{1,32})(-?\d{1,10})? ?/
+
+// Windows-1252 characters for bytes 0x80-0x9F, which Node's decoder reads as
+// Latin-1 control characters; undefined bytes map to themselves
+const CP1252_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ'
+
+// Plain text of an RTF document: body text with paragraphs on their own lines
+// and table cells separated by tabs. \'hh bytes are decoded with the
+// document's code page (\ansicpg, Windows-1252 by default).
+export function rtfToText(rtf: string): string {
+  const stack: Array<{ skip: boolean; unicodeSkip: number }> = []
+  let skip = false
+  // Number of fallback characters that follow each \u escape (\uc)
+  let unicodeSkip = 1
+  let pendingSkip = 0
+  let decode = windows1252
+  let bytes: number[] = []
+  let text = ''
+
+  const flush = () => {
+    if (bytes.length > 0) {
+      text += decode(Uint8Array.from(bytes))
+      bytes = []
+    }
+  }
+  const emit = (value: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--
+      return
+    }
+    if (!skip) {
+      flush()
+      text += value
+    }
+  }
+
+  let i = 0
+  while (i < rtf.length) {
+    const char = rtf[i]
+
+    if (char === '{' || char === '}') {
+      flush()
+      if (char === '{') {
+        stack.push({ skip, unicodeSkip })
+      } else {
+        ({ skip, unicodeSkip } = stack.pop() || { skip: false, unicodeSkip: 1 })
+      }
+      pendingSkip = 0
+      i++
+      continue
+    }
+
+    if (char === '\r' || char === '\n') {
+      i++
+      continue
+    }
+
+    if (char !== '\\') {
+      emit(char)
+      i++
+      continue
+    }
+
+    const next = rtf[i + 1]
+    if (next === "'") {
+      if (pendingSkip > 0) {
+        pendingSkip--
+      } else if (!skip) {
+        bytes.push(parseInt(rtf.slice(i + 2, i + 4), 16))
+      }
+      i += 4
+      continue
+    }
+
+    if (next === '*') {
+      // \* marks a destination that readers which do not know it skip
+      skip = true
+      i += 2
+      continue
+    }
+
+    if (next === undefined || !/[a-zA-Z]/.test(next)) {
+      const symbol = next === '~' ? ' ' : next === '_' ? '-' : next === '\n' || next === '\r' ? '\n' : next === '-' ? '' : next
+      if (symbol) {
+        emit(symbol)
+      }
+      i += 2
+      continue
+    }
+
+    const match = rtf.slice(i + 1, i + 45).match(CONTROL_WORD)!
+    i += 1 + match[0].length
+    const [, word, parameter] = match
+
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      skip = true
+    } else if (word === 'u' && parameter !== undefined) {
+      const code = Number(parameter)
+      emit(String.fromCharCode(code < 0 ? code + 65536 : code))
+      pendingSkip = unicodeSkip
+    } else if (word === 'uc' && parameter !== undefined) {
+      unicodeSkip = Number(parameter)
+    } else if (word === 'ansicpg' && parameter !== undefined) {
+      decode = codePageDecoder(parameter)
+    } else if (SYMBOLS[word]) {
+      emit(SYMBOLS[word])
+    }
+  }
+  flush()
+
+  return text
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function windows1252(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => (byte >= 0x80 && byte <= 0x9f ? CP1252_HIGH[byte - 0x80] : String.fromCharCode(byte))).join('')
+}
+
+function codePageDecoder(codePage: string): (bytes: Uint8Array) => string {
+  if (codePage === '1252') {
+    return windows1252
+  }
+
+  try {
+    const decoder = new TextDecoder(codePage === '65001' ? 'utf-8' : `windows-${codePage}`)
+    return bytes => decoder.decode(bytes)
+  } catch {
+    // Code pages without a windows-* label (e.g. 932) are read as Windows-1252
+    return windows1252
+  }
+}
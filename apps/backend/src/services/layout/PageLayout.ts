@@ -0,0 +1,221 @@
+import { DocumentPage, DocumentPageContent, TextRange } from '@shared'
+import { LegalChunker } from '@/services/LegalChunker'
+
+export interface PagedText {
+  text: string
+  pages: DocumentPage[]
+  // Header, footer and page number lines removed from the pages
+  strippedLines: number
+}
+
+// Lines at the top and bottom of a page that may be a running header or footer
+const EDGE_LINES = 2
+const PAGE_NUMBER = /^(?:page\s+)?[-–—]?\s*\d{1,4}\s*[-–—]?(?:\s*(?:of|\/)\s*\d{1,4})?$/i
+// Table cells are separated by tabs (wide gaps in a PDF line) or runs of spaces
+const CELL_SEPARATOR = /\t+| {3,}/
+
+// Joins page texts into one document text and maps where each page, paragraph,
+// heading and table sits in it. Lines are separated by "\n" and paragraphs by
+// blank lines; pages are joined by a blank line.
+export function layoutPages(pageTexts: string[]): PagedText {
+  const pageLines = pageTexts.map(text => text.replace(/\r\n?/g, '\n').split('\n'))
+  const repeated = repeatedEdgeLines(pageLines)
+  let strippedLines = 0
+
+  let text = ''
+  const ranges: TextRange[] = []
+  pageLines.forEach((lines, index) => {
+    const body = stripEdges(lines, repeated)
+    strippedLines += lines.filter(line => line.trim()).length - body.filter(line => line.trim()).length
+
+    if (index > 0) {
+      text += '\n\n'
+    }
+    const startOffset = text.length
+    text += collapseBlankLines(body).join('\n')
+    ranges.push({ startOffset, endOffset: text.length })
+  })
+
+  const headings = new LegalChunker().headings(text)
+
+  const pages = ranges.map(({ startOffset, endOffset }, index): DocumentPage => {
+    const pageHeadings = headings.filter(heading => heading.start >= startOffset && heading.end <= endOffset)
+    const tables = findTables(text, startOffset, endOffset)
+
+    return {
+      page: index + 1,
+      startOffset,
+      endOffset,
+      paragraphs: findParagraphs(text, startOffset, endOffset, pageHeadings, tables),
+      headings: pageHeadings.map(heading => ({
+        text: text.slice(heading.start, heading.end),
+        level: heading.level,
+        startOffset: heading.start,
+        endOffset: heading.end,
+      })),
+      tables,
+    }
+  })
+
+  return { text, pages, strippedLines }
+}
+
+// Offset at which each page starts, for LegalChunker's pageStarts option
+export function pageStarts(pageMap: unknown): number[] | undefined {
+  if (!Array.isArray(pageMap) || pageMap.length === 0) {
+    return undefined
+  }
+  return (pageMap as DocumentPage[]).map(page => page.startOffset)
+}
+
+// A page with its text and numbered paragraphs, sliced from the document text
+export function pageContent(text: string, page: DocumentPage): DocumentPageContent {
+  return {
+    ...page,
+    text: text.slice(page.startOffset, page.endOffset),
+    paragraphs: page.paragraphs.map((paragraph, index) => ({
+      ...paragraph,
+      index: index + 1,
+      text: text.slice(paragraph.startOffset, paragraph.endOffset),
+    })),
+  }
+}
+
+// Lines that open or close at least half of the pages once digits are
+// ignored, so "Page 3 of 12" repeats as well as "ACME CONFIDENTIAL"
+function repeatedEdgeLines(pageLines: string[][]): Set<string> {
+  const counts = new Map<string, number>()
+  for (const lines of pageLines) {
+    const nonEmpty = lines.filter(line => line.trim())
+    const edges = new Set([...nonEmpty.slice(0, EDGE_LINES), ...nonEmpty.slice(-EDGE_LINES)].map(normalizeLine))
+    for (const line of edges) {
+      counts.set(line, (counts.get(line) || 0) + 1)
+    }
+  }
+
+  const minPages = Math.max(2, Math.ceil(pageLines.length / 2))
+  return new Set(Array.from(counts.entries()).filter(([, count]) => count >= minPages).map(([line]) => line))
+}
+
+function stripEdges(lines: string[], repeated: Set<string>): string[] {
+  const isEdge = (line: string) => repeated.has(normalizeLine(line)) || PAGE_NUMBER.test(line.trim())
+  const body = [...lines]
+
+  for (let stripped = 0; stripped < EDGE_LINES; stripped++) {
+    while (body.length > 0 && !body[0].trim()) {
+      body.shift()
+    }
+    if (body.length === 0 || !isEdge(body[0])) {
+      break
+    }
+    body.shift()
+  }
+
+  for (let stripped = 0; stripped < EDGE_LINES; stripped++) {
+    while (body.length > 0 && !body[body.length - 1].trim()) {
+      body.pop()
+    }
+    if (body.length === 0 || !isEdge(body[body.length - 1])) {
+      break
+    }
+    body.pop()
+  }
+
+  while (body.length > 0 && !body[body.length - 1].trim()) {
+    body.pop()
+  }
+  return body
+}
+
+function normalizeLine(line: string): string {
+  return line.trim().replace(/\s+/g, ' ').replace(/\d+/g, '#').toLowerCase()
+}
+
+function collapseBlankLines(lines: string[]): string[] {
+  return lines
+    .map(line => line.trimEnd())
+    .filter((line, index, all) => line || (index > 0 && all[index - 1]))
+}
+
+// Runs of two or more lines that each have at least two cells
+function findTables(text: string, startOffset: number, endOffset: number): DocumentPage['tables'] {
+  const tables: DocumentPage['tables'] = []
+  let table: DocumentPage['tables'][number] | null = null
+
+  for (const line of lineRanges(text, startOffset, endOffset)) {
+    const cells = text.slice(line.startOffset, line.endOffset).trim().split(CELL_SEPARATOR)
+    if (cells.length < 2) {
+      if (table && table.rows.length >= 2) {
+        tables.push(table)
+      }
+      table = null
+      continue
+    }
+
+    table = table || { startOffset: line.startOffset, endOffset: line.endOffset, rows: [] }
+    table.endOffset = line.endOffset
+    table.rows.push(cells)
+  }
+
+  if (table && table.rows.length >= 2) {
+    tables.push(table)
+  }
+  return tables
+}
+
+// Blank lines end a paragraph; headings and tables stand on their own
+function findParagraphs(
+  text: string,
+  startOffset: number,
+  endOffset: number,
+  headings: Array<{ start: number; end: number }>,
+  tables: TextRange[]
+): TextRange[] {
+  const paragraphs: TextRange[] = []
+  let current: TextRange | null = null
+  const close = () => {
+    if (current) {
+      paragraphs.push(current)
+      current = null
+    }
+  }
+
+  for (const line of lineRanges(text, startOffset, endOffset)) {
+    if (!text.slice(line.startOffset, line.endOffset).trim()) {
+      close()
+      continue
+    }
+
+    const table = tables.find(candidate => candidate.startOffset <= line.startOffset && line.endOffset <= candidate.endOffset)
+    if (table) {
+      if (line.startOffset === table.startOffset) {
+        close()
+        paragraphs.push({ startOffset: table.startOffset, endOffset: table.endOffset })
+      }
+      continue
+    }
+
+    if (headings.some(heading => heading.start >= line.startOffset && heading.end <= line.endOffset)) {
+      close()
+      paragraphs.push(line)
+      continue
+    }
+
+    current = current ? { startOffset: current.startOffset, endOffset: line.endOffset } : line
+  }
+
+  close()
+  return paragraphs
+}
+
+function lineRanges(text: string, startOffset: number, endOffset: number): TextRange[] {
+  const lines: TextRange[] = []
+  let lineStart = startOffset
+  while (lineStart <= endOffset) {
+    const newline = text.indexOf('\n', lineStart)
+    const lineEnd = newline === -1 || newline > endOffset ? endOffset : newline
+    lines.push({ startOffset: lineStart, endOffset: lineEnd })
+    lineStart = lineEnd + 1
+  }
+  return lines
+}
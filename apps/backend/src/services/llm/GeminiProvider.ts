@@ -0,0 +1,87 @@
+import { GoogleGenerativeAI } from '@google/generative-ai'
+import { AppError } from '@/middleware/errorHandler'
+import { logger } from '@/utils/logger'
+import { LLMProvider, LLMRequest, LLMResponse, LLMTokenHandler } from '@/services/llm/types'
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini'
+  readonly defaultModel = process.env.GEMINI_MODEL || 'gemini-pro'
+  readonly confidence = 0.85
+  private client: GoogleGenerativeAI | null = null
+
+  constructor() {
+    if (process.env.GEMINI_API_KEY) {
+      this.client = new GoogleGenerativeAI(process.env.GEMINI_API_KEY)
+    }
+  }
+
+  isAvailable(): boolean {
+    return this.client !== null
+  }
+
+  async complete(request: LLMRequest, model: string = this.defaultModel): Promise<LLMResponse> {
+    try {
+      const result = await this.getModel(request, model).generateContent(this.prompt(request))
+      const response = await result.response
+
+      return {
+        text: response.text(),
+        model,
+        provider: this.name,
+      }
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error
+      }
+      logger.error(`Gemini ${request.task} error:`, error)
+      throw new AppError(`Gemini ${request.task} request failed`, 500, 'GEMINI_ERROR')
+    }
+  }
+
+  async stream(request: LLMRequest, onToken: LLMTokenHandler, model: string = this.defaultModel): Promise<LLMResponse> {
+    let text = ''
+
+    try {
+      const result = await this.getModel(request, model).generateContentStream(this.prompt(request))
+
+      // The SDK cannot abort the HTTP request, so stop reading at the next chunk
+      for await (const chunk of result.stream) {
+        if (request.signal?.aborted) {
+          break
+        }
+        const token = chunk.text()
+        text += token
+        onToken(token)
+      }
+
+      return { text, model, provider: this.name }
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error
+      }
+      logger.error(`Gemini ${request.task} stream error:`, error)
+      throw new AppError(`Gemini ${request.task} request failed`, 500, 'GEMINI_ERROR')
+    }
+  }
+
+  private getModel(request: LLMRequest, model: string) {
+    if (!this.client) {
+      throw new AppError('Gemini is not configured', 503, 'AI_SERVICE_UNAVAILABLE')
+    }
+
+    return this.client.getGenerativeModel({
+      model,
+      generationConfig: {
+        maxOutputTokens: request.maxTokens,
+        temperature: request.temperature,
+      },
+    })
+  }
+
+  // gemini-pro has no separate system role, so the instructions lead the prompt
+  private prompt(request: LLMRequest): string {
+    return `${request.system}\n\n${request.prompt}`
+  }
+}
+
+export default GeminiProvider
@@ -0,0 +1,253 @@
+import { AppError } from '@/middleware/errorHandler'
+import { ConversationTurn, LLMProvider, LLMRequest, LLMResponse, LLMTokenHandler } from '@/services/llm/types'
+import { DOCUMENT_HEADER } from '@/services/retrieval/ContextBuilder'
+import { splitSentences, tokenize } from '@/utils/text'
+
+const ENTITY_PATTERNS: Array<{ type: string; pattern: RegExp }> = [
+  {
+    type: 'amount',
+    pattern: /(?:USD|US\$|\$|€|£)\s?\d[\d,]*(?:\.\d+)?(?:\s?(?:thousand|million|billion))?/g,
+  },
+  {
+    type: 'date',
+    pattern: /\b(?:January|February|March|April|May|June|July|August|September|October|November|December)\s+\d{1,2},\s+\d{4}\b|\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/g,
+  },
+  {
+    type: 'organization',
+    pattern: /\b(?:[A-Z][\w&-]*\s){0,4}(?:Inc\.|LLC|L\.L\.C\.|Ltd\.?|Limited|Corporation|Corp\.|Company|LLP|GmbH|PLC)/g,
+  },
+]
+
+const FOLLOW_UP_OPENERS = /^\s*(?:and|also|but|so|then|what about|how about|what if)\b/i
+const REFERENCES = /\b(?:it|its|they|them|their|that|this|those|these|he|she|the same)\b/i
+const SUMMARY_MAX_CHARS = 1600
+
+// Deterministic, network-free provider. It answers from the raw task input with
+// extractive heuristics, which keeps tests reproducible and lets air-gapped
+// deployments run the full analysis, chat and comparison flow.
+export class LocalProvider implements LLMProvider {
+  readonly name = 'local'
+  readonly defaultModel = 'extractive-v1'
+  readonly confidence = 0.5
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  async complete(request: LLMRequest, model: string = this.defaultModel): Promise<LLMResponse> {
+    let text: string
+
+    switch (request.task) {
+      case 'analyze':
+        text = JSON.stringify(this.analyze(request.input.content || ''))
+        break
+      case 'answer':
+        // Follow-ups are matched using their standalone form
+        text = this.answer(request.input.standaloneQuestion || request.input.question || '', request.input.context || '')
+        break
+      case 'rewrite':
+        text = this.rewrite(request.input.question || '', request.input.turns || [])
+        break
+      case 'summarize':
+        text = this.summarize(request.input.summary || '', request.input.turns || [])
+        break
+      case 'compare':
+        text = JSON.stringify(this.compare(request.input.doc1 || '', request.input.doc2 || ''))
+        break
+      default:
+        throw new AppError(`Local provider does not support task: ${request.task}`, 400, 'UNSUPPORTED_AI_TASK')
+    }
+
+    return { text, model, provider: this.name }
+  }
+
+  // Answers are computed in one pass, then emitted word by word so streaming
+  // clients behave the same as with a remote model
+  async stream(request: LLMRequest, onToken: LLMTokenHandler, model: string = this.defaultModel): Promise<LLMResponse> {
+    const response = await this.complete(request, model)
+    let text = ''
+
+    for (const token of response.text.match(/\S+\s*/g) || []) {
+      if (request.signal?.aborted) {
+        break
+      }
+      text += token
+      onToken(token)
+      await new Promise(resolve => setImmediate(resolve))
+    }
+
+    return { ...response, text }
+  }
+
+  private analyze(content: string) {
+    const sentences = splitSentences(content.substring(0, 20000))
+    const substantive = sentences.filter(sentence => sentence.length > 40)
+    const frequencies = this.termFrequencies(content)
+
+    const ranked = substantive
+      .map((sentence, index) => ({ sentence, index, score: this.scoreSentence(sentence, frequencies) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 6)
+      .sort((a, b) => a.index - b.index)
+
+    return {
+      summary: substantive.slice(0, 2).join(' ').substring(0, 500) || content.substring(0, 300),
+      keyPoints: ranked.map(item => item.sentence.substring(0, 300)),
+      entities: this.extractEntities(content),
+    }
+  }
+
+  private answer(question: string, context: string): string {
+    const questionTerms = new Set(tokenize(question))
+    const sentences = this.contextSentences(context)
+
+    const matches = sentences
+      .map((item, index) => {
+        const terms = new Set(tokenize(item.sentence))
+        let overlap = 0
+        questionTerms.forEach(term => {
+          if (terms.has(term)) overlap++
+        })
+        return { ...item, index, overlap }
+      })
+      .filter(item => item.overlap > 0)
+      .sort((a, b) => b.overlap - a.overlap || a.index - b.index)
+      .slice(0, 3)
+      .sort((a, b) => a.index - b.index)
+
+    if (matches.length === 0) {
+      return 'I could not find information about that in the provided document context.'
+    }
+
+    // Quote sentences verbatim and cite the numbered passage each came from
+    const quoted = matches.map(item => item.passage ? `${item.sentence} [${item.passage}]` : item.sentence)
+    return `Based on the document: ${quoted.join(' ')}`
+  }
+
+  private contextSentences(context: string): Array<{ sentence: string; passage: number | null }> {
+    const parts = context.split(/^\[(\d+)\] /m)
+
+    if (parts.length === 1) {
+      return splitSentences(context).map(sentence => ({ sentence, passage: null }))
+    }
+
+    const sentences: Array<{ sentence: string; passage: number | null }> = []
+    for (let i = 1; i < parts.length; i += 2) {
+      const passage = parseInt(parts[i])
+      // Drop the document title line that precedes the next document's passages
+      const text = parts[i + 1].split('\n').filter(line => !line.startsWith(DOCUMENT_HEADER)).join('\n')
+      splitSentences(text).forEach(sentence => sentences.push({ sentence, passage }))
+    }
+    return sentences
+  }
+
+  // Short or referential follow-ups borrow the subject terms of the previous
+  // user question, which is enough for retrieval to find the right passages
+  private rewrite(question: string, turns: ConversationTurn[]): string {
+    const previous = [...turns].reverse().find(turn => turn.role === 'user')
+    const terms = tokenize(question)
+
+    const isFollowUp = terms.length <= 3
+      || FOLLOW_UP_OPENERS.test(question)
+      || REFERENCES.test(question)
+
+    if (!previous || !isFollowUp) {
+      return question
+    }
+
+    const known = new Set(terms)
+    const carried = Array.from(new Set(tokenize(previous.content)))
+      .filter(term => !known.has(term))
+      .slice(0, 5)
+
+    return carried.length > 0 ? `${question.trim()} (${carried.join(' ')})` : question
+  }
+
+  // Keeps the first sentence of each turn, dropping the oldest lines once
+  // the summary outgrows its budget
+  private summarize(previous: string, turns: ConversationTurn[]): string {
+    const lines = previous ? previous.split('\n') : []
+
+    for (const turn of turns) {
+      const sentence = (splitSentences(turn.content)[0] || '').substring(0, 200)
+      if (sentence) {
+        lines.push(`${turn.role === 'user' ? 'User asked' : 'Assistant answered'}: ${sentence}`)
+      }
+    }
+
+    while (lines.length > 1 && lines.join('\n').length > SUMMARY_MAX_CHARS) {
+      lines.shift()
+    }
+
+    return lines.join('\n')
+  }
+
+  private compare(doc1: string, doc2: string) {
+    const sentences1 = splitSentences(doc1)
+    const sentences2 = splitSentences(doc2)
+    const normalized1 = new Set(sentences1.map(sentence => sentence.toLowerCase()))
+    const normalized2 = new Set(sentences2.map(sentence => sentence.toLowerCase()))
+
+    const terms1 = new Set(tokenize(doc1))
+    const terms2 = new Set(tokenize(doc2))
+    let shared = 0
+    terms1.forEach(term => {
+      if (terms2.has(term)) shared++
+    })
+    const union = terms1.size + terms2.size - shared
+
+    const removed = sentences1.filter(sentence => !normalized2.has(sentence.toLowerCase()))
+    const added = sentences2.filter(sentence => !normalized1.has(sentence.toLowerCase()))
+    const common = sentences1.filter(sentence => normalized2.has(sentence.toLowerCase()))
+
+    const differences = [
+      ...removed.slice(0, 5).map(sentence => `Removed: ${sentence}`),
+      ...added.slice(0, 5).map(sentence => `Added: ${sentence}`),
+    ]
+
+    return {
+      similarityScore: union > 0 ? Math.round((shared / union) * 100) / 100 : 1,
+      differences,
+      commonClauses: common.slice(0, 10),
+      changes: differences.slice(0, 5),
+    }
+  }
+
+  private termFrequencies(text: string): Map<string, number> {
+    const frequencies = new Map<string, number>()
+    for (const term of tokenize(text)) {
+      frequencies.set(term, (frequencies.get(term) || 0) + 1)
+    }
+    return frequencies
+  }
+
+  private scoreSentence(sentence: string, frequencies: Map<string, number>): number {
+    const terms = tokenize(sentence)
+    if (terms.length === 0) {
+      return 0
+    }
+
+    const total = terms.reduce((sum, term) => sum + (frequencies.get(term) || 0), 0)
+    return total / Math.sqrt(terms.length)
+  }
+
+  private extractEntities(content: string) {
+    const seen = new Set<string>()
+    const entities: Array<{ text: string; type: string; confidence: number }> = []
+
+    for (const { type, pattern } of ENTITY_PATTERNS) {
+      for (const match of content.match(pattern) || []) {
+        const text = match.trim()
+        const key = `${type}:${text.toLowerCase()}`
+        if (!seen.has(key)) {
+          seen.add(key)
+          entities.push({ text, type, confidence: 0.6 })
+        }
+      }
+    }
+
+    return entities.slice(0, 25)
+  }
+}
+
+export default LocalProvider
@@ -0,0 +1,92 @@
+import OpenAI from 'openai'
+import { AppError } from '@/middleware/errorHandler'
+import { logger } from '@/utils/logger'
+import { LLMProvider, LLMRequest, LLMResponse, LLMTokenHandler } from '@/services/llm/types'
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai'
+  readonly defaultModel = process.env.OPENAI_MODEL || 'gpt-3.5-turbo'
+  readonly confidence = 0.8
+  private client: OpenAI | null = null
+
+  constructor() {
+    if (process.env.OPENAI_API_KEY) {
+      this.client = new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+      })
+    }
+  }
+
+  isAvailable(): boolean {
+    return this.client !== null
+  }
+
+  async complete(request: LLMRequest, model: string = this.defaultModel): Promise<LLMResponse> {
+    const client = this.getClient()
+
+    try {
+      const response = await client.chat.completions.create({
+        model,
+        messages: this.messages(request),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+      }, { signal: request.signal })
+
+      return {
+        text: response.choices[0]?.message?.content || '',
+        model,
+        provider: this.name,
+      }
+    } catch (error) {
+      logger.error(`OpenAI ${request.task} error:`, error)
+      throw new AppError(`OpenAI ${request.task} request failed`, 500, 'OPENAI_ERROR')
+    }
+  }
+
+  async stream(request: LLMRequest, onToken: LLMTokenHandler, model: string = this.defaultModel): Promise<LLMResponse> {
+    const client = this.getClient()
+    let text = ''
+
+    try {
+      const stream = await client.chat.completions.create({
+        model,
+        messages: this.messages(request),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stream: true,
+      }, { signal: request.signal })
+
+      for await (const chunk of stream) {
+        const token = chunk.choices[0]?.delta?.content
+        if (token) {
+          text += token
+          onToken(token)
+        }
+      }
+    } catch (error) {
+      // Aborting rejects the pending read; keep what was generated
+      if (!request.signal?.aborted) {
+        logger.error(`OpenAI ${request.task} stream error:`, error)
+        throw new AppError(`OpenAI ${request.task} request failed`, 500, 'OPENAI_ERROR')
+      }
+    }
+
+    return { text, model, provider: this.name }
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      throw new AppError('OpenAI is not configured', 503, 'AI_SERVICE_UNAVAILABLE')
+    }
+    return this.client
+  }
+
+  private messages(request: LLMRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+    return [
+      { role: 'system', content: request.system },
+      { role: 'user', content: request.prompt },
+    ]
+  }
+}
+
+export default OpenAIProvider
@@ -0,0 +1,83 @@
+import { AppError } from '@/middleware/errorHandler'
+import { logger } from '@/utils/logger'
+import { LLMProvider } from '@/services/llm/types'
+import { GeminiProvider } from '@/services/llm/GeminiProvider'
+import { OpenAIProvider } from '@/services/llm/OpenAIProvider'
+import { LocalProvider } from '@/services/llm/LocalProvider'
+
+export interface ProviderSelection {
+  provider: LLMProvider
+  model: string
+}
+
+// Per-workspace override stored under Workspace.settings.ai
+export interface ProviderPreference {
+  provider?: string
+  model?: string
+}
+
+export class ProviderRegistry {
+  private providers = new Map<string, LLMProvider>()
+  private fallbackOrder: string[]
+
+  constructor(fallbackOrder: string[]) {
+    this.fallbackOrder = fallbackOrder
+  }
+
+  register(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider)
+  }
+
+  get(name: string): LLMProvider | undefined {
+    return this.providers.get(name)
+  }
+
+  list(): Array<{ name: string; defaultModel: string; available: boolean }> {
+    return Array.from(this.providers.values()).map(provider => ({
+      name: provider.name,
+      defaultModel: provider.defaultModel,
+      available: provider.isAvailable(),
+    }))
+  }
+
+  // Use the preferred provider when it is configured, otherwise the first
+  // available one in fallback order
+  resolve(preference: ProviderPreference = {}): ProviderSelection {
+    if (preference.provider) {
+      const preferred = this.providers.get(preference.provider)
+
+      if (preferred?.isAvailable()) {
+        return { provider: preferred, model: preference.model || preferred.defaultModel }
+      }
+
+      logger.warn(`Preferred AI provider "${preference.provider}" is unavailable, falling back`)
+    }
+
+    for (const name of this.fallbackOrder) {
+      const provider = this.providers.get(name)
+      if (provider?.isAvailable()) {
+        return { provider, model: provider.defaultModel }
+      }
+    }
+
+    throw new AppError('No AI service available', 503, 'AI_SERVICE_UNAVAILABLE')
+  }
+}
+
+function createDefaultRegistry(): ProviderRegistry {
+  // AI_PROVIDER_ORDER lets deployments drop the local fallback or change priority
+  const order = (process.env.AI_PROVIDER_ORDER || 'gemini,openai,local')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+
+  const registry = new ProviderRegistry(order)
+  registry.register(new GeminiProvider())
+  registry.register(new OpenAIProvider())
+  registry.register(new LocalProvider())
+  return registry
+}
+
+export const providerRegistry = createDefaultRegistry()
+
+export default ProviderRegistry
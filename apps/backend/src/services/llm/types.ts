@@ -0,0 +1,50 @@
+// Tasks the platform asks a language model to perform. The local provider uses the
+// task and raw input to compute a deterministic answer instead of reading the prompt.
+export type LLMTask = 'analyze' | 'answer' | 'compare' | 'rewrite' | 'summarize'
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+// Earlier chat turns sent along with a question
+export interface ConversationContext {
+  // Summary of turns that no longer fit the history budget
+  summary: string | null
+  // Most recent turns, oldest first
+  turns: ConversationTurn[]
+  // The latest question rewritten to stand on its own
+  standaloneQuestion?: string
+}
+
+export interface LLMRequest {
+  task: LLMTask
+  system: string
+  prompt: string
+  input: Record<string, any>
+  maxTokens?: number
+  temperature?: number
+  // Ask the provider to respond with a JSON document
+  json?: boolean
+  // Aborts generation; streaming providers return the text produced so far
+  signal?: AbortSignal
+}
+
+export interface LLMResponse {
+  text: string
+  model: string
+  provider: string
+}
+
+export type LLMTokenHandler = (token: string) => void
+
+export interface LLMProvider {
+  readonly name: string
+  readonly defaultModel: string
+  // Baseline confidence reported for results produced by this provider
+  readonly confidence: number
+  isAvailable(): boolean
+  complete(request: LLMRequest, model?: string): Promise<LLMResponse>
+  // Calls onToken as text is generated and resolves with the full response
+  stream(request: LLMRequest, onToken: LLMTokenHandler, model?: string): Promise<LLMResponse>
+}
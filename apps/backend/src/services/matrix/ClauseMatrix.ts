@@ -0,0 +1,168 @@
+import { ClauseMatrixCell, ClauseMatrixRow, ComparisonMatrix } from '@shared'
+import {
+  ClauseAligner,
+  ClauseSimilarity,
+  ComparableClause,
+  lexicalSimilarity,
+  normalizeWording,
+} from '@/services/clauses/ClauseAligner'
+import { clauseLabel, clauseTerms, describeClauseChanges } from '@/services/clauses/ClauseChanges'
+import { DiffEngine } from '@/services/diff/DiffEngine'
+
+export type MatrixResults = ComparisonMatrix['results']
+
+export interface MatrixDocument {
+  content: string
+  clauses: ComparableClause[]
+}
+
+interface Row {
+  cells: Array<ComparableClause | undefined>
+  // Most recent version of the clause, which the next document is aligned against
+  latest: ComparableClause
+}
+
+// Clause-by-document matrix for three or more documents. Each document's
+// clauses are aligned against the latest version of every clause seen so
+// far, so a clause keeps its row through renumbering, reordering and
+// rewording across a chain of versions.
+export class ClauseMatrixBuilder {
+  private aligner = new ClauseAligner()
+  private diffEngine = new DiffEngine()
+
+  build(documents: MatrixDocument[], similarity: ClauseSimilarity = lexicalSimilarity): MatrixResults {
+    const rows: Row[] = []
+
+    documents.forEach((document, column) => {
+      const rowOf = new Map(rows.map(row => [row.latest, row]))
+
+      for (const { clause1, clause2 } of this.aligner.pair(rows.map(row => row.latest), document.clauses, similarity)) {
+        if (!clause2) {
+          continue
+        }
+        const row = clause1 ? rowOf.get(clause1)! : { cells: new Array(documents.length).fill(undefined), latest: clause2 }
+        if (!clause1) {
+          rows.push(row)
+        }
+        row.cells[column] = clause2
+        row.latest = clause2
+      }
+    })
+
+    const matrixRows = rows
+      .map(row => ({ row, order: readingOrder(row) }))
+      .sort((a, b) => a.order[0] - b.order[0] || a.order[1] - b.order[1])
+      .map(({ row }) => this.toRow(row))
+
+    return {
+      rows: matrixRows,
+      documentSimilarity: this.documentSimilarity(documents),
+      statistics: {
+        documents: documents.length,
+        clauses: matrixRows.length,
+        consistent: matrixRows.filter(row => row.status === 'consistent').length,
+        divergent: matrixRows.filter(row => row.status === 'divergent').length,
+        partial: matrixRows.filter(row => row.status === 'partial').length,
+      },
+    }
+  }
+
+  private toRow(row: Row): ClauseMatrixRow {
+    const present = row.cells.filter((cell): cell is ComparableClause => Boolean(cell))
+    const type = present[0].type
+    const wordings: string[] = []
+    let previous: ComparableClause | undefined
+
+    const cells = row.cells.map((clause, column): ClauseMatrixCell => {
+      if (!clause) {
+        return {
+          clause: null,
+          variant: null,
+          terms: [],
+          changes: row.cells[column - 1] ? [`${clauseLabel(type)} clause removed`] : [],
+        }
+      }
+
+      const wording = normalizeWording(clause.text)
+      if (!wordings.includes(wording)) {
+        wordings.push(wording)
+      }
+
+      const changes = [
+        ...(column > 0 && !row.cells[column - 1] ? [`${clauseLabel(type)} clause added`] : []),
+        ...(previous && normalizeWording(previous.text) !== wording
+          ? describeClauseChanges(type, previous.text, clause.text, lexicalSimilarity(previous, clause))
+          : []),
+      ]
+      previous = clause
+
+      return {
+        clause: {
+          title: clause.title,
+          section: clause.section,
+          startOffset: clause.startOffset,
+          endOffset: clause.endOffset,
+        },
+        variant: wordings.indexOf(wording),
+        terms: clauseTerms(clause.text),
+        changes,
+      }
+    })
+
+    return {
+      clauseType: type,
+      // Titles carry section numbers, which differ between versions
+      label: clauseLabel(type),
+      status: present.length < row.cells.length ? 'partial' : wordings.length > 1 ? 'divergent' : 'consistent',
+      cells,
+    }
+  }
+
+  private documentSimilarity(documents: MatrixDocument[]): number[][] {
+    const scores = documents.map(() => new Array(documents.length).fill(1))
+    for (let i = 0; i < documents.length; i++) {
+      for (let j = i + 1; j < documents.length; j++) {
+        scores[i][j] = scores[j][i] = this.diffEngine.diff(documents[i].content, documents[j].content).similarityScore
+      }
+    }
+    return scores
+  }
+}
+
+// First column with the clause, then its place in that document
+function readingOrder(row: Row): [number, number] {
+  const column = row.cells.findIndex(cell => cell)
+  return [column, row.cells[column]!.startOffset]
+}
+
+export function matrixTitle(matrix: ComparisonMatrix): string {
+  return matrix.title || `Comparison of ${matrix.documents.length} documents`
+}
+
+// Cover figures for exports
+export function matrixSummary(matrix: ComparisonMatrix): Array<{ label: string; value: string }> {
+  const { statistics } = matrix.results
+  return [
+    { label: 'Documents', value: String(statistics.documents) },
+    { label: 'Clauses', value: String(statistics.clauses) },
+    { label: 'Same in every document', value: String(statistics.consistent) },
+    { label: 'Worded differently', value: String(statistics.divergent) },
+    { label: 'Missing from some documents', value: String(statistics.partial) },
+  ]
+}
+
+// Lines of a matrix cell for exports: the wording variant, the terms and
+// the changes from the previous document
+export function cellLines(cell: ClauseMatrixCell): string[] {
+  if (!cell.clause) {
+    return ['Not present', ...cell.changes]
+  }
+
+  return [
+    `Wording ${String.fromCharCode(65 + (cell.variant ?? 0))}`,
+    ...(cell.terms.length > 0 ? [cell.terms.join(', ')] : []),
+    ...cell.changes,
+  ]
+}
+
+export default ClauseMatrixBuilder
@@ -0,0 +1,82 @@
+import {
+  Document,
+  HeadingLevel,
+  Packer,
+  PageOrientation,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx'
+import { ComparisonMatrix } from '@shared'
+import { cellLines, matrixSummary, matrixTitle } from '@/services/matrix/ClauseMatrix'
+
+const MISSING_FILL = 'FFF8C5'
+const VARIANT_FILL = 'FFEBE9'
+const HEADER_FILL = 'F6F8FA'
+
+// Landscape Word document with the clause-by-document table
+export async function renderMatrixDocx(matrix: ComparisonMatrix, author: string): Promise<Buffer> {
+  const title = matrixTitle(matrix)
+
+  const header = new TableRow({
+    tableHeader: true,
+    children: ['Clause', ...matrix.documents.map(document => document.title)].map(text => new TableCell({
+      shading: { fill: HEADER_FILL },
+      children: [new Paragraph({ children: [new TextRun({ text, bold: true })] })],
+    })),
+  })
+
+  const rows = matrix.results.rows.map(row => new TableRow({
+    children: [
+      new TableCell({
+        children: [
+          new Paragraph({ children: [new TextRun({ text: row.label, bold: true })] }),
+          new Paragraph({ children: [new TextRun({ text: row.status, italics: true, size: 18 })] }),
+        ],
+      }),
+      ...row.cells.map(cell => new TableCell({
+        shading: !cell.clause ? { fill: MISSING_FILL } : cell.variant ? { fill: VARIANT_FILL } : undefined,
+        children: cellLines(cell).map(line => new Paragraph({ children: [new TextRun({ text: line, size: 18 })] })),
+      })),
+    ],
+  }))
+
+  const document = new Document({
+    creator: author,
+    title,
+    sections: [{
+      properties: {
+        page: { size: { orientation: PageOrientation.LANDSCAPE } },
+      },
+      children: [
+        new Paragraph({ text: title, heading: HeadingLevel.TITLE }),
+        new Paragraph({
+          text: `Compared by ${author} on ${new Date(matrix.createdAt).toISOString().slice(0, 10)}`,
+          spacing: { after: 240 },
+        }),
+        ...matrixSummary(matrix).map(row => new Paragraph({
+          children: [new TextRun({ text: `${row.label}: `, bold: true }), new TextRun(row.value)],
+        })),
+        new Paragraph({ text: 'Clauses', heading: HeadingLevel.HEADING_2, spacing: { before: 240 } }),
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: [header, ...rows],
+        }),
+        new Paragraph({ text: 'Text similarity', heading: HeadingLevel.HEADING_2, spacing: { before: 240 } }),
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: matrix.results.documentSimilarity.map((scores, index) => new TableRow({
+            children: [matrix.documents[index].title, ...scores.map(score => `${Math.round(score * 100)}%`)].map(text =>
+              new TableCell({ children: [new Paragraph(text)] })
+            ),
+          })),
+        }),
+      ],
+    }],
+  })
+
+  return Packer.toBuffer(document)
+}
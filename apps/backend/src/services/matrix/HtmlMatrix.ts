@@ -0,0 +1,75 @@
+import { ComparisonMatrix } from '@shared'
+import { cellLines, matrixSummary, matrixTitle } from '@/services/matrix/ClauseMatrix'
+
+const STYLES = `
+body { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; margin: 2rem; color: #1f2328; font-size: 0.875rem; }
+h1 { font-size: 1.5rem; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #d0d7de; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+thead th { background: #f6f8fa; }
+.meta { color: #57606a; }
+.summary th, .summary td { border: none; padding: 0.15rem 1.5rem 0.15rem 0; }
+.status { display: block; color: #57606a; font-weight: normal; font-size: 0.75rem; }
+.missing { background: #fff8c5; color: #57606a; }
+.variant { background: #ffebe9; }
+`
+
+// Self-contained HTML page with the clause-by-document table. Cells worded
+// differently from the first version of the clause are shaded red, missing
+// cells yellow
+export function renderMatrixHtml(matrix: ComparisonMatrix, author: string): string {
+  const title = matrixTitle(matrix)
+  const summary = matrixSummary(matrix)
+    .map(row => `<tr><th>${escapeHtml(row.label)}</th><td>${escapeHtml(row.value)}</td></tr>`)
+    .join('')
+  const header = matrix.documents.map(document => `<th>${escapeHtml(document.title)}</th>`).join('')
+  const rows = matrix.results.rows.map(row => {
+    const cells = row.cells.map(cell => {
+      const className = !cell.clause ? 'missing' : cell.variant ? 'variant' : ''
+      const lines = cellLines(cell).map(escapeHtml).join('<br>')
+      return `<td${className ? ` class="${className}"` : ''}>${lines}</td>`
+    })
+    return `<tr><th>${escapeHtml(row.label)}<span class="status">${row.status}</span></th>${cells.join('')}</tr>`
+  })
+  const similarity = matrix.results.documentSimilarity.map((scores, index) =>
+    `<tr><th>${escapeHtml(matrix.documents[index].title)}</th>${scores.map(score => `<td>${Math.round(score * 100)}%</td>`).join('')}</tr>`
+  )
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">Compared by ${escapeHtml(author)} on ${new Date(matrix.createdAt).toISOString().slice(0, 10)}</p>
+<table class="summary">${summary}</table>
+<h2>Clauses</h2>
+<table>
+<thead><tr><th>Clause</th>${header}</tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+<h2>Text similarity</h2>
+<table>
+<thead><tr><th></th>${header}</tr></thead>
+<tbody>
+${similarity.join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
@@ -0,0 +1,105 @@
+import PDFDocument from 'pdfkit'
+import { FONTS, registerFonts } from '@/services/pdf/PdfFonts'
+import { ComparisonMatrix } from '@shared'
+import { cellLines, matrixSummary, matrixTitle } from '@/services/matrix/ClauseMatrix'
+
+const COLORS = {
+  text: '#1f2328',
+  muted: '#57606a',
+  border: '#d0d7de',
+  header: '#f6f8fa',
+  missing: '#fff8c5',
+  variant: '#ffebe9',
+}
+const LABEL_WIDTH = 130
+const PADDING = 4
+const FONT_SIZE = 8
+
+// Landscape A4 PDF with the clause-by-document table, repeating the header
+// row on each page
+export function renderMatrixPdf(matrix: ComparisonMatrix, author: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const title = matrixTitle(matrix)
+    const pdf = new PDFDocument({
+      size: 'A4',
+      layout: 'landscape',
+      margin: 40,
+      info: { Title: title, Author: author },
+    })
+    const chunks: Buffer[] = []
+    pdf.on('data', chunk => chunks.push(chunk))
+    pdf.on('end', () => resolve(Buffer.concat(chunks)))
+    pdf.on('error', reject)
+    registerFonts(pdf)
+
+    pdf.font(FONTS.sansBold).fontSize(18).fillColor(COLORS.text).text(title)
+    pdf.moveDown(0.3)
+    pdf.font(FONTS.sans).fontSize(10).fillColor(COLORS.muted)
+      .text(`Compared by ${author} on ${new Date(matrix.createdAt).toISOString().slice(0, 10)}`)
+    pdf.moveDown(0.5).fillColor(COLORS.text)
+    for (const row of matrixSummary(matrix)) {
+      pdf.font(FONTS.sansBold).text(`${row.label}: `, { continued: true }).font(FONTS.sans).text(row.value)
+    }
+    pdf.moveDown()
+
+    const left = pdf.page.margins.left
+    const width = pdf.page.width - left - pdf.page.margins.right
+    const columnWidth = (width - LABEL_WIDTH) / matrix.documents.length
+    const widths = [LABEL_WIDTH, ...matrix.documents.map(() => columnWidth)]
+
+    const drawRow = (texts: string[], fills: Array<string | undefined>, bold: boolean) => {
+      pdf.font(bold ? FONTS.sansBold : FONTS.sans).fontSize(FONT_SIZE)
+      const height = Math.max(...texts.map((text, index) =>
+        pdf.heightOfString(text, { width: widths[index] - 2 * PADDING })
+      )) + 2 * PADDING
+
+      if (pdf.y + height > pdf.page.height - pdf.page.margins.bottom) {
+        pdf.addPage()
+        if (!bold) {
+          drawHeader()
+          pdf.font(FONTS.sans).fontSize(FONT_SIZE)
+        }
+      }
+
+      const top = pdf.y
+      let x = left
+      texts.forEach((text, index) => {
+        const fill = fills[index]
+        if (fill) {
+          pdf.rect(x, top, widths[index], height).fill(fill)
+        }
+        pdf.rect(x, top, widths[index], height).lineWidth(0.5).stroke(COLORS.border)
+        pdf.fillColor(COLORS.text).text(text, x + PADDING, top + PADDING, { width: widths[index] - 2 * PADDING })
+        x += widths[index]
+      })
+      pdf.x = left
+      pdf.y = top + height
+    }
+
+    const drawHeader = () => drawRow(
+      ['Clause', ...matrix.documents.map(document => document.title)],
+      widths.map(() => COLORS.header),
+      true
+    )
+
+    drawHeader()
+    for (const row of matrix.results.rows) {
+      drawRow(
+        [`${row.label}\n(${row.status})`, ...row.cells.map(cell => cellLines(cell).join('\n'))],
+        [undefined, ...row.cells.map(cell => !cell.clause ? COLORS.missing : cell.variant ? COLORS.variant : undefined)],
+        false
+      )
+    }
+
+    pdf.moveDown().font(FONTS.sansBold).fontSize(11).text('Text similarity', left)
+    pdf.font(FONTS.sans).fontSize(9)
+    matrix.results.documentSimilarity.forEach((scores, index) => {
+      const others = scores
+        .map((score, other) => other === index ? null : `${matrix.documents[other].title} ${Math.round(score * 100)}%`)
+        .filter(Boolean)
+      pdf.text(`${matrix.documents[index].title}: ${others.join(', ')}`)
+    })
+
+    pdf.end()
+  })
+}
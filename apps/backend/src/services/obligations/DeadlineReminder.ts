@@ -0,0 +1,107 @@
+import { prisma } from '@/index'
+import { NotificationService } from '@/services/NotificationService'
+import { logger } from '@/utils/logger'
+import { ObligationStatus } from '@shared'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Periodically notifies workspace members of open obligations falling due
+// within OBLIGATION_REMINDER_DAYS. Each obligation is claimed by setting
+// notifiedAt before notifying, so it is announced once even with several
+// server instances running; the claim is released if notifying fails.
+export class DeadlineReminder {
+  private notificationService: NotificationService
+  private timer: NodeJS.Timeout | null = null
+
+  constructor() {
+    this.notificationService = new NotificationService()
+  }
+
+  start(): void {
+    if (this.timer) {
+      return
+    }
+
+    const intervalMs = parseInt(process.env.DEADLINE_CHECK_INTERVAL_MS || '3600000')
+    const check = () => {
+      this.run().catch(error => logger.error('Deadline reminder check failed:', error))
+    }
+
+    this.timer = setInterval(check, intervalMs)
+    check()
+    logger.info('Deadline reminders started')
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  async run(now: Date = new Date()): Promise<number> {
+    const reminderDays = parseInt(process.env.OBLIGATION_REMINDER_DAYS || '14')
+    const horizon = new Date(now.getTime() + reminderDays * DAY_MS)
+    // Deadlines are stored as UTC midnight, so today's still counts as upcoming
+    const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+
+    const due = await prisma.obligation.findMany({
+      where: {
+        status: ObligationStatus.OPEN,
+        notifiedAt: null,
+        dueDate: { gte: today, lte: horizon },
+        document: { isCurrentVersion: true },
+      },
+      include: {
+        document: {
+          select: {
+            title: true,
+          },
+        },
+      },
+      orderBy: { dueDate: 'asc' },
+    })
+
+    let notified = 0
+    for (const obligation of due) {
+      const claimed = await prisma.obligation.updateMany({
+        where: { id: obligation.id, notifiedAt: null },
+        data: { notifiedAt: now },
+      })
+      if (claimed.count === 0) {
+        continue
+      }
+
+      const dueDate = obligation.dueDate!.toISOString().substring(0, 10)
+      const who = obligation.party ? `${obligation.party} must ` : ''
+
+      try {
+        await this.notificationService.notifyWorkspace(obligation.workspaceId, {
+          type: 'OBLIGATION_DUE',
+          title: `Deadline ${dueDate}: ${obligation.document.title}`,
+          message: `${who}${obligation.action}`,
+          entityType: 'obligation',
+          entityId: obligation.id,
+        })
+      } catch (error) {
+        // Give the claim back so the next check sends the reminder
+        logger.error(`Failed to send the deadline reminder for obligation ${obligation.id}:`, error)
+        await prisma.obligation.updateMany({
+          where: { id: obligation.id, notifiedAt: now },
+          data: { notifiedAt: null },
+        })
+        continue
+      }
+      notified++
+    }
+
+    if (notified > 0) {
+      logger.info(`Sent deadline notifications for ${notified} obligations`)
+    }
+    return notified
+  }
+}
+
+export const deadlineReminder = new DeadlineReminder()
+
+export default DeadlineReminder
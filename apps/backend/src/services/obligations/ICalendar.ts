@@ -0,0 +1,91 @@
+// Minimal RFC 5545 writer for all-day deadline events
+
+export interface CalendarEvent {
+  uid: string
+  date: Date
+  summary: string
+  description?: string
+  // Reminder this many days before the event
+  alarmDays?: number
+  cancelled?: boolean
+}
+
+export function buildCalendar(name: string, events: CalendarEvent[], now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//JuriSight//Obligations//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ]
+
+  for (const event of events) {
+    const next = new Date(event.date.getTime())
+    next.setUTCDate(next.getUTCDate() + 1)
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${dateValue(event.date)}`,
+      `DTEND;VALUE=DATE:${dateValue(next)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    )
+
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+    }
+    if (event.cancelled) {
+      lines.push('STATUS:CANCELLED')
+    }
+    if (event.alarmDays && !event.cancelled) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(event.summary)}`,
+        `TRIGGER:-P${event.alarmDays}D`,
+        'END:VALARM',
+      )
+    }
+
+    lines.push('END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+function dateValue(date: Date): string {
+  return date.toISOString().substring(0, 10).replace(/-/g, '')
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let size = 0
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char)
+    if (size + bytes > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ''
+      size = 0
+    }
+    current += char
+    size += bytes
+  }
+
+  parts.push(current)
+  return parts.join('\r\n ')
+}
@@ -0,0 +1,179 @@
+import { ObligationKind } from '@shared'
+import { LegalChunker } from '@/services/LegalChunker'
+import { addPeriod, findDates, parseNumber, parseUnit } from '@/utils/dates'
+
+// Stored with each obligation; bump when the rules change so documents can be re-extracted
+export const OBLIGATION_EXTRACTOR_VERSION = 'rules-v1'
+
+export interface ExtractedObligation {
+  kind: ObligationKind
+  party: string | null
+  action: string
+  dueDate: Date | null
+  trigger: string | null
+  text: string
+  startOffset: number
+  endOffset: number
+  pageNumber: number | null
+  confidence: number
+}
+
+// Dates the relative deadlines of a contract can be anchored to
+interface ContractDates {
+  effective: Date | null
+  termEnd: Date | null
+}
+
+const DUTY = /\b(shall|must|will|agrees? to|undertakes? to|(?:is|are) required to|(?:is|are) (?:due|payable))\b/i
+const PARTY = /((?:[A-Z][\w'&.-]*|[Tt]he|[Ee]ach|[Ee]ither|[Bb]oth|[Nn]either)(?:\s+(?:[A-Z][\w'&.-]*|party|parties))*)\s*$/
+const RELATIVE = /\b(within|at least|not less than|no less than|no later than|not later than|no fewer than)\s+([a-z]+(?:-[a-z]+)?|\d+)(?:\s*\((\d+)\))?\s+(business\s+|calendar\s+)?(days?|weeks?|months?|years?)(?:\s+(after|before|prior to|following|from|of)\s+((?:[^,.;(]|\([^)]*\))+))?/i
+const DUE_DATE = /\b(?:on or before|no later than|not later than|by|before|on)\s*$/i
+const EFFECTIVE_ANCHOR = /\b(?:effective\s+date|commencement\s+date|date\s+of\s+this\s+agreement)\b/i
+const TERM_END_ANCHOR = /\b(?:expir(?:y|ation)|end|termination)\s+of\s+(?:the\s+)?(?:(?:initial|then[- ]current|renewal)\s+)?term\b/i
+const EFFECTIVE_DATE_CUE = /\b(?:effective|dated|commenc\w*|entered into)\b/gi
+const TERM_LENGTH = /\b(?:initial\s+)?term\s+of\s+([a-z]+(?:-[a-z]+)?|\d+)(?:\s*\((\d+)\))?\s+(years?|months?)\b/i
+
+const KINDS: Array<{ kind: ObligationKind; pattern: RegExp }> = [
+  { kind: ObligationKind.RENEWAL, pattern: /renew/i },
+  { kind: ObligationKind.TERMINATION, pattern: /terminat/i },
+  { kind: ObligationKind.PAYMENT, pattern: /\b(?:pay|paid|payable|payment|invoice|fees?|remit)/i },
+  { kind: ObligationKind.NOTICE, pattern: /\bnoti(?:ce|fy|fication)/i },
+  { kind: ObligationKind.DELIVERY, pattern: /\bdeliver/i },
+  { kind: ObligationKind.REPORTING, pattern: /\b(?:report|certif|audit|statement)/i },
+]
+
+const ACTION_LENGTH = 200
+
+const chunker = new LegalChunker()
+
+// Rule-based obligation finder. A sentence is an obligation when it states a
+// duty ("shall", "must", "is payable") together with a calendar date or a
+// period such as "within thirty (30) days after receipt". Periods measured
+// from the effective date or the end of the term are turned into due dates
+// when the contract states those dates; others keep the trigger text.
+export class ObligationExtractor {
+  extract(text: string, options: { pageStarts?: number[] } = {}): ExtractedObligation[] {
+    const dates = this.contractDates(text)
+    const obligations: ExtractedObligation[] = []
+
+    for (const section of chunker.sections(text, options)) {
+      if (['definition', 'recital', 'signature'].includes(section.metadata.kind)) {
+        continue
+      }
+
+      const { startOffset, endOffset } = section.metadata
+      const bodyStart = startOffset + chunker.headingLength(section.content)
+
+      for (const sentence of chunker.sentences(text.slice(bodyStart, endOffset))) {
+        const start = bodyStart + sentence.start
+        const end = bodyStart + sentence.end
+        const obligation = this.parseSentence(text.slice(start, end), dates)
+
+        if (obligation) {
+          obligations.push({
+            ...obligation,
+            text: text.slice(start, end),
+            startOffset: start,
+            endOffset: end,
+            pageNumber: section.metadata.page,
+          })
+        }
+      }
+    }
+
+    return obligations
+  }
+
+  private parseSentence(
+    sentence: string,
+    dates: ContractDates
+  ): Omit<ExtractedObligation, 'text' | 'startOffset' | 'endOffset' | 'pageNumber'> | null {
+    const duty = DUTY.exec(sentence)
+    if (!duty) {
+      return null
+    }
+
+    const afterDuty = sentence.slice(duty.index)
+    const action = this.actionOf(sentence.slice(duty.index + duty[0].length))
+    const party = this.partyOf(sentence.slice(0, duty.index))
+    const kind = KINDS.find(candidate => candidate.pattern.test(afterDuty))?.kind ?? ObligationKind.OTHER
+
+    // A calendar date introduced as a deadline ("on or before 31 March 2025")
+    const deadline = findDates(afterDuty).find(match => DUE_DATE.test(afterDuty.slice(0, match.start)))
+    if (deadline) {
+      return { kind, party, action, dueDate: deadline.date, trigger: null, confidence: 0.85 }
+    }
+
+    const relative = RELATIVE.exec(afterDuty)
+    if (!relative) {
+      return null
+    }
+
+    const amount = parseNumber(relative[3] || relative[2])
+    const unit = parseUnit(relative[5])
+    if (amount === null || unit === null) {
+      return null
+    }
+
+    const trigger = relative[0].replace(/\s+/g, ' ').trim()
+    const direction = relative[6]?.toLowerCase()
+    const anchorText = relative[7] || ''
+    const business = Boolean(relative[4]?.toLowerCase().startsWith('business'))
+
+    let anchor: Date | null = null
+    if (EFFECTIVE_ANCHOR.test(anchorText)) {
+      anchor = dates.effective
+    } else if (TERM_END_ANCHOR.test(anchorText)) {
+      anchor = dates.termEnd
+    }
+
+    if (anchor && direction) {
+      const sign = direction === 'before' || direction === 'prior to' ? -1 : 1
+      return { kind, party, action, dueDate: addPeriod(anchor, sign * amount, unit, business), trigger, confidence: 0.7 }
+    }
+
+    return { kind, party, action, dueDate: null, trigger, confidence: 0.6 }
+  }
+
+  // "The Customer shall" -> "Customer"; "Either party shall" -> "Either party"
+  private partyOf(beforeDuty: string): string | null {
+    const match = PARTY.exec(beforeDuty.replace(/\s+/g, ' '))
+    if (!match) {
+      return null
+    }
+
+    const party = match[1].replace(/^the\s+/i, '').trim()
+    return party.length > 0 && party.length <= 80 ? party : null
+  }
+
+  private actionOf(afterDuty: string): string {
+    const action = afterDuty.replace(/\s+/g, ' ').trim().replace(/[.;:]$/, '')
+    return action.length > ACTION_LENGTH ? `${action.substring(0, ACTION_LENGTH - 1).trimEnd()}…` : action
+  }
+
+  private contractDates(text: string): ContractDates {
+    let effective: Date | null = null
+    EFFECTIVE_DATE_CUE.lastIndex = 0
+    let cue: RegExpExecArray | null
+
+    // The first date shortly after "effective", "dated" or "commencing"
+    while (!effective && (cue = EFFECTIVE_DATE_CUE.exec(text)) !== null) {
+      const window = text.slice(cue.index, cue.index + 120)
+      effective = findDates(window)[0]?.date ?? null
+    }
+
+    let termEnd: Date | null = null
+    const term = TERM_LENGTH.exec(text)
+    if (effective && term) {
+      const amount = parseNumber(term[2] || term[1])
+      const unit = parseUnit(term[3])
+      if (amount !== null && unit !== null) {
+        termEnd = addPeriod(effective, amount, unit)
+      }
+    }
+
+    return { effective, termEnd }
+  }
+}
+
+export default ObligationExtractor
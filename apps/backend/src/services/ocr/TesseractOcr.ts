@@ -0,0 +1,142 @@
+import { execFile } from 'child_process'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { promisify } from 'util'
+import { AppError } from '@/middleware/errorHandler'
+import { logger } from '@/utils/logger'
+
+const run = promisify(execFile)
+
+export interface OcrPage {
+  // 1-based, in the PDF or multi-page TIFF
+  page: number
+  text: string
+  // Mean word confidence, 0-1; 0 when nothing was recognised
+  confidence: number
+  words: number
+}
+
+export interface OcrEngine {
+  recognizeImage(image: Buffer): Promise<OcrPage[]>
+  recognizePdfPages(pdf: Buffer, pages: number[]): Promise<OcrPage[]>
+}
+
+// Tesseract and Poppler's pdftoppm, run as CPU-only command line tools.
+// Scanned PDF pages are rendered to images before recognition.
+export class TesseractOcr implements OcrEngine {
+  private language = process.env.OCR_LANGUAGE || 'eng'
+  private dpi = process.env.OCR_DPI || '300'
+  private timeout = parseInt(process.env.OCR_TIMEOUT_MS || '120000')
+
+  async recognizeImage(image: Buffer): Promise<OcrPage[]> {
+    return this.withTempDir(async dir => {
+      const input = path.join(dir, 'image')
+      await fs.writeFile(input, image)
+      return parseTsv(await this.tesseract(input))
+    })
+  }
+
+  async recognizePdfPages(pdf: Buffer, pages: number[]): Promise<OcrPage[]> {
+    return this.withTempDir(async dir => {
+      const input = path.join(dir, 'document.pdf')
+      await fs.writeFile(input, pdf)
+
+      const results: OcrPage[] = []
+      for (const page of pages) {
+        const output = path.join(dir, `page-${page}`)
+        await this.command('pdftoppm', ['-r', this.dpi, '-gray', '-png', '-singlefile', '-f', String(page), '-l', String(page), input, output])
+
+        const [recognized] = parseTsv(await this.tesseract(`${output}.png`))
+        results.push({ ...(recognized || { text: '', confidence: 0, words: 0 }), page })
+      }
+      return results
+    })
+  }
+
+  private async tesseract(input: string): Promise<string> {
+    return this.command('tesseract', [input, 'stdout', '-l', this.language, 'tsv'])
+  }
+
+  private async command(file: string, args: string[]): Promise<string> {
+    try {
+      const { stdout } = await run(file, args, { timeout: this.timeout, maxBuffer: 64 * 1024 * 1024 })
+      return stdout
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new AppError(`OCR is unavailable: ${file} is not installed`, 500, 'OCR_UNAVAILABLE')
+      }
+
+      logger.error(`${file} failed:`, error)
+      throw new AppError('Failed to recognise text in scanned pages', 500, 'OCR_ERROR')
+    }
+  }
+
+  private async withTempDir<T>(work: (dir: string) => Promise<T>): Promise<T> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ocr-'))
+    try {
+      return await work(dir)
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  }
+}
+
+// Tesseract's TSV output has one row per page, block, paragraph, line and
+// word; only word rows (level 5) carry text and a 0-100 confidence
+export function parseTsv(tsv: string): OcrPage[] {
+  const pages = new Map<number, OcrWord[]>()
+
+  for (const row of tsv.split('\n').slice(1)) {
+    const columns = row.split('\t')
+    const text = columns.slice(11).join('\t').trim()
+    if (columns[0] !== '5' || !text) {
+      continue
+    }
+
+    const [, page, block, paragraph, line] = columns
+    const words = pages.get(Number(page)) || []
+    words.push({
+      paragraph: `${block}.${paragraph}`,
+      line: `${block}.${paragraph}.${line}`,
+      text,
+      confidence: Math.max(0, Number(columns[10])) / 100,
+    })
+    pages.set(Number(page), words)
+  }
+
+  return Array.from(pages.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([page, words]) => ({
+      page,
+      text: words
+        .map((word, index) => {
+          const previous = words[index - 1]
+          const separator = !previous ? '' : previous.paragraph !== word.paragraph ? '\n\n' : previous.line !== word.line ? '\n' : ' '
+          return separator + word.text
+        })
+        .join(''),
+      confidence: pageConfidence(words),
+      words: words.length,
+    }))
+}
+
+interface OcrWord {
+  paragraph: string
+  line: string
+  text: string
+  confidence: number
+}
+
+// Weighted by word length, so stray punctuation does not drag the score down
+function pageConfidence(words: OcrWord[]): number {
+  const characters = words.reduce((sum, word) => sum + word.text.length, 0)
+  if (characters === 0) {
+    return 0
+  }
+
+  const weighted = words.reduce((sum, word) => sum + word.confidence * word.text.length, 0)
+  return Math.round((weighted / characters) * 1000) / 1000
+}
+
+export default TesseractOcr
@@ -0,0 +1,18 @@
+import path from 'path'
+
+// pdfkit's built-in fonts only encode Windows-1252, so arrows and non-Latin
+// contract text came out garbled. DejaVu covers Latin, Greek, Cyrillic and
+// common symbols; only the glyphs used are embedded.
+const FONT_DIR = path.join(path.dirname(require.resolve('dejavu-fonts-ttf/package.json')), 'ttf')
+
+export const FONTS = {
+  sans: 'DejaVuSans',
+  sansBold: 'DejaVuSans-Bold',
+  serif: 'DejaVuSerif',
+}
+
+export function registerFonts(pdf: PDFKit.PDFDocument): void {
+  for (const name of Object.values(FONTS)) {
+    pdf.registerFont(name, path.join(FONT_DIR, `${name}.ttf`))
+  }
+}
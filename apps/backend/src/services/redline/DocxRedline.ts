@@ -0,0 +1,56 @@
+import {
+  DeletedTextRun,
+  Document,
+  HeadingLevel,
+  InsertedTextRun,
+  Packer,
+  Paragraph,
+  TextRun,
+} from 'docx'
+import { Redline } from '@/services/redline/Redline'
+
+// Word document whose changes are real tracked revisions, so the
+// counterparty can accept or reject them; Word shows insertions underlined
+// and deletions struck through
+export async function renderDocx(redline: Redline): Promise<Buffer> {
+  const date = redline.createdAt.toISOString()
+  let revision = 0
+
+  const cover = [
+    new Paragraph({ text: redline.title, heading: HeadingLevel.TITLE }),
+    new Paragraph({ text: `Original: ${redline.originalTitle}` }),
+    new Paragraph({ text: `Revised: ${redline.revisedTitle}` }),
+    new Paragraph({ text: `Compared by ${redline.author} on ${date.slice(0, 10)}`, spacing: { after: 240 } }),
+    ...redline.statistics.map(row => new Paragraph({
+      children: [new TextRun({ text: `${row.label}: `, bold: true }), new TextRun(row.value)],
+    })),
+  ]
+
+  if (redline.keyChanges.length > 0) {
+    cover.push(new Paragraph({ text: 'Key changes', heading: HeadingLevel.HEADING_2, spacing: { before: 240 } }))
+    cover.push(...redline.keyChanges.map(change => new Paragraph({ text: change, bullet: { level: 0 } })))
+  }
+
+  const body = redline.paragraphs.map(paragraph => new Paragraph({
+    children: paragraph.flatMap(run => run.text.split('\n').map((text, index) => {
+      const options = { text, break: index > 0 ? 1 : undefined }
+      switch (run.change) {
+        case 'insert':
+          return new InsertedTextRun({ ...options, id: revision++, author: redline.author, date })
+        case 'delete':
+          return new DeletedTextRun({ ...options, id: revision++, author: redline.author, date })
+        default:
+          return new TextRun(options)
+      }
+    })),
+    spacing: { after: 160 },
+  }))
+
+  const document = new Document({
+    creator: redline.author,
+    title: redline.title,
+    sections: [{ children: cover }, { children: body }],
+  })
+
+  return Packer.toBuffer(document)
+}
@@ -0,0 +1,67 @@
+import { Redline, RedlineRun } from '@/services/redline/Redline'
+
+const STYLES = `
+body { font-family: Georgia, 'Times New Roman', serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; color: #1f2328; }
+h1 { font-size: 1.5rem; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { text-align: left; padding: 0.25rem 1.5rem 0.25rem 0; }
+.cover { page-break-after: always; border-bottom: 1px solid #d0d7de; padding-bottom: 1rem; margin-bottom: 2rem; }
+.meta { color: #57606a; }
+ins { color: #1a7f37; text-decoration: underline; }
+del { color: #cf222e; text-decoration: line-through; }
+`
+
+// Self-contained HTML page; insertions are <ins>, deletions <del>
+export function renderHtml(redline: Redline): string {
+  const statistics = redline.statistics
+    .map(row => `<tr><th>${escapeHtml(row.label)}</th><td>${escapeHtml(row.value)}</td></tr>`)
+    .join('')
+  const keyChanges = redline.keyChanges.length > 0
+    ? `<h2>Key changes</h2><ul>${redline.keyChanges.map(change => `<li>${escapeHtml(change)}</li>`).join('')}</ul>`
+    : ''
+  const body = redline.paragraphs
+    .map(paragraph => `<p>${paragraph.map(renderRun).join('')}</p>`)
+    .join('\n')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(redline.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<section class="cover">
+<h1>${escapeHtml(redline.title)}</h1>
+<p class="meta">Original: ${escapeHtml(redline.originalTitle)}<br>Revised: ${escapeHtml(redline.revisedTitle)}<br>Compared by ${escapeHtml(redline.author)} on ${redline.createdAt.toISOString().slice(0, 10)}</p>
+<table>${statistics}</table>
+${keyChanges}
+</section>
+<section class="redline">
+${body}
+</section>
+</body>
+</html>
+`
+}
+
+function renderRun(run: RedlineRun): string {
+  const text = escapeHtml(run.text).replace(/\n/g, '<br>')
+  switch (run.change) {
+    case 'insert':
+      return `<ins>${text}</ins>`
+    case 'delete':
+      return `<del>${text}</del>`
+    default:
+      return text
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
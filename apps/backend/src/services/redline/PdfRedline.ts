@@ -0,0 +1,60 @@
+import PDFDocument from 'pdfkit'
+import { FONTS, registerFonts } from '@/services/pdf/PdfFonts'
+import { Redline } from '@/services/redline/Redline'
+
+const COLORS = {
+  text: '#1f2328',
+  muted: '#57606a',
+  insert: '#1a7f37',
+  delete: '#cf222e',
+}
+
+// A4 PDF with a cover page; insertions are underlined in green and
+// deletions struck through in red
+export function renderPdf(redline: Redline): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({
+      size: 'A4',
+      margin: 56,
+      info: { Title: redline.title, Author: redline.author },
+    })
+    const chunks: Buffer[] = []
+    pdf.on('data', chunk => chunks.push(chunk))
+    pdf.on('end', () => resolve(Buffer.concat(chunks)))
+    pdf.on('error', reject)
+    registerFonts(pdf)
+
+    pdf.font(FONTS.sansBold).fontSize(18).fillColor(COLORS.text).text(redline.title)
+    pdf.moveDown(0.5)
+    pdf.font(FONTS.sans).fontSize(10).fillColor(COLORS.muted)
+      .text(`Original: ${redline.originalTitle}`)
+      .text(`Revised: ${redline.revisedTitle}`)
+      .text(`Compared by ${redline.author} on ${redline.createdAt.toISOString().slice(0, 10)}`)
+    pdf.moveDown()
+
+    pdf.fontSize(11).fillColor(COLORS.text)
+    for (const row of redline.statistics) {
+      pdf.font(FONTS.sansBold).text(`${row.label}: `, { continued: true }).font(FONTS.sans).text(row.value)
+    }
+
+    if (redline.keyChanges.length > 0) {
+      pdf.moveDown().font(FONTS.sansBold).fontSize(13).text('Key changes')
+      pdf.moveDown(0.3).font(FONTS.sans).fontSize(11).list(redline.keyChanges, { bulletRadius: 2 })
+    }
+
+    pdf.addPage().font(FONTS.serif).fontSize(11)
+    for (const paragraph of redline.paragraphs) {
+      paragraph.forEach((run, index) => {
+        pdf.fillColor(run.change === 'insert' ? COLORS.insert : run.change === 'delete' ? COLORS.delete : COLORS.text)
+        pdf.text(run.text, {
+          continued: index < paragraph.length - 1,
+          underline: run.change === 'insert',
+          strike: run.change === 'delete',
+        })
+      })
+      pdf.moveDown(0.6)
+    }
+
+    pdf.end()
+  })
+}
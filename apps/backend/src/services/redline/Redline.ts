@@ -0,0 +1,177 @@
+import { ClauseComparison } from '@shared'
+import { clauseLabel } from '@/services/clauses/ClauseChanges'
+import { DiffChange, DiffEngine } from '@/services/diff/DiffEngine'
+
+export type RedlineFormat = 'docx' | 'pdf' | 'html'
+
+export interface RedlineRun {
+  text: string
+  change?: 'insert' | 'delete'
+}
+
+export interface RedlineStatistic {
+  label: string
+  value: string
+}
+
+// Track-changes view of a comparison: the second document's text with the
+// first document's deleted text kept in place, plus a cover summary
+export interface Redline {
+  title: string
+  originalTitle: string
+  revisedTitle: string
+  author: string
+  createdAt: Date
+  statistics: RedlineStatistic[]
+  keyChanges: string[]
+  // Paragraphs of runs; a newline inside a run is a line break
+  paragraphs: RedlineRun[][]
+}
+
+export interface RedlineSource {
+  original: { title: string; content: string }
+  revised: { title: string; content: string }
+  author: string
+  createdAt: Date
+  // Stored DocumentComparison.results, whose shape depends on when the
+  // comparison was made
+  results: unknown
+}
+
+const KEY_CHANGE_LIMIT = 25
+const PARAGRAPH_BREAK = /[ \t]*\n[ \t]*\n\s*/
+
+const diffEngine = new DiffEngine()
+
+export function buildRedline(source: RedlineSource): Redline {
+  const results = record(source.results)
+  let differences = Array.isArray(results.differences) ? results.differences as DiffChange[] : []
+  let statistics = record(results.statistics)
+  let similarityScore = typeof results.similarityScore === 'number' ? results.similarityScore : undefined
+
+  // Comparisons stored before redline offsets existed, or whose documents
+  // have since changed, are diffed again from the current text
+  if (!differences.every(change => matches(change, source.revised.content))) {
+    const diff = diffEngine.diff(source.original.content, source.revised.content)
+    differences = diff.differences
+    statistics = { ...diff.statistics }
+    similarityScore = diff.similarityScore
+  }
+
+  return {
+    title: `Redline: ${source.original.title} → ${source.revised.title}`,
+    originalTitle: source.original.title,
+    revisedTitle: source.revised.title,
+    author: source.author,
+    createdAt: source.createdAt,
+    statistics: summarize(similarityScore, statistics),
+    keyChanges: keyChanges(results),
+    paragraphs: paragraphs(runs(source.revised.content, differences)),
+  }
+}
+
+function matches(change: DiffChange, revised: string): boolean {
+  if (!change.doc1Position || !change.doc2Position) {
+    return false
+  }
+  const { start, end } = change.doc2Position
+  return change.type === 'removed' ? start === end : revised.slice(start, end) === change.text
+}
+
+function runs(revised: string, differences: DiffChange[]): RedlineRun[] {
+  const result: RedlineRun[] = []
+  const sorted = [...differences].sort((a, b) =>
+    a.doc2Position.start - b.doc2Position.start || a.doc1Position.start - b.doc1Position.start
+  )
+  let cursor = 0
+
+  for (const change of sorted) {
+    result.push({ text: revised.slice(cursor, change.doc2Position.start) })
+
+    if (change.type === 'removed') {
+      // Removed text sits at an insertion point, so it needs its own separation
+      if (change.granularity === 'paragraph') {
+        result.push({ text: '\n\n' }, { text: change.text, change: 'delete' }, { text: '\n\n' })
+      } else {
+        const previous = change.doc2Position.start > 0 ? revised[change.doc2Position.start - 1] : ''
+        result.push({ text: /\S/.test(previous) ? ' ' : '' }, { text: change.text, change: 'delete' })
+      }
+    } else {
+      if (change.previousText) {
+        result.push({ text: change.previousText, change: 'delete' })
+      }
+      result.push({ text: revised.slice(change.doc2Position.start, change.doc2Position.end), change: 'insert' })
+    }
+
+    cursor = Math.max(cursor, change.doc2Position.end)
+  }
+
+  result.push({ text: revised.slice(cursor) })
+  return result.filter(run => run.text.length > 0)
+}
+
+// Splits runs into paragraphs at blank lines
+function paragraphs(runs: RedlineRun[]): RedlineRun[][] {
+  const result: RedlineRun[][] = [[]]
+
+  for (const run of runs) {
+    run.text.split(PARAGRAPH_BREAK).forEach((text, index) => {
+      if (index > 0) {
+        result.push([])
+      }
+      if (text.length > 0) {
+        result[result.length - 1].push({ ...run, text })
+      }
+    })
+  }
+
+  return result
+    .map(paragraph => trimParagraph(paragraph))
+    .filter(paragraph => paragraph.length > 0)
+}
+
+function trimParagraph(paragraph: RedlineRun[]): RedlineRun[] {
+  const trimmed = [...paragraph]
+  if (trimmed.length > 0 && !trimmed[0].change) {
+    trimmed[0] = { text: trimmed[0].text.trimStart() }
+  }
+  const last = trimmed.length - 1
+  if (last >= 0 && !trimmed[last].change) {
+    trimmed[last] = { text: trimmed[last].text.trimEnd() }
+  }
+  return trimmed.filter(run => run.text.length > 0)
+}
+
+function summarize(similarityScore: number | undefined, statistics: Record<string, unknown>): RedlineStatistic[] {
+  const rows: Array<[string, unknown]> = [
+    ['Similarity', typeof similarityScore === 'number' ? `${Math.round(similarityScore * 100)}%` : undefined],
+    ['Insertions', statistics.added],
+    ['Deletions', statistics.removed],
+    ['Modifications', statistics.modified],
+    ['Words added', statistics.wordsAdded],
+    ['Words removed', statistics.wordsRemoved],
+    ['Words unchanged', statistics.wordsUnchanged],
+  ]
+
+  return rows
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([label, value]) => ({ label, value: String(value) }))
+}
+
+// Per-clause term changes first, then what the model flagged
+function keyChanges(results: Record<string, unknown>): string[] {
+  const clauses = Array.isArray(results.clauses) ? results.clauses as ClauseComparison[] : []
+  const changes = clauses
+    .filter(clause => clause.status !== 'unchanged')
+    .flatMap(clause => clause.status === 'modified'
+      ? clause.changes.map(change => `${clauseLabel(clause.clauseType)}: ${change}`)
+      : clause.changes)
+  const notable: unknown[] = Array.isArray(results.notableChanges) ? results.notableChanges : []
+
+  return [...changes, ...notable.filter(change => typeof change === 'string')].slice(0, KEY_CHANGE_LIMIT)
+}
+
+// A stored JSON value as an object, or an empty one
+function record(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {}
+}
@@ -0,0 +1,157 @@
+import { ChatCitation } from '@shared'
+import { LegalChunker } from '@/services/LegalChunker'
+import { ContextPassage } from '@/services/retrieval/ContextBuilder'
+import { tokenize } from '@/utils/text'
+
+export interface CitedAnswer {
+  content: string
+  citations: ChatCitation[]
+}
+
+export interface CitedDocument {
+  title?: string
+  content: string
+}
+
+export interface CitationOptions {
+  // Prefix each source with its document title, for chats over several documents
+  labelDocuments?: boolean
+}
+
+const MARKER = /\s?\[(\d{1,3})\]/g
+const QUOTE = /["“]([^"”]{12,})["”]/g
+
+const chunker = new LegalChunker()
+
+// Resolves the [n] markers in an answer to exact spans of the numbered context
+// passages. A span is the quoted text when the answer quotes the passage,
+// otherwise the passage sentence closest to the claim. Spans are checked
+// against the stored chunk and the document text before offsets are reported;
+// markers that do not refer to a passage are dropped from the answer.
+export function buildCitations(
+  answer: string,
+  passages: ContextPassage[],
+  documents: Map<string, CitedDocument>,
+  options: CitationOptions = {}
+): CitedAnswer {
+  const citations = new Map<number, ChatCitation>()
+  let claimStart = 0
+
+  const content = answer.replace(MARKER, (match, number: string, offset: number) => {
+    const marker = parseInt(number)
+    const passage = passages[marker - 1]
+    const claim = answer.slice(claimStart, offset)
+    claimStart = offset + match.length
+
+    if (!passage) {
+      return ''
+    }
+
+    if (!citations.has(marker)) {
+      citations.set(marker, cite(marker, passage, claim, documents, options, true))
+    }
+    return match
+  })
+
+  // Answers without markers still list the passages they were given, but as
+  // unverified since the answer does not say what it took from them
+  if (citations.size === 0) {
+    passages.forEach((passage, index) => {
+      citations.set(index + 1, cite(index + 1, passage, answer, documents, options, false))
+    })
+  }
+
+  return {
+    content: content.trim(),
+    citations: Array.from(citations.values()).sort((a, b) => (a.marker || 0) - (b.marker || 0)),
+  }
+}
+
+function cite(
+  marker: number,
+  passage: ContextPassage,
+  claim: string,
+  documents: Map<string, CitedDocument>,
+  options: CitationOptions,
+  verified: boolean
+): ChatCitation {
+  const document = documents.get(passage.documentId)
+  const span = findSpan(passage.content, lastSentence(claim))
+  const text = passage.content.slice(span.start, span.end)
+  const offset = locate(passage, text, span.start, document?.content)
+  const metadata = passage.metadata || {}
+  const page = typeof metadata.page === 'number' ? metadata.page : undefined
+  const section = metadata.section || null
+  const location = [section, page ? `page ${page}` : null].filter(Boolean).join(', ') || `Chunk ${passage.chunkIndex + 1}`
+
+  return {
+    marker,
+    documentId: passage.documentId,
+    ...(document?.title ? { documentTitle: document.title } : {}),
+    chunkIndex: passage.chunkIndex,
+    section,
+    pageNumber: page,
+    ...(offset !== null ? { startOffset: offset, endOffset: offset + text.length } : {}),
+    text,
+    source: options.labelDocuments && document?.title ? `${document.title}, ${location}` : location,
+    confidence: Math.min(1, Math.max(0, passage.score)),
+    verified,
+  }
+}
+
+function lastSentence(claim: string): string {
+  const sentences = claim.split(/(?<=[.!?])\s+/).filter(sentence => sentence.trim().length > 0)
+  return sentences[sentences.length - 1] || claim
+}
+
+function findSpan(passage: string, claim: string): { start: number; end: number } {
+  for (const match of Array.from(claim.matchAll(QUOTE))) {
+    const index = passage.indexOf(match[1])
+    if (index >= 0) {
+      return { start: index, end: index + match[1].length }
+    }
+  }
+
+  const claimTerms = new Set(tokenize(claim))
+  let best = { start: 0, end: passage.length }
+  let bestOverlap = 0
+
+  for (const sentence of chunker.sentences(passage)) {
+    const terms = new Set(tokenize(passage.slice(sentence.start, sentence.end)))
+    let overlap = 0
+    claimTerms.forEach(term => {
+      if (terms.has(term)) overlap++
+    })
+
+    if (overlap > bestOverlap) {
+      best = sentence
+      bestOverlap = overlap
+    }
+  }
+
+  return best
+}
+
+// Offset of the span in Document.content, or null when it cannot be verified
+function locate(passage: ContextPassage, text: string, spanStart: number, document?: string): number | null {
+  if (!document) {
+    return null
+  }
+
+  const chunkStart = passage.metadata?.startOffset
+  if (
+    typeof chunkStart === 'number' &&
+    document.slice(chunkStart, chunkStart + passage.content.length) === passage.content
+  ) {
+    return chunkStart + spanStart
+  }
+
+  // Chunks stored before offsets were recorded: find the text itself
+  const chunkIndex = document.indexOf(passage.content)
+  if (chunkIndex >= 0) {
+    return chunkIndex + spanStart
+  }
+
+  const textIndex = document.indexOf(text)
+  return textIndex >= 0 ? textIndex : null
+}
@@ -0,0 +1,70 @@
+import { ChunkMetadata } from '@/services/LegalChunker'
+import { estimateTokens } from '@/utils/text'
+
+export interface ContextPassage {
+  documentId: string
+  chunkIndex: number
+  content: string
+  score: number
+  // Chunks stored before a field was added lack it
+  metadata?: Partial<ChunkMetadata>
+}
+
+export interface BuiltContext {
+  context: string
+  passages: ContextPassage[]
+  tokens: number
+}
+
+// Smallest excerpt worth including when a passage has to be shortened
+const MIN_EXCERPT_TOKENS = 50
+
+export const DOCUMENT_HEADER = 'Document: '
+
+// Packs the highest-scoring passages into the prompt until the token budget is
+// spent, then restores document order so the model reads clauses in sequence.
+// Passages are numbered so answers and citations can refer to them. With
+// titles, each document's passages follow a "Document: <title>" line so the
+// model can tell sources apart.
+export function buildContext(
+  passages: ContextPassage[],
+  tokenBudget: number,
+  titles?: Map<string, string>
+): BuiltContext {
+  const ranked = [...passages].sort((a, b) => b.score - a.score)
+  const selected: ContextPassage[] = []
+  let tokens = 0
+
+  for (const passage of ranked) {
+    const cost = estimateTokens(passage.content)
+
+    if (tokens + cost <= tokenBudget) {
+      selected.push(passage)
+      tokens += cost
+      continue
+    }
+
+    // Shorten the passage to fill what is left of the budget
+    const remaining = tokenBudget - tokens
+    if (remaining >= MIN_EXCERPT_TOKENS) {
+      selected.push({ ...passage, content: passage.content.substring(0, remaining * 4) })
+      tokens += remaining
+    }
+    break
+  }
+
+  selected.sort((a, b) => a.documentId.localeCompare(b.documentId) || a.chunkIndex - b.chunkIndex)
+
+  const blocks = selected.map((passage, index) => {
+    const block = `[${index + 1}] ${passage.content}`
+    const title = titles?.get(passage.documentId)
+    const startsDocument = index === 0 || selected[index - 1].documentId !== passage.documentId
+    return title && startsDocument ? `${DOCUMENT_HEADER}${title}\n${block}` : block
+  })
+
+  return {
+    context: blocks.join('\n\n'),
+    passages: selected,
+    tokens,
+  }
+}
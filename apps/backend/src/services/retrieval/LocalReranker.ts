@@ -0,0 +1,91 @@
+import { tokenize } from '@/utils/text'
+
+export interface RerankCandidate {
+  content: string
+  score: number
+}
+
+// Terms are compared on a short prefix so "terminate" matches "termination"
+const STEM_LENGTH = 6
+
+// Lexical reranker that needs no model. It rewards passages covering more of
+// the question's terms and keeping them close together, which is a good
+// signal for clause-level answers in contracts.
+export class LocalReranker {
+  rerank<T extends RerankCandidate>(query: string, candidates: T[]): T[] {
+    const queryStems = Array.from(new Set(tokenize(query).map(stem)))
+
+    if (queryStems.length === 0 || candidates.length === 0) {
+      return candidates
+    }
+
+    const maxScore = Math.max(...candidates.map(candidate => candidate.score)) || 1
+
+    return candidates
+      .map(candidate => {
+        const relevance = this.score(queryStems, candidate.content)
+        // Blend with the first-stage score so strong semantic matches survive
+        const score = 0.5 * (candidate.score / maxScore) + 0.5 * relevance
+        return { ...candidate, score }
+      })
+      .sort((a, b) => b.score - a.score)
+  }
+
+  private score(queryStems: string[], content: string): number {
+    const stems = tokenize(content).map(stem)
+    const positions = new Map<string, number[]>()
+
+    stems.forEach((term, index) => {
+      if (queryStems.includes(term)) {
+        const list = positions.get(term) || []
+        list.push(index)
+        positions.set(term, list)
+      }
+    })
+
+    const coverage = positions.size / queryStems.length
+    if (positions.size < 2) {
+      return coverage
+    }
+
+    return 0.7 * coverage + 0.3 * this.proximity(positions, positions.size)
+  }
+
+  // 1 when all matched terms appear next to each other, approaching 0 as the
+  // smallest window containing all of them grows
+  private proximity(positions: Map<string, number[]>, matched: number): number {
+    const events: Array<{ index: number; term: string }> = []
+    positions.forEach((indexes, term) => {
+      indexes.forEach(index => events.push({ index, term }))
+    })
+    events.sort((a, b) => a.index - b.index)
+
+    const counts = new Map<string, number>()
+    let best = Infinity
+    let left = 0
+
+    for (let right = 0; right < events.length; right++) {
+      counts.set(events[right].term, (counts.get(events[right].term) || 0) + 1)
+
+      while (counts.size === matched) {
+        best = Math.min(best, events[right].index - events[left].index + 1)
+        const term = events[left].term
+        const remaining = (counts.get(term) || 0) - 1
+        if (remaining === 0) {
+          counts.delete(term)
+        } else {
+          counts.set(term, remaining)
+        }
+        left++
+      }
+    }
+
+    return best === Infinity ? 0 : matched / best
+  }
+}
+
+function stem(term: string): string {
+  return term.substring(0, STEM_LENGTH)
+}
+
+export default LocalReranker
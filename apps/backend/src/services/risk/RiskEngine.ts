@@ -0,0 +1,225 @@
+import { clauseLabel } from '@/services/clauses/ClauseChanges'
+import { ClauseType, Playbook, PlaybookPosition, PlaybookRule, RiskFinding, RiskLevel, RiskPosition } from '@shared'
+
+export interface AssessedClause {
+  id?: string
+  type: ClauseType
+  text: string
+  startOffset: number
+  endOffset: number
+}
+
+export interface RiskResult {
+  score: number
+  level: RiskLevel
+  findings: RiskFinding[]
+}
+
+interface ClausePosition {
+  clause: AssessedClause
+  position: RiskPosition
+  description?: string
+  phrase?: string
+}
+
+// Share of a rule's weight lost per deviation
+const PENALTY: Record<RiskLevel, number> = {
+  [RiskLevel.LOW]: 0.2,
+  [RiskLevel.MEDIUM]: 0.5,
+  [RiskLevel.HIGH]: 1,
+}
+
+const SEVERITY: Record<Exclude<RiskPosition, 'preferred'>, RiskLevel> = {
+  acceptable: RiskLevel.LOW,
+  unrecognised: RiskLevel.MEDIUM,
+  unacceptable: RiskLevel.HIGH,
+  missing: RiskLevel.HIGH,
+}
+
+const RANK: Record<RiskLevel, number> = {
+  [RiskLevel.LOW]: 0,
+  [RiskLevel.MEDIUM]: 1,
+  [RiskLevel.HIGH]: 2,
+}
+
+// Used for workspaces that have not configured a playbook
+export const DEFAULT_PLAYBOOK: Playbook = {
+  name: 'Standard commercial terms',
+  rules: [
+    {
+      clauseType: ClauseType.LIMITATION_OF_LIABILITY,
+      required: true,
+      weight: 3,
+      preferred: [{ description: 'Liability capped at the fees paid', phrases: ['fees paid', 'amounts paid', 'fees payable'] }],
+      acceptable: [{ description: 'Indirect and consequential damages excluded', phrases: ['consequential damages', 'indirect damages'] }],
+      unacceptable: [{ description: 'Unlimited liability', phrases: ['unlimited liability', 'without limit'] }],
+    },
+    {
+      clauseType: ClauseType.INDEMNIFICATION,
+      required: false,
+      weight: 2,
+      preferred: [{ description: 'Mutual indemnity', phrases: ['each party shall indemnify', 'mutually indemnify'] }],
+      acceptable: [{ description: 'Indemnity limited to third-party claims', phrases: ['third party claim', 'third-party claim'] }],
+      unacceptable: [{ description: 'Indemnity regardless of fault', phrases: ['regardless of fault', 'whether or not caused by', 'sole negligence'] }],
+    },
+    {
+      clauseType: ClauseType.TERMINATION,
+      required: true,
+      weight: 2,
+      preferred: [{ description: 'Termination for convenience', phrases: ['for convenience', 'without cause'] }],
+      acceptable: [{ description: 'Termination for cause only', phrases: ['for cause', 'material breach'] }],
+      unacceptable: [],
+    },
+    {
+      clauseType: ClauseType.AUTO_RENEWAL,
+      required: false,
+      weight: 1,
+      preferred: [],
+      acceptable: [{ description: 'Renewal can be declined on notice', phrases: ['non-renewal', 'not to renew', 'notice of termination'] }],
+      unacceptable: [{ description: 'Renewal cannot be declined', phrases: ['may not be terminated', 'irrevocable'] }],
+    },
+    {
+      clauseType: ClauseType.ASSIGNMENT,
+      required: false,
+      weight: 1,
+      preferred: [{ description: 'Assignment requires consent', phrases: ['prior written consent', 'without the consent'] }],
+      acceptable: [{ description: 'Assignment to affiliates permitted', phrases: ['affiliate'] }],
+      unacceptable: [],
+    },
+    {
+      clauseType: ClauseType.GOVERNING_LAW,
+      required: true,
+      weight: 1,
+      preferred: [],
+      acceptable: [],
+      unacceptable: [],
+    },
+  ],
+}
+
+// Scores a document's clauses against a playbook. Each rule takes the
+// position of its clauses (unacceptable wins, then preferred, then acceptable)
+// and every deviation from the preferred position becomes a finding that
+// costs a share of the rule's weight. The score is the lost share of the
+// total weight, 0-100; any high-severity finding makes the document high risk.
+export class RiskEngine {
+  assess(clauses: AssessedClause[], playbook: Playbook): RiskResult {
+    const findings: RiskFinding[] = []
+    let totalWeight = 0
+    let penalty = 0
+
+    for (const rule of playbook.rules) {
+      const weight = rule.weight ?? 1
+      totalWeight += weight
+
+      const finding = this.evaluateRule(rule, clauses.filter(clause => clause.type === rule.clauseType))
+      if (finding) {
+        findings.push(finding)
+        penalty += weight * PENALTY[finding.severity]
+      }
+    }
+
+    const score = totalWeight > 0 ? Math.round((100 * penalty) / totalWeight) : 0
+    const worst = findings.reduce<RiskLevel | null>(
+      (level, finding) => (level === null || RANK[finding.severity] > RANK[level] ? finding.severity : level),
+      null
+    )
+
+    let level = RiskLevel.LOW
+    if (worst === RiskLevel.HIGH || score >= 50) {
+      level = RiskLevel.HIGH
+    } else if (worst === RiskLevel.MEDIUM || score >= 20) {
+      level = RiskLevel.MEDIUM
+    }
+
+    // Worst first, then in document order with missing clauses last
+    findings.sort((a, b) => RANK[b.severity] - RANK[a.severity] || (a.startOffset ?? Infinity) - (b.startOffset ?? Infinity))
+    return { score, level, findings }
+  }
+
+  private evaluateRule(rule: PlaybookRule, clauses: AssessedClause[]): RiskFinding | null {
+    const label = clauseLabel(rule.clauseType)
+
+    if (clauses.length === 0) {
+      return rule.required
+        ? {
+          clauseType: rule.clauseType,
+          position: 'missing',
+          severity: SEVERITY.missing,
+          explanation: `No ${label.toLowerCase()} clause was found; the playbook requires one.`,
+        }
+        : null
+    }
+
+    // A rule without positions only checks that the clause is there
+    if (rule.preferred.length + rule.acceptable.length + rule.unacceptable.length === 0) {
+      return null
+    }
+
+    const positions = clauses.map(clause => this.positionOf(rule, clause))
+    const chosen = positions.find(position => position.position === 'unacceptable')
+      || positions.find(position => position.position === 'preferred')
+      || positions.find(position => position.position === 'acceptable')
+      || positions[0]
+
+    if (chosen.position === 'preferred') {
+      return null
+    }
+
+    const preferred = rule.preferred.map(position => position.description).join('; ')
+    let explanation: string
+
+    switch (chosen.position) {
+      case 'unacceptable':
+        explanation = `${label} clause contains "${chosen.phrase}": ${chosen.description}, which the playbook does not accept.`
+        break
+      case 'acceptable':
+        explanation = `${label} clause is acceptable (${chosen.description}) but not the preferred position`
+          + (preferred ? ` (${preferred}).` : '.')
+        break
+      default:
+        explanation = `${label} clause matches no playbook position and needs review`
+          + (preferred ? `; preferred: ${preferred}.` : '.')
+    }
+
+    return {
+      clauseType: rule.clauseType,
+      position: chosen.position,
+      severity: SEVERITY[chosen.position as Exclude<RiskPosition, 'preferred'>],
+      explanation,
+      clauseId: chosen.clause.id,
+      startOffset: chosen.clause.startOffset,
+      endOffset: chosen.clause.endOffset,
+      ...(chosen.phrase ? { matchedPhrase: chosen.phrase } : {}),
+    }
+  }
+
+  private positionOf(rule: PlaybookRule, clause: AssessedClause): ClausePosition {
+    const text = normalize(clause.text)
+
+    for (const position of ['unacceptable', 'preferred', 'acceptable'] as const) {
+      const match = this.matchPosition(rule[position], text)
+      if (match) {
+        return { clause, position, description: match.position.description, phrase: match.phrase }
+      }
+    }
+
+    return { clause, position: 'unrecognised' }
+  }
+
+  private matchPosition(positions: PlaybookPosition[], text: string): { position: PlaybookPosition; phrase: string } | null {
+    for (const position of positions) {
+      const phrase = position.phrases.find(candidate => text.includes(normalize(candidate)))
+      if (phrase) {
+        return { position, phrase }
+      }
+    }
+    return null
+  }
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ')
+}
+
+export default RiskEngine
@@ -0,0 +1,59 @@
+import { ClauseComparison, ClauseType, TemplateComparison, TemplateData } from '@shared'
+import { clauseLabel } from '@/services/clauses/ClauseChanges'
+
+export type TemplateFindings = Omit<TemplateComparison, 'template' | 'document' | 'comparison'>
+
+// Text of the standard form: the stored full text, or the standard clauses
+// laid out as numbered sections so the clause extractor finds their headings
+export function standardFormText(data: TemplateData): string {
+  if (data.content && data.content.trim().length > 0) {
+    return data.content
+  }
+
+  return Object.entries(data.standardClauses)
+    .map(([name, text], index) => `${index + 1}. ${headingOf(name)}\n${text.trim()}`)
+    .join('\n\n')
+}
+
+// Sorts aligned clauses (template first) into what the document is missing,
+// where it departs from the standard wording and what it adds
+export function assessConformance(data: TemplateData, content: string, clauses: ClauseComparison[]): TemplateFindings {
+  const standard = clauses.filter(clause => clause.doc1Clause)
+  const credit = standard.reduce((total, clause) =>
+    total + (clause.status === 'unchanged' ? 1 : clause.status === 'modified' ? clause.similarity : 0), 0)
+
+  return {
+    conformanceScore: standard.length === 0 ? 1 : Math.round((credit / standard.length) * 1000) / 1000,
+    missingClauses: clauses.filter(clause => clause.status === 'removed'),
+    nonStandardClauses: clauses.filter(clause => clause.status === 'modified'),
+    additionalClauses: clauses.filter(clause => clause.status === 'added'),
+    missingSections: data.sections.filter(section => !hasHeading(content, section)),
+  }
+}
+
+// "governingLaw", "governing_law" and "GOVERNING_LAW" all read "Governing Law"
+function headingOf(name: string): string {
+  if ((Object.values(ClauseType) as string[]).includes(name)) {
+    return clauseLabel(name as ClauseType).replace(/\b\w/g, letter => letter.toUpperCase())
+  }
+
+  return name
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim()
+    .replace(/\b\w/g, letter => letter.toUpperCase())
+}
+
+// A line opening with the section name, after any numbering
+function hasHeading(content: string, section: string): boolean {
+  const name = section.trim().split(/\s+/).map(escapeRegExp).join('\\s+')
+  const heading = new RegExp(
+    `^[ \\t]*(?:(?:section|article|clause)\\s+)?(?:[\\dIVXivx]+(?:\\.\\d+)*[.)]?\\s+)?${name}\\b`,
+    'im'
+  )
+  return heading.test(content)
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
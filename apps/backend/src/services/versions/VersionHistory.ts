@@ -0,0 +1,33 @@
+import { DocumentProcessingStatus, DocumentVersion } from '@shared'
+
+export interface StoredVersion extends Omit<DocumentVersion, 'processingStatus' | 'note' | 'comparison'> {
+  processingStatus: string
+  metadata: unknown
+}
+
+export interface VersionComparison {
+  id: string
+  doc1Id: string
+  doc2Id: string
+  similarityScore: number
+}
+
+// Versions newest first, each with its comparison against the version before
+// it. Deleted versions leave gaps, so "before" is the next lower number.
+export function versionHistory(versions: StoredVersion[], comparisons: VersionComparison[]): DocumentVersion[] {
+  const ordered = [...versions].sort((a, b) => b.version - a.version)
+
+  return ordered.map(({ metadata, ...version }, index) => {
+    const previous = ordered[index + 1]
+    const comparison = previous
+      ? comparisons.find(candidate => candidate.doc1Id === previous.id && candidate.doc2Id === version.id)
+      : undefined
+
+    return {
+      ...version,
+      processingStatus: version.processingStatus as DocumentProcessingStatus,
+      note: (metadata as { versionNote?: string } | null)?.versionNote || null,
+      comparison: comparison ? { id: comparison.id, similarityScore: comparison.similarityScore } : null,
+    }
+  })
+}
@@ -24,6 +24,84 @@ export enum DocumentCategory {
   OTHER = 'OTHER'
 }
 
+export enum DocumentProcessingStatus {
+  QUEUED = 'QUEUED',
+  EXTRACTING = 'EXTRACTING',
+  EMBEDDING = 'EMBEDDING',
+  ANALYZING = 'ANALYZING',
+  ANALYZED = 'ANALYZED',
+  FAILED = 'FAILED'
+}
+
+// What to do when an upload's file is already in the workspace; without one
+// the upload is refused with the existing documents to choose from
+export enum DuplicateAction {
+  LINK = 'LINK',
+  VERSION = 'VERSION',
+  UPLOAD = 'UPLOAD'
+}
+
+export enum ChatSessionScope {
+  DOCUMENT = 'DOCUMENT',
+  DOCUMENTS = 'DOCUMENTS',
+  SELECTION = 'SELECTION',
+  WORKSPACE = 'WORKSPACE'
+}
+
+export enum ClauseType {
+  GOVERNING_LAW = 'GOVERNING_LAW',
+  DISPUTE_RESOLUTION = 'DISPUTE_RESOLUTION',
+  INDEMNIFICATION = 'INDEMNIFICATION',
+  LIMITATION_OF_LIABILITY = 'LIMITATION_OF_LIABILITY',
+  TERMINATION = 'TERMINATION',
+  CONFIDENTIALITY = 'CONFIDENTIALITY',
+  ASSIGNMENT = 'ASSIGNMENT',
+  AUTO_RENEWAL = 'AUTO_RENEWAL',
+  PAYMENT_TERMS = 'PAYMENT_TERMS',
+  INTELLECTUAL_PROPERTY = 'INTELLECTUAL_PROPERTY',
+  WARRANTY = 'WARRANTY',
+  FORCE_MAJEURE = 'FORCE_MAJEURE',
+  NON_COMPETE = 'NON_COMPETE',
+  NON_SOLICITATION = 'NON_SOLICITATION',
+  NOTICES = 'NOTICES',
+  DATA_PROTECTION = 'DATA_PROTECTION',
+  INSURANCE = 'INSURANCE'
+}
+
+export enum RiskLevel {
+  LOW = 'LOW',
+  MEDIUM = 'MEDIUM',
+  HIGH = 'HIGH'
+}
+
+export enum ObligationKind {
+  PAYMENT = 'PAYMENT',
+  NOTICE = 'NOTICE',
+  RENEWAL = 'RENEWAL',
+  TERMINATION = 'TERMINATION',
+  DELIVERY = 'DELIVERY',
+  REPORTING = 'REPORTING',
+  OTHER = 'OTHER'
+}
+
+export enum ObligationStatus {
+  OPEN = 'OPEN',
+  COMPLETED = 'COMPLETED',
+  WAIVED = 'WAIVED'
+}
+
+export enum EntityType {
+  PARTY = 'PARTY',
+  SIGNATORY = 'SIGNATORY',
+  MONETARY_AMOUNT = 'MONETARY_AMOUNT',
+  DATE = 'DATE',
+  DURATION = 'DURATION',
+  JURISDICTION = 'JURISDICTION',
+  STATUTE = 'STATUTE',
+  CASE_CITATION = 'CASE_CITATION',
+  OTHER = 'OTHER'
+}
+
 export enum ChatMessageType {
   USER = 'USER',
   ASSISTANT = 'ASSISTANT',
@@ -108,7 +186,97 @@ export const UpdateWorkspaceSchema = z.object({
   settings: z.record(z.any()).optional()
 });
 
+// Playbook Schemas
+// A contract position, recognised when a clause contains any of the phrases
+// (case-insensitive, whitespace-insensitive)
+export const PlaybookPositionSchema = z.object({
+  description: z.string().min(1).max(500),
+  phrases: z.array(z.string().min(1).max(200)).min(1)
+});
+
+export const PlaybookRuleSchema = z.object({
+  clauseType: z.nativeEnum(ClauseType),
+  // A missing clause counts as a high-risk deviation
+  required: z.boolean().default(false),
+  // Relative importance of the rule in the document score
+  weight: z.number().min(0).max(10).default(1),
+  preferred: z.array(PlaybookPositionSchema).default([]),
+  acceptable: z.array(PlaybookPositionSchema).default([]),
+  unacceptable: z.array(PlaybookPositionSchema).default([])
+});
+
+// Stored under Workspace.settings.playbook
+export const PlaybookSchema = z.object({
+  name: z.string().min(1).max(100),
+  rules: z.array(PlaybookRuleSchema).max(50)
+});
+
+// Template Schemas
+// A workspace's standard form, stored in DocumentTemplate.data. The full
+// text is compared when present; otherwise the standard clauses, keyed by
+// clause name ("governingLaw"), stand in for it
+export const TemplateDataSchema = z.object({
+  content: z.string().max(500000).optional(),
+  sections: z.array(z.string().min(1).max(200)).max(100).default([]),
+  requiredFields: z.array(z.string().min(1).max(100)).max(100).default([]),
+  standardClauses: z.record(z.string().max(50000)).default({})
+});
+
+export const DocumentTemplateSchema = z.object({
+  id: z.string().cuid(),
+  workspaceId: z.string().cuid(),
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).nullable(),
+  data: TemplateDataSchema,
+  createdAt: z.date(),
+  updatedAt: z.date()
+});
+
+export const CreateTemplateSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  data: TemplateDataSchema
+});
+
+export const UpdateTemplateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  data: TemplateDataSchema.optional()
+});
+
 // Document Schemas
+// Character range within Document.content
+export const TextRangeSchema = z.object({
+  startOffset: z.number().int().nonnegative(),
+  endOffset: z.number().int().nonnegative()
+});
+
+// Layout of one page of a paginated document (PDFs and scans). Repeated
+// headers, footers and page numbers are stripped from the content.
+export const DocumentPageSchema = TextRangeSchema.extend({
+  page: z.number().int().positive(),
+  // In reading order; headings and tables are paragraphs of their own
+  paragraphs: z.array(TextRangeSchema),
+  headings: z.array(TextRangeSchema.extend({
+    text: z.string(),
+    // 0 for schedules and signature blocks, 1 for articles, deeper for numbered sections
+    level: z.number().int().nonnegative()
+  })),
+  tables: z.array(TextRangeSchema.extend({
+    rows: z.array(z.array(z.string()))
+  }))
+});
+
+// A page with its text, for "page 7, paragraph 3" style addressing
+export const DocumentPageContentSchema = DocumentPageSchema.extend({
+  text: z.string(),
+  paragraphs: z.array(TextRangeSchema.extend({
+    // 1-based within the page
+    index: z.number().int().positive(),
+    text: z.string()
+  }))
+});
+
 export const DocumentSchema = z.object({
   id: z.string().cuid(),
   workspaceId: z.string().cuid(),
@@ -122,7 +290,22 @@ export const DocumentSchema = z.object({
   metadata: z.record(z.any()).optional(),
   confidenceScore: z.number().min(0).max(1).optional(),
   processingTime: z.number().int().positive().optional(),
+  processingStatus: z.nativeEnum(DocumentProcessingStatus).optional(),
+  processingError: z.string().optional(),
+  // 0 (no deviations from the playbook) to 100
+  riskScore: z.number().min(0).max(100).nullable().optional(),
+  riskLevel: z.nativeEnum(RiskLevel).nullable().optional(),
   hash: z.string(),
+  // Versions share the id of the document's first version; only the current
+  // one is listed, searched and used for deadlines
+  versionGroupId: z.string().cuid().nullable().optional(),
+  version: z.number().int().positive().optional(),
+  isCurrentVersion: z.boolean().optional(),
+  // Where each page starts in content; null for documents without pages
+  pageMap: z.array(DocumentPageSchema).nullable().optional(),
+  // The email a document was attached to; attachments are extracted from
+  // uploaded emails as documents of their own
+  parentId: z.string().cuid().nullable().optional(),
   createdAt: z.date(),
   updatedAt: z.date()
 });
@@ -131,7 +314,18 @@ export const CreateDocumentSchema = z.object({
   workspaceId: z.string().cuid(),
   title: z.string().min(1).max(255).optional(),
   category: z.nativeEnum(DocumentCategory).optional(),
-  tags: z.array(z.string()).optional()
+  tags: z.array(z.string()).optional(),
+  onDuplicate: z.nativeEnum(DuplicateAction).optional()
+});
+
+// A document in the workspace with the same file as an upload
+export const DocumentDuplicateSchema = z.object({
+  id: z.string().cuid(),
+  title: z.string(),
+  originalName: z.string(),
+  version: z.number().int().positive(),
+  isCurrentVersion: z.boolean(),
+  createdAt: z.date()
 });
 
 export const UpdateDocumentSchema = z.object({
@@ -141,20 +335,84 @@ export const UpdateDocumentSchema = z.object({
   metadata: z.record(z.any()).optional()
 });
 
+export const CreateDocumentVersionSchema = z.object({
+  // What changed in this draft, shown in the version history
+  note: z.string().max(1000).optional()
+});
+
+export const DocumentVersionSchema = z.object({
+  id: z.string().cuid(),
+  version: z.number().int().positive(),
+  isCurrentVersion: z.boolean(),
+  title: z.string(),
+  originalName: z.string(),
+  processingStatus: z.nativeEnum(DocumentProcessingStatus),
+  note: z.string().nullable(),
+  uploadedBy: z.object({
+    id: z.string().cuid(),
+    email: z.string().email()
+  }),
+  // Automatic comparison against the previous version, once it has been analyzed
+  comparison: z.object({
+    id: z.string().cuid(),
+    similarityScore: z.number().min(0).max(1)
+  }).nullable(),
+  createdAt: z.date()
+});
+
 // Chat Schemas
+// Folder/tag selection for SELECTION sessions: documents carrying any of the
+// tags and, when given, in the category
+export const ChatSessionSelectionSchema = z.object({
+  tags: z.array(z.string().min(1)).min(1).optional(),
+  category: z.nativeEnum(DocumentCategory).optional()
+});
+
 export const ChatSessionSchema = z.object({
   id: z.string().cuid(),
-  documentId: z.string().cuid(),
+  workspaceId: z.string().cuid(),
+  documentId: z.string().cuid().nullable(),
   userId: z.string().cuid(),
+  scope: z.nativeEnum(ChatSessionScope),
+  documentIds: z.array(z.string().cuid()),
+  selection: ChatSessionSelectionSchema.nullable().optional(),
   title: z.string().min(1).max(255),
   context: z.record(z.any()).optional(),
   createdAt: z.date(),
   updatedAt: z.date()
 });
 
+// scope may be omitted: it is inferred from documentIds, selection, documentId
+// or workspaceId, in that order
 export const CreateChatSessionSchema = z.object({
-  documentId: z.string().cuid(),
+  scope: z.nativeEnum(ChatSessionScope).optional(),
+  workspaceId: z.string().cuid().optional(),
+  documentId: z.string().cuid().optional(),
+  documentIds: z.array(z.string().cuid()).min(1).max(100).optional(),
+  selection: ChatSessionSelectionSchema.optional(),
   title: z.string().min(1).max(255).optional()
+}).refine(data => data.documentId || data.documentIds || data.workspaceId, {
+  message: 'A document, document set or workspace is required'
+});
+
+// A cited span of the source document. Offsets index into Document.content and
+// marker is the [n] number used inline in the answer.
+export const ChatCitationSchema = z.object({
+  marker: z.number().int().positive().optional(),
+  documentId: z.string().optional(),
+  documentTitle: z.string().optional(),
+  chunkIndex: z.number().int().nonnegative().optional(),
+  section: z.string().nullable().optional(),
+  pageNumber: z.number().int().positive().optional(),
+  startOffset: z.number().int().nonnegative().optional(),
+  endOffset: z.number().int().nonnegative().optional(),
+  text: z.string(),
+  source: z.string().optional(),
+  // Retrieval relevance of the passage: 1 when every retriever ranked it first
+  confidence: z.number().min(0).max(1).optional(),
+  // False for passages listed with an answer that cites none of them, so
+  // nothing ties them to a claim
+  verified: z.boolean().optional()
 });
 
 export const ChatMessageSchema = z.object({
@@ -163,11 +421,7 @@ export const ChatMessageSchema = z.object({
   type: z.nativeEnum(ChatMessageType),
   content: z.string().min(1),
   metadata: z.record(z.any()).optional(),
-  citations: z.array(z.object({
-    pageNumber: z.number().int().positive().optional(),
-    text: z.string(),
-    confidence: z.number().min(0).max(1).optional()
-  })).optional(),
+  citations: z.array(ChatCitationSchema).optional(),
   confidenceScore: z.number().min(0).max(1).optional(),
   createdAt: z.date()
 });
@@ -178,6 +432,24 @@ export const CreateChatMessageSchema = z.object({
 });
 
 // Comparison Schema
+const ComparedClauseSchema = z.object({
+  title: z.string().nullable(),
+  section: z.string().nullable(),
+  startOffset: z.number().int().nonnegative(),
+  endOffset: z.number().int().nonnegative()
+});
+
+// A clause of one document matched to the clause of the same type in the other
+export const ClauseComparisonSchema = z.object({
+  clauseType: z.nativeEnum(ClauseType),
+  status: z.enum(['unchanged', 'modified', 'added', 'removed']),
+  similarity: z.number().min(0).max(1),
+  doc1Clause: ComparedClauseSchema.nullable(),
+  doc2Clause: ComparedClauseSchema.nullable(),
+  // Reviewer-facing summaries such as "Liability cap raised from 1x to 2x fees"
+  changes: z.array(z.string())
+});
+
 export const DocumentComparisonSchema = z.object({
   id: z.string().cuid(),
   doc1Id: z.string().cuid(),
@@ -187,10 +459,20 @@ export const DocumentComparisonSchema = z.object({
     differences: z.array(z.object({
       type: z.enum(['added', 'removed', 'modified']),
       text: z.string(),
+      previousText: z.string().optional(),
       position: z.object({
         start: z.number().int().nonnegative(),
         end: z.number().int().nonnegative()
       }),
+      doc1Position: z.object({
+        start: z.number().int().nonnegative(),
+        end: z.number().int().nonnegative()
+      }).optional(),
+      doc2Position: z.object({
+        start: z.number().int().nonnegative(),
+        end: z.number().int().nonnegative()
+      }).optional(),
+      granularity: z.enum(['paragraph', 'sentence', 'word']).optional(),
       similarity: z.number().min(0).max(1).optional()
     })),
     commonClauses: z.array(z.object({
@@ -204,7 +486,9 @@ export const DocumentComparisonSchema = z.object({
         start: z.number().int().nonnegative(),
         end: z.number().int().nonnegative()
       })
-    }))
+    })),
+    clauses: z.array(ClauseComparisonSchema).optional(),
+    notableChanges: z.array(z.string()).optional()
   }),
   similarityScore: z.number().min(0).max(1),
   performedById: z.string().cuid(),
@@ -216,6 +500,56 @@ export const CreateComparisonSchema = z.object({
   doc2Id: z.string().cuid()
 });
 
+// Multi-way comparison: one row per clause, one cell per document
+export const ClauseMatrixCellSchema = z.object({
+  clause: ComparedClauseSchema.nullable(),
+  // Cells with the same wording share a variant, numbered from 0 in document order
+  variant: z.number().int().nonnegative().nullable(),
+  // Commercial terms the clause states, such as "2x fees" or "30 days"
+  terms: z.array(z.string()),
+  // Changes from the previous document that has the clause
+  changes: z.array(z.string())
+});
+
+export const ClauseMatrixRowSchema = z.object({
+  clauseType: z.nativeEnum(ClauseType),
+  label: z.string(),
+  // consistent: same wording everywhere; divergent: in every document, worded
+  // differently; partial: missing from some documents
+  status: z.enum(['consistent', 'divergent', 'partial']),
+  cells: z.array(ClauseMatrixCellSchema)
+});
+
+export const ComparisonMatrixSchema = z.object({
+  id: z.string().cuid(),
+  title: z.string().nullable(),
+  performedById: z.string().cuid(),
+  createdAt: z.date(),
+  // Matrix columns, in the order they were given
+  documents: z.array(z.object({
+    id: z.string().cuid(),
+    title: z.string()
+  })),
+  results: z.object({
+    rows: z.array(ClauseMatrixRowSchema),
+    // Pairwise text similarity, indexed like documents
+    documentSimilarity: z.array(z.array(z.number().min(0).max(1))),
+    statistics: z.object({
+      documents: z.number().int(),
+      clauses: z.number().int(),
+      consistent: z.number().int(),
+      divergent: z.number().int(),
+      partial: z.number().int()
+    })
+  })
+});
+
+export const CreateComparisonMatrixSchema = z.object({
+  documentIds: z.array(z.string().cuid()).min(3).max(10)
+    .refine(ids => new Set(ids).size === ids.length, { message: 'Documents must be distinct' }),
+  title: z.string().min(1).max(200).optional()
+});
+
 // Analytics Schemas
 export const AnalyticsMetricsSchema = z.object({
   totalDocuments: z.number().int().nonnegative(),
@@ -239,17 +573,39 @@ export type Workspace = z.infer<typeof WorkspaceSchema>;
 export type CreateWorkspace = z.infer<typeof CreateWorkspaceSchema>;
 export type UpdateWorkspace = z.infer<typeof UpdateWorkspaceSchema>;
 
+export type Playbook = z.infer<typeof PlaybookSchema>;
+export type PlaybookRule = z.infer<typeof PlaybookRuleSchema>;
+export type PlaybookPosition = z.infer<typeof PlaybookPositionSchema>;
+
+export type TemplateData = z.infer<typeof TemplateDataSchema>;
+export type DocumentTemplate = z.infer<typeof DocumentTemplateSchema>;
+export type CreateTemplate = z.infer<typeof CreateTemplateSchema>;
+export type UpdateTemplate = z.infer<typeof UpdateTemplateSchema>;
+
 export type Document = z.infer<typeof DocumentSchema>;
+export type TextRange = z.infer<typeof TextRangeSchema>;
+export type DocumentPage = z.infer<typeof DocumentPageSchema>;
+export type DocumentPageContent = z.infer<typeof DocumentPageContentSchema>;
 export type CreateDocument = z.infer<typeof CreateDocumentSchema>;
+export type DocumentDuplicate = z.infer<typeof DocumentDuplicateSchema>;
 export type UpdateDocument = z.infer<typeof UpdateDocumentSchema>;
+export type CreateDocumentVersion = z.infer<typeof CreateDocumentVersionSchema>;
+export type DocumentVersion = z.infer<typeof DocumentVersionSchema>;
 
 export type ChatSession = z.infer<typeof ChatSessionSchema>;
 export type CreateChatSession = z.infer<typeof CreateChatSessionSchema>;
+export type ChatSessionSelection = z.infer<typeof ChatSessionSelectionSchema>;
 export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+export type ChatCitation = z.infer<typeof ChatCitationSchema>;
 export type CreateChatMessage = z.infer<typeof CreateChatMessageSchema>;
 
 export type DocumentComparison = z.infer<typeof DocumentComparisonSchema>;
+export type ClauseComparison = z.infer<typeof ClauseComparisonSchema>;
 export type CreateComparison = z.infer<typeof CreateComparisonSchema>;
+export type ComparisonMatrix = z.infer<typeof ComparisonMatrixSchema>;
+export type ClauseMatrixRow = z.infer<typeof ClauseMatrixRowSchema>;
+export type ClauseMatrixCell = z.infer<typeof ClauseMatrixCellSchema>;
+export type CreateComparisonMatrix = z.infer<typeof CreateComparisonMatrixSchema>;
 
 export type AnalyticsMetrics = z.infer<typeof AnalyticsMetricsSchema>;
 
@@ -276,16 +632,191 @@ export interface AuthResponse {
   refreshToken: string;
 }
 
+// Stored under Workspace.settings.ai to pick the LLM provider for a workspace
+export interface WorkspaceAISettings {
+  provider?: string;
+  model?: string;
+}
+
+export interface AIProviderInfo {
+  name: string;
+  defaultModel: string;
+  available: boolean;
+}
+
 export interface DocumentAnalysisResult {
   summary: string;
   keyPoints: string[];
-  entities: Array<{
-    text: string;
-    type: string;
-    confidence: number;
-  }>;
+  entities: LegalEntity[];
+  confidence: number;
+  processingTime: number;
+  model?: string;
+  provider?: string;
+  promptVersion?: string;
+  analyzedAt?: string;
+}
+
+export interface DocumentAnalysisRun {
+  model: string;
+  provider: string;
+  promptVersion: string;
+  analyzedAt: string;
   confidence: number;
   processingTime: number;
+  summary: string;
+}
+
+export interface DocumentAnalysisStatus {
+  hasAnalysis: boolean;
+  analysis: DocumentAnalysisResult | null;
+  lastAnalyzed: string | null;
+  history: DocumentAnalysisRun[];
+}
+
+// score only re-rates risk against the workspace playbook, after it changed
+export type DocumentPipelineStage = 'extract' | 'embed' | 'analyze' | 'score';
+
+export interface DocumentProcessingJob {
+  id: string;
+  stage: DocumentPipelineStage;
+  state: 'waiting' | 'active' | 'delayed';
+  attempts: number;
+  maxAttempts: number;
+  enqueuedAt: string;
+  lastError?: string;
+}
+
+export interface DocumentProcessingState {
+  documentId: string;
+  status: DocumentProcessingStatus;
+  error: string | null;
+  jobs: DocumentProcessingJob[];
+}
+
+// A classified clause of a document. Offsets index into Document.content.
+export interface DocumentClause {
+  id: string;
+  documentId: string;
+  type: ClauseType;
+  title: string | null;
+  section: string | null;
+  text: string;
+  startOffset: number;
+  endOffset: number;
+  pageNumber: number | null;
+  confidence: number;
+  extractor: string;
+  createdAt: Date;
+}
+
+// Workspace clause search hit, with the document it was found in
+export interface ClauseSearchResult extends DocumentClause {
+  document: {
+    id: string;
+    title: string;
+  };
+}
+
+// A dated duty found in a contract. Either dueDate is known or trigger
+// describes the event it runs from, e.g. "30 days after receipt of invoice".
+export interface Obligation {
+  id: string;
+  documentId: string;
+  workspaceId: string;
+  kind: ObligationKind;
+  status: ObligationStatus;
+  party: string | null;
+  action: string;
+  dueDate: Date | null;
+  trigger: string | null;
+  text: string;
+  startOffset: number;
+  endOffset: number;
+  pageNumber: number | null;
+  confidence: number;
+  notifiedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  document?: {
+    id: string;
+    title: string;
+  };
+}
+
+export interface UserNotification {
+  id: string;
+  userId: string;
+  workspaceId: string | null;
+  type: string;
+  title: string;
+  message: string;
+  entityType: string | null;
+  entityId: string | null;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+export type EntitySource = 'rules' | 'llm';
+
+export interface EntityMention {
+  text: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+// One entity per distinct normalised value, with every place it is mentioned.
+// value is an ISO date for DATE, a decimal string for MONETARY_AMOUNT and an
+// ISO 8601 duration for DURATION; other types use the cleaned-up name.
+export interface LegalEntity {
+  type: EntityType;
+  text: string;
+  value: string;
+  currency?: string;
+  // Defined role of a party ("Supplier") or the title of a signatory
+  role?: string;
+  businessDays?: boolean;
+  confidence: number;
+  sources: EntitySource[];
+  mentions: EntityMention[];
+}
+
+export type RiskPosition = 'preferred' | 'acceptable' | 'unacceptable' | 'unrecognised' | 'missing';
+
+// A deviation from the playbook. Clause offsets index into Document.content.
+export interface RiskFinding {
+  clauseType: ClauseType;
+  position: RiskPosition;
+  severity: RiskLevel;
+  explanation: string;
+  clauseId?: string;
+  startOffset?: number;
+  endOffset?: number;
+  // Playbook phrase the clause was matched on
+  matchedPhrase?: string;
+}
+
+// Stored under Document.metadata.riskAssessment
+export interface RiskAssessment {
+  score: number;
+  level: RiskLevel;
+  playbook: string;
+  findings: RiskFinding[];
+  assessedAt: string;
+}
+
+// How a document deviates from a workspace template. The template is the
+// first document of the comparison, so its clauses are doc1Clause
+export interface TemplateComparison {
+  template: { id: string; name: string };
+  document: { id: string; title: string };
+  // Share of the template's clauses found in the document, each weighted by
+  // how closely it follows the standard wording
+  conformanceScore: number;
+  missingClauses: ClauseComparison[];
+  nonStandardClauses: ClauseComparison[];
+  additionalClauses: ClauseComparison[];
+  missingSections: string[];
+  comparison: DocumentComparison['results'];
 }
 
 export interface DocumentUploadResult {
@@ -293,6 +824,22 @@ export interface DocumentUploadResult {
   analysis?: DocumentAnalysisResult;
 }
 
+export interface ChatResponse {
+  userMessage: ChatMessage;
+  assistantMessage: ChatMessage;
+}
+
+// Server-sent events emitted by POST /api/chat/messages/stream, in order:
+// the stored user message, the retrieved passages, answer tokens, then either
+// the stored exchange (done), a cancellation or an error.
+export type ChatStreamEvent =
+  | { type: 'message'; data: ChatMessage }
+  | { type: 'citations'; data: ChatCitation[] }
+  | { type: 'token'; data: string }
+  | { type: 'done'; data: ChatResponse }
+  | { type: 'cancelled'; data: { assistantMessage: ChatMessage | null } }
+  | { type: 'error'; data: { code: string; message: string } };
+
 // ===== UTILITY TYPES =====
 export interface PaginationParams {
   page?: number;
@@ -305,6 +852,9 @@ export interface FilterParams {
   tags?: string[];
   dateFrom?: string;
   dateTo?: string;
+  riskLevel?: RiskLevel;
+  minRiskScore?: number;
+  maxRiskScore?: number;
 }
 
 export interface SortParams {
@@ -0,0 +1,177 @@
+import { ProviderRegistry } from '@/services/llm/ProviderRegistry'
+import { LocalProvider } from '@/services/llm/LocalProvider'
+import { LocalEmbeddingProvider } from '@/services/embeddings/LocalEmbeddingProvider'
+import { LLMProvider } from '@/services/llm/types'
+import { splitSentences } from '@/utils/text'
+
+// Mock dependencies
+jest.mock('@/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const unavailableProvider: LLMProvider = {
+  name: 'remote',
+  defaultModel: 'remote-1',
+  confidence: 0.9,
+  isAvailable: () => false,
+  complete: jest.fn(),
+  stream: jest.fn(),
+}
+
+describe('ProviderRegistry', () => {
+  let registry: ProviderRegistry
+
+  beforeEach(() => {
+    registry = new ProviderRegistry(['remote', 'local'])
+    registry.register(unavailableProvider)
+    registry.register(new LocalProvider())
+  })
+
+  it('should fall back to the first available provider', () => {
+    const selection = registry.resolve()
+
+    expect(selection.provider.name).toBe('local')
+    expect(selection.model).toBe('extractive-v1')
+  })
+
+  it('should honour a workspace preference with a model override', () => {
+    const selection = registry.resolve({ provider: 'local', model: 'custom' })
+
+    expect(selection.provider.name).toBe('local')
+    expect(selection.model).toBe('custom')
+  })
+
+  it('should throw when no provider is available', () => {
+    const empty = new ProviderRegistry(['remote'])
+    empty.register(unavailableProvider)
+
+    expect(() => empty.resolve()).toThrow('No AI service available')
+  })
+})
+
+describe('LocalProvider', () => {
+  const provider = new LocalProvider()
+
+  it('should return parseable analysis output', async () => {
+    const content = 'This Agreement is made on January 5, 2024 between Acme Corp. and Beta LLC. ' +
+      'The Supplier shall deliver the goods within thirty days of the purchase order. ' +
+      'The Buyer shall pay $10,000 within sixty days of receipt of a valid invoice.'
+
+    const response = await provider.complete({
+      task: 'analyze',
+      system: '',
+      prompt: '',
+      input: { content },
+    })
+    const result = JSON.parse(response.text)
+
+    expect(response.provider).toBe('local')
+    expect(result.summary).toBeTruthy()
+    expect(result.keyPoints.length).toBeGreaterThan(0)
+    expect(result.entities.map((entity: any) => entity.type)).toEqual(
+      expect.arrayContaining(['amount', 'date'])
+    )
+  })
+
+  it('should answer from matching context sentences', async () => {
+    const response = await provider.complete({
+      task: 'answer',
+      system: '',
+      prompt: '',
+      input: {
+        question: 'When must the buyer pay?',
+        context: 'The Supplier delivers goods. The Buyer shall pay within sixty days.',
+      },
+    })
+
+    expect(response.text).toContain('sixty days')
+  })
+
+  it('should stream the answer in tokens that add up to the full response', async () => {
+    const request = {
+      task: 'answer' as const,
+      system: '',
+      prompt: '',
+      input: {
+        question: 'When must the buyer pay?',
+        context: 'The Supplier delivers goods. The Buyer shall pay within sixty days.',
+      },
+    }
+    const tokens: string[] = []
+
+    const streamed = await provider.stream(request, token => tokens.push(token))
+    const completed = await provider.complete(request)
+
+    expect(tokens.length).toBeGreaterThan(1)
+    expect(tokens.join('')).toBe(completed.text)
+    expect(streamed.text).toBe(completed.text)
+  })
+
+  it('should stop streaming and keep the partial answer when aborted', async () => {
+    const controller = new AbortController()
+    const tokens: string[] = []
+
+    const response = await provider.stream({
+      task: 'answer',
+      system: '',
+      prompt: '',
+      input: {
+        question: 'When must the buyer pay?',
+        context: 'The Supplier delivers goods. The Buyer shall pay within sixty days.',
+      },
+      signal: controller.signal,
+    }, token => {
+      tokens.push(token)
+      if (tokens.length === 2) {
+        controller.abort()
+      }
+    })
+
+    expect(tokens).toHaveLength(2)
+    expect(response.text).toBe(tokens.join(''))
+  })
+})
+
+describe('LocalEmbeddingProvider', () => {
+  const provider = new LocalEmbeddingProvider(256)
+
+  const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0)
+
+  it('should produce normalised vectors of the configured dimension', async () => {
+    const { embedding } = await provider.embed('The lease terminates on the expiry date.')
+
+    expect(embedding).toHaveLength(256)
+    expect(cosine(embedding, embedding)).toBeCloseTo(1, 5)
+  })
+
+  it('should rank related text above unrelated text', async () => {
+    const query = (await provider.embed('When can the agreement be terminated?')).embedding
+    const related = (await provider.embed('Either party may terminate this Agreement on thirty days notice.')).embedding
+    const unrelated = (await provider.embed('Invoices are payable in euros to the nominated bank account.')).embedding
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated))
+  })
+  it('should embed a batch in order', async () => {
+    const texts = ['Fees are payable monthly.', 'This Agreement is governed by English law.']
+
+    const batch = await provider.embedMany(texts)
+
+    expect(batch.map(result => result.embedding)).toEqual([
+      (await provider.embed(texts[0])).embedding,
+      (await provider.embed(texts[1])).embedding,
+    ])
+  })
+})
+
+describe('splitSentences', () => {
+  it('should not split after abbreviations and initials', () => {
+    expect(splitSentences('Notices go to Mr. Smith, attention Dr. J. Doe, as set out in Sec. 4.2. Late fees apply.')).toEqual([
+      'Notices go to Mr. Smith, attention Dr. J. Doe, as set out in Sec. 4.2.',
+      'Late fees apply.',
+    ])
+  })
+})
@@ -0,0 +1,32 @@
+import { describe, it, expect } from '@jest/globals'
+import { analysisHistory, toAnalysisRun } from '@/services/analysis/AnalysisHistory'
+
+describe('AnalysisHistory', () => {
+  it('should fill in model details missing from runs before they were tracked', () => {
+    expect(toAnalysisRun({ summary: 'Supply agreement', confidence: 0.8 }, '2024-06-01T00:00:00.000Z')).toEqual({
+      model: 'unknown',
+      provider: 'unknown',
+      promptVersion: 'unknown',
+      analyzedAt: '2024-06-01T00:00:00.000Z',
+      confidence: 0.8,
+      processingTime: 0,
+      summary: 'Supply agreement',
+    })
+  })
+
+  it('should read the stored history and ignore metadata without one', () => {
+    const run = {
+      model: 'gpt-4o',
+      provider: 'openai',
+      promptVersion: 'v2',
+      analyzedAt: '2024-06-02T00:00:00.000Z',
+      confidence: 0.9,
+      processingTime: 1200,
+      summary: 'Supply agreement',
+    }
+
+    expect(analysisHistory({ analysisHistory: [run] })).toEqual([run])
+    expect(analysisHistory({ analysisHistory: 'corrupt' })).toEqual([])
+    expect(analysisHistory({})).toEqual([])
+  })
+})
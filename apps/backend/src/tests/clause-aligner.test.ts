@@ -0,0 +1,85 @@
+import { ClauseType } from '@shared'
+import { ClauseExtractor } from '@/services/clauses/ClauseExtractor'
+import { ClauseAligner, normalizeWording } from '@/services/clauses/ClauseAligner'
+import { describeClauseChanges } from '@/services/clauses/ClauseChanges'
+
+const ORIGINAL = `SERVICES AGREEMENT
+
+1. PAYMENT TERMS
+The Customer shall pay each invoice within thirty (30) days of receipt. Late amounts bear interest at 1% per month.
+
+2. LIMITATION OF LIABILITY
+Each party's aggregate liability shall not exceed 1x the fees paid in the twelve months preceding the claim.
+
+3. CONFIDENTIALITY
+Each party shall keep the other party's Confidential Information secret and use it only to perform this Agreement.
+
+4. GOVERNING LAW
+This Agreement is governed by the laws of the State of New York.
+
+5. TERMINATION
+Either party may terminate this Agreement for convenience on 30 days' written notice.`
+
+// Sections reordered and renumbered, with one dropped and one new
+const REVISED = `SERVICES AGREEMENT
+
+1. GOVERNING LAW
+This Agreement is governed by the laws of the State of Delaware.
+
+2. CONFIDENTIALITY
+Each party shall keep the other party's Confidential Information secret and use it only to perform this Agreement.
+
+3. PAYMENT TERMS
+The Customer shall pay each invoice within sixty (60) days of receipt. Late amounts bear interest at 1.5% per month.
+
+4. LIMITATION OF LIABILITY
+Each party's aggregate liability shall not exceed 2x the fees paid in the twelve months preceding the claim.
+
+5. INDEMNIFICATION
+The Supplier shall indemnify and hold harmless the Customer against third-party claims.`
+
+describe('ClauseAligner', () => {
+  const extractor = new ClauseExtractor()
+  const comparisons = new ClauseAligner().align(extractor.extract(ORIGINAL), extractor.extract(REVISED))
+  const byType = (type: ClauseType) => comparisons.find(comparison => comparison.clauseType === type)!
+
+  it('should pair clauses regardless of their order and numbering', () => {
+    const confidentiality = byType(ClauseType.CONFIDENTIALITY)
+    expect(confidentiality.status).toBe('unchanged')
+    expect(confidentiality.similarity).toBe(1)
+    expect(confidentiality.doc1Clause!.startOffset).toBeLessThan(ORIGINAL.indexOf('4. GOVERNING LAW'))
+    expect(confidentiality.doc2Clause!.startOffset).toBeLessThan(REVISED.indexOf('3. PAYMENT TERMS'))
+
+    expect(byType(ClauseType.TERMINATION)).toMatchObject({ status: 'removed', doc2Clause: null })
+    expect(byType(ClauseType.INDEMNIFICATION)).toMatchObject({ status: 'added', doc1Clause: null })
+  })
+
+  it('should describe changed commercial terms', () => {
+    expect(byType(ClauseType.LIMITATION_OF_LIABILITY).changes).toEqual(['Liability cap raised from 1x to 2x fees'])
+    expect(byType(ClauseType.GOVERNING_LAW).changes).toEqual(['Governing law changed from New York to Delaware'])
+    expect(byType(ClauseType.PAYMENT_TERMS).changes).toEqual([
+      'Payment rate raised from 1% to 1.5%',
+      'Payment period extended from 30 days to 60 days',
+    ])
+  })
+
+  it('should fall back to a wording note when no term changed', () => {
+    const changes = describeClauseChanges(
+      ClauseType.CONFIDENTIALITY,
+      'Each party shall keep Confidential Information secret.',
+      'Each party shall keep Confidential Information strictly secret.',
+      0.9
+    )
+    expect(changes).toEqual(['Wording changed (90% similar)'])
+  })
+
+  it('should strip section numbering but keep words that look like it', () => {
+    expect(normalizeWording('12.3 Fees are due monthly')).toBe('fees are due monthly')
+    expect(normalizeWording('(b) Fees are due monthly')).toBe('fees are due monthly')
+    expect(normalizeWording('IV. Fees are due monthly')).toBe('fees are due monthly')
+    expect(normalizeWording('Article IV Fees are due monthly')).toBe('fees are due monthly')
+    expect(normalizeWording('A party may assign this Agreement')).toBe('a party may assign this agreement')
+    expect(normalizeWording('I will pay')).toBe('i will pay')
+    expect(normalizeWording('Civic duties apply')).toBe('civic duties apply')
+  })
+})
@@ -0,0 +1,56 @@
+import { ClauseExtractor } from '@/services/clauses/ClauseExtractor'
+import { ClauseType } from '@shared'
+
+describe('ClauseExtractor', () => {
+  const extractor = new ClauseExtractor()
+  const contract = [
+    'MASTER SERVICES AGREEMENT',
+    '',
+    '1. Definitions',
+    '"Confidential Information" means any information disclosed by a party.',
+    '',
+    'ARTICLE 7 TERM AND TERMINATION',
+    '7.1 This Agreement shall automatically renew for successive one-year terms unless either party gives notice of non-renewal.',
+    '7.2 Either party may terminate this Agreement for cause on thirty days written notice.',
+    '',
+    '8. Limitation of Liability',
+    'In no event shall either party be liable for indirect or consequential damages.',
+    '',
+    '9. Miscellaneous',
+    '9.1 This Agreement shall be governed by the laws of the State of New York. Neither party may assign this Agreement without the prior written consent of the other party.',
+  ].join('\n')
+
+  const clauses = extractor.extract(contract)
+  const find = (type: ClauseType) => clauses.find(clause => clause.type === type)
+
+  it('should classify sections by their heading', () => {
+    const liability = find(ClauseType.LIMITATION_OF_LIABILITY)
+
+    expect(liability).toMatchObject({ section: 'Section 8', title: 'Section 8 Limitation of Liability', confidence: 0.9 })
+    expect(liability!.text).toContain('In no event')
+  })
+
+  it('should merge untitled subsections under a matching parent heading', () => {
+    const termination = clauses.filter(clause => clause.type === ClauseType.TERMINATION)
+
+    expect(termination).toHaveLength(1)
+    expect(termination[0].confidence).toBe(0.75)
+    expect(termination[0].text).toContain('7.1')
+    expect(termination[0].text).toContain('7.2')
+  })
+
+  it('should classify sentences by their wording and report exact spans', () => {
+    const governingLaw = find(ClauseType.GOVERNING_LAW)
+    const assignment = find(ClauseType.ASSIGNMENT)
+
+    expect(governingLaw!.text).toBe('9.1 This Agreement shall be governed by the laws of the State of New York.')
+    expect(assignment!.text.startsWith('Neither party may assign')).toBe(true)
+    expect(contract.slice(assignment!.startOffset, assignment!.endOffset)).toBe(assignment!.text)
+    expect(governingLaw!.confidence).toBeLessThan(0.9)
+    expect(find(ClauseType.AUTO_RENEWAL)!.section).toBe('Section 7.1')
+  })
+
+  it('should not classify definitions by their wording', () => {
+    expect(find(ClauseType.CONFIDENTIALITY)).toBeUndefined()
+  })
+})
@@ -0,0 +1,88 @@
+import { ClauseType, ComparisonMatrix } from '@shared'
+import { ClauseExtractor } from '@/services/clauses/ClauseExtractor'
+import { ClauseMatrixBuilder } from '@/services/matrix/ClauseMatrix'
+import { renderMatrixDocx } from '@/services/matrix/DocxMatrix'
+import { renderMatrixHtml } from '@/services/matrix/HtmlMatrix'
+import { renderMatrixPdf } from '@/services/matrix/PdfMatrix'
+
+const CONFIDENTIALITY = 'Each party shall keep the other party\'s Confidential Information secret and use it only to perform this Agreement.'
+
+const VERSIONS = [
+  `1. CONFIDENTIALITY
+${CONFIDENTIALITY}
+
+2. LIMITATION OF LIABILITY
+Each party's aggregate liability shall not exceed 1x the fees paid in the twelve months preceding the claim.
+
+3. TERMINATION
+Either party may terminate this Agreement for convenience on 30 days' written notice.`,
+  `1. LIMITATION OF LIABILITY
+Each party's aggregate liability shall not exceed 2x the fees paid in the twelve months preceding the claim.
+
+2. CONFIDENTIALITY
+${CONFIDENTIALITY}`,
+  `1. CONFIDENTIALITY
+${CONFIDENTIALITY}
+
+2. LIMITATION OF LIABILITY
+Each party's aggregate liability shall not exceed 3x the fees paid in the twelve months preceding the claim.
+
+3. INDEMNIFICATION
+The Supplier shall indemnify and hold harmless the Customer against third-party claims.`,
+]
+
+describe('ClauseMatrixBuilder', () => {
+  const extractor = new ClauseExtractor()
+  const results = new ClauseMatrixBuilder().build(VERSIONS.map(content => ({
+    content,
+    clauses: extractor.extract(content),
+  })))
+  const row = (type: ClauseType) => results.rows.find(candidate => candidate.clauseType === type)!
+
+  it('should follow each clause across versions', () => {
+    expect(row(ClauseType.CONFIDENTIALITY).status).toBe('consistent')
+    expect(row(ClauseType.CONFIDENTIALITY).cells.map(cell => cell.variant)).toEqual([0, 0, 0])
+
+    const liability = row(ClauseType.LIMITATION_OF_LIABILITY)
+    expect(liability.status).toBe('divergent')
+    expect(liability.cells.map(cell => cell.terms)).toEqual([
+      ['1x fees', '12 months'],
+      ['2x fees', '12 months'],
+      ['3x fees', '12 months'],
+    ])
+    expect(liability.cells.map(cell => cell.changes)).toEqual([
+      [],
+      ['Liability cap raised from 1x to 2x fees'],
+      ['Liability cap raised from 2x to 3x fees'],
+    ])
+
+    expect(row(ClauseType.TERMINATION).status).toBe('partial')
+    expect(row(ClauseType.TERMINATION).cells.map(cell => cell.changes)).toEqual([[], ['Termination clause removed'], []])
+    expect(row(ClauseType.INDEMNIFICATION).cells.map(cell => Boolean(cell.clause))).toEqual([false, false, true])
+    expect(row(ClauseType.INDEMNIFICATION).cells[2].changes).toEqual(['Indemnification clause added'])
+
+    expect(results.statistics).toEqual({ documents: 3, clauses: 4, consistent: 1, divergent: 1, partial: 2 })
+    expect(results.documentSimilarity[0][0]).toBe(1)
+    expect(results.documentSimilarity[0][2]).toBe(results.documentSimilarity[2][0])
+  })
+
+  it('should export the matrix as HTML, DOCX and PDF', async () => {
+    const matrix: ComparisonMatrix = {
+      id: 'clxmatrix0000000000000000',
+      title: 'MSA negotiation',
+      performedById: 'clxuser00000000000000000',
+      createdAt: new Date('2025-03-01T00:00:00Z'),
+      documents: VERSIONS.map((_, index) => ({ id: `clxdoc${index}`, title: `MSA v${index + 1}` })),
+      results,
+    }
+
+    const html = renderMatrixHtml(matrix, 'reviewer@example.com')
+    expect(html).toContain('<th>MSA v1</th><th>MSA v2</th><th>MSA v3</th>')
+    expect(html).toContain('<th>Limitation of liability<span class="status">divergent</span></th><td>Wording A<br>1x fees, 12 months</td>')
+    expect(html).toContain('<td class="variant">Wording B<br>2x fees, 12 months<br>Liability cap raised from 1x to 2x fees</td>')
+    expect(html).toContain('<td class="missing">Not present<br>Termination clause removed</td>')
+
+    expect((await renderMatrixDocx(matrix, 'reviewer@example.com')).subarray(0, 2).toString()).toBe('PK')
+    expect((await renderMatrixPdf(matrix, 'reviewer@example.com')).subarray(0, 5).toString()).toBe('%PDF-')
+  })
+})
@@ -0,0 +1,138 @@
+import { prisma } from '@/index'
+import { ConversationMemory, splitHistory } from '@/services/chat/ConversationMemory'
+import { LocalProvider } from '@/services/llm/LocalProvider'
+
+jest.mock('@/index', () => ({
+  prisma: {
+    chatMessage: {
+      findMany: jest.fn(),
+    },
+    chatSession: {
+      update: jest.fn(),
+    },
+    workspace: {
+      findUnique: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const message = (type: 'USER' | 'ASSISTANT', content: string, minute: number) => ({
+  type,
+  content,
+  metadata: {},
+  createdAt: new Date(Date.UTC(2024, 0, 1, 10, minute)),
+})
+
+describe('splitHistory', () => {
+  it('should keep the most recent turns that fit the budget', () => {
+    const messages = [
+      { content: 'a'.repeat(400) },
+      { content: 'b'.repeat(200) },
+      { content: 'c'.repeat(200) },
+    ]
+
+    const { older, recent } = splitHistory(messages, 120)
+
+    expect(recent.map(turn => turn.content[0])).toEqual(['b', 'c'])
+    expect(older.map(turn => turn.content[0])).toEqual(['a'])
+  })
+
+  it('should shorten the latest turn rather than drop it', () => {
+    const { older, recent } = splitHistory([{ content: 'x'.repeat(1000) }], 50)
+
+    expect(older).toHaveLength(0)
+    expect(recent[0].content).toHaveLength(200)
+  })
+})
+
+describe('ConversationMemory', () => {
+  const originalBudget = process.env.CHAT_HISTORY_TOKENS
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    process.env.CHAT_HISTORY_TOKENS = '10'
+    jest.mocked(prisma.workspace.findUnique).mockResolvedValue(null as any)
+  })
+
+  afterAll(() => {
+    process.env.CHAT_HISTORY_TOKENS = originalBudget
+  })
+
+  it('should summarise turns that no longer fit and store the summary on the session', async () => {
+    jest.mocked(prisma.chatMessage.findMany).mockResolvedValue([
+      message('USER', 'What is the payment schedule under the services agreement?', 1),
+      message('ASSISTANT', 'Invoices are payable within thirty days [1]. Late payments accrue interest.', 2),
+      message('USER', 'Who can terminate?', 3),
+    ] as any)
+
+    const session = { id: 'session-1', workspaceId: 'workspace-1', context: { documentTitle: 'MSA' } }
+    const conversation = await new ConversationMemory().load(session, 'current-message')
+
+    expect(conversation.turns).toEqual([{ role: 'user', content: 'Who can terminate?' }])
+    expect(conversation.summary).toContain('payment schedule')
+    expect(conversation.summary).not.toContain('[1]')
+
+    const update = (prisma.chatSession.update as jest.Mock).mock.calls[0][0]
+    expect(update.data.context).toMatchObject({
+      documentTitle: 'MSA',
+      memory: {
+        summary: conversation.summary,
+        summarizedUntil: '2024-01-01T10:02:00.000Z',
+        summarizedMessages: 2,
+      },
+    })
+  })
+
+  it('should only load messages newer than the stored summary', async () => {
+    jest.mocked(prisma.chatMessage.findMany).mockResolvedValue([])
+
+    const session = {
+      id: 'session-1',
+      workspaceId: 'workspace-1',
+      context: { memory: { summary: 'User asked: about fees', summarizedUntil: '2024-01-01T10:02:00.000Z', summarizedMessages: 2 } },
+    }
+    const conversation = await new ConversationMemory().load(session, 'current-message')
+
+    expect(conversation).toEqual({ summary: 'User asked: about fees', turns: [] })
+    expect((prisma.chatMessage.findMany as jest.Mock).mock.calls[0][0].where.createdAt).toEqual({
+      gt: new Date('2024-01-01T10:02:00.000Z'),
+    })
+    expect(prisma.chatSession.update).not.toHaveBeenCalled()
+  })
+})
+
+describe('LocalProvider question rewriting', () => {
+  const provider = new LocalProvider()
+  const turns = [
+    { role: 'user' as const, content: 'What is the notice period in the Acme NDA?' },
+    { role: 'assistant' as const, content: 'Thirty days.' },
+  ]
+
+  const rewrite = async (question: string) => (await provider.complete({
+    task: 'rewrite',
+    system: '',
+    prompt: '',
+    input: { question, turns },
+  })).text
+
+  it('should carry the previous subject into a follow-up', async () => {
+    const rewritten = await rewrite('What about termination?')
+
+    expect(rewritten).toContain('termination')
+    expect(rewritten).toContain('acme')
+  })
+
+  it('should leave standalone questions unchanged', async () => {
+    const question = 'Which governing law applies to the supply agreement with Beta Corp?'
+
+    expect(await rewrite(question)).toBe(question)
+  })
+})
@@ -0,0 +1,109 @@
+import { diffSequences } from '@/services/diff/SequenceDiff'
+import { DiffEngine } from '@/services/diff/DiffEngine'
+
+describe('diffSequences', () => {
+  it('should produce edit scripts that turn one sequence into the other', () => {
+    let seed = 7
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648
+      return seed / 2147483648
+    }
+    const sequence = (alphabet: string) =>
+      Array.from({ length: Math.floor(random() * 30) }, () => alphabet[Math.floor(random() * alphabet.length)])
+
+    for (let run = 0; run < 200; run++) {
+      const a = sequence('abcde')
+      const b = sequence('abcdef')
+      const rebuilt: string[] = []
+      let aPos = 0
+      let bPos = 0
+
+      for (const op of diffSequences(a, b)) {
+        expect([op.aStart, op.bStart]).toEqual([aPos, bPos])
+        if (op.type === 'equal') {
+          expect(a.slice(op.aStart, op.aEnd)).toEqual(b.slice(op.bStart, op.bEnd))
+          rebuilt.push(...a.slice(op.aStart, op.aEnd))
+        } else if (op.type === 'insert') {
+          rebuilt.push(...b.slice(op.bStart, op.bEnd))
+        }
+        aPos = op.aEnd
+        bPos = op.bEnd
+      }
+
+      expect([aPos, bPos]).toEqual([a.length, b.length])
+      expect(rebuilt).toEqual(b)
+    }
+  })
+
+  it('should find a minimal diff', () => {
+    const ops = diffSequences('abcabba'.split(''), 'cbabac'.split(''))
+    const edits = ops
+      .filter(op => op.type !== 'equal')
+      .reduce((total, op) => total + (op.aEnd - op.aStart) + (op.bEnd - op.bStart), 0)
+    expect(edits).toBe(5)
+  })
+})
+
+describe('DiffEngine', () => {
+  const engine = new DiffEngine()
+  const before = [
+    'MASTER AGREEMENT',
+    '1. Payment. The Customer shall pay all invoices within thirty (30) days. Late payments accrue interest.',
+    '2. Term. This Agreement lasts two years.',
+    '3. Confidentiality. Each party keeps the other party\'s information secret.',
+  ].join('\n\n')
+  const after = [
+    'MASTER AGREEMENT',
+    '1. Payment. The Customer shall pay all undisputed invoices within sixty (60) days. Late payments accrue interest.',
+    '3. Confidentiality. Each party keeps the other party\'s information secret.',
+    '4. Audit. The Supplier may audit the Customer once a year.',
+  ].join('\n\n')
+
+  it('should report word edits inside changed paragraphs with offsets in both documents', () => {
+    const result = engine.diff(before, after)
+
+    expect(result.differences.map(change => [change.type, change.granularity, change.previousText, change.text])).toEqual([
+      ['added', 'word', undefined, 'undisputed'],
+      ['modified', 'word', 'thirty', 'sixty'],
+      ['modified', 'word', '30', '60'],
+      ['removed', 'paragraph', undefined, '2. Term. This Agreement lasts two years.'],
+      ['added', 'paragraph', undefined, '4. Audit. The Supplier may audit the Customer once a year.'],
+    ])
+
+    for (const change of result.differences) {
+      const text1 = before.slice(change.doc1Position.start, change.doc1Position.end)
+      const text2 = after.slice(change.doc2Position.start, change.doc2Position.end)
+      expect(text1).toBe(change.type === 'added' ? '' : change.previousText ?? change.text)
+      expect(text2).toBe(change.type === 'removed' ? '' : change.text)
+    }
+
+    expect(result.commonClauses.map(clause => clause.text)).toEqual([
+      'MASTER AGREEMENT',
+      '3. Confidentiality. Each party keeps the other party\'s information secret.',
+    ])
+  })
+
+  it('should score similarity by edit distance', () => {
+    expect(engine.diff(before, before).similarityScore).toBe(1)
+    expect(engine.diff(before, before.replace(/\n\n/g, '\n\n  ')).differences).toHaveLength(0)
+
+    const result = engine.diff(before, after)
+    const { wordsAdded, wordsRemoved, wordsUnchanged } = result.statistics
+    expect(result.similarityScore).toBeCloseTo((2 * wordsUnchanged) / (2 * wordsUnchanged + wordsAdded + wordsRemoved), 3)
+    expect(result.similarityScore).toBeGreaterThan(0.6)
+    expect(result.similarityScore).toBeLessThan(1)
+
+    // Reordering every word keeps the vocabulary but not the text
+    const shuffled = before.split(/\s+/).reverse().join(' ')
+    expect(engine.diff(before, shuffled).similarityScore).toBeLessThan(0.5)
+  })
+
+  it('should leave large blocks of replaced paragraphs unpaired', () => {
+    const block = (word: string) => Array.from({ length: 120 }, (_, i) => `Clause ${i} covers ${word} matters.`)
+    const result = engine.diff(['Preamble', ...block('supply')].join('\n\n'), ['Preamble', ...block('service')].join('\n\n'))
+
+    expect(result.differences).toHaveLength(240)
+    expect(result.differences.every(change => change.granularity === 'paragraph')).toBe(true)
+    expect(result.differences.slice(0, 120).every(change => change.type === 'removed')).toBe(true)
+  })
+})
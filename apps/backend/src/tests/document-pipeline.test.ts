@@ -0,0 +1,230 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals'
+import { prisma } from '@/index'
+import { Job, JobHandler, JobFailureHandler } from '@/services/JobQueue'
+import { DocumentPipelineService, DocumentJobData } from '@/services/DocumentPipelineService'
+import { DocumentProcessingStatus } from '@shared'
+import { logger } from '@/utils/logger'
+
+jest.mock('@/index', () => ({
+  prisma: {
+    document: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}))
+
+// The module creates its shared pipeline on import, so the fakes live in the
+// factories and are reached through jest.requireMock
+jest.mock('@/services/JobQueue', () => {
+  const queues: unknown[] = []
+  class FakeQueue {
+    handler: unknown
+    onFailed: unknown
+    enqueue = jest.fn(async () => ({}))
+    getJobs = jest.fn(async () => [])
+
+    constructor() {
+      queues.push(this)
+    }
+
+    process(handler: unknown, onFailed: unknown) {
+      this.handler = handler
+      this.onFailed = onFailed
+    }
+  }
+  return { JobQueue: FakeQueue, queues }
+})
+
+jest.mock('@/services/StorageService', () => {
+  const storage = {
+    getFile: jest.fn(async () => ({ buffer: Buffer.from('From: a'), mimeType: 'message/rfc822', filename: 'a.eml' })),
+    generateHash: jest.fn((buffer: Buffer) => `hash-${buffer.toString()}`),
+    saveFile: jest.fn(async (buffer: Buffer) => ({ filename: 'stored.txt', size: buffer.length, hash: `hash-${buffer.toString()}` })),
+    releaseFile: jest.fn(async () => undefined),
+  }
+  return { StorageService: jest.fn(() => storage), storage }
+})
+jest.mock('@/services/DocumentProcessor', () => {
+  const processor = { extractText: jest.fn() }
+  return { DocumentProcessor: jest.fn(() => processor), processor }
+})
+jest.mock('@/services/VectorService', () => {
+  const vector = { createEmbeddings: jest.fn(async () => undefined), findStaleDocuments: jest.fn(async () => []) }
+  return { VectorService: jest.fn(() => vector), vector }
+})
+jest.mock('@/services/AIService', () => ({ AIService: jest.fn(() => ({})) }))
+jest.mock('@/services/ClauseService', () => ({ ClauseService: jest.fn(() => ({})) }))
+jest.mock('@/services/RiskService', () => {
+  const risk = { assessDocument: jest.fn(async () => undefined) }
+  return { RiskService: jest.fn(() => risk), risk }
+})
+jest.mock('@/services/ObligationService', () => ({ ObligationService: jest.fn(() => ({})) }))
+jest.mock('@/services/ComparisonService', () => ({ ComparisonService: jest.fn(() => ({})) }))
+
+jest.mock('@/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const job = (name: string, data: DocumentJobData): Job<DocumentJobData> => ({
+  id: 'job-1',
+  name,
+  data,
+  attempts: 1,
+  maxAttempts: 3,
+  enqueuedAt: new Date().toISOString(),
+})
+
+const email = {
+  id: 'email-1',
+  workspaceId: 'workspace-1',
+  uploadedById: 'user-1',
+  originalName: 'nda.eml',
+  mimeType: 'message/rfc822',
+  category: 'CONTRACT',
+  tags: null,
+  metadata: { filename: 'stored.eml' },
+  content: 'Subject: NDA',
+  pageMap: null,
+}
+
+interface FakeQueue {
+  handler: JobHandler<DocumentJobData>
+  onFailed: JobFailureHandler<DocumentJobData>
+  enqueue: jest.Mock
+}
+
+const { queues } = jest.requireMock<{ queues: FakeQueue[] }>('@/services/JobQueue')
+const { processor } = jest.requireMock<{ processor: { extractText: jest.Mock } }>('@/services/DocumentProcessor')
+const { risk } = jest.requireMock<{ risk: { assessDocument: jest.Mock } }>('@/services/RiskService')
+const { vector } = jest.requireMock<{ vector: { createEmbeddings: jest.Mock } }>('@/services/VectorService')
+
+describe('DocumentPipelineService', () => {
+  let pipeline: DocumentPipelineService
+  let queue: FakeQueue
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    pipeline = new DocumentPipelineService()
+    queue = queues[queues.length - 1]
+
+    jest.mocked(prisma.document.findUnique).mockResolvedValue(email as never)
+    jest.mocked(prisma.document.findFirst).mockResolvedValue(null as never)
+    jest.mocked(prisma.document.create).mockImplementation((async () => ({ id: 'child-1' })) as never)
+  })
+
+  it('should queue the extract stage and mark the document queued', async () => {
+    await pipeline.enqueue('doc-1')
+
+    expect(queue.enqueue).toHaveBeenCalledWith('extract', { documentId: 'doc-1' }, { maxAttempts: 3 })
+    expect(prisma.document.update).toHaveBeenCalledWith({
+      where: { id: 'doc-1' },
+      data: { processingStatus: DocumentProcessingStatus.QUEUED, processingError: null },
+    })
+  })
+
+  it('should run a stage and queue the next one', async () => {
+    await queue.handler(job('embed', { documentId: 'email-1' }))
+
+    expect(vector.createEmbeddings).toHaveBeenCalledWith('email-1', 'Subject: NDA', undefined)
+    expect(prisma.document.update).toHaveBeenCalledWith({
+      where: { id: 'email-1' },
+      data: { processingStatus: DocumentProcessingStatus.EMBEDDING, processingError: null },
+    })
+    expect(queue.enqueue).toHaveBeenCalledWith('analyze', { documentId: 'email-1' }, { maxAttempts: 3 })
+  })
+
+  it('should not continue or touch the status after a single-stage job', async () => {
+    await queue.handler(job('embed', { documentId: 'email-1', single: true }))
+
+    expect(vector.createEmbeddings).toHaveBeenCalled()
+    expect(prisma.document.update).not.toHaveBeenCalled()
+    expect(queue.enqueue).not.toHaveBeenCalled()
+  })
+
+  it('should queue re-scoring only for analyzed documents of a workspace', async () => {
+    jest.mocked(prisma.document.findMany).mockResolvedValue([{ id: 'doc-1' }, { id: 'doc-2' }] as never)
+
+    expect(await pipeline.rescoreWorkspace('workspace-1')).toBe(2)
+
+    expect(prisma.document.findMany).toHaveBeenCalledWith({
+      where: { workspaceId: 'workspace-1', processingStatus: DocumentProcessingStatus.ANALYZED },
+      select: { id: true },
+    })
+    expect(queue.enqueue).toHaveBeenCalledWith('score', { documentId: 'doc-2', single: true }, { maxAttempts: 3 })
+  })
+
+  it('should re-score a document without touching its processing status', async () => {
+    await queue.handler(job('score', { documentId: 'email-1', single: true }))
+
+    expect(risk.assessDocument).toHaveBeenCalledWith('email-1')
+    expect(prisma.document.update).not.toHaveBeenCalled()
+    expect(queue.enqueue).not.toHaveBeenCalled()
+  })
+
+  it('should skip jobs of documents deleted while they waited', async () => {
+    jest.mocked(prisma.document.findUnique).mockResolvedValue(null as never)
+
+    await queue.handler(job('embed', { documentId: 'gone' }))
+
+    expect(vector.createEmbeddings).not.toHaveBeenCalled()
+    expect(queue.enqueue).not.toHaveBeenCalled()
+  })
+
+  it('should mark the document failed once the job runs out of attempts', async () => {
+    await queue.onFailed({ ...job('analyze', { documentId: 'doc-1' }), lastError: 'Model unavailable' }, new Error())
+
+    expect(prisma.document.updateMany).toHaveBeenCalledWith({
+      where: { id: 'doc-1' },
+      data: { processingStatus: DocumentProcessingStatus.FAILED, processingError: 'analyze failed: Model unavailable' },
+    })
+  })
+
+  it('should leave the processing status alone when a maintenance job fails', async () => {
+    await queue.onFailed({ ...job('embed', { documentId: 'doc-1', single: true }), lastError: 'Model unavailable' }, new Error())
+    await queue.onFailed({ ...job('score', { documentId: 'doc-1', single: true }), lastError: 'Playbook invalid' }, new Error())
+
+    expect(prisma.document.updateMany).not.toHaveBeenCalled()
+    expect(logger.error).toHaveBeenCalledWith('embed failed for document doc-1: Model unavailable')
+    expect(logger.error).toHaveBeenCalledWith('score failed for document doc-1: Playbook invalid')
+  })
+
+  it('should add supported email attachments as child documents once', async () => {
+    processor.extractText.mockResolvedValue({
+      text: 'Subject: NDA',
+      confidence: 1,
+      metadata: { wordCount: 2, charCount: 12 },
+      attachments: [
+        { filename: 'nda.txt', content: Buffer.from('Confidentiality') },
+        { filename: 'already.txt', content: Buffer.from('Added before') },
+        { filename: 'tool.exe', content: Buffer.from([0x4d, 0x5a, 0x00, 0x00]) },
+      ],
+    } as never)
+    jest.mocked(prisma.document.findFirst).mockImplementation((async ({ where }: { where: { hash: string } }) =>
+      where.hash === 'hash-Added before' ? { id: 'child-0' } : null) as never)
+
+    await queue.handler(job('extract', { documentId: 'email-1' }))
+
+    expect(prisma.document.create).toHaveBeenCalledTimes(1)
+    expect(prisma.document.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        title: 'nda.txt',
+        mimeType: 'text/plain',
+        parentId: 'email-1',
+        workspaceId: 'workspace-1',
+        tags: [],
+        processingStatus: DocumentProcessingStatus.QUEUED,
+      }),
+    })
+    expect(queue.enqueue).toHaveBeenCalledWith('extract', { documentId: 'child-1' }, { maxAttempts: 3 })
+    expect(queue.enqueue).toHaveBeenCalledWith('embed', { documentId: 'email-1' }, { maxAttempts: 3 })
+  })
+})
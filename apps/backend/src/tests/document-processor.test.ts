@@ -43,6 +43,36 @@ describe('DocumentProcessor', () => {
     })
   })
 
+  describe('chunkStructured', () => {
+    const contract = [
+      'ARTICLE VII TERMINATION',
+      '7.3 Notice. Either party may terminate under Sec. 4.2 on 30 days notice. Notice must be in writing.',
+      '\fSCHEDULE A - Services',
+      'The Supplier will provide support under 15 U.S.C. Section 1 as required.',
+    ].join('\n')
+
+    it('should keep the heading path, page and offsets of each chunk', () => {
+      const chunks = processor.chunkStructured(contract)
+
+      expect(chunks).toHaveLength(2)
+      expect(chunks[0].metadata.headingPath).toEqual(['Article VII TERMINATION', 'Section 7.3 Notice'])
+      expect(chunks[0].metadata.section).toBe('Section 7.3')
+      expect(chunks[1].metadata.section).toBe('Schedule A')
+      expect(chunks[1].metadata.page).toBe(2)
+
+      for (const chunk of chunks) {
+        expect(contract.slice(chunk.metadata.startOffset, chunk.metadata.endOffset)).toBe(chunk.content)
+      }
+    })
+
+    it('should not split sentences on legal abbreviations', () => {
+      const chunks = processor.chunkStructured(contract, { chunkSize: 90, overlapSize: 0 })
+
+      expect(chunks.some(chunk => chunk.content.includes('Sec. 4.2 on 30 days'))).toBe(true)
+      expect(chunks.some(chunk => chunk.content.includes('15 U.S.C. Section 1'))).toBe(true)
+    })
+  })
+
   describe('extractKeywords', () => {
     it('should extract keywords from text', () => {
       const text = 'legal document contract agreement party obligations terms conditions'
@@ -0,0 +1,80 @@
+import { EntityExtractor } from '@/services/entities/EntityExtractor'
+import { normalizeDuration, normalizeMoney } from '@/services/entities/normalizers'
+import { EntityType } from '@shared'
+
+describe('EntityExtractor', () => {
+  const extractor = new EntityExtractor()
+  const contract = [
+    'This Agreement is entered into on January 15, 2024 between Acme Corp., a Delaware corporation ("Supplier"), and Beta Holdings LLC ("Customer").',
+    '',
+    'The Customer shall pay $1.5 million within thirty (30) days after receipt of an invoice, and USD 250,000 within 10 business days of 15 March 2024.',
+    'Each party shall comply with the Foreign Corrupt Practices Act of 1977 and 15 U.S.C. § 78dd-1. See Hadley v. Baxendale (1854) 9 Exch 341.',
+    'This Agreement shall be governed by the laws of the State of New York. Acme Corp shall give notice on 2024-01-15.',
+    '',
+    'BETA HOLDINGS LLC',
+    'By: Jane Smith',
+    'Title: Chief Executive Officer',
+  ].join('\n')
+
+  const find = (entities: ReturnType<EntityExtractor['extract']>, type: EntityType, value: string) =>
+    entities.find(entity => entity.type === type && entity.value === value)
+
+  it('should normalise values and keeps the defined role of each party', () => {
+    const entities = extractor.extract(contract)
+
+    expect(find(entities, EntityType.PARTY, 'Acme Corp.')?.role).toBe('Supplier')
+    expect(find(entities, EntityType.PARTY, 'Beta Holdings LLC')?.role).toBe('Customer')
+    expect(find(entities, EntityType.MONETARY_AMOUNT, '1500000.00')?.currency).toBe('USD')
+    expect(find(entities, EntityType.MONETARY_AMOUNT, '250000.00')).toBeDefined()
+    expect(find(entities, EntityType.DURATION, 'P10D')?.businessDays).toBe(true)
+    expect(find(entities, EntityType.DATE, '2024-03-15')).toBeDefined()
+    expect(find(entities, EntityType.JURISDICTION, 'New York')).toBeDefined()
+    expect(find(entities, EntityType.STATUTE, 'Foreign Corrupt Practices Act of 1977')).toBeDefined()
+    expect(find(entities, EntityType.STATUTE, '15 U.S.C. § 78dd-1')).toBeDefined()
+    expect(find(entities, EntityType.CASE_CITATION, 'Hadley v. Baxendale (1854) 9 Exch 341')).toBeDefined()
+    expect(find(entities, EntityType.SIGNATORY, 'Jane Smith')?.role).toBe('Chief Executive Officer')
+  })
+
+  it('should deduplicate mentions of the same entity', () => {
+    const entities = extractor.extract(contract)
+
+    const date = find(entities, EntityType.DATE, '2024-01-15')!
+    expect(date.mentions.map(mention => mention.text)).toEqual(['January 15, 2024', '2024-01-15'])
+
+    const acme = entities.filter(entity => entity.type === EntityType.PARTY && entity.value.startsWith('Acme'))
+    expect(acme).toHaveLength(1)
+    expect(acme[0].mentions).toHaveLength(2)
+    for (const mention of acme[0].mentions) {
+      expect(contract.slice(mention.startOffset, mention.endOffset)).toBe(mention.text)
+    }
+  })
+
+  it('should merge model entities into the rule-based ones', () => {
+    const entities = extractor.extract(contract, [
+      { text: '$1.5 million', type: 'amount', confidence: 0.9 },
+      { text: 'Jane Smith', type: 'person', confidence: 0.9 },
+      { text: 'thirty days', type: 'Duration', confidence: 0.8 },
+      { text: 'next Tuesday', type: 'date', confidence: 0.9 },
+    ])
+
+    const amount = find(entities, EntityType.MONETARY_AMOUNT, '1500000.00')!
+    expect(amount.sources).toEqual(['rules', 'llm'])
+    expect(amount.confidence).toBeGreaterThan(0.9)
+
+    expect(find(entities, EntityType.SIGNATORY, 'Jane Smith')?.sources).toEqual(['rules', 'llm'])
+    expect(entities.filter(entity => entity.value === 'Jane Smith')).toHaveLength(1)
+    expect(find(entities, EntityType.DURATION, 'P30D')?.sources).toEqual(['rules', 'llm'])
+    // Dates a model reports that cannot be normalised are dropped
+    expect(entities.some(entity => entity.text === 'next Tuesday')).toBe(false)
+  })
+})
+
+describe('entity normalizers', () => {
+  it('should normalise amounts and durations', () => {
+    expect(normalizeMoney('€2,000.50')).toEqual({ amount: '2000.50', currency: 'EUR' })
+    expect(normalizeMoney('3 million pounds')).toEqual({ amount: '3000000.00', currency: 'GBP' })
+    expect(normalizeMoney('ten dollars')).toBeNull()
+    expect(normalizeDuration('two (2) years')).toEqual({ value: 'P2Y', businessDays: false })
+    expect(normalizeDuration('5 business days')).toEqual({ value: 'P5D', businessDays: true })
+  })
+})
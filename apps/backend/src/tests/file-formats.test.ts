@@ -0,0 +1,169 @@
+import { describe, it, expect, jest } from '@jest/globals'
+import JSZip from 'jszip'
+import { DocumentProcessor } from '@/services/DocumentProcessor'
+import { detectFileType } from '@/services/formats/FileType'
+import { rtfToText } from '@/services/formats/RtfText'
+import { odtToText } from '@/services/formats/OdtText'
+import { htmlToText, markdownToText } from '@/services/formats/MarkupText'
+import { parseEml } from '@/services/formats/EmailMessage'
+
+jest.mock('@/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const ODT = 'application/vnd.oasis.opendocument.text'
+
+function odt(body: string): Promise<Buffer> {
+  const zip = new JSZip()
+  zip.file('mimetype', ODT)
+  zip.file('content.xml', [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<office:document-content',
+    ' xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+    ' xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+    ' xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0">',
+    `<office:body><office:text>${body}</office:text></office:body>`,
+    '</office:document-content>',
+  ].join(''))
+  return zip.generateAsync({ type: 'nodebuffer' })
+}
+
+const EMAIL = [
+  'From: Jane Roe <jane@example.com>',
+  'To: legal@example.com',
+  'Subject: Signed NDA',
+  'Date: Mon, 01 Jul 2024 09:30:00 +0000',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="b1"',
+  '',
+  '--b1',
+  'Content-Type: text/plain; charset=utf-8',
+  '',
+  'Please find the signed agreement attached.',
+  '--b1',
+  'Content-Type: text/plain; name="nda.txt"',
+  'Content-Disposition: attachment; filename="nda.txt"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from('1. Confidentiality. The Recipient shall keep all information confidential.').toString('base64'),
+  '--b1--',
+  '',
+].join('\r\n')
+
+describe('detectFileType', () => {
+  it('should detect types from the content and ignore misleading extensions', async () => {
+    expect(await detectFileType(Buffer.from('%PDF-1.7\n'), 'contract.docx')).toBe('application/pdf')
+    expect(await detectFileType(Buffer.from('{\\rtf1\\ansi Hello}'), 'contract.txt')).toBe('application/rtf')
+    expect(await detectFileType(Buffer.from('<!DOCTYPE html><html><body>Hi</body></html>'), 'a.txt')).toBe('text/html')
+    expect(await detectFileType(Buffer.from(EMAIL), 'message.txt')).toBe('message/rfc822')
+  })
+
+  it('should tell Markdown from plain text by extension only', async () => {
+    expect(await detectFileType(Buffer.from('# 1. Definitions'), 'terms.md')).toBe('text/markdown')
+    expect(await detectFileType(Buffer.from('# 1. Definitions'), 'terms.txt')).toBe('text/plain')
+    expect(await detectFileType(Buffer.from('From the date of signature: the term starts'), 'a.txt')).toBe('text/plain')
+  })
+
+  it('should look inside ZIP archives for DOCX and ODT', async () => {
+    const docx = new JSZip()
+    docx.file('word/document.xml', '<w:document/>')
+
+    expect(await detectFileType(await docx.generateAsync({ type: 'nodebuffer' }), 'a.zip'))
+      .toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document')
+    expect(await detectFileType(await odt('<text:p>Hi</text:p>'), 'a.zip')).toBe(ODT)
+  })
+
+  it('should return octet-stream for binary content it does not know', async () => {
+    const other = new JSZip()
+    other.file('readme.txt', 'Hi')
+
+    expect(await detectFileType(Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x00, 0x01]), 'a.pdf')).toBe('application/octet-stream')
+    expect(await detectFileType(await other.generateAsync({ type: 'nodebuffer' }), 'a.docx')).toBe('application/octet-stream')
+  })
+})
+
+describe('rtfToText', () => {
+  it('should keep body text and decode escapes while dropping headers and field instructions', () => {
+    const rtf = [
+      '{\\rtf1\\ansi\\ansicpg1252\\deff0{\\fonttbl{\\f0 Times;}}{\\colortbl;\\red0\\green0\\blue0;}',
+      '{\\header Confidential}',
+      '\\pard 1. Caf\\\'e9 Services\\par',
+      'The term \\u8212? five years \\endash  renewable.\\par',
+      '{\\field{\\*\\fldinst HYPERLINK "https://example.com"}{\\fldrslt Schedule A}}\\par',
+      'Fee\\cell 100\\cell\\row',
+      '}',
+    ].join('\n')
+
+    expect(rtfToText(rtf)).toBe('1. Café Services\nThe term — five years – renewable.\nSchedule A\nFee\t100')
+  })
+})
+
+describe('odtToText', () => {
+  it('should put paragraphs and table rows on their own lines', async () => {
+    const buffer = await odt([
+      '<text:h text:outline-level="1">7. Termination</text:h>',
+      '<text:p>Either party may<text:s text:c="2"/>terminate<text:note text:id="n1">',
+      '<text:note-citation>1</text:note-citation><text:note-body><text:p>On notice.</text:p></text:note-body>',
+      '</text:note>.</text:p>',
+      '<table:table><table:table-row><table:table-cell><text:p>Fee</text:p></table:table-cell>',
+      '<table:table-cell><text:p>100</text:p></table:table-cell></table:table-row></table:table>',
+    ].join(''))
+
+    expect(await odtToText(buffer)).toBe('7. Termination\nEither party may  terminate (On notice.).\nFee\t100')
+  })
+})
+
+describe('markup formats', () => {
+  it('should strip Markdown markup and keep table cells apart', () => {
+    const markdown = [
+      '## 7. Termination',
+      '',
+      'Either party may **terminate** this [Agreement](https://example.com) on `30` days notice.',
+      '',
+      '| Party | Notice |',
+      '|---|:---:|',
+      '| Supplier | 90 days |',
+    ].join('\n')
+
+    expect(markdownToText(markdown)).toBe(
+      '7. Termination\n\nEither party may terminate this Agreement on 30 days notice.\n\nParty\tNotice\nSupplier\t90 days'
+    )
+  })
+
+  it('should convert HTML blocks to lines without link targets', () => {
+    const html = '<html><body><h1>Services Agreement</h1><p>See <a href="https://example.com">Schedule A</a>.</p></body></html>'
+
+    expect(htmlToText(html)).toBe('Services Agreement\n\nSee Schedule A.')
+  })
+})
+
+describe('email formats', () => {
+  it('should put the headers above the body and return attachments', async () => {
+    const message = await parseEml(Buffer.from(EMAIL))
+
+    expect(message.text).toBe([
+      'From: Jane Roe <jane@example.com>',
+      'To: legal@example.com',
+      'Date: 2024-07-01T09:30:00.000Z',
+      'Subject: Signed NDA',
+      '',
+      'Please find the signed agreement attached.',
+    ].join('\n'))
+    expect(message.attachments).toHaveLength(1)
+    expect(message.attachments[0].filename).toBe('nda.txt')
+    expect(message.attachments[0].content.toString()).toContain('1. Confidentiality.')
+  })
+
+  it('should pass email attachments on from DocumentProcessor', async () => {
+    const processor = new DocumentProcessor()
+
+    const result = await processor.extractText(Buffer.from(EMAIL), 'message/rfc822', 'nda.eml')
+
+    expect(result.text).toContain('Subject: Signed NDA')
+    expect(result.attachments?.map(attachment => attachment.filename)).toEqual(['nda.txt'])
+  })
+})
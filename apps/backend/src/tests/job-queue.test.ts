@@ -0,0 +1,282 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+import { JobQueue, Job } from '@/services/JobQueue'
+
+// In-memory stand-in for the node-redis commands the queue uses
+class FakeRedis {
+  lists = new Map<string, string[]>()
+  sortedSets = new Map<string, Array<{ score: number; value: string }>>()
+  sets = new Map<string, Set<string>>()
+  expiries = new Map<string, number>()
+  failNextPoll = false
+
+  duplicate() {
+    return this
+  }
+
+  async connect() {}
+
+  async disconnect() {}
+
+  multi() {
+    const commands: Array<() => Promise<unknown>> = []
+    const chain: any = new Proxy({}, {
+      get: (_target, command: string) => command === 'exec'
+        ? async () => { for (const run of commands) await run() }
+        : (...args: unknown[]) => {
+          commands.push(() => (this as any)[command](...args))
+          return chain
+        },
+    })
+    return chain
+  }
+
+  private list(key: string): string[] {
+    if (!this.lists.has(key)) {
+      this.lists.set(key, [])
+    }
+    return this.lists.get(key)!
+  }
+
+  async lPush(key: string, value: string) {
+    return this.list(key).unshift(value)
+  }
+
+  async lRange(key: string) {
+    return [...this.list(key)]
+  }
+
+  async lLen(key: string) {
+    return this.list(key).length
+  }
+
+  async lRem(key: string, _count: number, value: string) {
+    const list = this.list(key)
+    const index = list.indexOf(value)
+    if (index < 0) {
+      return 0
+    }
+    list.splice(index, 1)
+    return 1
+  }
+
+  async lMove(source: string, destination: string, from: 'LEFT' | 'RIGHT', to: 'LEFT' | 'RIGHT') {
+    const value = from === 'RIGHT' ? this.list(source).pop() : this.list(source).shift()
+    if (value === undefined) {
+      return null
+    }
+    if (to === 'RIGHT') {
+      this.list(destination).push(value)
+    } else {
+      this.list(destination).unshift(value)
+    }
+    return value
+  }
+
+  async blMove(source: string, destination: string, from: 'LEFT' | 'RIGHT', to: 'LEFT' | 'RIGHT') {
+    if (this.failNextPoll) {
+      this.failNextPoll = false
+      throw new Error('Connection lost')
+    }
+    const value = await this.lMove(source, destination, from, to)
+    if (!value) {
+      await new Promise(resolve => setTimeout(resolve, 5))
+    }
+    return value
+  }
+
+  async zAdd(key: string, member: { score: number; value: string }) {
+    this.sortedSets.set(key, [...(this.sortedSets.get(key) || []), member])
+    return 1
+  }
+
+  async zRange(key: string) {
+    return (this.sortedSets.get(key) || []).map(member => member.value)
+  }
+
+  async zCard(key: string) {
+    return (this.sortedSets.get(key) || []).length
+  }
+
+  async zRangeByScore(key: string, min: number, max: number) {
+    return (this.sortedSets.get(key) || []).filter(({ score }) => score >= min && score <= max).map(({ value }) => value)
+  }
+
+  async zRem(key: string, value: string) {
+    const members = this.sortedSets.get(key) || []
+    this.sortedSets.set(key, members.filter(member => member.value !== value))
+    return members.length - this.sortedSets.get(key)!.length
+  }
+
+  async sAdd(key: string, value: string) {
+    this.sets.set(key, (this.sets.get(key) || new Set()).add(value))
+    return 1
+  }
+
+  async sRem(key: string, value: string) {
+    return this.sets.get(key)?.delete(value) ? 1 : 0
+  }
+
+  async sMembers(key: string) {
+    return [...(this.sets.get(key) || [])]
+  }
+
+  async set(key: string, _value: string, options: { PX: number }) {
+    this.expiries.set(key, Date.now() + options.PX)
+    return 'OK'
+  }
+
+  async exists(key: string) {
+    return (this.expiries.get(key) || 0) > Date.now() ? 1 : 0
+  }
+
+  async del(key: string) {
+    return this.expiries.delete(key) ? 1 : 0
+  }
+}
+
+const fakeRedis = new FakeRedis()
+
+jest.mock('@/index', () => ({
+  get redis() {
+    return fakeRedis
+  },
+}))
+
+jest.mock('@/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const WAITING = 'jurisight:queue:test:waiting'
+const DELAYED = 'jurisight:queue:test:delayed'
+const WORKERS = 'jurisight:queue:test:workers'
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10))
+  }
+  expect(condition()).toBe(true)
+}
+
+function activeJobs(): string[] {
+  return [...fakeRedis.lists.entries()]
+    .filter(([key]) => key.startsWith('jurisight:queue:test:active:'))
+    .flatMap(([, jobs]) => jobs)
+}
+
+describe('JobQueue', () => {
+  let queues: JobQueue[]
+
+  const createQueue = (options: { backoffMs?: number; leaseMs?: number } = {}) => {
+    const queue = new JobQueue('test', { backoffMs: 1000, ...options })
+    queues.push(queue)
+    return queue
+  }
+
+  beforeEach(() => {
+    fakeRedis.lists.clear()
+    fakeRedis.sortedSets.clear()
+    fakeRedis.sets.clear()
+    fakeRedis.expiries.clear()
+    queues = []
+  })
+
+  afterEach(async () => {
+    await Promise.all(queues.map(queue => queue.stop()))
+  })
+
+  it('should run a job and release it when the handler succeeds', async () => {
+    const queue = createQueue()
+    const handled: string[] = []
+    queue.process(async job => { handled.push(job.name) })
+
+    await queue.enqueue('extract', { documentId: 'doc-1' })
+    await queue.start()
+
+    await waitFor(() => handled.length === 1)
+    await waitFor(() => activeJobs().length === 0)
+    expect(handled).toEqual(['extract'])
+    expect(await queue.getCounts()).toEqual({ waiting: 0, active: 0, delayed: 0 })
+  })
+
+  it('should retry a failed job with backoff and report it once attempts run out', async () => {
+    const queue = createQueue()
+    const failed: Array<Job> = []
+    queue.process(async () => { throw new Error('Model unavailable') }, async job => { failed.push(job) })
+
+    await queue.enqueue('analyze', { documentId: 'doc-1' }, { maxAttempts: 2 })
+    await queue.start()
+
+    await waitFor(() => fakeRedis.sortedSets.get(DELAYED)?.length === 1)
+    const [retry] = fakeRedis.sortedSets.get(DELAYED)!
+    expect(JSON.parse(retry.value)).toMatchObject({ attempts: 1, lastError: 'Model unavailable' })
+    expect(retry.score).toBeGreaterThan(Date.now() + 500)
+
+    // Make the retry due instead of waiting for the backoff
+    retry.score = 0
+    await waitFor(() => failed.length === 1)
+    expect(failed[0]).toMatchObject({ attempts: 2, lastError: 'Model unavailable' })
+    expect(activeJobs()).toEqual([])
+  })
+
+  it('should keep polling after a Redis error or a malformed job', async () => {
+    const queue = createQueue()
+    const handled: string[] = []
+    queue.process(async job => { handled.push(job.data.documentId) })
+
+    fakeRedis.failNextPoll = true
+    await fakeRedis.lPush(WAITING, '{not json')
+    await queue.enqueue('extract', { documentId: 'doc-1' })
+    await queue.start()
+
+    await waitFor(() => handled.length === 1)
+    expect(handled).toEqual(['doc-1'])
+    expect(activeJobs()).toEqual([])
+  })
+
+  it('should recover the jobs of a worker whose lease expired', async () => {
+    const job = JSON.stringify({ id: 'job-1', name: 'embed', data: {}, attempts: 1, maxAttempts: 3, enqueuedAt: '' })
+    fakeRedis.lists.set('jurisight:queue:test:active:crashed', [job])
+    await fakeRedis.sAdd(WORKERS, 'crashed')
+
+    const queue = createQueue()
+    const handled: string[] = []
+    queue.process(async job => { handled.push(job.id) })
+    await queue.start()
+
+    await waitFor(() => handled.length === 1)
+    expect(handled).toEqual(['job-1'])
+    expect(await fakeRedis.sMembers(WORKERS)).not.toContain('crashed')
+  })
+
+  it('should leave jobs alone while the worker running them renews its lease', async () => {
+    let finish: () => void = () => {}
+    const running = new Promise<void>(resolve => { finish = resolve })
+    const first = createQueue({ leaseMs: 150 })
+    const runs: string[] = []
+    first.process(async job => {
+      runs.push(job.id)
+      await running
+    })
+
+    await first.enqueue('analyze', { documentId: 'doc-1' })
+    await first.start()
+    await waitFor(() => runs.length === 1)
+
+    // A second instance starting and sweeping for expired leases meanwhile
+    const second = createQueue({ leaseMs: 150 })
+    second.process(async job => { runs.push(job.id) })
+    await second.start()
+    await new Promise(resolve => setTimeout(resolve, 400))
+
+    expect(runs).toHaveLength(1)
+    expect(activeJobs()).toHaveLength(1)
+
+    finish()
+    await waitFor(() => activeJobs().length === 0)
+    expect(runs).toHaveLength(1)
+  })
+})
@@ -0,0 +1,97 @@
+import { ObligationExtractor } from '@/services/obligations/ObligationExtractor'
+import { buildCalendar } from '@/services/obligations/ICalendar'
+import { addPeriod } from '@/utils/dates'
+import { ObligationKind } from '@shared'
+
+describe('ObligationExtractor', () => {
+  const extractor = new ObligationExtractor()
+  const contract = [
+    'MASTER SERVICES AGREEMENT',
+    '',
+    'This Agreement is effective as of January 1, 2024 between Acme Corp and Beta LLC.',
+    '',
+    '1. TERM',
+    '',
+    'This Agreement has an initial term of two (2) years from the Effective Date. Either party may decline renewal if it gives written notice. The Customer must give notice of non-renewal at least thirty (30) days before the expiration of the initial term.',
+    '',
+    '2. FEES AND PAYMENT',
+    '',
+    'The Customer shall pay each invoice within thirty (30) days after receipt of the invoice. Fees are exclusive of taxes and other charges.',
+    '',
+    '3. DELIVERABLES',
+    '',
+    'The Supplier shall deliver the final report on or before 31 January 2025. The report will follow the agreed format and structure.',
+  ].join('\n')
+
+  const obligations = extractor.extract(contract)
+
+  it('should anchor deadlines to the term and to stated dates', () => {
+    const renewal = obligations.find(obligation => obligation.kind === ObligationKind.RENEWAL)
+    expect(renewal).toBeDefined()
+    expect(renewal!.party).toBe('Customer')
+    expect(renewal!.dueDate!.toISOString().substring(0, 10)).toBe('2025-12-02')
+
+    const delivery = obligations.find(obligation => obligation.kind === ObligationKind.DELIVERY)
+    expect(delivery).toBeDefined()
+    expect(delivery!.party).toBe('Supplier')
+    expect(delivery!.dueDate!.toISOString().substring(0, 10)).toBe('2025-01-31')
+    expect(delivery!.confidence).toBeGreaterThan(renewal!.confidence)
+  })
+
+  it('should keep the trigger for deadlines relative to events', () => {
+    const payment = obligations.find(obligation => obligation.kind === ObligationKind.PAYMENT)
+    expect(payment).toBeDefined()
+    expect(payment!.dueDate).toBeNull()
+    expect(payment!.trigger).toMatch(/^within thirty \(30\) days after receipt/)
+    expect(contract.slice(payment!.startOffset, payment!.endOffset)).toBe(payment!.text)
+  })
+
+  it('should ignore sentences without a duty and a deadline', () => {
+    expect(obligations.some(obligation => obligation.text.startsWith('Fees are exclusive'))).toBe(false)
+    expect(obligations.some(obligation => obligation.text.startsWith('The report will follow'))).toBe(false)
+  })
+})
+
+describe('addPeriod', () => {
+  it('should clamp to the last day of a shorter month', () => {
+    const day = (date: Date) => date.toISOString().substring(0, 10)
+
+    expect(day(addPeriod(new Date(Date.UTC(2025, 0, 31)), 1, 'month'))).toBe('2025-02-28')
+    expect(day(addPeriod(new Date(Date.UTC(2024, 0, 31)), 1, 'month'))).toBe('2024-02-29')
+    expect(day(addPeriod(new Date(Date.UTC(2024, 2, 31)), -1, 'month'))).toBe('2024-02-29')
+    expect(day(addPeriod(new Date(Date.UTC(2024, 1, 29)), 1, 'year'))).toBe('2025-02-28')
+    expect(day(addPeriod(new Date(Date.UTC(2024, 0, 15)), 13, 'month'))).toBe('2025-02-15')
+  })
+})
+
+describe('buildCalendar', () => {
+  it('should write escaped, folded all-day events', () => {
+    const ics = buildCalendar('Deals, 2025', [
+      {
+        uid: 'o1@test',
+        date: new Date(Date.UTC(2025, 0, 31)),
+        summary: 'Supplier: deliver the report; final',
+        description: `${'A long description '.repeat(6)}\nSecond line`,
+        alarmDays: 14,
+      },
+      {
+        uid: 'o2@test',
+        date: new Date(Date.UTC(2025, 1, 1)),
+        summary: 'Waived',
+        alarmDays: 14,
+        cancelled: true,
+      },
+    ], new Date(Date.UTC(2024, 5, 1, 12, 0, 0)))
+
+    const lines = ics.split('\r\n')
+    expect(lines).toContain('X-WR-CALNAME:Deals\\, 2025')
+    expect(lines).toContain('DTSTAMP:20240601T120000Z')
+    expect(lines).toContain('DTSTART;VALUE=DATE:20250131')
+    expect(lines).toContain('DTEND;VALUE=DATE:20250201')
+    expect(lines).toContain('SUMMARY:Supplier: deliver the report\\; final')
+    expect(lines).toContain('STATUS:CANCELLED')
+    expect(lines.filter(line => line === 'TRIGGER:-P14D')).toHaveLength(1)
+    expect(lines.every(line => Buffer.byteLength(line) <= 75)).toBe(true)
+    expect(ics.replace(/\r\n /g, '')).toContain('\\nSecond line')
+  })
+})
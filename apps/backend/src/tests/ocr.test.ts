@@ -0,0 +1,129 @@
+import { describe, it, expect, jest } from '@jest/globals'
+import PDFDocument from 'pdfkit'
+import { DocumentProcessor } from '@/services/DocumentProcessor'
+import { OcrEngine, OcrPage, parseTsv } from '@/services/ocr/TesseractOcr'
+
+jest.mock('@/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const HEADER = 'level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext'
+
+// Word row of Tesseract's TSV output
+const word = (page: number, par: number, line: number, conf: number, text: string) =>
+  ['5', page, 1, par, line, 1, 0, 0, 10, 10, conf, text].join('\t')
+
+function pdf(pages: string[]): Promise<Buffer> {
+  return new Promise(resolve => {
+    const document = new PDFDocument({ autoFirstPage: false })
+    const chunks: Buffer[] = []
+    document.on('data', chunk => chunks.push(chunk))
+    document.on('end', () => resolve(Buffer.concat(chunks)))
+    for (const text of pages) {
+      document.addPage()
+      if (text) {
+        document.text(text)
+      }
+    }
+    document.end()
+  })
+}
+
+class FakeOcr implements OcrEngine {
+  requestedPages: number[] = []
+
+  constructor(private pages: OcrPage[]) {}
+
+  async recognizeImage(): Promise<OcrPage[]> {
+    return this.pages
+  }
+
+  async recognizePdfPages(_pdf: Buffer, pages: number[]): Promise<OcrPage[]> {
+    this.requestedPages = pages
+    return this.pages.filter(page => pages.includes(page.page))
+  }
+}
+
+describe('parseTsv', () => {
+  it('should rebuild lines and paragraphs with a length-weighted confidence per page', () => {
+    const tsv = [
+      HEADER,
+      ['1', 1, 0, 0, 0, 0, 0, 0, 2480, 3508, -1, ''].join('\t'),
+      word(1, 1, 1, 96, 'Termination'),
+      word(1, 1, 1, 90, 'for'),
+      word(1, 1, 2, 94, 'convenience.'),
+      word(1, 2, 1, 40, '§'),
+      word(1, 2, 1, 92, 'Notice'),
+      word(2, 1, 1, 80, 'Schedule'),
+      '',
+    ].join('\n')
+
+    const pages = parseTsv(tsv)
+
+    expect(pages).toHaveLength(2)
+    expect(pages[0].text).toBe('Termination for\nconvenience.\n\n§ Notice')
+    expect(pages[0].words).toBe(5)
+    expect(pages[0].confidence).toBeCloseTo((11 * 0.96 + 3 * 0.9 + 12 * 0.94 + 0.4 + 6 * 0.92) / 33, 3)
+    expect(pages[1]).toEqual({ page: 2, text: 'Schedule', confidence: 0.8, words: 1 })
+  })
+
+  it('should return no pages when nothing was recognised', () => {
+    expect(parseTsv(HEADER + '\n')).toEqual([])
+  })
+})
+
+describe('DocumentProcessor OCR', () => {
+  it('should read images with OCR and score them by OCR confidence', async () => {
+    const processor = new DocumentProcessor(new FakeOcr([
+      { page: 1, text: 'MASTER SERVICES AGREEMENT', confidence: 0.9, words: 3 },
+      { page: 2, text: 'Signed by the parties', confidence: 0.7, words: 4 },
+    ]))
+
+    const result = await processor.extractText(Buffer.from('scan'), 'image/tiff', 'msa.tiff')
+
+    expect(result.text).toBe('MASTER SERVICES AGREEMENT\n\nSigned by the parties')
+    expect(result.confidence).toBe(0.8)
+    expect(result.metadata.pages).toBe(2)
+    expect(result.metadata.ocrPages).toEqual([
+      { page: 1, confidence: 0.9, words: 3 },
+      { page: 2, confidence: 0.7, words: 4 },
+    ])
+  })
+
+  it('should only OCR PDF pages without a text layer', async () => {
+    const ocr = new FakeOcr([{ page: 2, text: 'Signed for and on behalf of the Supplier', confidence: 0.6, words: 8 }])
+    const processor = new DocumentProcessor(ocr)
+
+    const result = await processor.extractText(
+      // Small PDFs come from Node's shared Buffer pool, like multer uploads do
+      await pdf(['This Agreement is made between the Customer and the Supplier.', '']),
+      'application/pdf',
+      'msa.pdf'
+    )
+
+    expect(ocr.requestedPages).toEqual([2])
+    expect(result.text).toContain('This Agreement is made between the Customer and the Supplier.')
+    expect(result.text).toContain('Signed for and on behalf of the Supplier')
+    expect(result.confidence).toBe(0.8)
+    expect(result.metadata.ocrPages).toEqual([{ page: 2, confidence: 0.6, words: 8 }])
+  })
+
+  it('should not OCR PDFs that have a text layer on every page', async () => {
+    const ocr = new FakeOcr([])
+    const processor = new DocumentProcessor(ocr)
+
+    const result = await processor.extractText(
+      await pdf(['Clause 1. Definitions apply throughout.', 'Clause 2. Term of twelve months.']),
+      'application/pdf',
+      'msa.pdf'
+    )
+
+    expect(ocr.requestedPages).toEqual([])
+    expect(result.confidence).toBe(1)
+    expect(result.metadata.ocrPages).toBeUndefined()
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, it, expect, jest } from '@jest/globals'
+import PDFDocument from 'pdfkit'
+import { DocumentProcessor } from '@/services/DocumentProcessor'
+import { layoutPages, pageContent, pageStarts } from '@/services/layout/PageLayout'
+
+jest.mock('@/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const slice = (text: string, range: { startOffset: number; endOffset: number }) =>
+  text.slice(range.startOffset, range.endOffset)
+
+describe('layoutPages', () => {
+  const pages = [
+    'ACME CONFIDENTIAL\nMASTER SERVICES AGREEMENT\n\n1. Definitions\nTerms have the meaning given below.\nThey apply throughout.\n\nPage 1 of 3',
+    'ACME CONFIDENTIAL\n2. Fees\nService\tFee\nHosting\t$100\nSupport\t$50\nFees are due monthly.\nPage 2 of 3',
+    'ACME CONFIDENTIAL\n3. Term\nThis Agreement lasts twelve months.\n\nPage 3 of 3',
+  ]
+
+  it('should strip running headers, footers and page numbers', () => {
+    const { text, pages: layout, strippedLines } = layoutPages(pages)
+
+    expect(text).not.toContain('ACME CONFIDENTIAL')
+    expect(text).not.toMatch(/Page \d of 3/)
+    expect(strippedLines).toBe(6)
+    expect(layout.map(page => slice(text, page).split('\n')[0])).toEqual([
+      'MASTER SERVICES AGREEMENT',
+      '2. Fees',
+      '3. Term',
+    ])
+  })
+
+  it('should map headings, paragraphs and tables to offsets in the text', () => {
+    const { text, pages: layout } = layoutPages(pages)
+
+    expect(layout[0].headings.map(heading => [heading.text, heading.level])).toEqual([
+      ['MASTER SERVICES AGREEMENT', 1],
+      ['1. Definitions', 2],
+    ])
+    expect(layout[0].paragraphs.map(paragraph => slice(text, paragraph))).toEqual([
+      'MASTER SERVICES AGREEMENT',
+      '1. Definitions',
+      'Terms have the meaning given below.\nThey apply throughout.',
+    ])
+
+    expect(layout[1].tables).toHaveLength(1)
+    expect(layout[1].tables[0].rows).toEqual([['Service', 'Fee'], ['Hosting', '$100'], ['Support', '$50']])
+    expect(layout[1].paragraphs.map(paragraph => slice(text, paragraph))).toEqual([
+      '2. Fees',
+      'Service\tFee\nHosting\t$100\nSupport\t$50',
+      'Fees are due monthly.',
+    ])
+  })
+
+  it('should strip a lone page number but keep a header that does not repeat', () => {
+    const { text } = layoutPages(['ACME CONFIDENTIAL\nThe parties agree as follows.\n- 1 -'])
+
+    expect(text).toBe('ACME CONFIDENTIAL\nThe parties agree as follows.')
+  })
+
+  it('should number the paragraphs of a page from 1', () => {
+    const { text, pages: layout } = layoutPages(pages)
+    const page = pageContent(text, layout[2])
+
+    expect(page.text).toBe('3. Term\nThis Agreement lasts twelve months.')
+    expect(page.paragraphs.map(({ index, text }) => [index, text])).toEqual([
+      [1, '3. Term'],
+      [2, 'This Agreement lasts twelve months.'],
+    ])
+    expect(pageStarts(layout)).toEqual(layout.map(({ startOffset }) => startOffset))
+    expect(pageStarts(null)).toBeUndefined()
+  })
+})
+
+describe('DocumentProcessor page layout', () => {
+  function pdf(): Promise<Buffer> {
+    return new Promise(resolve => {
+      const document = new PDFDocument({ autoFirstPage: false })
+      const chunks: Buffer[] = []
+      document.on('data', chunk => chunks.push(chunk))
+      document.on('end', () => resolve(Buffer.concat(chunks)))
+
+      for (const [index, heading] of ['1. Services', '2. Fees'].entries()) {
+        document.addPage()
+        document.text('Confidential draft', { align: 'right' })
+        document.text(heading)
+        document.text('The Supplier provides the services set out in this clause to the Customer.')
+        document.moveDown()
+        if (index === 1) {
+          const y = document.y
+          document.text('Hosting', 72, y).text('$100', 300, y)
+          document.text('Support', 72, y + 15).text('$50', 300, y + 15)
+        }
+        document.text(`Page ${index + 1}`, 72, 690)
+      }
+      document.end()
+    })
+  }
+
+  it('should return a page map with tables and without running headers', async () => {
+    const result = await new DocumentProcessor().extractText(await pdf(), 'application/pdf', 'msa.pdf')
+
+    expect(result.text).not.toContain('Confidential draft')
+    expect(result.text).not.toContain('Page 2')
+    expect(result.pages).toHaveLength(2)
+    expect(result.pages![1].headings.map(heading => heading.text)).toEqual(['2. Fees'])
+    expect(result.pages![1].tables[0].rows).toEqual([['Hosting', '$100'], ['Support', '$50']])
+
+    const chunks = new DocumentProcessor().chunkStructured(result.text, { pageStarts: pageStarts(result.pages) })
+    expect(chunks.find(chunk => chunk.content.startsWith('2. Fees'))?.metadata.page).toBe(2)
+  })
+})
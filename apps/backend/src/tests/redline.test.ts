@@ -0,0 +1,89 @@
+import pdfParse from 'pdf-parse'
+import { DiffEngine } from '@/services/diff/DiffEngine'
+import { buildRedline } from '@/services/redline/Redline'
+import { renderDocx } from '@/services/redline/DocxRedline'
+import { renderHtml } from '@/services/redline/HtmlRedline'
+import { renderPdf } from '@/services/redline/PdfRedline'
+
+const ORIGINAL = `1. Payment. Invoices are due within 30 days.
+
+2. Audit. The Supplier shall keep records for two years.
+
+3. Notices. Notices must be in writing.`
+
+const REVISED = `1. Payment. Invoices are due within 60 days.
+
+3. Notices. Notices must be in writing & signed.`
+
+describe('Redline', () => {
+  const diff = new DiffEngine().diff(ORIGINAL, REVISED)
+  const redline = buildRedline({
+    original: { title: 'MSA v1', content: ORIGINAL },
+    revised: { title: 'MSA v2', content: REVISED },
+    author: 'reviewer@example.com',
+    createdAt: new Date('2025-03-01T00:00:00Z'),
+    results: {
+      ...diff,
+      clauses: [{
+        clauseType: 'PAYMENT_TERMS',
+        status: 'modified',
+        similarity: 0.9,
+        doc1Clause: null,
+        doc2Clause: null,
+        changes: ['Payment period extended from 30 days to 60 days'],
+      }],
+      notableChanges: ['Audit rights removed'],
+    },
+  })
+
+  it('should keep deleted text in place beside the revised text', () => {
+    expect(redline.paragraphs).toEqual([
+      [{ text: '1. Payment. Invoices are due within ' }, { text: '30', change: 'delete' }, { text: '60', change: 'insert' }, { text: ' days.' }],
+      [{ text: '2. Audit. The Supplier shall keep records for two years.', change: 'delete' }],
+      [{ text: '3. Notices. Notices must be in writing ' }, { text: '& signed', change: 'insert' }, { text: '.' }],
+    ])
+    expect(redline.keyChanges).toEqual([
+      'Payment terms: Payment period extended from 30 days to 60 days',
+      'Audit rights removed',
+    ])
+    expect(redline.statistics).toContainEqual({ label: 'Deletions', value: '1' })
+  })
+
+  it('should diff again when stored results have no offsets', () => {
+    const legacy = buildRedline({
+      original: { title: 'MSA v1', content: ORIGINAL },
+      revised: { title: 'MSA v2', content: REVISED },
+      author: 'reviewer@example.com',
+      createdAt: new Date(),
+      results: { differences: [{ type: 'added', text: 'signed', position: { start: 0, end: 6 } }] },
+    })
+    expect(legacy.paragraphs).toEqual(redline.paragraphs)
+  })
+
+  it('should render HTML, DOCX and PDF', async () => {
+    const html = renderHtml(redline)
+    expect(html).toContain('<del>30</del><ins>60</ins>')
+    expect(html).toContain('in writing <ins>&amp; signed</ins>')
+    expect(html).toContain('<li>Audit rights removed</li>')
+
+    const docx = await renderDocx(redline)
+    expect(docx.subarray(0, 2).toString()).toBe('PK')
+
+    const pdf = await renderPdf(redline)
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-')
+  })
+
+  it('should keep arrows and non-Latin text readable in the PDF', async () => {
+    const cyrillic = buildRedline({
+      original: { title: 'Договор v1', content: 'Поставщик обязан уведомить.' },
+      revised: { title: 'Договор v2', content: 'Поставщик обязан письменно уведомить.' },
+      author: 'reviewer@example.com',
+      createdAt: new Date('2025-03-01T00:00:00Z'),
+      results: {},
+    })
+
+    const { text } = await pdfParse(Buffer.from(new Uint8Array(await renderPdf(cyrillic))))
+    expect(text).toContain('Redline: Договор v1 → Договор v2')
+    expect(text).toContain('письменно')
+  })
+})
@@ -0,0 +1,122 @@
+import { buildContext } from '@/services/retrieval/ContextBuilder'
+import { LocalReranker } from '@/services/retrieval/LocalReranker'
+import { buildCitations } from '@/services/retrieval/CitationBuilder'
+import { RetrievalService } from '@/services/RetrievalService'
+
+const mockSearch = {
+  searchSimilarContent: jest.fn(),
+  searchFullText: jest.fn(),
+}
+
+jest.mock('@/index', () => ({ prisma: {} }))
+jest.mock('@/services/VectorService', () => ({
+  VectorService: jest.fn(() => mockSearch),
+}))
+
+describe('LocalReranker', () => {
+  const reranker = new LocalReranker()
+
+  it('should promote passages that cover the question terms', () => {
+    const ranked = reranker.rerank('termination notice period', [
+      { content: 'Payment is due within thirty days of invoice.', score: 1 },
+      { content: 'Either party may terminate with a notice period of ninety days.', score: 0.5 },
+    ])
+
+    expect(ranked[0].content).toContain('terminate')
+  })
+})
+
+describe('buildContext', () => {
+  const passage = (chunkIndex: number, score: number, length: number) => ({
+    documentId: 'doc-1',
+    chunkIndex,
+    content: 'x'.repeat(length),
+    score,
+  })
+
+  it('should keep the highest scoring passages within the token budget', () => {
+    const result = buildContext([
+      passage(0, 0.1, 400),
+      passage(1, 0.9, 400),
+      passage(2, 0.5, 400),
+    ], 200)
+
+    expect(result.tokens).toBeLessThanOrEqual(200)
+    expect(result.passages.map(p => p.chunkIndex)).toEqual([1, 2])
+  })
+
+  it('should number passages in document order', () => {
+    const result = buildContext([passage(3, 0.9, 40), passage(1, 0.5, 40)], 1000)
+
+    expect(result.passages.map(p => p.chunkIndex)).toEqual([1, 3])
+    expect(result.context.startsWith('[1] ')).toBe(true)
+  })
+
+  it('should head each document with its title when titles are given', () => {
+    const result = buildContext([
+      { ...passage(0, 0.9, 40), documentId: 'doc-2' },
+      passage(2, 0.8, 40),
+      passage(1, 0.5, 40),
+    ], 1000, new Map([['doc-1', 'Acme NDA'], ['doc-2', 'Beta NDA']]))
+
+    expect(result.context.match(/^Document: .*$/gm)).toEqual(['Document: Acme NDA', 'Document: Beta NDA'])
+    expect(result.context).toContain('Document: Beta NDA\n[3] ')
+  })
+})
+
+describe('buildCitations', () => {
+  const document = 'Preamble text. 7.3 Notice. Either party may terminate on 30 days notice. Notice must be in writing.'
+  const chunkStart = document.indexOf('7.3')
+  const passages = [{
+    documentId: 'doc-1',
+    chunkIndex: 4,
+    content: document.slice(chunkStart),
+    score: 0.9,
+    metadata: { startOffset: chunkStart, section: 'Section 7.3', page: 12 },
+  }]
+  const documents = new Map([['doc-1', { title: 'Services Agreement', content: document }]])
+
+  it('should resolve markers to verified spans of the document', () => {
+    const { content, citations } = buildCitations('Termination needs 30 days notice [1].', passages, documents)
+
+    expect(content).toBe('Termination needs 30 days notice [1].')
+    expect(citations).toHaveLength(1)
+    expect(citations[0]).toMatchObject({ marker: 1, section: 'Section 7.3', pageNumber: 12, source: 'Section 7.3, page 12' })
+    expect(document.slice(citations[0].startOffset, citations[0].endOffset)).toBe(citations[0].text)
+    expect(citations[0].text).toBe('Either party may terminate on 30 days notice.')
+    expect(citations[0]).toMatchObject({ verified: true, confidence: 0.9 })
+  })
+
+  it('should drop markers that do not refer to a passage', () => {
+    const { content, citations } = buildCitations('Notice must be in writing [3].', passages, documents)
+
+    expect(content).toBe('Notice must be in writing.')
+    expect(citations.map(citation => citation.marker)).toEqual([1])
+    expect(citations[0].verified).toBe(false)
+  })
+
+  it('should name the source document when labelling is requested', () => {
+    const { citations } = buildCitations('Notice must be in writing [1].', passages, documents, { labelDocuments: true })
+
+    expect(citations[0]).toMatchObject({
+      documentId: 'doc-1',
+      documentTitle: 'Services Agreement',
+      source: 'Services Agreement, Section 7.3, page 12',
+    })
+  })
+})
+
+describe('RetrievalService', () => {
+  const result = (chunkIndex: number) => ({ documentId: 'doc-1', chunkIndex, content: `Clause ${chunkIndex}`, similarity: 0.8 })
+
+  it('should fuse the rankings into scores from 0 to 1', async () => {
+    mockSearch.searchSimilarContent.mockResolvedValue([result(1), result(2)] as never)
+    mockSearch.searchFullText.mockResolvedValue([result(1), result(3)] as never)
+
+    const { passages } = await new RetrievalService().retrieve('notice', { documentIds: ['doc-1'], rerank: false })
+
+    expect(passages.map(passage => passage.chunkIndex)).toEqual([1, 2, 3])
+    expect(passages[0].score).toBeCloseTo(1)
+    expect(passages[1].score).toBeCloseTo(61 / 62 / 2)
+  })
+})
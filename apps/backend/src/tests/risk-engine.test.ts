@@ -0,0 +1,85 @@
+import { RiskEngine } from '@/services/risk/RiskEngine'
+import { ClauseType, Playbook, RiskLevel } from '@shared'
+
+describe('RiskEngine', () => {
+  const engine = new RiskEngine()
+  const playbook: Playbook = {
+    name: 'Vendor contracts',
+    rules: [
+      {
+        clauseType: ClauseType.LIMITATION_OF_LIABILITY,
+        required: true,
+        weight: 2,
+        preferred: [{ description: 'Capped at fees paid', phrases: ['fees paid'] }],
+        acceptable: [],
+        unacceptable: [{ description: 'Unlimited liability', phrases: ['unlimited liability'] }],
+      },
+      {
+        clauseType: ClauseType.TERMINATION,
+        required: false,
+        weight: 1,
+        preferred: [{ description: 'Termination for convenience', phrases: ['for convenience'] }],
+        acceptable: [{ description: 'Termination for cause', phrases: ['material breach'] }],
+        unacceptable: [],
+      },
+      {
+        clauseType: ClauseType.GOVERNING_LAW,
+        required: true,
+        weight: 1,
+        preferred: [],
+        acceptable: [],
+        unacceptable: [],
+      },
+    ],
+  }
+
+  const clause = (type: ClauseType, text: string, startOffset = 0) => ({
+    type,
+    text,
+    startOffset,
+    endOffset: startOffset + text.length,
+  })
+
+  it('should score a document holding only preferred positions as low risk', () => {
+    const result = engine.assess([
+      clause(ClauseType.LIMITATION_OF_LIABILITY, 'Liability shall not exceed the fees paid in the prior year.'),
+      clause(ClauseType.TERMINATION, 'Either party may terminate for convenience on 30 days notice.'),
+      clause(ClauseType.GOVERNING_LAW, 'This Agreement is governed by the laws of England.'),
+    ], playbook)
+
+    expect(result).toEqual({ score: 0, level: RiskLevel.LOW, findings: [] })
+  })
+
+  it('should explain unacceptable positions and missing clauses', () => {
+    const result = engine.assess([
+      clause(ClauseType.LIMITATION_OF_LIABILITY, 'The Supplier accepts UNLIMITED   liability for data loss.', 120),
+    ], playbook)
+
+    expect(result.level).toBe(RiskLevel.HIGH)
+    expect(result.findings.map(finding => finding.position)).toEqual(['unacceptable', 'missing'])
+    expect(result.findings[0]).toMatchObject({
+      clauseType: ClauseType.LIMITATION_OF_LIABILITY,
+      severity: RiskLevel.HIGH,
+      matchedPhrase: 'unlimited liability',
+      startOffset: 120,
+    })
+    expect(result.findings[1].explanation).toContain('governing law')
+    // Both the weight-2 and the weight-1 rule are lost out of 4
+    expect(result.score).toBe(75)
+  })
+
+  it('should weigh acceptable and unrecognised positions by severity', () => {
+    const result = engine.assess([
+      clause(ClauseType.LIMITATION_OF_LIABILITY, 'Liability is limited as set out in Schedule 3.'),
+      clause(ClauseType.TERMINATION, 'Either party may terminate for material breach.'),
+      clause(ClauseType.GOVERNING_LAW, 'This Agreement is governed by the laws of England.'),
+    ], playbook)
+
+    expect(result.findings.map(finding => [finding.position, finding.severity])).toEqual([
+      ['unrecognised', RiskLevel.MEDIUM],
+      ['acceptable', RiskLevel.LOW],
+    ])
+    expect(result.score).toBe(30)
+    expect(result.level).toBe(RiskLevel.MEDIUM)
+  })
+})
@@ -18,11 +18,20 @@ beforeAll(async () => {
     
     // Clean up test data
     await prisma.userActivity.deleteMany()
+    await prisma.notification.deleteMany()
     await prisma.chatMessage.deleteMany()
     await prisma.chatSession.deleteMany()
+    await prisma.comparisonMatrixDocument.deleteMany()
+    await prisma.comparisonMatrix.deleteMany()
     await prisma.documentComparison.deleteMany()
+    await prisma.obligation.deleteMany()
+    await prisma.documentClause.deleteMany()
     await prisma.documentEmbedding.deleteMany()
+    await prisma.documentAnnotation.deleteMany()
+    // Versions and email attachments are documents too
     await prisma.document.deleteMany()
+    await prisma.storedFile.deleteMany()
+    await prisma.documentTemplate.deleteMany()
     await prisma.workspaceMember.deleteMany()
     await prisma.workspace.deleteMany()
     await prisma.user.deleteMany()
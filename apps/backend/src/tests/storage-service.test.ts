@@ -0,0 +1,131 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { StorageService } from '@/services/StorageService'
+
+interface StoredFileRow {
+  hash: string
+  filename: string
+  size: number
+  refCount: number
+}
+
+interface HashWhere {
+  where: { hash: string }
+}
+
+// stored_files rows, keyed by hash
+const rows = new Map<string, StoredFileRow>()
+
+const mockStoredFile = {
+  findUnique: jest.fn(async ({ where }: HashWhere) => rows.get(where.hash) || null),
+  upsert: jest.fn(async ({ where, create }: HashWhere & { create: StoredFileRow }) => {
+    const row = rows.get(where.hash) || { ...create, refCount: 0 }
+    row.refCount++
+    rows.set(where.hash, row)
+    return row
+  }),
+  update: jest.fn(async ({ where }: HashWhere) => {
+    const row = rows.get(where.hash)!
+    row.refCount--
+    return row
+  }),
+  deleteMany: jest.fn(async ({ where }: HashWhere) => {
+    const row = rows.get(where.hash)
+    if (!row || row.refCount > 0) {
+      return { count: 0 }
+    }
+    rows.delete(where.hash)
+    return { count: 1 }
+  }),
+}
+
+jest.mock('@/index', () => ({
+  prisma: {
+    get storedFile() {
+      return mockStoredFile
+    },
+  },
+}))
+
+jest.mock('@/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+describe('StorageService', () => {
+  const originalUploadPath = process.env.UPLOAD_PATH
+  let uploadPath: string
+  let storage: StorageService
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    rows.clear()
+    uploadPath = await fs.mkdtemp(path.join(os.tmpdir(), 'uploads-'))
+    process.env.UPLOAD_PATH = uploadPath
+    storage = new StorageService()
+  })
+
+  afterEach(async () => {
+    process.env.UPLOAD_PATH = originalUploadPath
+    await fs.rm(uploadPath, { recursive: true, force: true })
+  })
+
+  it('should store identical uploads once and count a reference for each', async () => {
+    const contract = Buffer.from('Master services agreement')
+
+    const first = await storage.saveFile(contract, 'msa.pdf', 'application/pdf')
+    const second = await storage.saveFile(contract, 'MSA copy.PDF', 'application/pdf')
+
+    expect(first.filename).toBe(`${first.hash}.pdf`)
+    expect(second.filename).toBe(first.filename)
+    expect(rows.get(first.hash)?.refCount).toBe(2)
+    expect(await fs.readdir(uploadPath)).toEqual([first.filename])
+  })
+
+  it('should delete the file only with its last reference', async () => {
+    const contract = Buffer.from('Non-disclosure agreement')
+    const { hash, filename } = await storage.saveFile(contract, 'nda.docx', 'application/octet-stream')
+    await storage.saveFile(contract, 'nda.docx', 'application/octet-stream')
+
+    await storage.releaseFile(hash)
+    expect(await fs.readdir(uploadPath)).toEqual([filename])
+
+    await storage.releaseFile(hash)
+    expect(await fs.readdir(uploadPath)).toEqual([])
+    expect(rows.has(hash)).toBe(false)
+  })
+
+  it('should keep the file when an upload takes a reference while the last one is released', async () => {
+    const contract = Buffer.from('Data processing agreement')
+    const { hash, filename } = await storage.saveFile(contract, 'dpa.pdf', 'application/pdf')
+    // The upload lands right after the release removed the row
+    mockStoredFile.deleteMany.mockImplementationOnce(async ({ where }) => {
+      rows.delete(where.hash)
+      await storage.saveFile(contract, 'dpa.pdf', 'application/pdf')
+      return { count: 1 }
+    })
+
+    await storage.releaseFile(hash)
+
+    expect(rows.get(hash)?.refCount).toBe(1)
+    expect(await fs.readdir(uploadPath)).toEqual([filename])
+  })
+
+  it('should keep different content in separate files', async () => {
+    const v1 = await storage.saveFile(Buffer.from('Fees are payable in 30 days'), 'msa.txt', 'text/plain')
+    const v2 = await storage.saveFile(Buffer.from('Fees are payable in 60 days'), 'msa.txt', 'text/plain')
+
+    expect(v1.filename).not.toBe(v2.filename)
+    expect((await storage.getFile(v2.filename)).buffer.toString()).toBe('Fees are payable in 60 days')
+  })
+
+  it('should ignore releases of files it has no record of', async () => {
+    await expect(storage.releaseFile('unknown')).resolves.toBeUndefined()
+    expect(mockStoredFile.update).not.toHaveBeenCalled()
+  })
+})
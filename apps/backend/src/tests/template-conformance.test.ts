@@ -0,0 +1,48 @@
+import { ClauseType, TemplateDataSchema } from '@shared'
+import { ClauseAligner } from '@/services/clauses/ClauseAligner'
+import { ClauseExtractor } from '@/services/clauses/ClauseExtractor'
+import { assessConformance, standardFormText } from '@/services/templates/TemplateConformance'
+
+const TEMPLATE = TemplateDataSchema.parse({
+  sections: ['Parties', 'Confidentiality', 'Termination', 'Governing Law'],
+  standardClauses: {
+    confidentiality: 'Each party shall keep the other party\'s Confidential Information secret and use it only to perform this Agreement.',
+    termination: 'Either party may terminate this Agreement for convenience on 30 days\' written notice.',
+    governingLaw: 'This Agreement is governed by the laws of the State of New York.',
+  },
+})
+
+const DRAFT = `PARTIES
+This Agreement is between Acme Corp and Widget LLC.
+
+ARTICLE 1. CONFIDENTIALITY
+Each party shall keep the other party's Confidential Information secret and use it only to perform this Agreement.
+
+ARTICLE 2. GOVERNING LAW
+This Agreement is governed by the laws of the State of Delaware.
+
+ARTICLE 3. INDEMNIFICATION
+The Customer shall indemnify and hold harmless the Supplier against third-party claims.`
+
+describe('Template conformance', () => {
+  it('should lay standard clauses out as numbered sections', () => {
+    expect(standardFormText(TEMPLATE)).toMatch(/^1\. Confidentiality\nEach party/)
+    expect(standardFormText(TEMPLATE)).toContain('\n\n3. Governing Law\nThis Agreement')
+    expect(standardFormText({ ...TEMPLATE, content: 'Full standard form' })).toBe('Full standard form')
+  })
+
+  it('should flag missing clauses, non-standard language and additions', () => {
+    const extractor = new ClauseExtractor()
+    const clauses = new ClauseAligner().align(extractor.extract(standardFormText(TEMPLATE)), extractor.extract(DRAFT))
+    const findings = assessConformance(TEMPLATE, DRAFT, clauses)
+
+    expect(findings.missingClauses.map(clause => clause.clauseType)).toEqual([ClauseType.TERMINATION])
+    expect(findings.nonStandardClauses.map(clause => [clause.clauseType, clause.changes])).toEqual([
+      [ClauseType.GOVERNING_LAW, ['Governing law changed from New York to Delaware']],
+    ])
+    expect(findings.additionalClauses.map(clause => clause.clauseType)).toEqual([ClauseType.INDEMNIFICATION])
+    expect(findings.missingSections).toEqual(['Termination'])
+    expect(findings.conformanceScore).toBeGreaterThan(0.3)
+    expect(findings.conformanceScore).toBeLessThan(0.7)
+  })
+})
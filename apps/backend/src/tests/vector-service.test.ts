@@ -0,0 +1,99 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals'
+import { VectorService } from '@/services/VectorService'
+
+const mockPrisma = {
+  $transaction: jest.fn(async (operations: unknown[]) => operations),
+  $executeRawUnsafe: jest.fn(() => 'update vectors'),
+  $queryRawUnsafe: jest.fn<() => Promise<unknown>>(),
+  documentEmbedding: {
+    findMany: jest.fn(),
+    deleteMany: jest.fn(() => 'delete embeddings'),
+    createMany: jest.fn(() => 'create embeddings'),
+  },
+}
+
+const mockGenerateEmbedding = jest.fn<(text: string) => Promise<unknown>>()
+
+jest.mock('@/index', () => ({
+  get prisma() {
+    return mockPrisma
+  },
+}))
+
+jest.mock('@/services/AIService', () => ({
+  AIService: jest.fn(() => ({
+    generateEmbedding: (text: string) => mockGenerateEmbedding(text),
+  })),
+}))
+
+jest.mock('@/services/embeddings/EmbeddingRegistry', () => ({
+  getEmbeddingProvider: jest.fn(() => ({ similarityThreshold: 0.3 })),
+}))
+
+jest.mock('@/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const CONTENT = '1. Definitions\n\nIn this Agreement the following terms apply.\n\n2. Term\n\nThis Agreement runs for two years.'
+
+describe('VectorService.createEmbeddings', () => {
+  let service: VectorService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new VectorService()
+  })
+
+  it('should replace the stored chunks with the new embeddings', async () => {
+    mockGenerateEmbedding.mockResolvedValue({ embedding: [0.1, 0.2], model: 'local', dimension: 2, provider: 'local' })
+
+    await service.createEmbeddings('doc-1', CONTENT)
+
+    expect(mockPrisma.documentEmbedding.deleteMany).toHaveBeenCalledWith({ where: { documentId: 'doc-1' } })
+    expect(mockPrisma.$transaction).toHaveBeenCalledWith(['delete embeddings', 'create embeddings', 'update vectors'])
+  })
+
+  it('should fail and keep the stored chunks when no chunk could be embedded', async () => {
+    mockGenerateEmbedding.mockRejectedValue(new Error('Provider unavailable'))
+
+    await expect(service.createEmbeddings('doc-1', CONTENT)).rejects.toMatchObject({
+      code: 'EMBEDDING_SERVICE_UNAVAILABLE',
+    })
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    expect(mockPrisma.documentEmbedding.deleteMany).not.toHaveBeenCalled()
+  })
+})
+
+
+describe('VectorService.searchSimilarContent', () => {
+  let service: VectorService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new VectorService()
+    mockGenerateEmbedding.mockResolvedValue({ embedding: [0.1, 0.2], model: 'local', dimension: 2, provider: 'local' })
+  })
+
+  it('should return the cosine similarity of each chunk', async () => {
+    mockPrisma.$queryRawUnsafe.mockResolvedValue([
+      { document_id: 'doc-1', chunk_index: 0, content: 'Term', similarity: '0.82', metadata: null },
+    ])
+
+    expect(await service.searchSimilarContent('term', ['doc-1'])).toEqual([
+      { documentId: 'doc-1', chunkIndex: 0, content: 'Term', similarity: 0.82, metadata: null },
+    ])
+  })
+
+  it('should fail instead of returning unranked text matches when the vector query fails', async () => {
+    mockPrisma.$queryRawUnsafe.mockRejectedValue(new Error('operator does not exist: vector <=> vector'))
+
+    await expect(service.searchSimilarContent('term', ['doc-1'])).rejects.toMatchObject({
+      code: 'SIMILARITY_SEARCH_ERROR',
+    })
+    expect(mockPrisma.documentEmbedding.findMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect } from '@jest/globals'
+import { StoredVersion, versionHistory } from '@/services/versions/VersionHistory'
+
+const version = (id: string, number: number, metadata: unknown = {}): StoredVersion => ({
+  id,
+  version: number,
+  isCurrentVersion: false,
+  title: 'Services Agreement',
+  originalName: `msa-v${number}.docx`,
+  processingStatus: 'ANALYZED',
+  metadata,
+  uploadedBy: { id: 'ckuser00000000000000000001', email: 'counsel@example.com' },
+  createdAt: new Date(Date.UTC(2024, 5, number)),
+})
+
+describe('versionHistory', () => {
+  it('should list versions newest first with the diff against the version before each', () => {
+    const history = versionHistory(
+      [version('v1', 1), version('v3', 3, { versionNote: 'Counterparty markup' }), version('v2', 2)],
+      [
+        { id: 'c12', doc1Id: 'v1', doc2Id: 'v2', similarityScore: 0.91 },
+        { id: 'c23', doc1Id: 'v2', doc2Id: 'v3', similarityScore: 0.84 },
+        // A manual comparison between the first and latest drafts is not the version diff
+        { id: 'c13', doc1Id: 'v1', doc2Id: 'v3', similarityScore: 0.8 },
+      ]
+    )
+
+    expect(history.map(entry => entry.version)).toEqual([3, 2, 1])
+    expect(history[0].note).toBe('Counterparty markup')
+    expect(history[0].comparison).toEqual({ id: 'c23', similarityScore: 0.84 })
+    expect(history[1].comparison).toEqual({ id: 'c12', similarityScore: 0.91 })
+    expect(history[2].comparison).toBeNull()
+    expect(history[0]).not.toHaveProperty('metadata')
+  })
+
+  it('should pair a version with the one before a deleted version', () => {
+    const history = versionHistory(
+      [version('v1', 1), version('v3', 3, null)],
+      [{ id: 'c13', doc1Id: 'v1', doc2Id: 'v3', similarityScore: 0.8 }]
+    )
+
+    expect(history[0].note).toBeNull()
+    expect(history[0].comparison).toEqual({ id: 'c13', similarityScore: 0.8 })
+  })
+
+  it('should leave the diff empty until the new version is analyzed', () => {
+    const history = versionHistory([version('v1', 1), version('v2', 2)], [])
+
+    expect(history.map(entry => entry.comparison)).toEqual([null, null])
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals'
+import express, { NextFunction, Request, Response } from 'express'
+import request from 'supertest'
+import { prisma } from '@/index'
+import workspaceRoutes from '@/routes/workspaceRoutes'
+import { errorHandler } from '@/middleware/errorHandler'
+import { UserRole } from '@shared'
+
+jest.mock('@/index', () => ({
+  prisma: {
+    workspace: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}))
+
+const mockUser = { id: 'user-1', email: 'owner@example.com', role: UserRole.ANALYST }
+
+jest.mock('@/middleware/authMiddleware', () => ({
+  authMiddleware: (req: Request, _res: Response, next: NextFunction) => {
+    Object.assign(req, { user: { ...mockUser } })
+    next()
+  },
+}))
+
+jest.mock('@/services/ClauseService', () => ({ ClauseService: jest.fn(() => ({})) }))
+jest.mock('@/services/RiskService', () => ({ RiskService: jest.fn(() => ({})) }))
+jest.mock('@/services/DocumentPipelineService', () => ({ documentPipeline: {} }))
+jest.mock('@/services/ObligationService', () => ({ ObligationService: jest.fn(() => ({})) }))
+jest.mock('@/services/TemplateService', () => ({ TemplateService: jest.fn(() => ({})) }))
+jest.mock('@/services/StorageService', () => ({ StorageService: jest.fn(() => ({})) }))
+
+jest.mock('@/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}))
+
+const app = express()
+app.use(express.json())
+app.use('/workspaces', workspaceRoutes)
+app.use(errorHandler)
+
+const playbook = { name: 'Supplier playbook', rules: [] }
+
+describe('PUT /workspaces/:id', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockUser.role = UserRole.ANALYST
+    jest.mocked(prisma.workspace.update).mockImplementation((async ({ data }: { data: unknown }) => data) as never)
+  })
+
+  it('should keep the playbook when only the AI settings change', async () => {
+    jest.mocked(prisma.workspace.findFirst).mockResolvedValue({
+      id: 'workspace-1',
+      settings: { playbook, ai: { provider: 'openai' } },
+    } as never)
+
+    const response = await request(app)
+      .put('/workspaces/workspace-1')
+      .send({ settings: { ai: { provider: 'local' } } })
+
+    expect(response.status).toBe(200)
+    expect(prisma.workspace.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'workspace-1' },
+      data: { settings: { playbook, ai: { provider: 'local' } } },
+    }))
+  })
+
+  it('should merge into the stored settings when an admin updates a workspace they are not a member of', async () => {
+    mockUser.role = UserRole.ADMIN
+    jest.mocked(prisma.workspace.findFirst).mockResolvedValue(null as never)
+    jest.mocked(prisma.workspace.findUnique).mockResolvedValue({ settings: { playbook } } as never)
+
+    const response = await request(app)
+      .put('/workspaces/workspace-1')
+      .send({ name: 'Renamed', settings: { ai: { provider: 'local' } } })
+
+    expect(response.status).toBe(200)
+    expect(prisma.workspace.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: { name: 'Renamed', settings: { playbook, ai: { provider: 'local' } } },
+    }))
+  })
+})
@@ -0,0 +1,134 @@
+// Date helpers for reading contract text. Dates are UTC midnight so a due date
+// never shifts with the server's time zone.
+
+export interface DateMatch {
+  start: number
+  end: number
+  date: Date
+}
+
+export type PeriodUnit = 'day' | 'week' | 'month' | 'year'
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+]
+
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?'
+
+// "January 31, 2025", "31 January 2025", "31st day of January, 2025" and "2025-01-31".
+// Numeric forms such as 01/02/2025 are ambiguous between US and UK order and are skipped.
+const DATE_PATTERNS: Array<{ pattern: RegExp; parts: (match: RegExpExecArray) => [number, number, number] }> = [
+  {
+    pattern: new RegExp(`\\b${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'gi'),
+    parts: match => [parseInt(match[3]), monthIndex(match[1]), parseInt(match[2])],
+  },
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:day\\s+of\\s+)?${MONTH},?\\s+(\\d{4})\\b`, 'gi'),
+    parts: match => [parseInt(match[3]), monthIndex(match[2]), parseInt(match[1])],
+  },
+  {
+    pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/g,
+    parts: match => [parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])],
+  },
+]
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fourteen: 14, fifteen: 15, twenty: 20, thirty: 30, forty: 40,
+  'forty-five': 45, sixty: 60, ninety: 90,
+}
+
+// Calendar dates in the text, in order of appearance
+export function findDates(text: string): DateMatch[] {
+  const matches: DateMatch[] = []
+
+  for (const { pattern, parts } of DATE_PATTERNS) {
+    pattern.lastIndex = 0
+    let match: RegExpExecArray | null
+
+    while ((match = pattern.exec(text)) !== null) {
+      const [year, month, day] = parts(match)
+      const date = utcDate(year, month, day)
+      const start = match.index
+      const end = start + match[0].length
+
+      if (date && !matches.some(existing => start < existing.end && end > existing.start)) {
+        matches.push({ start, end, date })
+      }
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start)
+}
+
+// "thirty", "30" or "forty-five"; null when the word is not a number
+export function parseNumber(word: string): number | null {
+  const normalized = word.toLowerCase().trim()
+  if (/^\d+$/.test(normalized)) {
+    return parseInt(normalized)
+  }
+  return NUMBER_WORDS[normalized] ?? null
+}
+
+export function parseUnit(word: string): PeriodUnit | null {
+  const unit = word.toLowerCase().replace(/s$/, '')
+  return unit === 'day' || unit === 'week' || unit === 'month' || unit === 'year' ? unit : null
+}
+
+// Adds (or with a negative amount, subtracts) a period. Business days skip weekends.
+export function addPeriod(date: Date, amount: number, unit: PeriodUnit, businessDays = false): Date {
+  const result = new Date(date.getTime())
+
+  switch (unit) {
+    case 'day':
+      if (businessDays) {
+        const step = amount < 0 ? -1 : 1
+        for (let remaining = Math.abs(amount); remaining > 0;) {
+          result.setUTCDate(result.getUTCDate() + step)
+          const weekday = result.getUTCDay()
+          if (weekday !== 0 && weekday !== 6) {
+            remaining--
+          }
+        }
+      } else {
+        result.setUTCDate(result.getUTCDate() + amount)
+      }
+      break
+    case 'week':
+      result.setUTCDate(result.getUTCDate() + amount * 7)
+      break
+    case 'month':
+      return addMonths(result, amount)
+    case 'year':
+      return addMonths(result, amount * 12)
+  }
+
+  return result
+}
+
+// 31 January plus one month is the last day of February, not 2 or 3 March
+function addMonths(date: Date, amount: number): Date {
+  const result = new Date(date.getTime())
+  const day = result.getUTCDate()
+  result.setUTCDate(1)
+  result.setUTCMonth(result.getUTCMonth() + amount)
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate()
+  result.setUTCDate(Math.min(day, lastDay))
+  return result
+}
+
+function monthIndex(name: string): number {
+  const prefix = name.toLowerCase().replace(/\.$/, '').substring(0, 3)
+  return MONTHS.findIndex(month => month.startsWith(prefix))
+}
+
+// Rejects impossible dates such as 31 February
+function utcDate(year: number, month: number, day: number): Date | null {
+  if (month < 0 || month > 11 || day < 1 || day > 31) {
+    return null
+  }
+
+  const date = new Date(Date.UTC(year, month, day))
+  return date.getUTCMonth() === month ? date : null
+}
@@ -0,0 +1,6 @@
+import { Prisma } from '@prisma/client'
+
+// A JSON column's value when it holds an object, otherwise an empty one
+export function jsonObject(value: Prisma.JsonValue | undefined): Prisma.JsonObject {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {}
+}
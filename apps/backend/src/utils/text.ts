@@ -0,0 +1,64 @@
+// Lightweight text helpers shared by the offline AI components
+
+export const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'then', 'else', 'of', 'to', 'in', 'on', 'at',
+  'for', 'with', 'by', 'from', 'up', 'about', 'into', 'over', 'after', 'under', 'above',
+  'this', 'that', 'these', 'those', 'it', 'its', 'is', 'am', 'are', 'was', 'were', 'be',
+  'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'shall',
+  'should', 'may', 'might', 'can', 'could', 'must', 'not', 'no', 'any', 'all', 'such',
+  'as', 'so', 'than', 'there', 'their', 'they', 'them', 'what', 'which', 'who', 'whom',
+  'when', 'where', 'why', 'how', 'each', 'other', 'our', 'your', 'you', 'we', 'he', 'she',
+  'his', 'her', 'also', 'hereby', 'herein', 'thereof', 'hereto', 'hereunder',
+])
+
+// Lowercased word tokens with stop words and very short tokens removed
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+}
+
+// Words that end in a period without ending the sentence
+const ABBREVIATIONS = new Set([
+  'sec', 'secs', 'art', 'arts', 'para', 'paras', 'cl', 'no', 'nos', 'inc', 'ltd', 'co',
+  'corp', 'llc', 'plc', 'pty', 'e.g', 'i.e', 'etc', 'vs', 'v', 'mr', 'mrs', 'ms', 'dr',
+  'st', 'jr', 'sr', 'cf', 'viz', 'approx', 'dept', 'govt', 'reg', 'regs', 'ch', 'pp',
+  'p', 'fig', 'al', 'sch', 'exh', 'subs', 'ss', 'vol', 'ed', 'jan', 'feb', 'mar', 'apr',
+  'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+])
+
+// Whether a word followed by a period, given without it, is an abbreviation.
+// Single letters and dotted initialisms such as "U.S" or "U.S.C" count too.
+export function isAbbreviation(token: string): boolean {
+  const word = token.toLowerCase()
+  return ABBREVIATIONS.has(word) || /^[a-z]$/i.test(word) || /^[a-z](\.[a-z])+$/i.test(word)
+}
+
+// Sentence split that keeps abbreviations such as "Mr. Smith" or "Sec. 4.2" together
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = []
+  let current = ''
+
+  for (const part of text.replace(/\s+/g, ' ').split(/(?<=[.!?])\s+(?=[A-Z"'(])/)) {
+    current = current ? `${current} ${part}` : part
+    const lastWord = current.match(/([^\s("']+)\.$/)
+    if (!lastWord || !isAbbreviation(lastWord[1])) {
+      sentences.push(current)
+      current = ''
+    }
+  }
+  if (current) {
+    sentences.push(current)
+  }
+
+  return sentences
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0)
+}
+
+// Rough token estimate (about four characters per token for English text)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
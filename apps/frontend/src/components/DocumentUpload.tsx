@@ -65,7 +65,7 @@ const DocumentUpload: React.FC<DocumentUploadProps> = ({
           <Input
             id="file"
             type="file"
-            accept=".pdf,.doc,.docx,.txt"
+            accept=".pdf,.doc,.docx,.odt,.rtf,.html,.htm,.md,.markdown,.txt,.eml,.msg,.png,.jpg,.jpeg,.tif,.tiff"
             onChange={handleFileSelect}
           />
         </div>
@@ -0,0 +1,53 @@
+import React, { useEffect, useRef } from 'react'
+
+export interface DocumentHighlight {
+  startOffset: number
+  endOffset: number
+}
+
+interface DocumentViewerProps {
+  content: string
+  highlight?: DocumentHighlight | null
+  className?: string
+}
+
+// Text view of the extracted document. When a highlight is set the passage is
+// marked and scrolled into view, so citations can jump to their source.
+const DocumentViewer: React.FC<DocumentViewerProps> = ({
+  content,
+  highlight,
+  className = ''
+}) => {
+  const highlightRef = useRef<HTMLElement>(null)
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [highlight?.startOffset, highlight?.endOffset])
+
+  const isValidHighlight = highlight
+    && highlight.startOffset >= 0
+    && highlight.endOffset > highlight.startOffset
+    && highlight.endOffset <= content.length
+
+  return (
+    <div className={`overflow-y-auto whitespace-pre-wrap text-sm leading-relaxed font-serif ${className}`}>
+      {isValidHighlight ? (
+        <>
+          {content.slice(0, highlight.startOffset)}
+          <mark
+            ref={highlightRef}
+            className="bg-legal-gold/30 rounded px-0.5"
+            data-testid="document-highlight"
+          >
+            {content.slice(highlight.startOffset, highlight.endOffset)}
+          </mark>
+          {content.slice(highlight.endOffset)}
+        </>
+      ) : (
+        content
+      )}
+    </div>
+  )
+}
+
+export default DocumentViewer
@@ -3,9 +3,9 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import useChat from '@/hooks/useChat'
-import { ChatMessage as ChatMessageType, ChatMessageType as MessageType } from '@/shared'
-import { Send, Plus, Trash2, Bot, User } from 'lucide-react'
+import useChat, { ChatSessionTarget } from '@/hooks/useChat'
+import { ChatCitation, ChatMessage as ChatMessageType, ChatMessageType as MessageType, ChatSessionSelection } from '@/shared'
+import { Send, Square, Plus, Trash2, Bot, User } from 'lucide-react'
 
 // Simple ScrollArea component
 const ScrollArea: React.FC<{ children: React.ReactNode; className?: string }> = ({ children, className = '' }) => (
@@ -33,21 +33,62 @@ const LoadingSpinner: React.FC<{ size?: 'xs' | 'sm' | 'md' | 'lg' }> = ({ size =
   )
 }
 
+// Chat over one document (documentId), a document set (documentIds), a
+// tag/category selection (workspaceId + selection) or a workspace (workspaceId)
 interface AIchatProps {
-  documentId: string
+  documentId?: string
+  documentIds?: string[]
+  workspaceId?: string
+  selection?: ChatSessionSelection
   documentTitle?: string
   sessionId?: string
   className?: string
+  // Called when a citation is clicked, e.g. to scroll the document viewer
+  onCitationClick?: (citation: ChatCitation) => void
 }
 
 interface ChatMessageProps {
   message: ChatMessageType
   isLast?: boolean
+  onCitationClick?: (citation: ChatCitation) => void
 }
 
-const ChatMessage: React.FC<ChatMessageProps> = ({ message, isLast = false }) => {
+// Turns inline [n] markers into links to the matching citation
+const renderWithCitations = (
+  content: string,
+  citations: ChatCitation[],
+  onCitationClick?: (citation: ChatCitation) => void
+) => {
+  if (citations.length === 0) {
+    return content
+  }
+
+  return content.split(/(\[\d{1,3}\])/).map((part, index) => {
+    const marker = part.match(/^\[(\d{1,3})\]$/)
+    const citation = marker && citations.find(c => c.marker === parseInt(marker[1]))
+
+    if (!citation) {
+      return <React.Fragment key={index}>{part}</React.Fragment>
+    }
+
+    return (
+      <button
+        key={index}
+        type="button"
+        className="align-super text-[10px] font-semibold text-legal-blue hover:underline mx-0.5"
+        title={citation.source || citation.text}
+        onClick={() => onCitationClick?.(citation)}
+      >
+        [{citation.marker}]
+      </button>
+    )
+  })
+}
+
+const ChatMessage: React.FC<ChatMessageProps> = ({ message, isLast = false, onCitationClick }) => {
   const isUser = message.type === MessageType.USER
   const isAssistant = message.type === MessageType.ASSISTANT
+  const citations = isAssistant ? message.citations || [] : []
 
   return (
     <div className={`flex gap-3 ${isUser ? 'justify-end' : 'justify-start'} ${isLast ? 'mb-4' : 'mb-6'}`}>
@@ -64,7 +105,7 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, isLast = false }) =>
             : 'bg-muted border'
         }`}>
           <div className="text-sm whitespace-pre-wrap">
-            {message.content}
+            {renderWithCitations(message.content, citations, onCitationClick)}
           </div>
           
           {message.metadata?.timestamp && (
@@ -77,18 +118,24 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, isLast = false }) =>
         </div>
         
         {/* Citations for AI responses */}
-        {isAssistant && message.citations && message.citations.length > 0 && (
+        {citations.length > 0 && (
           <div className="mt-2 space-y-1">
-            <div className="text-xs text-muted-foreground">Sources:</div>
+            <div className="text-xs text-muted-foreground">
+              {citations.every(citation => citation.verified === false)
+                ? 'Retrieved passages (not cited in the answer):'
+                : 'Sources:'}
+            </div>
             <div className="flex flex-wrap gap-1">
-              {message.citations.map((citation, index) => (
+              {citations.map((citation, index) => (
                 <Badge 
                   key={index} 
                   variant="outline" 
                   className="text-xs cursor-pointer hover:bg-muted"
                   title={citation.text}
+                  onClick={() => onCitationClick?.(citation)}
                 >
-                  Chunk {index + 1}
+                  {citation.marker ? `[${citation.marker}] ` : ''}
+                  {citation.source || `Chunk ${index + 1}`}
                 </Badge>
               ))}
             </div>
@@ -107,9 +154,13 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, isLast = false }) =>
 
 const AIChat: React.FC<AIchatProps> = ({ 
   documentId, 
+  documentIds,
+  workspaceId,
+  selection,
   documentTitle, 
   sessionId: initialSessionId,
-  className = "" 
+  className = "",
+  onCitationClick
 }) => {
   const [messageInput, setMessageInput] = useState('')
   const messagesEndRef = useRef<HTMLDivElement>(null)
@@ -122,8 +173,10 @@ const AIChat: React.FC<AIchatProps> = ({
     isLoadingSessions,
     isLoadingMessages,
     isSendingMessage,
+    streamingReply,
     createSession,
     sendMessage,
+    cancelMessage,
     switchSession,
     deleteSession,
     setCurrentSessionId,
@@ -131,13 +184,22 @@ const AIChat: React.FC<AIchatProps> = ({
     isDeletingSession,
   } = useChat({ 
     sessionId: initialSessionId, 
-    documentId 
+    documentId,
+    workspaceId
   })
 
-  // Auto-scroll to bottom when new messages arrive
+  const sessionTarget: ChatSessionTarget = documentIds
+    ? { documentIds, workspaceId }
+    : selection
+      ? { workspaceId, selection }
+      : documentId
+        ? { documentId }
+        : { workspaceId }
+
+  // Auto-scroll to bottom when new messages or streamed text arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages])
+  }, [messages, streamingReply?.content])
 
   // Focus input when component mounts
   useEffect(() => {
@@ -159,14 +221,12 @@ const AIChat: React.FC<AIchatProps> = ({
 
     try {
       // Create session if none exists
-      if (!currentSession) {
-        await createSession(
-          documentTitle ? `Chat about ${documentTitle}` : 'New Chat Session',
-          documentId
-        )
-      }
+      const session = currentSession ?? await createSession(
+        documentTitle ? `Chat about ${documentTitle}` : 'New Chat Session',
+        sessionTarget
+      )
       
-      await sendMessage(content)
+      await sendMessage(content, session.id)
       inputRef.current?.focus()
     } catch (error) {
       console.error('Failed to send message:', error)
@@ -186,7 +246,7 @@ const AIChat: React.FC<AIchatProps> = ({
     try {
       await createSession(
         documentTitle ? `Chat about ${documentTitle}` : 'New Chat Session',
-        documentId
+        sessionTarget
       )
     } catch (error) {
       console.error('Failed to create session:', error)
@@ -311,7 +371,7 @@ const AIChat: React.FC<AIchatProps> = ({
                 <div className="flex items-center justify-center py-8">
                   <LoadingSpinner size="sm" />
                 </div>
-              ) : messages.length === 0 ? (
+              ) : messages.length === 0 && !streamingReply ? (
                 <div className="flex items-center justify-center h-full">
                   <div className="text-center space-y-4 max-w-md">
                     <div className="w-16 h-16 bg-legal-blue/10 rounded-full flex items-center justify-center mx-auto">
@@ -350,20 +410,28 @@ const AIChat: React.FC<AIchatProps> = ({
                       key={message.id}
                       message={message}
                       isLast={index === messages.length - 1}
+                      onCitationClick={onCitationClick}
                     />
                   ))}
-                  {isSendingMessage && (
-                    <div className="flex items-center gap-3 mb-4">
+                  {streamingReply && (
+                    <div className="flex gap-3 justify-start mb-4">
                       <div className="flex-shrink-0 w-8 h-8 bg-legal-blue/10 rounded-full flex items-center justify-center">
                         <Bot className="w-4 h-4 text-legal-blue" />
                       </div>
-                      <div className="bg-muted border rounded-lg px-4 py-3">
-                        <div className="flex items-center gap-2">
-                          <LoadingSpinner size="xs" />
-                          <span className="text-sm text-muted-foreground">
-                            AI is thinking...
-                          </span>
-                        </div>
+                      <div className="max-w-[70%] bg-muted border rounded-lg px-4 py-3">
+                        {streamingReply.content ? (
+                          <div className="text-sm whitespace-pre-wrap">
+                            {renderWithCitations(streamingReply.content, streamingReply.citations, onCitationClick)}
+                            <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-legal-blue animate-pulse" />
+                          </div>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <LoadingSpinner size="xs" />
+                            <span className="text-sm text-muted-foreground">
+                              AI is thinking...
+                            </span>
+                          </div>
+                        )}
                       </div>
                     </div>
                   )}
@@ -388,17 +456,24 @@ const AIChat: React.FC<AIchatProps> = ({
                   disabled={isSendingMessage}
                   className="flex-1"
                 />
-                <Button
-                  onClick={handleSendMessage}
-                  disabled={!messageInput.trim() || isSendingMessage}
-                  size="icon"
-                >
-                  {isSendingMessage ? (
-                    <LoadingSpinner size="xs" />
-                  ) : (
+                {isSendingMessage ? (
+                  <Button
+                    onClick={cancelMessage}
+                    variant="outline"
+                    size="icon"
+                    title="Stop generating"
+                  >
+                    <Square className="w-4 h-4" />
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleSendMessage}
+                    disabled={!messageInput.trim()}
+                    size="icon"
+                  >
                     <Send className="w-4 h-4" />
-                  )}
-                </Button>
+                  </Button>
+                )}
               </div>
               
               <div className="flex items-center justify-between mt-2 text-xs text-muted-foreground">
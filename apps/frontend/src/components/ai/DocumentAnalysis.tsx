@@ -30,6 +30,8 @@ const DocumentAnalysis: React.FC<DocumentAnalysisProps> = ({ documentId, classNa
   const {
     document,
     analysis,
+    analysisHistory,
+    lastAnalyzed,
     isLoading,
     isAnalyzing,
     analyzeDocument,
@@ -149,6 +151,11 @@ const DocumentAnalysis: React.FC<DocumentAnalysisProps> = ({ documentId, classNa
                     <Clock className="w-3 h-3 mr-1" />
                     {analysis.processingTime}ms
                   </div>
+                  {analysis.model && (
+                    <Badge variant="outline" className="text-xs">
+                      {analysis.provider}/{analysis.model}
+                    </Badge>
+                  )}
                 </>
               )}
               <Button
@@ -273,9 +280,16 @@ const DocumentAnalysis: React.FC<DocumentAnalysisProps> = ({ documentId, classNa
                             className="border rounded-lg p-3 space-y-2"
                           >
                             <div className="font-medium text-sm">{entity.text}</div>
+                            {entity.value && entity.value !== entity.text && (
+                              <div className="text-xs text-muted-foreground">
+                                {entity.currency ? `${entity.currency} ${entity.value}` : entity.value}
+                                {entity.role && ` · ${entity.role}`}
+                              </div>
+                            )}
                             <div className="flex items-center justify-between">
                               <Badge variant="outline" className="text-xs">
                                 {entity.type}
+                                {entity.mentions?.length > 1 && ` ×${entity.mentions.length}`}
                               </Badge>
                               <span className={`text-xs font-medium ${getConfidenceColor(entity.confidence)}`}>
                                 {Math.round(entity.confidence * 100)}%
@@ -318,6 +332,45 @@ const DocumentAnalysis: React.FC<DocumentAnalysisProps> = ({ documentId, classNa
                   </div>
                 </div>
               </div>
+
+              {/* Previous Runs Section */}
+              {analysisHistory.length > 0 && (
+                <div>
+                  <button
+                    onClick={() => toggleSection('history')}
+                    className="flex items-center justify-between w-full text-left p-3 rounded-lg hover:bg-muted/50 transition-colors"
+                  >
+                    <h3 className="font-semibold flex items-center">
+                      <Clock className="w-4 h-4 mr-2 text-muted-foreground" />
+                      Previous Runs ({analysisHistory.length})
+                    </h3>
+                    <span className="text-muted-foreground">
+                      {expandedSection === 'history' ? '−' : '+'}
+                    </span>
+                  </button>
+                  {expandedSection === 'history' && (
+                    <div className="pl-6 pr-3 pb-3 space-y-3">
+                      {analysisHistory.map((run, index) => (
+                        <div key={index} className="border rounded-lg p-3 space-y-1">
+                          <div className="flex items-center justify-between text-xs text-muted-foreground">
+                            <span>{new Date(run.analyzedAt).toLocaleString()}</span>
+                            <span>
+                              {run.provider}/{run.model} · {run.promptVersion}
+                            </span>
+                          </div>
+                          <p className="text-sm line-clamp-2">{run.summary}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {lastAnalyzed && (
+                <div className="text-xs text-muted-foreground text-right">
+                  Last analyzed {new Date(lastAnalyzed).toLocaleString()}
+                </div>
+              )}
             </div>
           )}
         </CardContent>
@@ -32,7 +32,16 @@ const FileUpload: React.FC<FileUploadProps> = ({
     'application/pdf': ['.pdf'],
     'application/msword': ['.doc'],
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
-    'text/plain': ['.txt']
+    'application/vnd.oasis.opendocument.text': ['.odt'],
+    'application/rtf': ['.rtf'],
+    'text/html': ['.html', '.htm'],
+    'text/markdown': ['.md', '.markdown'],
+    'text/plain': ['.txt'],
+    'message/rfc822': ['.eml'],
+    'application/vnd.ms-outlook': ['.msg'],
+    'image/png': ['.png'],
+    'image/jpeg': ['.jpg', '.jpeg'],
+    'image/tiff': ['.tif', '.tiff']
   },
   maxSize = 50 * 1024 * 1024, // 50MB
   maxFiles = 10,
@@ -1,12 +1,23 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useRef } from 'react'
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { api, chatApi } from '@/services/api'
-import type { ChatSession, ChatMessage, CreateChatSession, CreateChatMessage } from '@/shared'
+import type { ChatSession, ChatMessage, ChatCitation, CreateChatSession } from '@/shared'
 import { useErrorHandler } from './useErrorHandler'
 
 export interface UseChatOptions {
   sessionId?: string
   documentId?: string
+  workspaceId?: string
+}
+
+// What a new session answers from: a document, a document set, a tag/category
+// selection or a whole workspace
+export type ChatSessionTarget = Omit<CreateChatSession, 'title'>
+
+// Assistant reply while it is still being streamed
+export interface StreamingReply {
+  content: string
+  citations: ChatCitation[]
 }
 
 export interface ChatState {
@@ -17,14 +28,18 @@ export interface ChatState {
   isLoadingSessions: boolean
   isLoadingMessages: boolean
   isSendingMessage: boolean
+  streamingReply: StreamingReply | null
   error: string | null
 }
 
 export const useChat = (options: UseChatOptions = {}) => {
-  const { sessionId, documentId } = options
+  const { sessionId, documentId, workspaceId } = options
+  const sessionsQueryKey = ['chatSessions', documentId, workspaceId]
   const queryClient = useQueryClient()
   const { handleError, handleApiError } = useErrorHandler()
   const [currentSessionId, setCurrentSessionId] = useState<string | undefined>(sessionId)
+  const [streamingReply, setStreamingReply] = useState<StreamingReply | null>(null)
+  const streamRef = useRef<{ sessionId: string; controller: AbortController } | null>(null)
 
   // Fetch chat sessions
   const {
@@ -32,9 +47,9 @@ export const useChat = (options: UseChatOptions = {}) => {
     isLoading: isLoadingSessions,
     error: sessionsError,
   } = useQuery({
-    queryKey: ['chatSessions', documentId],
+    queryKey: sessionsQueryKey,
     queryFn: async () => {
-      const response = await chatApi.getChatSessions(documentId)
+      const response = await chatApi.getChatSessions({ documentId, workspaceId })
       if (!response.success) {
         throw new Error(response.error?.message || 'Failed to fetch chat sessions')
       }
@@ -93,7 +108,7 @@ export const useChat = (options: UseChatOptions = {}) => {
     },
     onSuccess: (newSession) => {
       // Update cache and set as current session
-      queryClient.setQueryData(['chatSessions', documentId], (old: any) => {
+      queryClient.setQueryData(sessionsQueryKey, (old: any) => {
         if (!old) return { success: true, data: [newSession] }
         return {
           ...old,
@@ -107,34 +122,17 @@ export const useChat = (options: UseChatOptions = {}) => {
     },
   })
 
-  // Send message
-  const sendMessageMutation = useMutation({
-    mutationFn: async (data: CreateChatMessage) => {
-      if (!currentSessionId) {
-        throw new Error('No active chat session')
-      }
-      
-      const messageData = {
-        ...data,
-        sessionId: currentSessionId
-      }
-      
-      const response = await chatApi.sendChatMessage(messageData)
-      if (!response.success) {
-        throw new Error(response.error?.message || 'Failed to send message')
+  // Add stored messages to the cached list without waiting for a refetch
+  const appendMessages = useCallback((targetSessionId: string, newMessages: ChatMessage[]) => {
+    queryClient.setQueryData(['chatMessages', targetSessionId], (old: any) => {
+      if (!old) return old
+      const known = new Set(old.data.map((message: ChatMessage) => message.id))
+      return {
+        ...old,
+        data: [...old.data, ...newMessages.filter(message => !known.has(message.id))]
       }
-      return response.data!
-    },
-    onSuccess: () => {
-      // Refresh messages
-      queryClient.invalidateQueries({
-        queryKey: ['chatMessages', currentSessionId]
-      })
-    },
-    onError: (error) => {
-      handleApiError(error)
-    },
-  })
+    })
+  }, [queryClient])
 
   // Delete session
   const deleteSessionMutation = useMutation({
@@ -146,7 +144,7 @@ export const useChat = (options: UseChatOptions = {}) => {
     },
     onSuccess: (_, deletedSessionId) => {
       // Remove from cache
-      queryClient.setQueryData(['chatSessions', documentId], (old: any) => {
+      queryClient.setQueryData(sessionsQueryKey, (old: any) => {
         if (!old) return old
         return {
           ...old,
@@ -165,23 +163,78 @@ export const useChat = (options: UseChatOptions = {}) => {
   })
 
   // Utility functions
-  const createSession = useCallback(async (title: string, documentId: string) => {
+  const createSession = useCallback(async (title: string, target: ChatSessionTarget) => {
     return createSessionMutation.mutateAsync({
-      documentId,
+      ...target,
       title,
     })
   }, [createSessionMutation])
 
-  const sendMessage = useCallback(async (content: string) => {
-    if (!currentSessionId) {
+  // Streams the reply into streamingReply, then adds the stored messages.
+  // sessionId overrides the current session, e.g. right after creating one.
+  const sendMessage = useCallback(async (content: string, sessionId: string | undefined = currentSessionId) => {
+    if (!sessionId) {
       throw new Error('No active chat session')
     }
-    
-    return sendMessageMutation.mutateAsync({
-      content,
-      sessionId: currentSessionId,
-    })
-  }, [currentSessionId, sendMessageMutation])
+
+    const controller = new AbortController()
+    streamRef.current = { sessionId, controller }
+    setStreamingReply({ content: '', citations: [] })
+
+    try {
+      await chatApi.streamChatMessage({ content, sessionId }, (event) => {
+        switch (event.type) {
+          case 'message':
+            appendMessages(sessionId, [event.data])
+            break
+          case 'citations':
+            setStreamingReply(reply => reply && { ...reply, citations: event.data })
+            break
+          case 'token':
+            setStreamingReply(reply => reply && { ...reply, content: reply.content + event.data })
+            break
+          case 'done':
+            appendMessages(sessionId, [event.data.assistantMessage])
+            break
+          case 'cancelled':
+            if (event.data.assistantMessage) {
+              appendMessages(sessionId, [event.data.assistantMessage])
+            }
+            break
+          case 'error':
+            throw new Error(event.data.message)
+        }
+      }, controller.signal)
+    } catch (error) {
+      // Closing the stream is how a reply is stopped, so that is not a failure
+      if (!controller.signal.aborted) {
+        handleApiError(error)
+        throw error
+      }
+    } finally {
+      streamRef.current = null
+      setStreamingReply(null)
+      queryClient.invalidateQueries({
+        queryKey: ['chatMessages', sessionId]
+      })
+    }
+  }, [currentSessionId, appendMessages, handleApiError, queryClient])
+
+  // Ask the server to stop generating; it then ends the stream with the
+  // partial reply. Dropping the connection is the fallback.
+  const cancelMessage = useCallback(async () => {
+    const stream = streamRef.current
+    if (!stream) return
+
+    try {
+      const response = await chatApi.cancelChatGeneration(stream.sessionId)
+      if (!response.success || !response.data?.cancelled) {
+        stream.controller.abort()
+      }
+    } catch (error) {
+      stream.controller.abort()
+    }
+  }, [])
 
   const switchSession = useCallback((sessionId: string) => {
     setCurrentSessionId(sessionId)
@@ -206,7 +259,8 @@ export const useChat = (options: UseChatOptions = {}) => {
     isLoading: isLoadingSessions || isLoadingSession || isLoadingMessages,
     isLoadingSessions,
     isLoadingMessages,
-    isSendingMessage: sendMessageMutation.isPending,
+    isSendingMessage: streamingReply !== null,
+    streamingReply,
     error: null, // Errors are handled by useErrorHandler
   }
 
@@ -214,6 +268,7 @@ export const useChat = (options: UseChatOptions = {}) => {
     ...state,
     createSession,
     sendMessage,
+    cancelMessage,
     switchSession,
     deleteSession,
     setCurrentSessionId,
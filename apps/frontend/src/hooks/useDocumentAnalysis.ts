@@ -1,7 +1,7 @@
-import { useState, useCallback } from 'react'
+import { useCallback } from 'react'
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { documentApi } from '@/services/api'
-import type { Document, DocumentAnalysisResult } from '@/shared'
+import type { Document, DocumentAnalysisResult, DocumentAnalysisRun } from '@/shared'
 import { useErrorHandler } from './useErrorHandler'
 
 export interface UseDocumentAnalysisOptions {
@@ -11,6 +11,8 @@ export interface UseDocumentAnalysisOptions {
 export interface AnalysisState {
   document: Document | null
   analysis: DocumentAnalysisResult | null
+  analysisHistory: DocumentAnalysisRun[]
+  lastAnalyzed: string | null
   isLoading: boolean
   isAnalyzing: boolean
   error: string | null
@@ -24,7 +26,6 @@ export const useDocumentAnalysis = (options: UseDocumentAnalysisOptions) => {
   const { documentId } = options
   const queryClient = useQueryClient()
   const { handleError, handleApiError } = useErrorHandler()
-  const [analysisResult, setAnalysisResult] = useState<DocumentAnalysisResult | null>(null)
 
   // Fetch document details
   const {
@@ -45,6 +46,23 @@ export const useDocumentAnalysis = (options: UseDocumentAnalysisOptions) => {
     staleTime: 1000 * 60 * 10, // 10 minutes
   })
 
+  // Fetch stored analysis and its run history
+  const {
+    data: analysisResponse,
+    isLoading: isLoadingAnalysis,
+  } = useQuery({
+    queryKey: ['documentAnalysis', documentId],
+    queryFn: async () => {
+      const response = await documentApi.getDocumentAnalysis(documentId)
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch document analysis')
+      }
+      return response
+    },
+    enabled: !!documentId,
+    retry: 2,
+  })
+
   // Analyze document
   const analyzeDocumentMutation = useMutation({
     mutationFn: async () => {
@@ -55,21 +73,20 @@ export const useDocumentAnalysis = (options: UseDocumentAnalysisOptions) => {
       return response.data
     },
     onSuccess: (analysis) => {
-      setAnalysisResult(analysis)
-      // Update the document in cache with analysis results
-      queryClient.setQueryData(['document', documentId], (old: any) => {
-        if (!old) return old
-        return {
-          ...old,
-          data: {
-            ...old.data,
-            metadata: {
-              ...old.data.metadata,
-              lastAnalysis: analysis,
-              lastAnalyzed: new Date().toISOString()
-            }
-          }
-        }
+      // Show the new result immediately, then refetch to pick up the updated history
+      queryClient.setQueryData(['documentAnalysis', documentId], (old: any) => ({
+        ...old,
+        success: true,
+        data: {
+          history: [],
+          ...old?.data,
+          hasAnalysis: true,
+          analysis,
+          lastAnalyzed: analysis?.analyzedAt || new Date().toISOString(),
+        },
+      }))
+      queryClient.invalidateQueries({
+        queryKey: ['documentAnalysis', documentId]
       })
     },
     onError: (error) => {
@@ -110,6 +127,9 @@ export const useDocumentAnalysis = (options: UseDocumentAnalysisOptions) => {
     queryClient.invalidateQueries({
       queryKey: ['document', documentId]
     })
+    queryClient.invalidateQueries({
+      queryKey: ['documentAnalysis', documentId]
+    })
   }, [queryClient, documentId])
 
   // Handle errors
@@ -119,8 +139,10 @@ export const useDocumentAnalysis = (options: UseDocumentAnalysisOptions) => {
 
   const state: AnalysisState = {
     document: documentResponse?.data || null,
-    analysis: analysisResult || documentResponse?.data?.metadata?.lastAnalysis || null,
-    isLoading: isLoadingDocument,
+    analysis: analysisResponse?.data?.analysis || null,
+    analysisHistory: analysisResponse?.data?.history || [],
+    lastAnalyzed: analysisResponse?.data?.lastAnalyzed || null,
+    isLoading: isLoadingDocument || isLoadingAnalysis,
     isAnalyzing: analyzeDocumentMutation.isPending,
     error: null, // Errors are handled by useErrorHandler
   }
@@ -9,6 +9,12 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Search, Filter, Download, Eye, MessageSquare, BarChart3, Trash2 } from 'lucide-react'
+import { useParams } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { documentApi } from '@/services/api'
+import DocumentViewer, { DocumentHighlight } from '@/components/DocumentViewer'
+import AIChat from '@/components/ai/AIChat'
+import type { ChatCitation } from '@/shared'
 
 const DocumentsPage: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('')
@@ -259,6 +265,30 @@ const DocumentsPage: React.FC = () => {
 }
 
 const DocumentViewerPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>()
+  const [highlight, setHighlight] = useState<DocumentHighlight | null>(null)
+
+  const { data: documentData, isLoading } = useQuery({
+    queryKey: ['document', id],
+    queryFn: async () => {
+      const response = await documentApi.getDocument(id!)
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to fetch document')
+      }
+      return response.data
+    },
+    enabled: !!id,
+  })
+
+  const handleCitationClick = (citation: ChatCitation) => {
+    // Only passages from the document on screen can be highlighted
+    if (citation.documentId && citation.documentId !== id) return
+
+    if (citation.startOffset !== undefined && citation.endOffset !== undefined) {
+      setHighlight({ startOffset: citation.startOffset, endOffset: citation.endOffset })
+    }
+  }
+
   return (
     <div className="space-y-6 animate-fade-in">
       <div className="flex items-center space-x-4">
@@ -276,25 +306,39 @@ const DocumentViewerPage: React.FC = () => {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div>
-                  <CardTitle>Employment Agreement 2024.pdf</CardTitle>
-                  <CardDescription>Contract • 2.4 MB • Uploaded Jan 15, 2024</CardDescription>
+                  <CardTitle>{documentData?.title || 'Employment Agreement 2024.pdf'}</CardTitle>
+                  <CardDescription>
+                    {documentData
+                      ? `${documentData.originalName} • Uploaded ${new Date(documentData.createdAt).toLocaleDateString()}`
+                      : 'Contract • 2.4 MB • Uploaded Jan 15, 2024'}
+                  </CardDescription>
                 </div>
                 <Badge variant="success">Processed</Badge>
               </div>
             </CardHeader>
-            <CardContent className="h-[500px] bg-muted/30 rounded-lg flex items-center justify-center">
-              <div className="text-center space-y-4">
-                <div className="w-16 h-16 bg-legal-blue/10 rounded-lg flex items-center justify-center mx-auto">
-                  <svg className="w-8 h-8 text-legal-blue" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                  </svg>
-                </div>
-                <div>
-                  <h3 className="font-semibold text-lg">Document Viewer</h3>
-                  <p className="text-muted-foreground">PDF viewer will be integrated here</p>
+            {isLoading ? (
+              <CardContent className="h-[500px] flex items-center justify-center">
+                <LoadingSpinner size="lg" />
+              </CardContent>
+            ) : documentData?.content ? (
+              <CardContent className="h-[500px]">
+                <DocumentViewer content={documentData.content} highlight={highlight} className="h-full pr-2" />
+              </CardContent>
+            ) : (
+              <CardContent className="h-[500px] bg-muted/30 rounded-lg flex items-center justify-center">
+                <div className="text-center space-y-4">
+                  <div className="w-16 h-16 bg-legal-blue/10 rounded-lg flex items-center justify-center mx-auto">
+                    <svg className="w-8 h-8 text-legal-blue" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                    </svg>
+                  </div>
+                  <div>
+                    <h3 className="font-semibold text-lg">Document Viewer</h3>
+                    <p className="text-muted-foreground">PDF viewer will be integrated here</p>
+                  </div>
                 </div>
-              </div>
-            </CardContent>
+              </CardContent>
+            )}
           </Card>
         </div>
         
@@ -351,6 +395,16 @@ const DocumentViewerPage: React.FC = () => {
           </Card>
         </div>
       </div>
+
+      {id && documentData && (
+        <div className="h-[600px]">
+          <AIChat
+            documentId={id}
+            documentTitle={documentData.title}
+            onCitationClick={handleCitationClick}
+          />
+        </div>
+      )}
     </div>
   )
 }
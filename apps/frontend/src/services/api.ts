@@ -12,17 +12,51 @@ import {
   CreateChatSession,
   ChatMessage,
   CreateChatMessage,
+  ChatStreamEvent,
+  ClauseSearchResult,
+  ClauseType,
+  DocumentClause,
   DocumentComparison,
   CreateComparison,
+  ComparisonMatrix,
+  CreateComparisonMatrix,
+  DocumentAnalysisResult,
+  DocumentAnalysisStatus,
+  DocumentPipelineStage,
+  DocumentProcessingState,
+  DocumentVersion,
+  CreateDocumentVersion,
+  DocumentPage,
+  DocumentPageContent,
   AnalyticsMetrics,
+  Obligation,
+  ObligationKind,
+  ObligationStatus,
+  UserNotification,
   Workspace,
   CreateWorkspace,
   UpdateWorkspace,
+  AIProviderInfo,
+  Playbook,
+  RiskAssessment,
+  DocumentTemplate,
+  CreateTemplate,
+  UpdateTemplate,
+  TemplateComparison,
+  RiskLevel,
   PaginationParams,
   FilterParams,
   SortParams
 } from '@/shared'
 
+interface ObligationCalendarParams {
+  from?: string
+  to?: string
+  kind?: ObligationKind
+  status?: ObligationStatus
+  documentId?: string
+}
+
 class ApiClient {
   private client: AxiosInstance
 
@@ -60,26 +94,8 @@ class ApiClient {
         if (error.response?.status === 401 && !originalRequest._retry) {
           originalRequest._retry = true
           
-          try {
-            const refreshToken = localStorage.getItem('refreshToken')
-            if (!refreshToken) {
-              throw new Error('No refresh token')
-            }
-            
-            const response = await axios.post('/api/auth/refresh', {
-              refreshToken
-            })
-            
-            const { accessToken } = response.data.data
-            localStorage.setItem('accessToken', accessToken)
-            
-            return this.client(originalRequest)
-          } catch (refreshError) {
-            localStorage.removeItem('accessToken')
-            localStorage.removeItem('refreshToken')
-            window.location.href = '/login'
-            return Promise.reject(refreshError)
-          }
+          await this.refreshAccessToken()
+          return this.client(originalRequest)
         }
         
         return Promise.reject(error)
@@ -87,6 +103,29 @@ class ApiClient {
     )
   }
 
+  // Exchanges the refresh token for a new access token, or signs out when
+  // that is no longer possible
+  private async refreshAccessToken(): Promise<void> {
+    try {
+      const refreshToken = localStorage.getItem('refreshToken')
+      if (!refreshToken) {
+        throw new Error('No refresh token')
+      }
+      
+      const response = await axios.post('/api/auth/refresh', {
+        refreshToken
+      })
+      
+      const { accessToken } = response.data.data
+      localStorage.setItem('accessToken', accessToken)
+    } catch (refreshError) {
+      localStorage.removeItem('accessToken')
+      localStorage.removeItem('refreshToken')
+      window.location.href = '/login'
+      throw refreshError
+    }
+  }
+
   // Generic HTTP methods
   async get<T>(url: string, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
     const response: AxiosResponse<ApiResponse<T>> = await this.client.get(url, config)
@@ -159,6 +198,64 @@ class ApiClient {
     return this.delete<void>(`/workspaces/${id}`)
   }
 
+  async getAIProviders(): Promise<ApiResponse<AIProviderInfo[]>> {
+    return this.get<AIProviderInfo[]>('/workspaces/ai-providers')
+  }
+
+  async searchClauses(
+    workspaceId: string,
+    params?: PaginationParams & { type?: ClauseType; q?: string; minConfidence?: number }
+  ): Promise<ApiResponse<ClauseSearchResult[]>> {
+    return this.get<ClauseSearchResult[]>(`/workspaces/${workspaceId}/clauses`, { params })
+  }
+
+  async getPlaybook(workspaceId: string): Promise<ApiResponse<Playbook>> {
+    return this.get<Playbook>(`/workspaces/${workspaceId}/playbook`)
+  }
+
+  async updatePlaybook(workspaceId: string, playbook: Playbook): Promise<ApiResponse<Playbook>> {
+    return this.put<Playbook>(`/workspaces/${workspaceId}/playbook`, playbook)
+  }
+
+  async getTemplates(workspaceId: string): Promise<ApiResponse<DocumentTemplate[]>> {
+    return this.get<DocumentTemplate[]>(`/workspaces/${workspaceId}/templates`)
+  }
+
+  async getTemplate(workspaceId: string, templateId: string): Promise<ApiResponse<DocumentTemplate>> {
+    return this.get<DocumentTemplate>(`/workspaces/${workspaceId}/templates/${templateId}`)
+  }
+
+  async createTemplate(workspaceId: string, data: CreateTemplate): Promise<ApiResponse<DocumentTemplate>> {
+    return this.post<DocumentTemplate>(`/workspaces/${workspaceId}/templates`, data)
+  }
+
+  async updateTemplate(workspaceId: string, templateId: string, data: UpdateTemplate): Promise<ApiResponse<DocumentTemplate>> {
+    return this.put<DocumentTemplate>(`/workspaces/${workspaceId}/templates/${templateId}`, data)
+  }
+
+  async deleteTemplate(workspaceId: string, templateId: string): Promise<ApiResponse<void>> {
+    return this.delete<void>(`/workspaces/${workspaceId}/templates/${templateId}`)
+  }
+
+  async compareToTemplate(workspaceId: string, templateId: string, documentId: string): Promise<ApiResponse<TemplateComparison>> {
+    return this.post<TemplateComparison>(`/workspaces/${workspaceId}/templates/${templateId}/compare`, { documentId })
+  }
+
+  async getObligations(
+    workspaceId: string,
+    params?: PaginationParams & ObligationCalendarParams & { undated?: boolean }
+  ): Promise<ApiResponse<Obligation[]>> {
+    return this.get<Obligation[]>(`/workspaces/${workspaceId}/obligations`, { params })
+  }
+
+  async exportObligationsCalendar(workspaceId: string, params?: ObligationCalendarParams): Promise<Blob> {
+    const response = await this.client.get(`/workspaces/${workspaceId}/obligations`, {
+      params: { ...params, format: 'ics' },
+      responseType: 'blob',
+    })
+    return response.data
+  }
+
   // Document API
   async getDocuments(
     params?: PaginationParams & FilterParams & SortParams
@@ -202,8 +299,79 @@ class ApiClient {
     return this.delete<void>(`/documents/${id}`)
   }
 
-  async analyzeDocument(id: string): Promise<ApiResponse<any>> {
-    return this.post<any>(`/documents/${id}/analyze`)
+  async analyzeDocument(id: string): Promise<ApiResponse<DocumentAnalysisResult>> {
+    return this.post<DocumentAnalysisResult>(`/documents/${id}/analyze`)
+  }
+
+  async getDocumentAnalysis(id: string): Promise<ApiResponse<DocumentAnalysisStatus>> {
+    return this.get<DocumentAnalysisStatus>(`/documents/${id}/analysis`)
+  }
+
+  async getDocumentClauses(id: string, type?: ClauseType): Promise<ApiResponse<DocumentClause[]>> {
+    return this.get<DocumentClause[]>(`/documents/${id}/clauses`, { params: { type } })
+  }
+
+  async getDocumentRisk(id: string): Promise<ApiResponse<{
+    riskScore: number | null
+    riskLevel: RiskLevel | null
+    assessment: RiskAssessment | null
+  }>> {
+    return this.get(`/documents/${id}/risk`)
+  }
+
+  async assessDocumentRisk(id: string): Promise<ApiResponse<RiskAssessment>> {
+    return this.post<RiskAssessment>(`/documents/${id}/risk`)
+  }
+
+  async getDocumentObligations(id: string): Promise<ApiResponse<Obligation[]>> {
+    return this.get<Obligation[]>(`/documents/${id}/obligations`)
+  }
+
+  async updateObligationStatus(
+    id: string,
+    obligationId: string,
+    status: ObligationStatus
+  ): Promise<ApiResponse<Obligation>> {
+    return this.patch<Obligation>(`/documents/${id}/obligations/${obligationId}`, { status })
+  }
+
+  async getProcessingState(id: string): Promise<ApiResponse<DocumentProcessingState>> {
+    return this.get<DocumentProcessingState>(`/documents/${id}/processing`)
+  }
+
+  async reprocessDocument(id: string, stage: DocumentPipelineStage): Promise<ApiResponse<DocumentProcessingState>> {
+    return this.post<DocumentProcessingState>(`/documents/${id}/processing/${stage}`)
+  }
+
+  async uploadDocumentVersion(id: string, file: File, data?: CreateDocumentVersion): Promise<ApiResponse<Document>> {
+    const formData = new FormData()
+    formData.append('file', file)
+
+    if (data?.note) {
+      formData.append('note', data.note)
+    }
+
+    return this.post<Document>(`/documents/${id}/versions`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    })
+  }
+
+  async getDocumentVersions(id: string): Promise<ApiResponse<DocumentVersion[]>> {
+    return this.get<DocumentVersion[]>(`/documents/${id}/versions`)
+  }
+
+  async restoreDocumentVersion(id: string, versionId: string): Promise<ApiResponse<Document>> {
+    return this.post<Document>(`/documents/${id}/versions/${versionId}/restore`)
+  }
+
+  async getDocumentPages(id: string): Promise<ApiResponse<DocumentPage[]>> {
+    return this.get<DocumentPage[]>(`/documents/${id}/pages`)
+  }
+
+  async getDocumentPage(id: string, page: number): Promise<ApiResponse<DocumentPageContent>> {
+    return this.get<DocumentPageContent>(`/documents/${id}/pages/${page}`)
   }
 
   async downloadDocument(id: string): Promise<Blob> {
@@ -214,8 +382,7 @@ class ApiClient {
   }
 
   // Chat API
-  async getChatSessions(documentId?: string): Promise<ApiResponse<ChatSession[]>> {
-    const params = documentId ? { documentId } : undefined
+  async getChatSessions(params?: { documentId?: string; workspaceId?: string }): Promise<ApiResponse<ChatSession[]>> {
     return this.get<ChatSession[]>('/chat/sessions', { params })
   }
 
@@ -235,6 +402,81 @@ class ApiClient {
     return this.post<ChatMessage>('/chat/messages', data)
   }
 
+  // Posts a chat message and reads the reply as server-sent events. Aborting
+  // signal closes the connection, which also stops generation on the server.
+  async streamChatMessage(
+    data: CreateChatMessage,
+    onEvent: (event: ChatStreamEvent) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const post = () => {
+      const token = localStorage.getItem('accessToken')
+      return fetch(`${this.client.defaults.baseURL}/chat/messages/stream`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify(data),
+        signal,
+      })
+    }
+
+    // fetch bypasses the axios interceptors, so refresh an expired token here
+    let response = await post()
+    if (response.status === 401) {
+      await this.refreshAccessToken()
+      response = await post()
+    }
+
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => null)
+      throw new Error(body?.error?.message || 'Failed to send message')
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    for (;;) {
+      const { value, done } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+
+      // Events are separated by a blank line
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        const event = this.parseServerSentEvent(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+        if (event) onEvent(event)
+        boundary = buffer.indexOf('\n\n')
+      }
+    }
+  }
+
+  async cancelChatGeneration(sessionId: string): Promise<ApiResponse<{ cancelled: boolean }>> {
+    return this.post<{ cancelled: boolean }>(`/chat/sessions/${sessionId}/cancel`)
+  }
+
+  private parseServerSentEvent(block: string): ChatStreamEvent | null {
+    let type = ''
+    let data = ''
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event: ')) {
+        type = line.slice(7)
+      } else if (line.startsWith('data: ')) {
+        data += line.slice(6)
+      }
+    }
+
+    // Comment-only blocks are keep-alive pings
+    if (!type || !data) return null
+    return { type, data: JSON.parse(data) } as ChatStreamEvent
+  }
+
   async deleteChatSession(id: string): Promise<ApiResponse<void>> {
     return this.delete<void>(`/chat/sessions/${id}`)
   }
@@ -256,6 +498,38 @@ class ApiClient {
     return this.delete<void>(`/comparisons/${id}`)
   }
 
+  async exportComparison(id: string, format: 'docx' | 'pdf' | 'html' = 'docx'): Promise<Blob> {
+    const response = await this.client.get(`/comparisons/${id}/export`, {
+      params: { format },
+      responseType: 'blob',
+    })
+    return response.data
+  }
+
+  async createComparisonMatrix(data: CreateComparisonMatrix): Promise<ApiResponse<ComparisonMatrix>> {
+    return this.post<ComparisonMatrix>('/comparisons/matrix', data)
+  }
+
+  async getComparisonMatrix(id: string): Promise<ApiResponse<ComparisonMatrix>> {
+    return this.get<ComparisonMatrix>(`/comparisons/matrix/${id}`)
+  }
+
+  async getComparisonMatrices(params?: PaginationParams & { documentId?: string }): Promise<ApiResponse<ComparisonMatrix[]>> {
+    return this.get<ComparisonMatrix[]>('/comparisons/matrix', { params })
+  }
+
+  async deleteComparisonMatrix(id: string): Promise<ApiResponse<void>> {
+    return this.delete<void>(`/comparisons/matrix/${id}`)
+  }
+
+  async exportComparisonMatrix(id: string, format: 'docx' | 'pdf' | 'html' = 'docx'): Promise<Blob> {
+    const response = await this.client.get(`/comparisons/matrix/${id}/export`, {
+      params: { format },
+      responseType: 'blob',
+    })
+    return response.data
+  }
+
   // Analytics API
   async getDashboardMetrics(): Promise<ApiResponse<AnalyticsMetrics>> {
     return this.get<AnalyticsMetrics>('/analytics/dashboard')
@@ -273,6 +547,21 @@ class ApiClient {
   }): Promise<ApiResponse<any>> {
     return this.get<any>('/analytics/performance', { params })
   }
+
+  // Notification API
+  async getNotifications(
+    params?: PaginationParams & { unread?: boolean }
+  ): Promise<ApiResponse<UserNotification[]> & { unread?: number }> {
+    return this.get<UserNotification[]>('/notifications', { params })
+  }
+
+  async markNotificationRead(id: string): Promise<ApiResponse<UserNotification>> {
+    return this.post<UserNotification>(`/notifications/${id}/read`)
+  }
+
+  async markAllNotificationsRead(): Promise<ApiResponse<{ count: number }>> {
+    return this.post<{ count: number }>('/notifications/read-all')
+  }
 }
 
 // Create singleton instance
@@ -305,6 +594,18 @@ export const workspaceApi = {
   getWorkspace: apiClient.getWorkspace.bind(apiClient),
   updateWorkspace: apiClient.updateWorkspace.bind(apiClient),
   deleteWorkspace: apiClient.deleteWorkspace.bind(apiClient),
+  getAIProviders: apiClient.getAIProviders.bind(apiClient),
+  searchClauses: apiClient.searchClauses.bind(apiClient),
+  getPlaybook: apiClient.getPlaybook.bind(apiClient),
+  updatePlaybook: apiClient.updatePlaybook.bind(apiClient),
+  getTemplates: apiClient.getTemplates.bind(apiClient),
+  getTemplate: apiClient.getTemplate.bind(apiClient),
+  createTemplate: apiClient.createTemplate.bind(apiClient),
+  updateTemplate: apiClient.updateTemplate.bind(apiClient),
+  deleteTemplate: apiClient.deleteTemplate.bind(apiClient),
+  compareToTemplate: apiClient.compareToTemplate.bind(apiClient),
+  getObligations: apiClient.getObligations.bind(apiClient),
+  exportObligationsCalendar: apiClient.exportObligationsCalendar.bind(apiClient),
 }
 
 export const documentApi = {
@@ -314,6 +615,19 @@ export const documentApi = {
   updateDocument: apiClient.updateDocument.bind(apiClient),
   deleteDocument: apiClient.deleteDocument.bind(apiClient),
   analyzeDocument: apiClient.analyzeDocument.bind(apiClient),
+  getDocumentAnalysis: apiClient.getDocumentAnalysis.bind(apiClient),
+  getDocumentClauses: apiClient.getDocumentClauses.bind(apiClient),
+  getDocumentRisk: apiClient.getDocumentRisk.bind(apiClient),
+  assessDocumentRisk: apiClient.assessDocumentRisk.bind(apiClient),
+  getDocumentObligations: apiClient.getDocumentObligations.bind(apiClient),
+  updateObligationStatus: apiClient.updateObligationStatus.bind(apiClient),
+  getProcessingState: apiClient.getProcessingState.bind(apiClient),
+  reprocessDocument: apiClient.reprocessDocument.bind(apiClient),
+  uploadDocumentVersion: apiClient.uploadDocumentVersion.bind(apiClient),
+  getDocumentVersions: apiClient.getDocumentVersions.bind(apiClient),
+  restoreDocumentVersion: apiClient.restoreDocumentVersion.bind(apiClient),
+  getDocumentPages: apiClient.getDocumentPages.bind(apiClient),
+  getDocumentPage: apiClient.getDocumentPage.bind(apiClient),
   downloadDocument: apiClient.downloadDocument.bind(apiClient),
 }
 
@@ -323,6 +637,8 @@ export const chatApi = {
   getChatSession: apiClient.getChatSession.bind(apiClient),
   getChatMessages: apiClient.getChatMessages.bind(apiClient),
   sendChatMessage: apiClient.sendChatMessage.bind(apiClient),
+  streamChatMessage: apiClient.streamChatMessage.bind(apiClient),
+  cancelChatGeneration: apiClient.cancelChatGeneration.bind(apiClient),
   deleteChatSession: apiClient.deleteChatSession.bind(apiClient),
 }
 
@@ -331,10 +647,22 @@ export const comparisonApi = {
   getComparison: apiClient.getComparison.bind(apiClient),
   getComparisons: apiClient.getComparisons.bind(apiClient),
   deleteComparison: apiClient.deleteComparison.bind(apiClient),
+  exportComparison: apiClient.exportComparison.bind(apiClient),
+  createComparisonMatrix: apiClient.createComparisonMatrix.bind(apiClient),
+  getComparisonMatrix: apiClient.getComparisonMatrix.bind(apiClient),
+  getComparisonMatrices: apiClient.getComparisonMatrices.bind(apiClient),
+  deleteComparisonMatrix: apiClient.deleteComparisonMatrix.bind(apiClient),
+  exportComparisonMatrix: apiClient.exportComparisonMatrix.bind(apiClient),
 }
 
 export const analyticsApi = {
   getDashboardMetrics: apiClient.getDashboardMetrics.bind(apiClient),
   getUsageStats: apiClient.getUsageStats.bind(apiClient),
   getPerformanceMetrics: apiClient.getPerformanceMetrics.bind(apiClient),
-}
\ No newline at end of file
+}
+
+export const notificationApi = {
+  getNotifications: apiClient.getNotifications.bind(apiClient),
+  markNotificationRead: apiClient.markNotificationRead.bind(apiClient),
+  markAllNotificationsRead: apiClient.markAllNotificationsRead.bind(apiClient),
+}